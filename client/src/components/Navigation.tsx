@@ -4,7 +4,15 @@ import { useAuth } from '../contexts/useAuth';
 
 export default function Navigation() {
   const location = useLocation();
-  const { isAuthenticated, company, user, logout } = useAuth();
+  const { isAuthenticated, company, companies, user, switchCompany, logout } = useAuth();
+
+  const handleSwitch = async (companyId: string) => {
+    try {
+      await switchCompany(companyId);
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : 'Failed to switch company');
+    }
+  };
 
   const navItems = [
     { path: '/', label: 'Home', icon: '🏠︎' },
@@ -47,7 +55,19 @@ export default function Navigation() {
           </div>
 
           <div className="flex items-center space-x-4">
-            {isAuthenticated && company && (
+            {/* Company switcher, for users who belong to more than one company */}
+            {isAuthenticated && companies.length > 1 ? (
+              <select
+                value={company?.id ?? ''}
+                onChange={(e) => handleSwitch(e.target.value)}
+                className="text-sm font-medium bg-white text-gray-900 border border-slate-300 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {!company && <option value="">Select a company</option>}
+                {companies.map((option) => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+            ) : isAuthenticated && company && (
               <div className="text-sm text-slate-200">
                 <span className="font-medium">{company.name}</span>
               </div>
@@ -1,11 +1,13 @@
 import { createContext, useState, useEffect, type ReactNode } from 'react';
-import api from '../lib/api';
+import api, { type CompanyOption, type Role, type SignupCompany } from '../lib/api';
 
 export interface User {
   id: string;
   email: string;
   name: string;
-  role: 'ADMIN' | 'EMPLOYEE';
+  // the role in the active company
+  role: Role | null;
+  // the session's active company
   companyId: string | null;
 }
 
@@ -18,20 +20,27 @@ export interface Company {
 export interface AuthData {
   user: User | null;
   company: Company | null;
+  // the companies the user can switch to; every company for platform admins
+  companies: CompanyOption[];
   isAuthenticated: boolean;
   isLoading: boolean;
   login: (email: string, password: string) => Promise<void>;
-  signup: (email: string, password: string, name: string, companyName?: string, companyDomain?: string, role?: 'ADMIN' | 'EMPLOYEE') => Promise<void>;
+  signup: (email: string, password: string, name: string, company: SignupCompany) => Promise<void>;
+  switchCompany: (companyId: string) => Promise<void>;
+  acceptInvitation: (token: string) => Promise<void>;
   logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthData>({
   user: null,
   company: null,
+  companies: [],
   isAuthenticated: false,
   isLoading: true,
   login: async () => {},
   signup: async () => {},
+  switchCompany: async () => {},
+  acceptInvitation: async () => {},
   logout: async () => {},
 });
 
@@ -40,6 +49,7 @@ export { AuthContext };
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [company, setCompany] = useState<Company | null>(null);
+  const [companies, setCompanies] = useState<CompanyOption[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   const checkAuth = async () => {
@@ -69,6 +79,12 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         } else {
           setCompany(null);
         }
+
+        try {
+          setCompanies(await api.getCompanies());
+        } catch {
+          setCompanies([]);
+        }
       }
     } catch {
       // Not authenticated
@@ -86,8 +102,18 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     await checkAuth();
   };
 
-  const signup = async (email: string, password: string, name: string, companyName?: string, companyDomain?: string, role?: 'ADMIN' | 'EMPLOYEE') => {
-    await api.signup(email, password, name, companyName, companyDomain, role);
+  const signup = async (email: string, password: string, name: string, company: SignupCompany) => {
+    await api.signup(email, password, name, company);
+    await checkAuth();
+  };
+
+  const switchCompany = async (companyId: string) => {
+    await api.switchCompany(companyId);
+    await checkAuth();
+  };
+
+  const acceptInvitation = async (token: string) => {
+    await api.acceptInvitation(token);
     await checkAuth();
   };
 
@@ -95,16 +121,20 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     await api.logout();
     setUser(null);
     setCompany(null);
+    setCompanies([]);
   };
 
   return (
     <AuthContext.Provider value={{
       user,
       company,
+      companies,
       isAuthenticated: !!user,
       isLoading,
       login,
       signup,
+      switchCompany,
+      acceptInvitation,
       logout,
     }}>
       {children}
@@ -1,46 +1,421 @@
-export type Role = "ADMIN" | "EMPLOYEE";
+// PLATFORM_ADMIN is the platform operator and the only role that reaches other companies
+export type Role = "VIEWER" | "CONTRIBUTOR" | "APPROVER" | "COMPANY_ADMIN" | "PLATFORM_ADMIN";
 
-export type Me = { id: string; email: string; name: string; role: Role; companyId: string | null };
+// Roles a company admin can give
+export type CompanyRole = Exclude<Role, "PLATFORM_ADMIN">;
 
-export type Department =
-    | "ENGINEERING"
-    | "SALES"
-    | "FINANCE"
-    | "HR"
-    | "MARKETING"
-    | "OPERATIONS";
+export type Member = { id: string; name: string; email: string; role: Role; createdAt: string };
 
-export type Tower = "APP_DEV" | "CLOUD" | "END_USER";
+export type PeriodLock = {
+    id: string;
+    companyId: string;
+    period: string;
+    granularity: PeriodGranularity;
+    periodLabel: string;
+    lockedBy: { id: string; name: string } | null;
+    createdAt: string;
+};
+
+export type InvitationStatus = "PENDING" | "ACCEPTED" | "REVOKED" | "EXPIRED";
+
+export type Invitation = {
+    id: string;
+    companyId: string;
+    email: string;
+    role: CompanyRole;
+    status: InvitationStatus;
+    expiresAt: string;
+    acceptedAt: string | null;
+    revokedAt: string | null;
+    invitedById: string | null;
+    createdAt: string;
+};
+
+// What an invitation link offers, shown before signing up
+export type InvitationPreview = { email: string; role: CompanyRole; companyName: string; expiresAt: string };
+
+// Signup joins the invitation's company, or without one creates a new company
+export type SignupCompany = { inviteToken: string } | { companyName: string; companyDomain?: string };
+
+// role and companyId are the session's active company and the user's role in it; role is null without a company
+export type Me = { id: string; email: string; name: string; role: Role | null; companyId: string | null };
+
+// A company the user can switch to, with their role in it
+export type CompanyOption = { id: string; name: string; domain: string | null; role: Role };
+
+export type CostPool = {
+    id: string;
+    companyId: string;
+    code: string;
+    name: string;
+    description: string | null;
+    sortOrder: number;
+    archived: boolean;
+    escalationRate: number; // yearly cost growth used in forecasts, e.g. 0.04 = +4%/yr
+};
+
+export type CostPoolRef = Pick<CostPool, "id" | "code" | "name">;
+
+export type Tower =
+    | "APP_DEV"
+    | "SERVICE_DESK"
+    | "DATA_CENTER"
+    | "NETWORK"
+    | "END_USER"
+    | "SECURITY"
+    | "CLOUD"
+    | "OTHER";
+
+export type PeriodGranularity = "MONTH" | "QUARTER" | "YEAR";
+
+// Which L1 amounts a calculation runs on; forecasts fall back to plan
+export type CostBasis = "PLAN" | "FORECAST" | "ACTUAL";
+
+// ISO 4217 code, e.g. "AUD"
+export type CurrencyCode = string;
+
+export type CompanySettings = { id: string; fiscalYearStartMonth: number; reportingCurrency: CurrencyCode };
+
+// 1 fromCurrency = rate toCurrency, from the month given until a later rate
+export type FxRate = {
+    id: string;
+    period: string; // YYYY-MM
+    fromCurrency: CurrencyCode;
+    toCurrency: CurrencyCode;
+    rate: number;
+    updatedAt: string;
+};
+
+export type AllocationDriver = "HEADCOUNT" | "TICKETS" | "COMPUTE_HOURS" | "STORAGE_GB";
+
+// A cost pool whose company-wide L2 weights are derived from driver values
+export type AllocationRule = {
+    id: string;
+    companyId: string;
+    costPoolId: string;
+    driver: AllocationDriver;
+    towers: string[] | null; // null = every active tower
+    costPool: CostPoolRef;
+};
+
+// Weights a rule derived for a period; null when the towers in scope had no volume
+export type RuleApplication = {
+    costPoolId: string;
+    periodLabel: string;
+    granularity: PeriodGranularity;
+    weights: Record<string, number> | null;
+};
+
+export type DriverValues = {
+    companyId: string;
+    periodLabel: string;
+    granularity: PeriodGranularity;
+    values: Partial<Record<AllocationDriver, Record<string, number>>>; // driver -> tower code -> value
+};
+
+export type L3Category = "PRODUCTIVITY" | "REVENUE_UPLIFT" | "RISK_AVOIDANCE" | "COST_AVOIDANCE" | "OTHER";
+
+// Company-defined towers and benefit categories, each mapped to a standard value above
+export type CompanyTower = {
+    id: string;
+    companyId: string;
+    code: string;
+    name: string;
+    description: string | null;
+    includes: string[];
+    standardTower: Tower;
+    sortOrder: number;
+    archived: boolean;
+};
+
+// How a category's benefit builds up over the projection, in months
+export type BenefitRamp = "IMMEDIATE" | "LINEAR" | "S_CURVE" | "STEP" | "CUSTOM";
+
+export type CompanyBenefitCategory = {
+    id: string;
+    companyId: string;
+    code: string;
+    name: string;
+    description: string | null;
+    standardCategory: L3Category;
+    rampType: BenefitRamp;
+    rampMonths: number | null;
+    rampCustom: number[] | null; // realisation % per month
+    sortOrder: number;
+    archived: boolean;
+};
+
+// Consumers that tower cost is allocated to in the second stage
+export type CompanyBusinessUnit = {
+    id: string;
+    companyId: string;
+    code: string;
+    name: string;
+    description: string | null;
+    sortOrder: number;
+    archived: boolean;
+};
+
+export type BusinessUnitWeight = {
+    id: string;
+    tower: string;
+    towerName: string;
+    businessUnit: string;
+    businessUnitName: string;
+    weightPct: number;
+    initiativeId: string | null;
+};
+
+export type InitiativeStatus = "PROPOSED" | "APPROVED" | "ACTIVE" | "ON_HOLD" | "COMPLETED" | "CANCELLED";
 
-export type L3Category = "PRODUCTIVITY" | "REVENUE_UPLIFT";
+export type CompanyUser = { id: string; name: string; email: string };
+
+// A fundable project; L1-L3 rows and snapshots with its id are costed separately from company-wide data
+export type Initiative = {
+    id: string;
+    companyId: string;
+    code: string;
+    name: string;
+    description: string | null;
+    ownerId: string | null;
+    owner: CompanyUser | null;
+    startDate: string;
+    endDate: string | null;
+    status: InitiativeStatus;
+    createdAt: string;
+};
+
+export type InitiativeInput = {
+    name?: string;
+    description?: string;
+    ownerId?: string | null;
+    startDate?: string;
+    endDate?: string | null;
+    status?: InitiativeStatus;
+};
+
+export type Taxonomy = { towers: CompanyTower[]; benefitCategories: CompanyBenefitCategory[]; businessUnits: CompanyBusinessUnit[] };
+
+export type CostType = "OPEX" | "CAPEX";
+export type DepreciationMethod = "STRAIGHT_LINE" | "DECLINING_BALANCE";
 
 export type L1Input = {
     companyId: string;
     period: string;
-    department: Department;
+    costPoolId: string;
+    costPool?: CostPoolRef;
+    initiativeId?: string | null; // null or omitted: company-wide
     employees: number;
-    budget: number;
+    budget: number; // plan
+    forecast?: number | null;
+    actual?: number | null;
+    currency?: CurrencyCode; // defaults to the company's reporting currency
+    costType?: CostType; // defaults to opex
+    assetLifeMonths?: number | null; // capex only
+    depreciationMethod?: DepreciationMethod | null; // capex only
+    // returned by l1Get: the plan in the reporting currency, null while there's no FX rate for the month
+    reportingCurrency?: CurrencyCode;
+    reportingBudget?: number | null;
+};
+
+// Plan vs forecast vs actual for one cost pool or tower code
+export type VarianceLine = {
+    code: string;
+    plan: number;
+    forecast: number | null;
+    actual: number | null;
+    variance: number | null;
+    variancePct: number | null;
+    forecastVariance: number | null;
+    forecastVariancePct: number | null;
+};
+
+export type VarianceReport = {
+    period: string;
+    currency: CurrencyCode;
+    costPools: VarianceLine[];
+    towers: VarianceLine[];
+    totals: Omit<VarianceLine, "code">;
 };
 
 export type L2Input = {
     companyId: string;
     period: string;
-    department: Department;
-    tower: Tower;
+    costPoolId: string;
+    costPool?: CostPoolRef;
+    initiativeId?: string | null;
+    tower: string; // company tower code
+    towerName?: string;
+    towerDescription?: string | null;
+    standardTower?: Tower;
     weightPct: number; // 0..1
     };
 
     export type L3Input = {
     companyId: string;
     period: string;
-    category: L3Category;
+    initiativeId?: string | null;
+    category: string; // company benefit category code
+    categoryName?: string;
+    standardCategory?: L3Category;
     weightPct: number; // 0..1
     };
 
+    export type DistributionType = "triangular" | "normal" | "uniform";
+
+    // normal reads min/max as three standard deviations either side of likely
+    export type Distribution = { type: DistributionType; min: number; likely?: number; max: number };
+
+    export type AssumptionDistributions = Partial<Record<"revenueUplift" | "productivityGainHours" | "avgLoadedRate" | "riskAvoidedValue" | "costAvoided", Distribution>>;
+
     export type SnapshotAssumptions = {
     revenueUplift: number;
     productivityGainHours: number;
     avgLoadedRate: number;
+    riskAvoidedValue?: number;
+    costAvoided?: number;
+    currency?: CurrencyCode; // of the monetary assumptions; the reporting currency when omitted
+    avgLoadedRateEscalation?: number; // yearly, e.g. 0.03 = +3%/yr; used by forecasts
+    distributions?: AssumptionDistributions;
+    };
+
+    export type SensitivityLine = (
+    | { layer: "L1"; costPool: string }
+    | { layer: "L3"; category: string }
+    | { layer: "ASSUMPTION"; field: keyof AssumptionDistributions }
+    ) & {
+    baseValue: number;
+    lowRoiPct: number;
+    highRoiPct: number;
+    swing: number;
+    };
+
+    export type SensitivityResult = {
+    periodLabel: string;
+    costBasis: CostBasis;
+    initiativeId: string | null;
+    currency: CurrencyCode;
+    flexPct: number;
+    baseRoiPct: number;
+    lines: SensitivityLine[]; // largest swing first
+    };
+
+    export type GoalSeekVariable =
+    | { layer: "L1"; costPool: string }
+    | { layer: "ASSUMPTION"; field: keyof AssumptionDistributions };
+
+    export type GoalSeekResult = {
+    periodLabel: string;
+    costBasis: CostBasis;
+    initiativeId: string | null;
+    currency: CurrencyCode;
+    valueCurrency: CurrencyCode; // what currentValue and requiredValue are in
+    targetRoiPct: number;
+    variable: GoalSeekVariable;
+    currentValue: number;
+    requiredValue: number | null;
+    change: number | null;
+    achievable: boolean;
+    reason?: string;
+    result: { totalCost: number; totalBenefit: number; roiPct: number } | null;
+    };
+
+    export type SimulationResult = {
+    periodLabel: string;
+    costBasis: CostBasis;
+    initiativeId: string | null;
+    currency: CurrencyCode;
+    iterations: number;
+    seed: number;
+    totalCost: number;
+    roiPct: { p10: number; p50: number; p90: number; mean: number; min: number; max: number };
+    netBenefit: { p10: number; p50: number; p90: number; mean: number };
+    probabilityNegative: number;
+    histogram: { from: number; to: number; count: number }[];
+    };
+
+    // One period of a roll-forward; always a forecast, never stored
+    export type ForecastPoint = {
+    periodLabel: string;
+    start: string;
+    step: number;
+    totalCost: number;
+    totalBenefit: number;
+    net: number;
+    roiPct: number;
+    forecast: true;
+    };
+
+    export type ForecastResult = {
+    periodLabel: string;
+    granularity: PeriodGranularity;
+    costBasis: CostBasis;
+    initiativeId: string | null;
+    currency: CurrencyCode;
+    forecast: true;
+    escalation: { costPools: Record<string, number>; avgLoadedRate: number };
+    points: ForecastPoint[];
+    };
+
+    export type SnapshotProjection = {
+    horizonYears: number;
+    discountRate: number;
+    costPhasing?: number[];
+    benefitPhasing?: number[];
+    };
+
+    export type ProjectionCashflow = {
+    year: number;
+    cost: number;
+    benefit: number;
+    net: number;
+    discountedNet: number;
+    realisationPct?: number;
+    cumulativeRoiPct?: number;
+    };
+
+    export type RollupSource = { granularity: PeriodGranularity; periods: number } | null;
+
+    // Cost pools -> towers -> business units; a null tower or unit is cost that stopped at the previous stage
+    export type CostWaterfall = {
+    totalCost: number;
+    costPools: Record<string, number>;
+    towers: Record<string, number>;
+    businessUnits: { businessUnit: string; total: number; byTower: Record<string, number>; byCostPool: Record<string, number> }[];
+    unallocatedToTowers: number;
+    unallocatedToBusinessUnits: Record<string, number>;
+    flows: { costPool: string; tower: string | null; businessUnit: string | null; amount: number }[];
+    };
+
+    export type WaterfallReport = CostWaterfall & {
+    companyId: string;
+    periodLabel: string;
+    granularity: PeriodGranularity;
+    costBasis: CostBasis;
+    initiativeId: string | null;
+    currency: CurrencyCode;
+    };
+
+    export type CostTypeSummary = {
+    opex: number;
+    depreciation: number;
+    capexPurchased: number;
+    assets: { costPool: string; amount: number; lifeMonths: number; method: DepreciationMethod; chargedInPeriod: number }[];
+    };
+
+    export type RoiBreakdown = {
+    sources?: { l1: RollupSource; l2: RollupSource; l3: RollupSource; businessUnits?: RollupSource };
+    costTypes?: CostTypeSummary;
+    waterfall?: CostWaterfall;
+    costPoolCosts: Record<string, number>;
+    towerAllocations: Record<string, number>;
+    standardTowerAllocations?: Record<string, number>;
+    allocationSteps: { costPool: string; tower: string; standardTower?: string; weightPct: number; amount: number }[];
+    unallocatedCost: number;
+    benefitBase: Record<string, number>;
+    benefitByCategory: Record<string, number>;
+    benefitByStandardCategory?: Record<string, number>;
+    benefitSteps: { category: string; standardCategory?: string; baseValue: number; weightPct: number; amount: number }[];
     };
 
     export type BusinessInsight = {
@@ -55,6 +430,12 @@ export type L2Input = {
     id: string;
     companyId: string;
     period: string;
+    periodLabel?: string;
+    granularity?: PeriodGranularity;
+    costBasis?: CostBasis;
+    initiativeId?: string | null;
+    scenarioId?: string | null;
+    currency?: CurrencyCode; // reporting currency the figures are in
     totalCost: number;
     totalBenefit: number;
     net: number;
@@ -62,9 +443,11 @@ export type L2Input = {
     assumptions: SnapshotAssumptions;
     createdAt?: string;
     updatedAt?: string;
-    paybackMonths?: number;
-    npv?: number;
-    irr?: number;
+    paybackMonths?: number | null;
+    npv?: number | null;
+    irr?: number | null;
+    projection?: (Required<SnapshotProjection> & { cashflows: ProjectionCashflow[]; tco?: number }) | null;
+    breakdown?: RoiBreakdown | null;
     costPerEmployee?: number;
     benefitPerEmployee?: number;
     costEfficiencyRatio?: number;
@@ -73,16 +456,139 @@ export type L2Input = {
         revenue: number;
         riskAvoidance: number;
     };
-    departmentCosts?: Record<string, number>;
+    costPoolCosts?: Record<string, number>;
     insights?: BusinessInsight[];
 };
 
+// ROI of each initiative's snapshot for one period, and of the initiatives combined
+export type PortfolioInitiative = {
+    snapshotId: string;
+    initiative: Initiative;
+    currency: CurrencyCode;
+    totalCost: number;
+    totalBenefit: number;
+    net: number;
+    roiPct: number;
+    npv: number | null;
+    irr: number | null;
+    paybackMonths: number | null;
+    createdAt: string;
+};
+
+export type Portfolio = {
+    companyId: string;
+    periodLabel: string;
+    granularity: PeriodGranularity;
+    costBasis: CostBasis;
+    currency: CurrencyCode;
+    initiatives: PortfolioInitiative[];
+    portfolio: {
+        initiativeCount: number;
+        totalCost: number;
+        totalBenefit: number;
+        net: number;
+        roiPct: number;
+        npv: number | null;
+    };
+};
+
+// Named what-if versions of a period's inputs; overrides replace the stored L1-L3 values
+export type ScenarioKind = "BASE" | "OPTIMISTIC" | "PESSIMISTIC" | "CUSTOM";
+
+export type ScenarioOverrides = {
+    l1?: Record<string, { budget?: number; employees?: number }>;
+    l2?: Record<string, Record<string, number>>;
+    l3?: Record<string, number>;
+};
+
+export type Scenario = {
+    id: string;
+    companyId: string;
+    period: string;
+    granularity: PeriodGranularity;
+    name: string;
+    kind: ScenarioKind;
+    description?: string | null;
+    assumptions: SnapshotAssumptions;
+    overrides: ScenarioOverrides | null;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type ScenarioInput = {
+    name?: string;
+    kind?: ScenarioKind;
+    description?: string;
+    assumptions?: SnapshotAssumptions;
+    overrides?: ScenarioOverrides | null;
+};
+
+export type ScenarioSnapshotSummary = {
+    id: string;
+    currency: CurrencyCode;
+    totalCost: number;
+    totalBenefit: number;
+    net: number;
+    roiPct: number;
+    npv: number | null;
+    irr: number | null;
+    paybackMonths: number | null;
+    createdAt: string;
+};
+
+export type ScenarioComparison = {
+    companyId: string;
+    periodLabel: string;
+    granularity: PeriodGranularity;
+    costBasis: CostBasis;
+    initiativeId: string | null;
+    baseline: ScenarioSnapshotSummary | null;
+    scenarios: { scenario: Scenario; snapshot: ScenarioSnapshotSummary | null }[];
+};
+
+// One tower on a chargeback statement; units and unitRate are null when the tower has no driver values
+export type StatementLine = {
+    tower: string;
+    towerName: string;
+    standardTower: string;
+    towerCost: number;
+    sharePct: number;
+    cost: number;
+    byCostPool: Record<string, number>;
+    driver: AllocationDriver | null;
+    units: number | null;
+    unitRate: number | null;
+};
+
+// An issued statement is never recalculated; lines are only present on the detail read
+export type ChargebackStatement = {
+    id: string;
+    companyId: string;
+    number: number;
+    period: string;
+    granularity: PeriodGranularity;
+    periodLabel: string;
+    costBasis: CostBasis;
+    businessUnit: string;
+    businessUnitName: string;
+    currency: CurrencyCode;
+    totalCost: number;
+    issuedById: string | null;
+    createdAt: string;
+    lines?: StatementLine[];
+};
+
 const BASE = import.meta.env.DEV ? "https://tvotapp-production.up.railway.app" : (import.meta.env.VITE_API_BASE ?? "https://tvotapp-production.up.railway.app");
 
 function withBase(path: string) {
     return path.startsWith("http") ? path : `${BASE}${path}`;
 }
 
+// L1-L3 reads default to the company-wide rows
+function initiativeQuery(initiativeId?: string | null) {
+    return initiativeId ? `?initiativeId=${encodeURIComponent(initiativeId)}` : "";
+}
+
 async function toApiError(res: Response): Promise<Error> {
     const raw = await res.text();
     let msg = `HTTP ${res.status}`;
@@ -151,13 +657,21 @@ function isHttpStatus(e: unknown, code: number): e is Error {
 }
 
 export const api = {
-    async signup(email: string, password: string, name: string, companyName?: string, companyDomain?: string, role?: 'ADMIN' | 'EMPLOYEE'): Promise<{ ok: boolean; user?: Me }> {
+    async signup(email: string, password: string, name: string, company: SignupCompany): Promise<{ ok: boolean; user?: Me }> {
         return jsonFetch<{ ok: boolean; user?: Me }>("/api/auth/signup", {
             method: "POST",
-            json: { email, password, name, companyName, companyDomain, role },
+            json: { email, password, name, ...company },
         });
     },
 
+    async invitationPreview(token: string): Promise<InvitationPreview> {
+        return jsonFetch<InvitationPreview>(`/api/auth/invitations/${encodeURIComponent(token)}`);
+    },
+
+    async acceptInvitation(token: string): Promise<{ ok: boolean; companyId: string }> {
+        return jsonFetch<{ ok: boolean; companyId: string }>(`/api/auth/invitations/${encodeURIComponent(token)}/accept`, { method: "POST" });
+    },
+
     async login(email: string, password: string): Promise<{ ok: boolean }> {
         return jsonFetch<{ ok: boolean }>("/api/auth/login", {
             method: "POST",
@@ -165,6 +679,15 @@ export const api = {
         });
     },
 
+    // succeeds whether or not the email has an account
+    async requestPasswordReset(email: string): Promise<{ ok: boolean }> {
+        return jsonFetch<{ ok: boolean }>("/api/auth/password-reset", { method: "POST", json: { email } });
+    },
+
+    async confirmPasswordReset(token: string, password: string): Promise<{ ok: boolean }> {
+        return jsonFetch<{ ok: boolean }>("/api/auth/password-reset/confirm", { method: "POST", json: { token, password } });
+    },
+
     async me(): Promise<Me | null> {
         try {
             return await jsonFetch<Me>("/api/auth/me");
@@ -183,16 +706,20 @@ export const api = {
         }
     },
 
-    async getCompanies(): Promise<{ id: string; name: string; domain: string }[]> {
-        return jsonFetch<{ id: string; name: string; domain: string }[]>("/api/auth/companies");
+    async getCompanies(): Promise<CompanyOption[]> {
+        return jsonFetch<CompanyOption[]>("/api/auth/companies");
+    },
+
+    async switchCompany(companyId: string): Promise<{ ok: boolean }> {
+        return jsonFetch<{ ok: boolean }>("/api/auth/switch-company", { method: "POST", json: { companyId } });
     },
 
     async logout(): Promise<void> {
         await jsonFetch<void>("/api/auth/logout", { method: "POST" });
     },
 
-    async updateProfile(name?: string, email?: string): Promise<Me> {
-        return jsonFetch<Me>("/api/auth/profile", {
+    async updateProfile(name?: string, email?: string): Promise<Pick<Me, "id" | "email" | "name">> {
+        return jsonFetch<Pick<Me, "id" | "email" | "name">>("/api/auth/profile", {
         method: "PUT",
         json: { name, email },
         });
@@ -205,13 +732,141 @@ export const api = {
         });
     },
 
+    // ---- Company settings ----
+    async companySettings(companyId: string): Promise<CompanySettings> {
+        return jsonFetch<CompanySettings>(`/api/companies/${companyId}/settings`);
+    },
+
+    async updateCompanySettings(companyId: string, v: Partial<Omit<CompanySettings, "id">>): Promise<CompanySettings> {
+        return jsonFetch<CompanySettings>(`/api/companies/${companyId}/settings`, { method: "PUT", json: v });
+    },
+
+    async companyUsers(companyId: string): Promise<CompanyUser[]> {
+        return jsonFetch<CompanyUser[]>(`/api/companies/${companyId}/users`);
+    },
+
+    // ---- FX rates ----
+    async fxRates(currency?: CurrencyCode): Promise<FxRate[]> {
+        return jsonFetch<FxRate[]>(`/api/fx-rates${currency ? `?currency=${currency}` : ""}`);
+    },
+
+    async upsertFxRate(v: Omit<FxRate, "id" | "updatedAt">): Promise<FxRate> {
+        return jsonFetch<FxRate>("/api/fx-rates", { method: "PUT", json: v });
+    },
+
+    async deleteFxRate(id: string): Promise<{ success: boolean }> {
+        return jsonFetch<{ success: boolean }>(`/api/fx-rates/${id}`, { method: "DELETE" });
+    },
+
+    // ---- Allocation rules ----
+    async allocationRules(companyId: string): Promise<AllocationRule[]> {
+        return jsonFetch<AllocationRule[]>(`/api/allocation-rules/${companyId}`);
+    },
+
+    async upsertAllocationRule(v: { companyId: string; costPoolId: string; driver: AllocationDriver; towers?: string[] | null }): Promise<{ rule: AllocationRule; applied: RuleApplication[] }> {
+        return jsonFetch<{ rule: AllocationRule; applied: RuleApplication[] }>("/api/allocation-rules", { method: "PUT", json: v });
+    },
+
+    async deleteAllocationRule(id: string): Promise<{ success: boolean }> {
+        return jsonFetch<{ success: boolean }>(`/api/allocation-rules/${id}`, { method: "DELETE" });
+    },
+
+    async driverValues(companyId: string, period: string): Promise<DriverValues> {
+        return jsonFetch<DriverValues>(`/api/allocation-rules/${companyId}/drivers/${encodeURIComponent(period)}`);
+    },
+
+    async saveDriverValues(v: { companyId: string; period: string; driver: AllocationDriver; values: Record<string, number> }): Promise<{ periodLabel: string; driver: AllocationDriver; values: Record<string, number>; applied: RuleApplication[] }> {
+        return jsonFetch<{ periodLabel: string; driver: AllocationDriver; values: Record<string, number>; applied: RuleApplication[] }>("/api/allocation-rules/drivers", { method: "PUT", json: v });
+    },
+
+    // ---- Initiatives ----
+    async initiatives(companyId: string, status?: InitiativeStatus): Promise<Initiative[]> {
+        return jsonFetch<Initiative[]>(`/api/initiatives/${companyId}${status ? `?status=${status}` : ""}`);
+    },
+
+    async createInitiative(v: InitiativeInput & { companyId: string; code: string; name: string; startDate: string }): Promise<Initiative> {
+        return jsonFetch<Initiative>("/api/initiatives", { method: "POST", json: v });
+    },
+
+    async updateInitiative(id: string, v: InitiativeInput): Promise<Initiative> {
+        return jsonFetch<Initiative>(`/api/initiatives/${id}`, { method: "PUT", json: v });
+    },
+
+    // ---- Scenarios ----
+    async scenarios(companyId: string, period: string): Promise<Scenario[]> {
+        return jsonFetch<Scenario[]>(`/api/scenarios/${companyId}/${period}`);
+    },
+
+    async createScenario(v: ScenarioInput & { companyId: string; period: string; name: string; assumptions: SnapshotAssumptions }): Promise<Scenario> {
+        return jsonFetch<Scenario>("/api/scenarios", { method: "POST", json: v });
+    },
+
+    async updateScenario(id: string, v: ScenarioInput): Promise<Scenario> {
+        return jsonFetch<Scenario>(`/api/scenarios/${id}`, { method: "PUT", json: v });
+    },
+
+    async deleteScenario(id: string): Promise<{ success: boolean }> {
+        return jsonFetch<{ success: boolean }>(`/api/scenarios/${id}`, { method: "DELETE" });
+    },
+
+    async scenarioComparison(companyId: string, period: string, costBasis: CostBasis = "PLAN", initiativeId?: string | null): Promise<ScenarioComparison> {
+        const initiative = initiativeId ? `&initiativeId=${encodeURIComponent(initiativeId)}` : "";
+        return jsonFetch<ScenarioComparison>(`/api/scenarios/${companyId}/${period}/comparison?costBasis=${costBasis}${initiative}`);
+    },
+
+    // ---- Cost pools ----
+    async costPools(companyId: string, includeArchived = false): Promise<CostPool[]> {
+        return jsonFetch<CostPool[]>(`/api/cost-pools/${companyId}${includeArchived ? "?includeArchived=true" : ""}`);
+    },
+
+    async createCostPool(v: { companyId: string; code: string; name: string; description?: string; sortOrder?: number; escalationRate?: number }): Promise<CostPool> {
+        return jsonFetch<CostPool>("/api/cost-pools", { method: "POST", json: v });
+    },
+
+    async updateCostPool(id: string, v: { name?: string; description?: string; sortOrder?: number; escalationRate?: number; archived?: boolean }): Promise<CostPool> {
+        return jsonFetch<CostPool>(`/api/cost-pools/${id}`, { method: "PUT", json: v });
+    },
+
+    // ---- Taxonomy ----
+    async taxonomy(companyId: string, includeArchived = false): Promise<Taxonomy> {
+        return jsonFetch<Taxonomy>(`/api/taxonomy/${companyId}${includeArchived ? "?includeArchived=true" : ""}`);
+    },
+
+    async createTower(v: { companyId: string; code: string; name: string; description?: string; includes?: string[]; standardTower: Tower; sortOrder?: number }): Promise<CompanyTower> {
+        return jsonFetch<CompanyTower>("/api/taxonomy/towers", { method: "POST", json: v });
+    },
+
+    async updateTower(id: string, v: { name?: string; description?: string; includes?: string[]; standardTower?: Tower; sortOrder?: number; archived?: boolean }): Promise<CompanyTower> {
+        return jsonFetch<CompanyTower>(`/api/taxonomy/towers/${id}`, { method: "PUT", json: v });
+    },
+
+    async createBusinessUnit(v: { companyId: string; code: string; name: string; description?: string; sortOrder?: number }): Promise<CompanyBusinessUnit> {
+        return jsonFetch<CompanyBusinessUnit>("/api/taxonomy/business-units", { method: "POST", json: v });
+    },
+
+    async updateBusinessUnit(id: string, v: { name?: string; description?: string; sortOrder?: number; archived?: boolean }): Promise<CompanyBusinessUnit> {
+        return jsonFetch<CompanyBusinessUnit>(`/api/taxonomy/business-units/${id}`, { method: "PUT", json: v });
+    },
+
+    async createBenefitCategory(v: { companyId: string; code: string; name: string; description?: string; standardCategory: L3Category; sortOrder?: number }): Promise<CompanyBenefitCategory> {
+        return jsonFetch<CompanyBenefitCategory>("/api/taxonomy/benefit-categories", { method: "POST", json: v });
+    },
+
+    async updateBenefitCategory(id: string, v: { name?: string; description?: string; standardCategory?: L3Category; rampType?: BenefitRamp; rampMonths?: number | null; rampCustom?: number[] | null; sortOrder?: number; archived?: boolean }): Promise<CompanyBenefitCategory> {
+        return jsonFetch<CompanyBenefitCategory>(`/api/taxonomy/benefit-categories/${id}`, { method: "PUT", json: v });
+    },
+
     // ---- L1 ----
     async l1Upsert(v: L1Input): Promise<L1Input> {
         return jsonFetch<L1Input>("/api/l1", { method: "POST", json: v });
     },
 
-    async l1Get(companyId: string, period: string): Promise<L1Input[]> {
-        return jsonFetch<L1Input[]>(`/api/l1/${companyId}/${period}`);
+    async l1Get(companyId: string, period: string, initiativeId?: string | null): Promise<L1Input[]> {
+        return jsonFetch<L1Input[]>(`/api/l1/${companyId}/${period}${initiativeQuery(initiativeId)}`);
+    },
+
+    async l1Variance(companyId: string, period: string, initiativeId?: string | null): Promise<VarianceReport> {
+        return jsonFetch<VarianceReport>(`/api/l1/${companyId}/${period}/variance${initiativeQuery(initiativeId)}`);
     },
 
     // L2
@@ -219,12 +874,21 @@ export const api = {
         return jsonFetch<L2Input>("/api/l2", { method: "POST", json: v });
     },
 
-    async l2UpsertBatch(params: { companyId: string; period: string; department: Department; weights: { APP_DEV: number; CLOUD: number; END_USER: number } }): Promise<{ ok: boolean }> {
+    async l2UpsertBatch(params: { companyId: string; period: string; costPoolId: string; initiativeId?: string | null; weights: Record<string, number> }): Promise<{ ok: boolean }> {
         return jsonFetch<{ ok: boolean }>("/api/l2/batch", { method: "POST", json: params });
     },
 
-    async l2Get(companyId: string, period: string): Promise<L2Input[]> {
-        return jsonFetch<L2Input[]>(`/api/l2/${companyId}/${period}`);
+    async l2Get(companyId: string, period: string, initiativeId?: string | null): Promise<L2Input[]> {
+        return jsonFetch<L2Input[]>(`/api/l2/${companyId}/${period}${initiativeQuery(initiativeId)}`);
+    },
+
+    // Business units, the second allocation stage
+    async businessUnitWeights(companyId: string, period: string, initiativeId?: string | null): Promise<BusinessUnitWeight[]> {
+        return jsonFetch<BusinessUnitWeight[]>(`/api/bu-weights/${companyId}/${period}${initiativeQuery(initiativeId)}`);
+    },
+
+    async businessUnitWeightsBatch(params: { companyId: string; period: string; tower: string; initiativeId?: string | null; weights: Record<string, number> }): Promise<{ ok: boolean }> {
+        return jsonFetch<{ ok: boolean }>("/api/bu-weights/batch", { method: "POST", json: params });
     },
 
     // L3
@@ -232,19 +896,23 @@ export const api = {
         return jsonFetch<L3Input>("/api/l3", { method: "POST", json: v });
     },
 
-    async l3UpsertBatch(params: { companyId: string; period: string; weights: { PRODUCTIVITY: number; REVENUE_UPLIFT: number } }): Promise<{ ok: boolean }> {
+    async l3UpsertBatch(params: { companyId: string; period: string; initiativeId?: string | null; weights: Record<string, number> }): Promise<{ ok: boolean }> {
         return jsonFetch<{ ok: boolean }>("/api/l3/batch", { method: "POST", json: params });
     },
 
-    async l3Get(companyId: string, period: string): Promise<L3Input[]> {
-        return jsonFetch<L3Input[]>(`/api/l3/${companyId}/${period}`);
+    async l3Get(companyId: string, period: string, initiativeId?: string | null): Promise<L3Input[]> {
+        return jsonFetch<L3Input[]>(`/api/l3/${companyId}/${period}${initiativeQuery(initiativeId)}`);
     },
 
     // ---- L4 ----
     async snapshot(params: {
         companyId: string;
         period: string;
+        costBasis?: CostBasis;
+        initiativeId?: string | null;
+        scenarioId?: string | null;
         assumptions: SnapshotAssumptions;
+        projection?: SnapshotProjection;
     }): Promise<L4Snapshot> {
         return jsonFetch<L4Snapshot>(`/api/l4/snapshot`, {
         method: "POST",
@@ -257,6 +925,122 @@ export const api = {
         return jsonFetch<{ success: boolean; snapshots: L4Snapshot[] }>(`/api/l4/snapshots/${companyId}`);
     },
 
+    async simulate(params: {
+        companyId: string;
+        period: string;
+        costBasis?: CostBasis;
+        initiativeId?: string | null;
+        assumptions: SnapshotAssumptions;
+        distributions: AssumptionDistributions;
+        iterations?: number;
+        bins?: number;
+        seed?: number;
+    }): Promise<SimulationResult> {
+        return jsonFetch<SimulationResult>(`/api/l4/simulate`, { method: "POST", json: params, timeout: 30000 });
+    },
+
+    async sensitivity(params: {
+        companyId: string;
+        period: string;
+        costBasis?: CostBasis;
+        initiativeId?: string | null;
+        assumptions: SnapshotAssumptions;
+        flexPct?: number;
+    }): Promise<SensitivityResult> {
+        return jsonFetch<SensitivityResult>(`/api/l4/sensitivity`, { method: "POST", json: params });
+    },
+
+    async goalSeek(params: {
+        companyId: string;
+        period: string;
+        costBasis?: CostBasis;
+        initiativeId?: string | null;
+        assumptions: SnapshotAssumptions;
+        targetRoiPct: number;
+        variable: GoalSeekVariable;
+    }): Promise<GoalSeekResult> {
+        return jsonFetch<GoalSeekResult>(`/api/l4/goal-seek`, { method: "POST", json: params });
+    },
+
+    async forecast(params: {
+        companyId: string;
+        period: string;
+        costBasis?: CostBasis;
+        initiativeId?: string | null;
+        assumptions: SnapshotAssumptions;
+        periods?: number;
+    }): Promise<ForecastResult> {
+        return jsonFetch<ForecastResult>(`/api/l4/forecast`, { method: "POST", json: params });
+    },
+
+    async portfolio(companyId: string, period: string, costBasis: CostBasis = "PLAN"): Promise<Portfolio> {
+        return jsonFetch<Portfolio>(`/api/l4/portfolio/${companyId}/${period}?costBasis=${costBasis}`);
+    },
+
+    async waterfall(companyId: string, period: string, costBasis: CostBasis = "PLAN", initiativeId?: string | null): Promise<WaterfallReport> {
+        const initiative = initiativeId ? `&initiativeId=${encodeURIComponent(initiativeId)}` : "";
+        return jsonFetch<WaterfallReport>(`/api/l4/waterfall/${companyId}/${period}?costBasis=${costBasis}${initiative}`);
+    },
+
+    // ---- Invitations ----
+    async invitations(companyId: string): Promise<Invitation[]> {
+        return jsonFetch<Invitation[]>(`/api/invitations/${companyId}`);
+    },
+
+    // the token is only returned here; it can't be read back later
+    async invite(companyId: string, email: string, role: CompanyRole): Promise<Invitation & { token: string }> {
+        return jsonFetch<Invitation & { token: string }>(`/api/invitations`, { method: "POST", json: { companyId, email, role } });
+    },
+
+    async revokeInvitation(id: string): Promise<{ success: boolean }> {
+        return jsonFetch<{ success: boolean }>(`/api/invitations/${id}`, { method: "DELETE" });
+    },
+
+    async members(companyId: string): Promise<Member[]> {
+        return jsonFetch<Member[]>(`/api/companies/${companyId}/members`);
+    },
+
+    async setMemberRole(companyId: string, userId: string, role: CompanyRole): Promise<Member> {
+        return jsonFetch<Member>(`/api/companies/${companyId}/members/${userId}`, { method: "PUT", json: { role } });
+    },
+
+    async removeMember(companyId: string, userId: string): Promise<{ success: boolean }> {
+        return jsonFetch<{ success: boolean }>(`/api/companies/${companyId}/members/${userId}`, { method: "DELETE" });
+    },
+
+    // ---- Period locks ----
+    async periodLocks(companyId: string): Promise<PeriodLock[]> {
+        return jsonFetch<PeriodLock[]>(`/api/period-locks/${companyId}`);
+    },
+
+    async lockPeriod(companyId: string, period: string): Promise<PeriodLock> {
+        return jsonFetch<PeriodLock>(`/api/period-locks`, { method: "POST", json: { companyId, period } });
+    },
+
+    async unlockPeriod(id: string): Promise<{ success: boolean }> {
+        return jsonFetch<{ success: boolean }>(`/api/period-locks/${id}`, { method: "DELETE" });
+    },
+
+    // ---- Chargeback ----
+    async issueChargeback(params: { companyId: string; period: string; costBasis?: CostBasis; businessUnits?: string[] }): Promise<ChargebackStatement[]> {
+        return jsonFetch<ChargebackStatement[]>(`/api/chargeback`, { method: "POST", json: params });
+    },
+
+    async chargebackStatements(companyId: string, period?: string): Promise<ChargebackStatement[]> {
+        const query = period ? `?period=${encodeURIComponent(period)}` : "";
+        return jsonFetch<ChargebackStatement[]>(`/api/chargeback/${companyId}${query}`);
+    },
+
+    async chargebackStatement(companyId: string, id: string): Promise<ChargebackStatement> {
+        return jsonFetch<ChargebackStatement>(`/api/chargeback/${companyId}/${id}`);
+    },
+
+    async chargebackCsv(companyId: string, id: string): Promise<Blob> {
+        const res = await fetch(withBase(`/api/chargeback/${companyId}/${id}/csv`), { credentials: "include" });
+        if (!res.ok) throw await toApiError(res);
+        return res.blob();
+    },
+
     // Get the correct company ID that has data
     async getCorrectCompanyId(): Promise<{ id: string; name: string; domain: string }> {
         return jsonFetch<{ id: string; name: string; domain: string }>(`/api/l4/get-company-id`);
@@ -6,18 +6,40 @@ import { createBrowserRouter, RouterProvider } from 'react-router-dom';
 import App from './App';
 import Home from './pages/Home';
 import Login from './pages/Login';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
 import FrameworkEntry from './pages/FrameworkEntry';
 import Dashboard from './pages/Dashboard';
 import Account from './pages/Account';
+import CostPools from './pages/CostPools';
+import Taxonomy from './pages/Taxonomy';
+import Initiatives from './pages/Initiatives';
+import FxRates from './pages/FxRates';
+import AllocationRules from './pages/AllocationRules';
+import BusinessUnitWeights from './pages/BusinessUnitWeights';
+import Chargeback from './pages/Chargeback';
+import Team from './pages/Team';
+import PeriodLocks from './pages/PeriodLocks';
 import ProtectedRoute from './components/ProtectedRoute';
 
 const router = createBrowserRouter([
   { path: '/', element: <App />, children: [
     { index: true, element: <Home /> },
     { path: 'login', element: <Login /> },
+    { path: 'forgot-password', element: <ForgotPassword /> },
+    { path: 'reset-password', element: <ResetPassword /> },
     { path: 'framework', element: <ProtectedRoute><FrameworkEntry /></ProtectedRoute> },
     { path: 'dashboard', element: <ProtectedRoute><Dashboard /></ProtectedRoute> },
+    { path: 'cost-pools', element: <ProtectedRoute><CostPools /></ProtectedRoute> },
+    { path: 'taxonomy', element: <ProtectedRoute><Taxonomy /></ProtectedRoute> },
+    { path: 'initiatives', element: <ProtectedRoute><Initiatives /></ProtectedRoute> },
     { path: 'account', element: <ProtectedRoute><Account /></ProtectedRoute> },
+    { path: 'fx-rates', element: <ProtectedRoute><FxRates /></ProtectedRoute> },
+    { path: 'allocation-rules', element: <ProtectedRoute><AllocationRules /></ProtectedRoute> },
+    { path: 'business-unit-weights', element: <ProtectedRoute><BusinessUnitWeights /></ProtectedRoute> },
+    { path: 'chargeback', element: <ProtectedRoute><Chargeback /></ProtectedRoute> },
+    { path: 'team', element: <ProtectedRoute><Team /></ProtectedRoute> },
+    { path: 'period-locks', element: <ProtectedRoute><PeriodLocks /></ProtectedRoute> },
   ]},
 ]);
 
@@ -1,6 +1,11 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/useAuth';
 import api from '../lib/api';
+import { MONTH_NAMES } from '../utils/periods';
+import { CURRENCIES, CURRENCY_LABELS, DEFAULT_CURRENCY } from '../utils/currency';
+import { ROLE_LABELS, can } from '../utils/roles';
+import { validatePassword } from '../utils/password';
 
 export default function Account() {
   const { user, company } = useAuth();
@@ -15,6 +20,24 @@ export default function Account() {
     email: user?.email || ''
   });
 
+  // Fiscal calendar used for quarterly and annual periods
+  const [fiscalYearStartMonth, setFiscalYearStartMonth] = useState(1);
+  // Currency the ROI engine and reports convert into
+  const [reportingCurrency, setReportingCurrency] = useState(DEFAULT_CURRENCY);
+
+  useEffect(() => {
+    if (!company?.id) return;
+    api.companySettings(company.id)
+      .then(settings => {
+        setFiscalYearStartMonth(settings.fiscalYearStartMonth);
+        setReportingCurrency(settings.reportingCurrency);
+      })
+      .catch(() => {
+        setFiscalYearStartMonth(1);
+        setReportingCurrency(DEFAULT_CURRENCY);
+      });
+  }, [company?.id]);
+
   // Password able to be changed state
   const [passwordForm, setPasswordForm] = useState({
     currentPassword: '',
@@ -77,8 +100,9 @@ export default function Account() {
       return;
     }
 
-    if (passwordForm.newPassword.length < 6) {
-      setMessage({ type: 'error', text: 'New password must be at least 6 characters' });
+    const passwordError = validatePassword(passwordForm.newPassword);
+    if (passwordError) {
+      setMessage({ type: 'error', text: passwordError });
       return;
     }
 
@@ -104,6 +128,44 @@ export default function Account() {
     }
   };
 
+  const handleFiscalYearSave = async () => {
+    if (!company?.id) return;
+
+    setIsLoading(true);
+    setMessage(null);
+
+    try {
+      await api.updateCompanySettings(company.id, { fiscalYearStartMonth });
+      setMessage({ type: 'success', text: 'Fiscal year updated successfully!' });
+    } catch (error) {
+      setMessage({ 
+        type: 'error', 
+        text: error instanceof Error ? error.message : 'Failed to update fiscal year' 
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReportingCurrencySave = async () => {
+    if (!company?.id) return;
+
+    setIsLoading(true);
+    setMessage(null);
+
+    try {
+      await api.updateCompanySettings(company.id, { reportingCurrency });
+      setMessage({ type: 'success', text: 'Reporting currency updated successfully!' });
+    } catch (error) {
+      setMessage({ 
+        type: 'error', 
+        text: error instanceof Error ? error.message : 'Failed to update reporting currency' 
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleCancel = () => {
     setIsEditingProfile(false);
     setIsChangingPassword(false);
@@ -179,7 +241,7 @@ export default function Account() {
                   <label className="block text-sm font-medium text-gray-600 mb-2">Role</label>
                   <input
                     type="text"
-                    value={user?.role || ''}
+                    value={user?.role ? ROLE_LABELS[user.role] : ''}
                     disabled
                     className="w-full border border-gray-200 rounded-md px-3 py-2 bg-gray-50 text-gray-900"
                   />
@@ -217,7 +279,14 @@ export default function Account() {
 
 {/* company info */}
             <div>
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Company Information</h3>
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-medium text-gray-900">Company Information</h3>
+                {company && can(user, 'users:manage') && (
+                  <Link to="/team" className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 text-sm font-medium">
+                    Manage Team
+                  </Link>
+                )}
+              </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                   <label className="block text-sm font-medium text-gray-600 mb-2">Company Name</label>
@@ -248,6 +317,58 @@ export default function Account() {
                     className="w-full border border-gray-200 rounded-md px-3 py-2 bg-gray-50 text-gray-900"
                   />
                 </div>
+
+                {company && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-600 mb-2">Fiscal Year Starts</label>
+                    <div className="flex space-x-2">
+                      <select
+                        value={fiscalYearStartMonth}
+                        onChange={(e) => setFiscalYearStartMonth(Number(e.target.value))}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {MONTH_NAMES.map((name, index) => (
+                          <option key={name} value={index + 1}>{name}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleFiscalYearSave}
+                        disabled={isLoading}
+                        className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                      >
+                        Save
+                      </button>
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">Quarters and fiscal years (e.g. FY2025-Q1) are counted from this month.</p>
+                  </div>
+                )}
+
+                {company && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-600 mb-2">Reporting Currency</label>
+                    <div className="flex space-x-2">
+                      <select
+                        value={reportingCurrency}
+                        onChange={(e) => setReportingCurrency(e.target.value)}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {(CURRENCIES.includes(reportingCurrency) ? CURRENCIES : [reportingCurrency, ...CURRENCIES]).map(code => (
+                          <option key={code} value={code}>{CURRENCY_LABELS[code] ?? code}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleReportingCurrencySave}
+                        disabled={isLoading}
+                        className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                      >
+                        Save
+                      </button>
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">Costs and benefits entered in other currencies are converted using the FX rate table. Existing snapshots keep the currency they were taken in.{' '}
+                      <Link to="/fx-rates" className="text-blue-600 hover:text-blue-800">FX rates</Link>
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
 
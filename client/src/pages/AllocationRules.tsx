@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/useAuth';
+import api, { type AllocationDriver, type AllocationRule, type CompanyTower, type CostPool, type RuleApplication } from '../lib/api';
+import { ALLOCATION_DRIVERS, ALLOCATION_DRIVER_LABELS } from '../utils/allocationDrivers';
+import { can } from '../utils/roles';
+
+export default function AllocationRules() {
+  const { user } = useAuth();
+  const companyId = user?.companyId;
+  const canEditRules = can(user, 'company:configure');
+
+  const [rules, setRules] = useState<AllocationRule[]>([]);
+  const [pools, setPools] = useState<CostPool[]>([]);
+  const [towers, setTowers] = useState<CompanyTower[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // no towers ticked means the rule covers every active tower
+  const [ruleForm, setRuleForm] = useState<{ costPoolId: string; driver: AllocationDriver; towers: string[] }>({ costPoolId: '', driver: 'HEADCOUNT', towers: [] });
+
+  const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [driver, setDriver] = useState<AllocationDriver>('HEADCOUNT');
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const loadRules = async (id: string) => {
+    try {
+      const [ruleList, poolList, taxonomy] = await Promise.all([api.allocationRules(id), api.costPools(id), api.taxonomy(id)]);
+      setRules(ruleList);
+      setPools(poolList);
+      setTowers(taxonomy.towers);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load allocation rules' });
+    }
+  };
+
+  useEffect(() => {
+    if (companyId) loadRules(companyId);
+  }, [companyId]);
+
+  useEffect(() => {
+    if (!companyId || !period) return;
+    let cancelled = false;
+    api.driverValues(companyId, period)
+      .then((result) => {
+        if (cancelled) return;
+        const entered = result.values[driver] ?? {};
+        setValues(Object.fromEntries(Object.entries(entered).map(([tower, value]) => [tower, String(value)])));
+      })
+      // an unfinished period label just leaves the grid empty
+      .catch(() => { if (!cancelled) setValues({}); });
+    return () => { cancelled = true; };
+  }, [companyId, period, driver]);
+
+  if (!companyId) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Select a company in the navigation bar before managing allocation rules.</p>
+      </div>
+    );
+  }
+
+  const towerName = (code: string) => towers.find(t => t.code === code)?.name ?? code;
+  const poolName = (id: string) => pools.find(p => p.id === id)?.name ?? rules.find(r => r.costPoolId === id)?.costPool.name ?? id;
+
+  const describeApplied = (applied: RuleApplication[]) => {
+    if (applied.length === 0) return 'No pools use this driver yet.';
+    return applied.map(a => a.weights
+      ? `${poolName(a.costPoolId)} (${a.periodLabel}): ${Object.entries(a.weights).map(([tower, w]) => `${towerName(tower)} ${(w * 100).toFixed(1)}%`).join(', ')}`
+      : `${poolName(a.costPoolId)} (${a.periodLabel}): no volume in scope, weights unchanged`).join('; ');
+  };
+
+  const handleSaveRule = async () => {
+    if (!ruleForm.costPoolId) {
+      setMessage({ type: 'error', text: 'Pick a cost pool' });
+      return;
+    }
+
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const { applied } = await api.upsertAllocationRule({
+        companyId,
+        costPoolId: ruleForm.costPoolId,
+        driver: ruleForm.driver,
+        towers: ruleForm.towers.length > 0 ? ruleForm.towers : null,
+      });
+      setMessage({ type: 'success', text: `Rule saved. ${applied.length > 0 ? describeApplied(applied) : 'Weights will be derived once driver values are entered.'}` });
+      setRuleForm({ costPoolId: '', driver: 'HEADCOUNT', towers: [] });
+      await loadRules(companyId);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save allocation rule' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await api.deleteAllocationRule(id);
+      setMessage({ type: 'success', text: 'Rule removed. The pool keeps its last derived weights, which can now be edited by hand.' });
+      await loadRules(companyId);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to remove allocation rule' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveValues = async () => {
+    const entries = Object.entries(values).filter(([, value]) => value.trim() !== '');
+    if (entries.some(([, value]) => !(Number(value) >= 0))) {
+      setMessage({ type: 'error', text: 'Driver values must be zero or more' });
+      return;
+    }
+
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const result = await api.saveDriverValues({
+        companyId,
+        period,
+        driver,
+        values: Object.fromEntries(entries.map(([tower, value]) => [tower, Number(value)])),
+      });
+      setMessage({ type: 'success', text: `${ALLOCATION_DRIVER_LABELS[driver]} saved for ${result.periodLabel}. ${describeApplied(result.applied)}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save driver values' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleRuleTower = (code: string) => {
+    setRuleForm({
+      ...ruleForm,
+      towers: ruleForm.towers.includes(code) ? ruleForm.towers.filter(t => t !== code) : [...ruleForm.towers, code],
+    });
+  };
+
+  const activeTowers = towers.filter(t => !t.archived);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b">
+            <h1 className="text-2xl font-bold text-gray-900">Allocation Rules</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Split a cost pool across towers in proportion to a driver instead of entering L2 weights by hand. Weights are recalculated whenever a period's driver values change.{' '}
+              <Link to="/framework" className="text-blue-600 hover:text-blue-800">Back to Framework Entry</Link>
+            </p>
+          </div>
+
+          <div className="p-6 space-y-8">
+{/* existing rules */}
+            {rules.length > 0 ? (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Cost Pool</th>
+                    <th className="py-2 pr-4 font-medium">Driver</th>
+                    <th className="py-2 pr-4 font-medium">Towers</th>
+                    {canEditRules && <th className="py-2" />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rules.map((rule) => (
+                    <tr key={rule.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4 text-gray-900">{rule.costPool.name} <span className="text-xs text-gray-500">({rule.costPool.code})</span></td>
+                      <td className="py-2 pr-4 text-gray-900">{ALLOCATION_DRIVER_LABELS[rule.driver]}</td>
+                      <td className="py-2 pr-4 text-gray-600">{rule.towers ? rule.towers.map(towerName).join(', ') : 'All active towers'}</td>
+                      {canEditRules && (
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => handleDeleteRule(rule.id)}
+                            disabled={isLoading}
+                            className="px-3 py-1 border border-gray-200 rounded-md text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-gray-600">No allocation rules yet. Every cost pool's L2 weights are entered by hand.</p>
+            )}
+
+{/* rule form */}
+            {canEditRules && (
+              <div className="bg-gray-50 rounded-lg p-6">
+                <h4 className="text-md font-medium text-gray-900 mb-4">Set Rule</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <select
+                    value={ruleForm.costPoolId}
+                    onChange={(e) => {
+                      const rule = rules.find(r => r.costPoolId === e.target.value);
+                      setRuleForm(rule
+                        ? { costPoolId: rule.costPoolId, driver: rule.driver, towers: rule.towers ?? [] }
+                        : { ...ruleForm, costPoolId: e.target.value });
+                    }}
+                    className="border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select a cost pool</option>
+                    {pools.map((pool) => (
+                      <option key={pool.id} value={pool.id}>{pool.name} ({pool.code})</option>
+                    ))}
+                  </select>
+                  <select
+                    value={ruleForm.driver}
+                    onChange={(e) => setRuleForm({ ...ruleForm, driver: e.target.value as AllocationDriver })}
+                    className="border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {ALLOCATION_DRIVERS.map((d) => (
+                      <option key={d} value={d}>{ALLOCATION_DRIVER_LABELS[d]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="mt-4 flex flex-wrap gap-4">
+                  {activeTowers.map((tower) => (
+                    <label key={tower.code} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input type="checkbox" checked={ruleForm.towers.includes(tower.code)} onChange={() => toggleRuleTower(tower.code)} />
+                      <span>{tower.name}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">Tick the towers that share this pool, or leave them all unticked to split it across every active tower. Initiative-specific weights are still entered by hand.</p>
+                <div className="mt-4 flex justify-end">
+                  <button
+                    onClick={handleSaveRule}
+                    disabled={isLoading}
+                    className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                  >
+                    Save Rule
+                  </button>
+                </div>
+              </div>
+            )}
+
+{/* driver values */}
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h4 className="text-md font-medium text-gray-900 mb-4">Driver Values</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <input
+                  type="text"
+                  value={period}
+                  placeholder="2025-03, FY2025-Q1 or FY2025"
+                  onChange={(e) => setPeriod(e.target.value.trim())}
+                  className="border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <select
+                  value={driver}
+                  onChange={(e) => setDriver(e.target.value as AllocationDriver)}
+                  className="border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {ALLOCATION_DRIVERS.map((d) => (
+                    <option key={d} value={d}>{ALLOCATION_DRIVER_LABELS[d]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                {activeTowers.map((tower) => (
+                  <label key={tower.code} className="block">
+                    <span className="block text-sm font-medium text-gray-700 mb-1">{tower.name}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={values[tower.code] ?? ''}
+                      onChange={(e) => setValues({ ...values, [tower.code]: e.target.value })}
+                      className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </label>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                Volumes are entered per tower for the period. Headcount here is the people each tower serves; L1 employee counts are per cost pool so they can't split a pool between towers.
+              </p>
+              <div className="mt-4 flex justify-end">
+                <button
+                  onClick={handleSaveValues}
+                  disabled={isLoading || !period}
+                  className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                >
+                  {isLoading ? 'Saving...' : 'Save Driver Values'}
+                </button>
+              </div>
+            </div>
+
+            {message && (
+              <div className={`rounded-md p-4 bg-white border ${message.type === 'success' ? 'border-green-400' : 'border-red-400'}`}>
+                <p className={`text-sm ${message.type === 'success' ? 'text-green-800' : 'text-red-800'}`}>{message.text}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
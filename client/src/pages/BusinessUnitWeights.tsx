@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/useAuth';
+import api, { type BusinessUnitWeight, type Initiative, type Taxonomy } from '../lib/api';
+
+const inputClass = 'border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function BusinessUnitWeights() {
+  const { user } = useAuth();
+  const companyId = user?.companyId;
+
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ towers: [], benefitCategories: [], businessUnits: [] });
+  const [initiatives, setInitiatives] = useState<Initiative[]>([]);
+  const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [initiativeId, setInitiativeId] = useState('');
+  const [tower, setTower] = useState('');
+  const [saved, setSaved] = useState<BusinessUnitWeight[]>([]);
+  // unsaved edits per tower; towers not edited show their saved split
+  const [edits, setEdits] = useState<Record<string, Record<string, number>>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!companyId) return;
+    api.taxonomy(companyId)
+      .then(result => {
+        setTaxonomy(result);
+        setTower(current => current || result.towers[0]?.code || '');
+      })
+      .catch(() => setTaxonomy({ towers: [], benefitCategories: [], businessUnits: [] }));
+    api.initiatives(companyId)
+      .then(list => setInitiatives(list.filter(i => i.status !== 'CANCELLED' && i.status !== 'COMPLETED')))
+      .catch(() => setInitiatives([]));
+  }, [companyId]);
+
+  const loadWeights = async (id: string, label: string, initiative: string) => {
+    try {
+      setSaved(await api.businessUnitWeights(id, label, initiative || null));
+    } catch {
+      // an unfinished period label just leaves the grid empty
+      setSaved([]);
+    }
+    setEdits({});
+  };
+
+  useEffect(() => {
+    if (companyId && period) loadWeights(companyId, period, initiativeId);
+  }, [companyId, period, initiativeId]);
+
+  if (!companyId) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Select a company in the navigation bar before allocating towers to business units.</p>
+      </div>
+    );
+  }
+
+  const weights = edits[tower] ?? Object.fromEntries(saved.filter(w => w.tower === tower).map(w => [w.businessUnit, Number(w.weightPct)]));
+  const sum = Object.values(weights).reduce((a, b) => a + b, 0);
+  const splitTowers = new Set(saved.map(w => w.tower));
+
+  const handleSave = async () => {
+    if (Math.abs(sum - 1) >= 0.0001) {
+      setMessage({ type: 'error', text: `Weights must sum to 1.0 (current sum: ${sum.toFixed(3)})` });
+      return;
+    }
+
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await api.businessUnitWeightsBatch({
+        companyId,
+        period,
+        tower,
+        initiativeId: initiativeId || null,
+        // zero-weight units are left out so the server clears them
+        weights: Object.fromEntries(Object.entries(weights).filter(([, w]) => w > 0)),
+      });
+      setMessage({ type: 'success', text: `Split saved for ${taxonomy.towers.find(t => t.code === tower)?.name ?? tower} in ${period}` });
+      await loadWeights(companyId, period, initiativeId);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save business unit weights' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b">
+            <h1 className="text-2xl font-bold text-gray-900">Business Unit Allocation</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              The second allocation stage: how each tower's cost is shared by the business units that consume it. Weights for a tower must sum to 1.0;
+              towers without a split keep their cost unallocated in the waterfall.{' '}
+              <Link to="/taxonomy" className="text-blue-600 hover:text-blue-800">Manage business units</Link>
+              {' · '}
+              <Link to="/chargeback" className="text-blue-600 hover:text-blue-800">Chargeback statements</Link>
+            </p>
+          </div>
+
+          <div className="p-6 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <input type="text" value={period} placeholder="2025-03, FY2025-Q1 or FY2025" onChange={(e) => setPeriod(e.target.value.trim())} className={inputClass} />
+              <select value={initiativeId} onChange={(e) => setInitiativeId(e.target.value)} className={inputClass}>
+                <option value="">Company-wide</option>
+                {initiatives.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+              </select>
+              <select value={tower} onChange={(e) => setTower(e.target.value)} className={inputClass}>
+                {taxonomy.towers.map(t => (
+                  <option key={t.code} value={t.code}>{t.name}{splitTowers.has(t.code) ? ' ✓' : ''}</option>
+                ))}
+              </select>
+            </div>
+
+            {taxonomy.businessUnits.length === 0 ? (
+              <p className="text-sm text-gray-600">No business units yet. Add them on the taxonomy page first.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {taxonomy.businessUnits.map(unit => (
+                    <div key={unit.code}>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">{unit.name}</label>
+                      {unit.description && <p className="text-xs text-gray-500 mb-2">{unit.description}</p>}
+                      <input
+                        type="number"
+                        step="0.01"
+                        min={0}
+                        max={1}
+                        value={weights[unit.code] ?? 0}
+                        onChange={(e) => setEdits({ ...edits, [tower]: { ...weights, [unit.code]: Math.min(1, Math.max(0, Number(e.target.value) || 0)) } })}
+                        className={`w-full ${inputClass}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="p-4 bg-gray-50 rounded-md">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-medium text-gray-600">Total Weight:</span>
+                    <span className={`text-sm font-bold ${Math.abs(sum - 1) < 0.0001 ? 'text-green-800' : 'text-red-800'}`}>{sum.toFixed(3)}</span>
+                  </div>
+                  {Math.abs(sum - 1) >= 0.0001 && (
+                    <p className="text-xs text-red-800 mt-1">Weights must sum to 1.0 (current sum: {sum.toFixed(3)})</p>
+                  )}
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={handleSave}
+                    disabled={isLoading || !tower || !period || Math.abs(sum - 1) >= 0.0001}
+                    className="px-6 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isLoading ? 'Saving...' : 'Save Split'}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {message && (
+              <div className={`rounded-md p-4 bg-white border ${message.type === 'success' ? 'border-green-400' : 'border-red-400'}`}>
+                <p className={`text-sm ${message.type === 'success' ? 'text-green-800' : 'text-red-800'}`}>{message.text}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
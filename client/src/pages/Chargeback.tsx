@@ -0,0 +1,222 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/useAuth';
+import api, { type ChargebackStatement, type CostBasis } from '../lib/api';
+import { ALLOCATION_DRIVER_LABELS } from '../utils/allocationDrivers';
+import { COST_BASES, COST_BASIS_LABELS } from '../utils/costBasis';
+import { formatMoney } from '../utils/currency';
+import { exportElementToPdf } from '../utils/exportPdf';
+
+const inputClass = 'border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const statementNumber = (statement: ChargebackStatement) => `CB-${String(statement.number).padStart(5, '0')}`;
+
+// unit rates are often below one currency unit, so they keep their cents
+const formatRate = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency, currencyDisplay: 'narrowSymbol', minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount);
+
+export default function Chargeback() {
+  const { user } = useAuth();
+  const companyId = user?.companyId;
+
+  const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [costBasis, setCostBasis] = useState<CostBasis>('PLAN');
+  const [statements, setStatements] = useState<ChargebackStatement[]>([]);
+  const [selected, setSelected] = useState<ChargebackStatement | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const statementRef = useRef<HTMLDivElement>(null);
+
+  const loadStatements = async (id: string, label: string) => {
+    try {
+      setStatements(await api.chargebackStatements(id, label));
+    } catch {
+      // an unfinished period label just leaves the list empty
+      setStatements([]);
+    }
+  };
+
+  useEffect(() => {
+    if (companyId && period) loadStatements(companyId, period);
+  }, [companyId, period]);
+
+  if (!companyId) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Select a company in the navigation bar before issuing chargeback statements.</p>
+      </div>
+    );
+  }
+
+  const handleIssue = async () => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const issued = await api.issueChargeback({ companyId, period, costBasis });
+      setMessage({ type: 'success', text: `Issued ${issued.length} statement${issued.length === 1 ? '' : 's'} for ${period}` });
+      setSelected(issued[0] ?? null);
+      await loadStatements(companyId, period);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to issue statements' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    try {
+      setSelected(await api.chargebackStatement(companyId, id));
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load statement' });
+    }
+  };
+
+  const handleCsv = async (statement: ChargebackStatement) => {
+    try {
+      const url = URL.createObjectURL(await api.chargebackCsv(companyId, statement.id));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `chargeback-${statement.businessUnit}-${statement.periodLabel}-${statement.number}.csv`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'CSV download failed' });
+    }
+  };
+
+  const handlePdf = async (statement: ChargebackStatement) => {
+    if (!statementRef.current) return;
+    try {
+      await exportElementToPdf(statementRef.current, `chargeback-${statement.businessUnit}-${statement.periodLabel}-${statement.number}.pdf`);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'PDF export failed' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b">
+            <h1 className="text-2xl font-bold text-gray-900">Chargeback Statements</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Each business unit's fully loaded cost for a period, by the towers it consumes. Issued statements are stored as they were and are not
+              recalculated when the underlying data changes; issue again to produce a new statement.{' '}
+              <Link to="/business-unit-weights" className="text-blue-600 hover:text-blue-800">Business unit allocation</Link>
+            </p>
+          </div>
+
+          <div className="p-6 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <input type="text" value={period} placeholder="2025-03, FY2025-Q1 or FY2025" onChange={(e) => setPeriod(e.target.value.trim())} className={inputClass} />
+              <select value={costBasis} onChange={(e) => setCostBasis(e.target.value as CostBasis)} className={inputClass}>
+                {COST_BASES.map(basis => <option key={basis} value={basis}>{COST_BASIS_LABELS[basis]}</option>)}
+              </select>
+              <button
+                onClick={handleIssue}
+                disabled={isLoading || !period}
+                className="px-6 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Issuing...' : 'Issue Statements'}
+              </button>
+            </div>
+
+            {message && (
+              <div className={`rounded-md p-4 bg-white border ${message.type === 'success' ? 'border-green-400' : 'border-red-400'}`}>
+                <p className={`text-sm ${message.type === 'success' ? 'text-green-800' : 'text-red-800'}`}>{message.text}</p>
+              </div>
+            )}
+
+            {statements.length === 0 ? (
+              <p className="text-sm text-gray-600">No statements issued for this period yet.</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4">Statement</th>
+                    <th className="py-2 pr-4">Business unit</th>
+                    <th className="py-2 pr-4">Basis</th>
+                    <th className="py-2 pr-4 text-right">Total</th>
+                    <th className="py-2 pr-4">Issued</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {statements.map(statement => (
+                    <tr
+                      key={statement.id}
+                      onClick={() => handleOpen(statement.id)}
+                      className={`border-b cursor-pointer hover:bg-gray-50 ${selected?.id === statement.id ? 'bg-blue-50' : ''}`}
+                    >
+                      <td className="py-2 pr-4 font-medium text-gray-900">{statementNumber(statement)}</td>
+                      <td className="py-2 pr-4 text-gray-900">{statement.businessUnitName}</td>
+                      <td className="py-2 pr-4 text-gray-600">{COST_BASIS_LABELS[statement.costBasis]}</td>
+                      <td className="py-2 pr-4 text-right text-gray-900">{formatMoney(statement.totalCost, statement.currency)}</td>
+                      <td className="py-2 pr-4 text-gray-600">{new Date(statement.createdAt).toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        {selected?.lines && (
+          <div className="bg-white rounded-lg shadow">
+            <div className="px-6 py-4 border-b flex items-center gap-3">
+              <h2 className="text-lg font-semibold text-gray-900">{statementNumber(selected)}</h2>
+              <button onClick={() => handleCsv(selected)} className="ml-auto px-3 py-2 bg-blue-600 text-gray-900 rounded-md text-sm hover:bg-blue-700">
+                Download CSV
+              </button>
+              <button onClick={() => handlePdf(selected)} className="px-3 py-2 bg-blue-600 text-gray-900 rounded-md text-sm hover:bg-blue-700">
+                Export PDF
+              </button>
+            </div>
+
+            <div ref={statementRef} className="p-6 space-y-4 bg-white">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div><span className="block text-gray-500">Business unit</span><span className="text-gray-900">{selected.businessUnitName} ({selected.businessUnit})</span></div>
+                <div><span className="block text-gray-500">Period</span><span className="text-gray-900">{selected.periodLabel}</span></div>
+                <div><span className="block text-gray-500">Cost basis</span><span className="text-gray-900">{COST_BASIS_LABELS[selected.costBasis]}</span></div>
+                <div><span className="block text-gray-500">Issued</span><span className="text-gray-900">{new Date(selected.createdAt).toLocaleString()}</span></div>
+              </div>
+
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4">Tower</th>
+                    <th className="py-2 pr-4 text-right">Tower cost</th>
+                    <th className="py-2 pr-4 text-right">Share</th>
+                    <th className="py-2 pr-4 text-right">Allocated cost</th>
+                    <th className="py-2 pr-4">Driver</th>
+                    <th className="py-2 pr-4 text-right">Units</th>
+                    <th className="py-2 pr-4 text-right">Unit rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selected.lines.map(line => (
+                    <tr key={line.tower} className="border-b">
+                      <td className="py-2 pr-4 text-gray-900">{line.towerName}</td>
+                      <td className="py-2 pr-4 text-right text-gray-600">{formatMoney(line.towerCost, selected.currency)}</td>
+                      <td className="py-2 pr-4 text-right text-gray-600">{(line.sharePct * 100).toFixed(1)}%</td>
+                      <td className="py-2 pr-4 text-right text-gray-900">{formatMoney(line.cost, selected.currency)}</td>
+                      <td className="py-2 pr-4 text-gray-600">{line.driver ? ALLOCATION_DRIVER_LABELS[line.driver] : '—'}</td>
+                      <td className="py-2 pr-4 text-right text-gray-600">{line.units === null ? '—' : line.units.toLocaleString('en-US', { maximumFractionDigits: 2 })}</td>
+                      <td className="py-2 pr-4 text-right text-gray-600">{line.unitRate === null ? '—' : formatRate(line.unitRate, selected.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="font-semibold">
+                    <td className="py-2 pr-4 text-gray-900" colSpan={3}>Total</td>
+                    <td className="py-2 pr-4 text-right text-gray-900">{formatMoney(selected.totalCost, selected.currency)}</td>
+                    <td colSpan={3} />
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
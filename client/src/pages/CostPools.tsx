@@ -0,0 +1,235 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/useAuth';
+import api, { type CostPool } from '../lib/api';
+import { can } from '../utils/roles';
+
+export default function CostPools() {
+  const { user } = useAuth();
+  const canConfigure = can(user, 'company:configure');
+  const companyId = user?.companyId;
+
+  const [pools, setPools] = useState<CostPool[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [newPool, setNewPool] = useState({ code: '', name: '', description: '' });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // escalation is edited as a percentage per year and stored as a fraction
+  const [editForm, setEditForm] = useState({ name: '', description: '', sortOrder: 0, escalationPct: 0 });
+
+  const loadPools = async (id: string) => {
+    try {
+      setPools(await api.costPools(id, true));
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load cost pools' });
+    }
+  };
+
+  useEffect(() => {
+    if (companyId) loadPools(companyId);
+  }, [companyId]);
+
+  if (!companyId) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Select a company in the navigation bar before managing cost pools.</p>
+      </div>
+    );
+  }
+
+  const handleCreate = async () => {
+    if (!newPool.code.trim() || !newPool.name.trim()) {
+      setMessage({ type: 'error', text: 'Code and name are required' });
+      return;
+    }
+
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await api.createCostPool({
+        companyId,
+        code: newPool.code.trim().toUpperCase(),
+        name: newPool.name.trim(),
+        description: newPool.description.trim() || undefined,
+      });
+      setNewPool({ code: '', name: '', description: '' });
+      setMessage({ type: 'success', text: 'Cost pool added' });
+      await loadPools(companyId);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to add cost pool' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEdit = (pool: CostPool) => {
+    setEditingId(pool.id);
+    setEditForm({ name: pool.name, description: pool.description ?? '', sortOrder: pool.sortOrder, escalationPct: pool.escalationRate * 100 });
+    setMessage(null);
+  };
+
+  const handleSave = async (id: string, changes: { name?: string; description?: string; sortOrder?: number; escalationRate?: number; archived?: boolean }) => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await api.updateCostPool(id, changes);
+      setEditingId(null);
+      await loadPools(companyId);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update cost pool' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b">
+            <h1 className="text-2xl font-bold text-gray-900">Cost Pools</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              The buckets your L1 budgets are entered against. Archived pools keep their history but can't receive new data.{' '}
+              <Link to="/framework" className="text-blue-600 hover:text-blue-800">Back to Framework Entry</Link>
+            </p>
+            {!canConfigure && <p className="mt-2 text-sm text-amber-700">Only company admins can change cost pools.</p>}
+          </div>
+
+          <div className="p-6 space-y-8">
+{/* existing pools */}
+            <div className="space-y-3">
+              {pools.map((pool) => (
+                <div key={pool.id} className={`border rounded-lg p-4 ${pool.archived ? 'bg-gray-50' : ''}`}>
+                  {editingId === pool.id ? (
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                      <input
+                        type="text"
+                        value={editForm.name}
+                        onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                        className="md:col-span-1 border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <input
+                        type="text"
+                        value={editForm.description}
+                        placeholder="Description"
+                        onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
+                        className="md:col-span-2 border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        value={editForm.sortOrder}
+                        onChange={(e) => setEditForm({ ...editForm, sortOrder: Number(e.target.value) })}
+                        className="border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <label className="md:col-span-4 flex items-center space-x-2 text-sm text-gray-600">
+                        <span>Escalation (%/yr)</span>
+                        <input
+                          type="number"
+                          min={-99}
+                          max={100}
+                          step={0.1}
+                          value={editForm.escalationPct}
+                          onChange={(e) => setEditForm({ ...editForm, escalationPct: Number(e.target.value) })}
+                          className="w-28 border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <span className="text-xs text-gray-500">Used to roll this pool's cost forward in forecasts, e.g. 4 for labour, -2 for cloud.</span>
+                      </label>
+                      <div className="md:col-span-4 flex justify-end space-x-4">
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="px-4 py-2 border border-gray-200 rounded-md text-sm font-medium text-gray-600 hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleSave(pool.id, { name: editForm.name, description: editForm.description, sortOrder: editForm.sortOrder, escalationRate: editForm.escalationPct / 100 })}
+                          disabled={isLoading || !editForm.name.trim() || editForm.escalationPct <= -100 || editForm.escalationPct > 100}
+                          className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {pool.name} <span className="text-xs text-gray-500">({pool.code})</span>
+                          {pool.archived && <span className="ml-2 text-xs text-red-600">Archived</span>}
+                          {pool.escalationRate !== 0 && (
+                            <span className="ml-2 text-xs text-gray-500">{pool.escalationRate > 0 ? '+' : ''}{(pool.escalationRate * 100).toFixed(1)}%/yr</span>
+                          )}
+                        </p>
+                        {pool.description && <p className="text-xs text-gray-600 mt-1">{pool.description}</p>}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => handleEdit(pool)}
+                          className="px-3 py-1 border border-gray-200 rounded-md text-sm text-gray-600 hover:bg-gray-50"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleSave(pool.id, { archived: !pool.archived })}
+                          disabled={isLoading}
+                          className="px-3 py-1 border border-gray-200 rounded-md text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          {pool.archived ? 'Restore' : 'Archive'}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+{/* new pool form */}
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h4 className="text-md font-medium text-gray-900 mb-4">Add Cost Pool</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <input
+                  type="text"
+                  placeholder="Code (e.g. LABOUR)"
+                  value={newPool.code}
+                  onChange={(e) => setNewPool({ ...newPool, code: e.target.value })}
+                  className="border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <input
+                  type="text"
+                  placeholder="Name"
+                  value={newPool.name}
+                  onChange={(e) => setNewPool({ ...newPool, name: e.target.value })}
+                  className="border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <input
+                  type="text"
+                  placeholder="Description (optional)"
+                  value={newPool.description}
+                  onChange={(e) => setNewPool({ ...newPool, description: e.target.value })}
+                  className="border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="mt-4 flex justify-end">
+                <button
+                  onClick={handleCreate}
+                  disabled={isLoading}
+                  className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                >
+                  {isLoading ? 'Saving...' : 'Add Cost Pool'}
+                </button>
+              </div>
+            </div>
+
+            {message && (
+              <div className={`rounded-md p-4 bg-white border ${message.type === 'success' ? 'border-green-400' : 'border-red-400'}`}>
+                <p className={`text-sm ${message.type === 'success' ? 'text-green-800' : 'text-red-800'}`}>{message.text}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,39 @@
 import { useState, useEffect } from 'react';
 import { exportElementToPdf } from '../utils/exportPdf';
 import { useAuth } from '../contexts/useAuth';
-import api, { type L1Input, type L2Input, type L4Snapshot } from '../lib/api';
-import { getDisplayLabel } from '../utils/departmentLabels';
-import { getDisplayLabel as getTowerDisplayLabel } from '../utils/towerLabels';
+import api, { type CostBasis, type CostPool, type L1Input, type L2Input, type L4Snapshot, type PeriodGranularity, type Portfolio, type ScenarioComparison, type ScenarioSnapshotSummary, type ForecastResult, type SensitivityLine, type SensitivityResult, type SimulationResult, type Taxonomy, type VarianceLine, type VarianceReport } from '../lib/api';
+import { COST_BASES, COST_BASIS_LABELS } from '../utils/costBasis';
+import { INITIATIVE_STATUS_LABELS } from '../utils/initiatives';
+import { SCENARIO_KIND_LABELS } from '../utils/scenarios';
+import { GRANULARITY_LABELS, MONTH_NAMES, buildPeriodLabel } from '../utils/periods';
+import { getTowerLabel } from '../utils/towerLabels';
+import { getBenefitLabel } from '../utils/benefitLabels';
+import { DEFAULT_CURRENCY, formatMoney } from '../utils/currency';
+
+const ASSUMPTION_LABELS: Record<string, string> = {
+  revenueUplift: 'Revenue Uplift',
+  productivityGainHours: 'Productivity Gain Hours',
+  avgLoadedRate: 'Average Loaded Rate',
+  riskAvoidedValue: 'Risk Avoided Value',
+  costAvoided: 'Cost Avoided',
+};
+
+// Inputs shown on the tornado chart; the rest are listed as having little effect
+const TORNADO_ROWS = 10;
+
+// How far the trend graphs roll the current inputs forward, in periods of the selected granularity
+const FORECAST_PERIODS: Record<PeriodGranularity, number> = { MONTH: 12, QUARTER: 8, YEAR: 3 };
+
+// Rows of the side-by-side scenario table
+const SCENARIO_METRICS: { label: string; value: (s: ScenarioSnapshotSummary) => number | null; kind: 'currency' | 'percent' | 'months' }[] = [
+  { label: 'Total Cost', value: s => s.totalCost, kind: 'currency' },
+  { label: 'Total Benefit', value: s => s.totalBenefit, kind: 'currency' },
+  { label: 'Net Benefit', value: s => s.net, kind: 'currency' },
+  { label: 'ROI', value: s => s.roiPct, kind: 'percent' },
+  { label: 'NPV', value: s => s.npv, kind: 'currency' },
+  { label: 'IRR', value: s => s.irr != null ? s.irr * 100 : null, kind: 'percent' },
+  { label: 'Payback', value: s => s.paybackMonths, kind: 'months' },
+];
 
 function mergeSort<T>(arr: T[], compare: (a: T, b: T) => number): T[] {
   if (arr.length <= 1) return arr.slice();
@@ -26,17 +56,29 @@ function merge<T>(left: T[], right: T[], compare: (a: T, b: T) => number): T[] {
 
 export default function Dashboard() {
   const { isAuthenticated, company, user } = useAuth();
+  const [selectedGranularity, setSelectedGranularity] = useState<PeriodGranularity>('MONTH');
   const [selectedYear, setSelectedYear] = useState('2024');
   const [selectedMonth, setSelectedMonth] = useState('01');
-  const selectedPeriod = `${selectedYear}-${selectedMonth}`;
-
-  const [selectedCompanyId, setSelectedCompanyId] = useState<string>('');
-  const [availableCompanies, setAvailableCompanies] = useState<{ id: string; name: string; domain: string }[]>([]);
-  const [loadingCompanies, setLoadingCompanies] = useState(false);
+  const [selectedQuarter, setSelectedQuarter] = useState(1);
+  // for quarters and years the year select is the fiscal year
+  const selectedPeriod = buildPeriodLabel(selectedGranularity, `${selectedYear}-${selectedMonth}`, Number(selectedYear), selectedQuarter);
+  // snapshots are stored per cost basis; variance always compares all three
+  const [selectedBasis, setSelectedBasis] = useState<CostBasis>('PLAN');
 
+  const [reportingCurrency, setReportingCurrency] = useState(DEFAULT_CURRENCY);
   const [l1Data, setL1Data] = useState<L1Input[]>([]);
   const [l2Data, setL2Data] = useState<L2Input[]>([]);
   const [l4Data, setL4Data] = useState<L4Snapshot[]>([]);
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ towers: [], benefitCategories: [], businessUnits: [] });
+  const [costPools, setCostPools] = useState<CostPool[]>([]);
+  const [variance, setVariance] = useState<VarianceReport | null>(null);
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
+  const [scenarioComparison, setScenarioComparison] = useState<ScenarioComparison | null>(null);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [simulationError, setSimulationError] = useState<string>('');
+  const [flexPct, setFlexPct] = useState(10);
+  const [sensitivity, setSensitivity] = useState<SensitivityResult | null>(null);
+  const [forecast, setForecast] = useState<ForecastResult | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [hasData, setHasData] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
@@ -44,27 +86,6 @@ export default function Dashboard() {
   const [historicalData, setHistoricalData] = useState<L4Snapshot[]>([]);
   const [showGraphs, setShowGraphs] = useState(false);
 
-  // Load companies for admin users
-  useEffect(() => {
-    if (user?.role === 'ADMIN' && isAuthenticated) {
-      setLoadingCompanies(true);
-      api.getCompanies()
-        .then(companies => {
-          setAvailableCompanies(companies);
-        })
-        .catch(error => {
-          console.error('Failed to load companies for admin:', error);
-          setAvailableCompanies([]);
-        })
-        .finally(() => {
-          setLoadingCompanies(false);
-        });
-    } else {
-      setAvailableCompanies([]);
-      setLoadingCompanies(false);
-    }
-  }, [user?.role, isAuthenticated]);
-
   // Load data when period or company changes
   useEffect(() => {
     // Don't load data during PDF export to prevent API calls
@@ -73,8 +94,8 @@ export default function Dashboard() {
     }
 
     const loadData = async () => {
-      // For admin users, use selected company; for regular users, use their own company
-      const targetCompanyId = user?.role === 'ADMIN' && selectedCompanyId ? selectedCompanyId : company?.id;
+      // the session's active company, picked with the switcher in the navigation bar
+      const targetCompanyId = company?.id;
       
       if (!targetCompanyId || !isAuthenticated) {
         setIsLoading(false);
@@ -83,17 +104,29 @@ export default function Dashboard() {
 
       setIsLoading(true);
       try {
-        // Load L1 and L2 data
-        const [l1, l2] = await Promise.all([
+        // Load L1 and L2 data, plus the company's tower and benefit names
+        const [l1, l2, companyTaxonomy, pools, varianceReport, initiativePortfolio, comparison, settings] = await Promise.all([
           api.l1Get(targetCompanyId, selectedPeriod),
-          api.l2Get(targetCompanyId, selectedPeriod)
+          api.l2Get(targetCompanyId, selectedPeriod),
+          api.taxonomy(targetCompanyId, true),
+          api.costPools(targetCompanyId, true),
+          api.l1Variance(targetCompanyId, selectedPeriod),
+          api.portfolio(targetCompanyId, selectedPeriod, selectedBasis),
+          api.scenarioComparison(targetCompanyId, selectedPeriod, selectedBasis),
+          api.companySettings(targetCompanyId)
         ]);
 
         // Load L4 
         const l4Response = await api.snapshots(targetCompanyId);
         const l4 = l4Response.snapshots || [];
 
+        setReportingCurrency(settings.reportingCurrency);
         setL1Data(l1);
+        setTaxonomy(companyTaxonomy);
+        setCostPools(pools);
+        setVariance(varianceReport);
+        setPortfolio(initiativePortfolio);
+        setScenarioComparison(comparison);
         
         // Deduplicate L2 data by tower name only (since only show each tower once)
         const uniqueL2Data = l2.filter((tower, index, self) => 
@@ -105,7 +138,10 @@ export default function Dashboard() {
         setHasData(l1.length > 0 || uniqueL2Data.length > 0 || l4.length > 0);
         
         // Check if we have enough historical data for graphs
-        const sortedSnapshots = l4.sort((a, b) => a.period.localeCompare(b.period));
+        // trends compare like with like, so only snapshots at the selected granularity
+        const sortedSnapshots = l4
+          .filter(s => !s.initiativeId && !s.scenarioId && (s.granularity ?? 'MONTH') === selectedGranularity && (s.costBasis ?? 'PLAN') === selectedBasis)
+          .sort((a, b) => a.period.localeCompare(b.period));
         setHistoricalData(sortedSnapshots);
         // Only show graphs if we have current data AND historical data
         setShowGraphs(sortedSnapshots.length >= 2 && l1.length > 0 && l2.length > 0);
@@ -118,26 +154,141 @@ export default function Dashboard() {
     };
 
     loadData();
-  }, [company?.id, selectedCompanyId, selectedPeriod, isAuthenticated, user?.role, isExporting]);
-
-  // Get the latest snapshot for the selected period
-  const currentSnapshot = l4Data.find(snapshot => 
-    snapshot.period.startsWith(selectedPeriod)
-  ) || l4Data[l4Data.length - 1];
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(amount);
+  }, [company?.id, selectedPeriod, selectedGranularity, selectedBasis, isAuthenticated, isExporting]);
+
+  // Get the latest company-wide snapshot for the selected period and cost basis; initiatives show in the portfolio
+  const basisSnapshots = l4Data.filter(snapshot => !snapshot.initiativeId && !snapshot.scenarioId && (snapshot.costBasis ?? 'PLAN') === selectedBasis);
+  const currentSnapshot = basisSnapshots.find(snapshot => 
+    snapshot.periodLabel ? snapshot.periodLabel === selectedPeriod : snapshot.period.startsWith(selectedPeriod)
+  ) || basisSnapshots[basisSnapshots.length - 1];
+  // snapshots keep the reporting currency they were taken in
+  const snapshotCurrency = currentSnapshot?.currency ?? reportingCurrency;
+
+  // Snapshots saved with assumption ranges are re-simulated against the current L1-L3 data
+  const snapshotDistributions = currentSnapshot?.assumptions?.distributions;
+  useEffect(() => {
+    if (isExporting) return;
+    if (!currentSnapshot || !snapshotDistributions || Object.keys(snapshotDistributions).length === 0) {
+      setSimulation(null);
+      setSimulationError('');
+      return;
+    }
+
+    let cancelled = false;
+    api.simulate({
+      companyId: currentSnapshot.companyId,
+      period: currentSnapshot.periodLabel ?? selectedPeriod,
+      costBasis: currentSnapshot.costBasis,
+      initiativeId: currentSnapshot.initiativeId,
+      assumptions: currentSnapshot.assumptions,
+      distributions: snapshotDistributions,
+    })
+      .then(result => {
+        if (cancelled) return;
+        setSimulation(result);
+        setSimulationError('');
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setSimulation(null);
+        setSimulationError(error instanceof Error ? error.message : 'Failed to run simulation');
+      });
+    return () => { cancelled = true; };
+  }, [currentSnapshot, snapshotDistributions, selectedPeriod, isExporting]);
+
+  useEffect(() => {
+    if (isExporting) return;
+    if (!currentSnapshot) {
+      setSensitivity(null);
+      return;
+    }
+
+    let cancelled = false;
+    api.sensitivity({
+      companyId: currentSnapshot.companyId,
+      period: currentSnapshot.periodLabel ?? selectedPeriod,
+      costBasis: currentSnapshot.costBasis,
+      initiativeId: currentSnapshot.initiativeId,
+      assumptions: currentSnapshot.assumptions,
+      flexPct,
+    })
+      .then(result => { if (!cancelled) setSensitivity(result); })
+      .catch(error => {
+        console.error('Failed to run sensitivity analysis:', error);
+        if (!cancelled) setSensitivity(null);
+      });
+    return () => { cancelled = true; };
+  }, [currentSnapshot, flexPct, selectedPeriod, isExporting]);
+
+  useEffect(() => {
+    if (isExporting) return;
+    if (!currentSnapshot) {
+      setForecast(null);
+      return;
+    }
+
+    let cancelled = false;
+    api.forecast({
+      companyId: currentSnapshot.companyId,
+      period: currentSnapshot.periodLabel ?? selectedPeriod,
+      costBasis: currentSnapshot.costBasis,
+      initiativeId: currentSnapshot.initiativeId,
+      assumptions: currentSnapshot.assumptions,
+      periods: FORECAST_PERIODS[currentSnapshot.granularity ?? selectedGranularity],
+    })
+      .then(result => { if (!cancelled) setForecast(result); })
+      .catch(error => {
+        console.error('Failed to build forecast:', error);
+        if (!cancelled) setForecast(null);
+      });
+    return () => { cancelled = true; };
+  }, [currentSnapshot, selectedPeriod, selectedGranularity, isExporting]);
+
+  // Past snapshots followed by the rolled-forward forecast, which the graphs draw dashed;
+  // snapshots after the forecast's base period are left off so the line doesn't double back
+  const forecastStart = forecast?.points[0]?.start;
+  const pastPoints = historicalData.filter(s => !forecastStart || s.period < forecastStart);
+  const trendPoints = [
+    ...pastPoints.map(s => ({ period: s.period, totalBenefit: s.totalBenefit, roiPct: s.roiPct, forecast: false })),
+    ...(forecast?.points ?? []).map(p => ({ period: p.start, totalBenefit: p.totalBenefit, roiPct: p.roiPct, forecast: true })),
+  ];
+  // index of the last snapshot, where the dashed line starts
+  const forecastFrom = pastPoints.length - 1;
+
+  const costPoolName = (code: string) => costPools.find(pool => pool.code === code)?.name ?? code;
+  const businessUnitName = (code: string) => taxonomy.businessUnits.find(unit => unit.code === code)?.name ?? code;
+  const waterfall = currentSnapshot?.breakdown?.waterfall;
+  const hasActuals = variance !== null && variance.totals.actual !== null;
+
+  const sensitivityLabel = (line: SensitivityLine) => {
+    switch (line.layer) {
+      case 'L1': return `${costPoolName(line.costPool)} budget`;
+      case 'L3': return `${getBenefitLabel(taxonomy.benefitCategories, line.category)} weight`;
+      case 'ASSUMPTION': return ASSUMPTION_LABELS[line.field] ?? line.field;
+    }
   };
 
+  const formatCurrency = (amount: number, currency = reportingCurrency) => formatMoney(amount, currency);
+
+  // L1 rows are entered in their own currency; totals use the plan converted to the reporting currency
+  const reportingAmount = (row: L1Input) => row.reportingBudget ?? Number(row.budget);
+
   const formatPercentage = (value: number) => {
     return `${value.toFixed(1)}%`;
   };
 
+  // spending over plan is unfavourable, so positive variances show red
+  const formatVariance = (line: Pick<VarianceLine, 'variance' | 'variancePct'>) => {
+    if (line.variance === null) return <span className="text-gray-400">–</span>;
+    const sign = line.variance > 0 ? '+' : '';
+    return (
+      <span className={line.variance > 0 ? 'text-red-600' : 'text-green-600'}>
+        {sign}{formatCurrency(line.variance)}
+        {line.variancePct !== null && ` (${sign}${formatPercentage(line.variancePct)})`}
+      </span>
+    );
+  };
+
   // Loading page
   if (isLoading) {
     return (
@@ -150,8 +301,8 @@ export default function Dashboard() {
     );
   }
 
-  // Show message for admin users when no company is selected
-  if (user?.role === 'ADMIN' && !selectedCompanyId) {
+  // Platform admins start without an active company until they pick one
+  if (user?.role === 'PLATFORM_ADMIN' && !company) {
     return (
       <div className="min-h-screen bg-gray-50">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -163,38 +314,11 @@ export default function Dashboard() {
             </div>
             <h1 className="mt-6 text-3xl font-bold text-gray-900">Select a Company</h1>
             <p className="mt-2 text-lg text-gray-600">
-              As an admin, please select a company to view its dashboard data.
+              As an admin, choose a company from the switcher in the navigation bar to view its dashboard data.
             </p>
             <p className="mt-1 text-sm text-gray-500">
               You can view data for any company in the system.
             </p>
-            
-            {/* Dmin company selection */}
-            <div className="mt-8 max-w-md mx-auto">
-              {loadingCompanies ? (
-                <div className="text-center">
-                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
-                  <p className="mt-2 text-sm text-gray-500">Loading companies...</p>
-                </div>
-              ) : (
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Select Company:</label>
-                  <select
-                    value={selectedCompanyId}
-                    onChange={(e) => setSelectedCompanyId(e.target.value)}
-                    className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  >
-                    <option value="">Choose a company...</option>
-                    {availableCompanies.map((company) => (
-                      <option key={company.id} value={company.id}>
-                        {company.name}
-                      </option>
-                    ))}
-                  </select>
-                </div>
-              )}
-            </div>
-            
           </div>
         </div>
       </div>
@@ -214,18 +338,18 @@ export default function Dashboard() {
             </div>
             <h1 className="mt-6 text-3xl font-bold text-gray-900">No Framework Data</h1>
             <p className="mt-2 text-lg text-gray-600">
-              {user?.role === 'ADMIN' 
+              {user?.role === 'PLATFORM_ADMIN' 
                 ? `No framework data found for the selected company.`
                 : `You haven't set up your TBM framework yet.`
               }
             </p>
             <p className="mt-1 text-sm text-gray-500">
-              {user?.role === 'ADMIN' 
+              {user?.role === 'PLATFORM_ADMIN' 
                 ? `The selected company may not have completed the framework entry process.`
                 : `Complete the framework entry process to see your dashboard data.`
               }
             </p>
-            {user?.role !== 'ADMIN' && (
+            {user?.role !== 'PLATFORM_ADMIN' && (
               <div className="mt-8">
                 <a
                   href="/framework"
@@ -248,21 +372,27 @@ export default function Dashboard() {
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
           <p className="mt-2 text-gray-600">
-            Technology Business Management insights for {
-              user?.role === 'ADMIN' && selectedCompanyId 
-                ? availableCompanies.find(c => c.id === selectedCompanyId)?.name || 'selected company'
-                : company?.name || 'your company'
-            }
+            Technology Business Management insights for {company?.name || 'your company'}
           </p>
           <p className="mt-1 text-sm text-gray-500">
-            Period: {new Date(parseInt(selectedYear), parseInt(selectedMonth) - 1).toLocaleDateString('en-US', { 
+            Period: {selectedGranularity === 'MONTH' ? new Date(parseInt(selectedYear), parseInt(selectedMonth) - 1).toLocaleDateString('en-US', { 
               month: 'long', 
               year: 'numeric' 
-            })}
+            }) : selectedPeriod}
           </p>
           
 {/* Period Selector */}
           <div className="mt-4 flex items-center space-x-4">
+            <select
+              value={selectedGranularity}
+              onChange={(e) => setSelectedGranularity(e.target.value as PeriodGranularity)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(GRANULARITY_LABELS) as PeriodGranularity[]).map(g => (
+                <option key={g} value={g}>{GRANULARITY_LABELS[g]}</option>
+              ))}
+            </select>
+
             <select
               value={selectedYear}
               onChange={(e) => setSelectedYear(e.target.value)}
@@ -272,56 +402,55 @@ export default function Dashboard() {
                 const year = new Date().getFullYear() - 5 + i;
                 return (
                   <option key={year} value={year.toString()}>
-                    {year}
+                    {selectedGranularity === 'MONTH' ? year : `FY${year}`}
                   </option>
                 );
               })}
             </select>
             
+            {selectedGranularity === 'MONTH' && (
+              <select
+                value={selectedMonth}
+                onChange={(e) => setSelectedMonth(e.target.value)}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="01">January</option>
+                <option value="02">February</option>
+                <option value="03">March</option>
+                <option value="04">April</option>
+                <option value="05">May</option>
+                <option value="06">June</option>
+                <option value="07">July</option>
+                <option value="08">August</option>
+                <option value="09">September</option>
+                <option value="10">October</option>
+                <option value="11">November</option>
+                <option value="12">December</option>
+              </select>
+            )}
+
+            {selectedGranularity === 'QUARTER' && (
+              <select
+                value={selectedQuarter}
+                onChange={(e) => setSelectedQuarter(Number(e.target.value))}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {[1, 2, 3, 4].map(q => <option key={q} value={q}>Q{q}</option>)}
+              </select>
+            )}
+
             <select
-              value={selectedMonth}
-              onChange={(e) => setSelectedMonth(e.target.value)}
+              value={selectedBasis}
+              onChange={(e) => setSelectedBasis(e.target.value as CostBasis)}
               className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
-              <option value="01">January</option>
-              <option value="02">February</option>
-              <option value="03">March</option>
-              <option value="04">April</option>
-              <option value="05">May</option>
-              <option value="06">June</option>
-              <option value="07">July</option>
-              <option value="08">August</option>
-              <option value="09">September</option>
-              <option value="10">October</option>
-              <option value="11">November</option>
-              <option value="12">December</option>
+              {COST_BASES.map(basis => (
+                <option key={basis} value={basis}>{COST_BASIS_LABELS[basis]}</option>
+              ))}
             </select>
 
-{/* Company Selector for Admin*/}
-            {user?.role === 'ADMIN' && (
-              <>
-                <label className="text-sm font-medium text-gray-700">Company:</label>
-                {loadingCompanies ? (
-                  <div className="text-sm text-gray-500">Loading companies...</div>
-                ) : (
-                  <select
-                    value={selectedCompanyId}
-                    onChange={(e) => setSelectedCompanyId(e.target.value)}
-                    className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  >
-                    <option value="">Select a Company</option>
-                    {availableCompanies.map((company) => (
-                      <option key={company.id} value={company.id}>
-                        {company.name}
-                      </option>
-                    ))}
-                  </select>
-                )}
-              </>
-            )}
-
 {/* Toggle Graphs Button (only show if we have enough data) */}
-            {historicalData.length >= 2 && (
+            {trendPoints.length >= 2 && (
               <button
                 type="button"
                 onClick={() => setShowGraphs(!showGraphs)}
@@ -344,10 +473,9 @@ export default function Dashboard() {
                   // Set exporting flag to prevent API calls during export
                   setIsExporting(true);
                   
-                  const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 
-                                     'July', 'August', 'September', 'October', 'November', 'December'];
-                  const monthName = monthNames[parseInt(selectedMonth) - 1];
-                  const filename = `dashboard-${monthName}-${selectedYear}.pdf`;
+                  const filename = selectedGranularity === 'MONTH'
+                    ? `dashboard-${MONTH_NAMES[parseInt(selectedMonth) - 1]}-${selectedYear}.pdf`
+                    : `dashboard-${selectedPeriod}.pdf`;
                   await exportElementToPdf(el, filename);
                 } catch (error) {
                   console.error('PDF export failed:', error);
@@ -376,7 +504,7 @@ export default function Dashboard() {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-500">Total Budget</p>
                 <p className="text-2xl font-semibold text-gray-900">
-                  {formatCurrency(l1Data.reduce((sum, dept) => sum + Number(dept.budget), 0))}
+                  {formatCurrency(l1Data.reduce((sum, dept) => sum + reportingAmount(dept), 0))}
                 </p>
               </div>
             </div>
@@ -424,7 +552,7 @@ export default function Dashboard() {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-500">Net Benefit</p>
                 <p className="text-2xl font-semibold text-gray-900">
-                  {currentSnapshot && currentSnapshot.totalCost > 0 && currentSnapshot.totalBenefit > 0 && l1Data.length > 0 && l2Data.length > 0 ? formatCurrency(currentSnapshot.totalBenefit - currentSnapshot.totalCost) : ''}
+                  {currentSnapshot && currentSnapshot.totalCost > 0 && currentSnapshot.totalBenefit > 0 && l1Data.length > 0 && l2Data.length > 0 ? formatCurrency(currentSnapshot.totalBenefit - currentSnapshot.totalCost, snapshotCurrency) : ''}
                 </p>
               </div>
             </div>
@@ -438,21 +566,28 @@ export default function Dashboard() {
             <div className="mb-4">
               <h3 className="text-lg font-medium text-gray-900">L1 - Technology Cost Foundation Analysis</h3>
               <p className="text-sm text-gray-600 mt-1">
-                Department-level IT efficiency metrics for technology investment planning
+                Cost pool-level IT efficiency metrics for technology investment planning
               </p>
             </div>
             {l1Data.length > 0 ? (
               <div className="space-y-4">
-                {mergeSort([...l1Data], (a, b) => Number(b.budget) - Number(a.budget)).map((dept, index) => {
-                  const costPerEmployee = dept.employees > 0 ? Number(dept.budget) / dept.employees : 0;
-                  const percentageOfTotal = l1Data.reduce((sum, d) => sum + Number(d.budget), 0) > 0 ? 
-                    (Number(dept.budget) / l1Data.reduce((sum, d) => sum + Number(d.budget), 0)) * 100 : 0;
+                {mergeSort([...l1Data], (a, b) => reportingAmount(b) - reportingAmount(a)).map((dept, index) => {
+                  const costPerEmployee = dept.employees > 0 ? reportingAmount(dept) / dept.employees : 0;
+                  const percentageOfTotal = l1Data.reduce((sum, d) => sum + reportingAmount(d), 0) > 0 ? 
+                    (reportingAmount(dept) / l1Data.reduce((sum, d) => sum + reportingAmount(d), 0)) * 100 : 0;
                   
                   return (
                     <div key={index} className="border rounded-lg p-4">
                       <div className="flex items-center justify-between mb-2">
-                        <span className="text-sm font-medium text-gray-900">{getDisplayLabel(dept.department)}</span>
-                        <span className="text-sm font-bold text-blue-600">{formatCurrency(Number(dept.budget))}</span>
+                        <span className="text-sm font-medium text-gray-900">{dept.costPool?.name ?? dept.costPoolId}</span>
+                        <span className="text-sm font-bold text-blue-600">
+                          {dept.reportingBudget === null
+                            ? <>{formatCurrency(Number(dept.budget), dept.currency)} <span className="text-xs font-normal text-red-600">(no {dept.currency} FX rate)</span></>
+                            : formatCurrency(reportingAmount(dept))}
+                          {dept.currency && dept.currency !== reportingCurrency && dept.reportingBudget != null && (
+                            <span className="ml-1 text-xs font-normal text-gray-500">({dept.currency} {formatCurrency(Number(dept.budget), dept.currency)})</span>
+                          )}
+                        </span>
                       </div>
                       <div className="grid grid-cols-2 gap-4 text-xs text-gray-600">
                         <div>
@@ -483,7 +618,7 @@ export default function Dashboard() {
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <div className="text-sm font-bold text-gray-900 mb-1">Total IT Investment</div>
-                      <div className="text-lg font-bold text-blue-600">{formatCurrency(l1Data.reduce((sum, dept) => sum + Number(dept.budget), 0))}</div>
+                      <div className="text-lg font-bold text-blue-600">{formatCurrency(l1Data.reduce((sum, dept) => sum + reportingAmount(dept), 0))}</div>
                     </div>
                     <div>
                       <div className="text-sm font-bold text-gray-900 mb-1">Total Headcount</div>
@@ -492,11 +627,11 @@ export default function Dashboard() {
                     <div>
                       <div className="text-sm font-bold text-gray-900 mb-1">Average Cost per Employee</div>
                       <div className="text-lg font-bold text-purple-600">
-                        {formatCurrency(l1Data.reduce((sum, dept) => sum + Number(dept.budget), 0) / l1Data.reduce((sum, dept) => sum + dept.employees, 0))}
+                        {formatCurrency(l1Data.reduce((sum, dept) => sum + reportingAmount(dept), 0) / l1Data.reduce((sum, dept) => sum + dept.employees, 0))}
                       </div>
                     </div>
                     <div>
-                      <div className="text-sm font-bold text-gray-900 mb-1">Departments</div>
+                      <div className="text-sm font-bold text-gray-900 mb-1">Cost Pools</div>
                       <div className="text-lg font-bold text-orange-600">{l1Data.length} </div>
                     </div>
                   </div>
@@ -518,14 +653,14 @@ export default function Dashboard() {
             {l2Data.length > 0 ? (
               <div className="space-y-4">
                 {mergeSort([...l2Data], (a, b) => b.weightPct - a.weightPct).map((tower, index) => {
-                  const totalBudget = l1Data.reduce((sum, dept) => sum + Number(dept.budget), 0);
+                  const totalBudget = l1Data.reduce((sum, dept) => sum + reportingAmount(dept), 0);
                   const allocatedAmount = totalBudget * tower.weightPct;
                   const efficiencyRating = tower.weightPct > 0.4 ? 'High Focus' : tower.weightPct > 0.2 ? 'Balanced' : 'Low Focus';
                   
                   return (
                     <div key={index} className="border rounded-lg p-4">
                       <div className="flex items-center justify-between mb-2">
-                        <span className="text-sm font-medium text-gray-900">{getTowerDisplayLabel(tower.tower)}</span>
+                        <span className="text-sm font-medium text-gray-900">{getTowerLabel(taxonomy.towers, tower.tower)}</span>
                         <div className="flex items-center space-x-2">
                           <span className="text-sm font-bold text-blue-600">{formatPercentage(tower.weightPct * 100)}</span>
                           <span className="text-xs text-gray-500">({formatCurrency(allocatedAmount)})</span>
@@ -559,7 +694,7 @@ export default function Dashboard() {
                     <div>
                       <div className="text-sm font-bold text-gray-900 mb-1">Highest Investment</div>
                       <div className="text-lg font-bold text-purple-600">
-                        {l2Data.length > 0 ? getTowerDisplayLabel(l2Data.reduce((max, tower) => tower.weightPct > max.weightPct ? tower : max).tower) : ''}
+                        {l2Data.length > 0 ? getTowerLabel(taxonomy.towers, l2Data.reduce((max, tower) => tower.weightPct > max.weightPct ? tower : max).tower) : ''}
                       </div>
                     </div>
                     <div>
@@ -579,6 +714,323 @@ export default function Dashboard() {
           </div>
         </div>
 
+{/* Sensitivity */}
+        {sensitivity && (
+          <div className="bg-white rounded-lg shadow p-6 mb-8">
+            <div className="mb-4 flex items-start justify-between">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">Sensitivity</h3>
+                <p className="text-sm text-gray-600 mt-1">
+                  ROI when each input moves ±{sensitivity.flexPct}% on its own, around a base of {formatPercentage(sensitivity.baseRoiPct)}
+                </p>
+              </div>
+              <select
+                value={flexPct}
+                onChange={(e) => setFlexPct(Number(e.target.value))}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {[5, 10, 20, 25, 50].map(pct => <option key={pct} value={pct}>±{pct}%</option>)}
+              </select>
+            </div>
+            {(() => {
+              const rows = sensitivity.lines.filter(line => line.swing > 0).slice(0, TORNADO_ROWS);
+              if (rows.length === 0) {
+                return <p className="text-gray-500 text-center py-4">No input moves ROI for this snapshot</p>;
+              }
+              // bars are drawn relative to the base ROI, scaled to the widest deviation
+              const base = sensitivity.baseRoiPct;
+              const reach = Math.max(...rows.flatMap(line => [Math.abs(line.lowRoiPct - base), Math.abs(line.highRoiPct - base)]));
+              const toWidth = (roi: number) => (Math.abs(roi - base) / reach) * 50;
+              return (
+                <div className="space-y-2">
+                  {rows.map((line, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center text-xs">
+                      <div className="col-span-3 text-right text-gray-700 truncate" title={sensitivityLabel(line)}>{sensitivityLabel(line)}</div>
+                      <div className="col-span-7 relative h-5 bg-gray-50">
+                        <div className="absolute inset-y-0 left-1/2 w-px bg-gray-400"></div>
+                        {[{ roi: line.lowRoiPct, color: 'bg-red-400' }, { roi: line.highRoiPct, color: 'bg-green-500' }].map(({ roi, color }, i) => (
+                          <div
+                            key={i}
+                            title={`${i === 0 ? '-' : '+'}${sensitivity.flexPct}%: ${formatPercentage(roi)} ROI`}
+                            className={`absolute inset-y-0 ${color}`}
+                            style={roi < base
+                              ? { right: '50%', width: `${toWidth(roi)}%` }
+                              : { left: '50%', width: `${toWidth(roi)}%` }}
+                          ></div>
+                        ))}
+                      </div>
+                      <div className="col-span-2 text-gray-600">{line.swing.toFixed(1)} pts</div>
+                    </div>
+                  ))}
+                  <div className="flex justify-center space-x-6 text-xs text-gray-500 pt-2">
+                    <span><span className="inline-block w-3 h-3 bg-red-400 mr-1 align-middle"></span>Input −{sensitivity.flexPct}%</span>
+                    <span><span className="inline-block w-3 h-3 bg-green-500 mr-1 align-middle"></span>Input +{sensitivity.flexPct}%</span>
+                  </div>
+                </div>
+              );
+            })()}
+          </div>
+        )}
+
+{/* ROI Uncertainty */}
+        {(simulation || simulationError) && (
+          <div className="bg-white rounded-lg shadow p-6 mb-8">
+            <div className="mb-4">
+              <h3 className="text-lg font-medium text-gray-900">ROI Uncertainty</h3>
+              <p className="text-sm text-gray-600 mt-1">
+                Monte Carlo simulation of this snapshot's assumption ranges{simulation ? ` (${simulation.iterations.toLocaleString()} runs)` : ''}
+              </p>
+            </div>
+            {simulation ? (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <div className="text-sm text-gray-600">P10 ROI</div>
+                    <div className="text-lg font-bold text-gray-900">{formatPercentage(simulation.roiPct.p10)}</div>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <div className="text-sm text-gray-600">P50 ROI</div>
+                    <div className="text-lg font-bold text-blue-600">{formatPercentage(simulation.roiPct.p50)}</div>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <div className="text-sm text-gray-600">P90 ROI</div>
+                    <div className="text-lg font-bold text-gray-900">{formatPercentage(simulation.roiPct.p90)}</div>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <div className="text-sm text-gray-600">Chance of Negative ROI</div>
+                    <div className={`text-lg font-bold ${simulation.probabilityNegative > 0.2 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatPercentage(simulation.probabilityNegative * 100)}
+                    </div>
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-end h-40 space-x-1">
+                    {(() => {
+                      const maxCount = Math.max(...simulation.histogram.map(b => b.count));
+                      return simulation.histogram.map((bin, index) => (
+                        <div
+                          key={index}
+                          title={`${formatPercentage(bin.from)} to ${formatPercentage(bin.to)}: ${bin.count} runs`}
+                          className={`flex-1 rounded-t ${bin.to <= 0 ? 'bg-red-400' : bin.from < 0 ? 'bg-yellow-400' : 'bg-blue-500'}`}
+                          style={{ height: `${maxCount > 0 ? (bin.count / maxCount) * 100 : 0}%` }}
+                        ></div>
+                      ));
+                    })()}
+                  </div>
+                  <div className="flex justify-between text-xs text-gray-500 mt-2">
+                    <span>{formatPercentage(simulation.roiPct.min)}</span>
+                    <span>ROI</span>
+                    <span>{formatPercentage(simulation.roiPct.max)}</span>
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-red-600 text-sm">{simulationError}</p>
+            )}
+          </div>
+        )}
+
+{/* Scenario Comparison */}
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <div className="mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Scenario Comparison</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Each scenario's latest snapshot for this period next to the one calculated on the stored data
+            </p>
+          </div>
+          {scenarioComparison && scenarioComparison.scenarios.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Metric</th>
+                    <th className="py-2 pr-4 font-medium text-right">Stored Data</th>
+                    {scenarioComparison.scenarios.map(({ scenario }) => (
+                      <th key={scenario.id} className="py-2 pr-4 font-medium text-right">
+                        {scenario.name} <span className="text-gray-400">({SCENARIO_KIND_LABELS[scenario.kind]})</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {SCENARIO_METRICS.map(metric => {
+                    const format = (value: number | null) => {
+                      if (value == null) return '–';
+                      if (metric.kind === 'currency') return formatCurrency(value);
+                      if (metric.kind === 'percent') return formatPercentage(value);
+                      return `${value.toFixed(1)} mo`;
+                    };
+                    const baseline = scenarioComparison.baseline ? metric.value(scenarioComparison.baseline) : null;
+                    return (
+                      <tr key={metric.label} className="border-b">
+                        <td className="py-2 pr-4 text-gray-900">{metric.label}</td>
+                        <td className="py-2 pr-4 text-right text-gray-900">{scenarioComparison.baseline ? format(baseline) : '–'}</td>
+                        {scenarioComparison.scenarios.map(({ scenario, snapshot }) => {
+                          const value = snapshot ? metric.value(snapshot) : null;
+                          const delta = value != null && baseline != null ? value - baseline : null;
+                          return (
+                            <td key={scenario.id} className="py-2 pr-4 text-right text-gray-900">
+                              {snapshot ? format(value) : 'Not calculated'}
+                              {metric.kind === 'percent' && delta != null && Math.abs(delta) >= 0.05 && (
+                                <span className={`ml-1 text-xs ${delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                  ({delta >= 0 ? '+' : ''}{delta.toFixed(1)} pts)
+                                </span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-gray-500 text-center py-4">No scenarios for this period; add one in Framework Entry step 4</p>
+          )}
+        </div>
+
+{/* Initiative Portfolio */}
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <div className="mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Initiative Portfolio</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              ROI of each initiative calculated for this period, and of the portfolio as a whole
+            </p>
+          </div>
+          {portfolio && portfolio.initiatives.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Initiative</th>
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 pr-4 font-medium">Owner</th>
+                    <th className="py-2 pr-4 font-medium text-right">Cost</th>
+                    <th className="py-2 pr-4 font-medium text-right">Benefit</th>
+                    <th className="py-2 pr-4 font-medium text-right">Net</th>
+                    <th className="py-2 pr-4 font-medium text-right">ROI</th>
+                    <th className="py-2 font-medium text-right">NPV</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {mergeSort([...portfolio.initiatives], (a, b) => b.roiPct - a.roiPct).map(item => (
+                    <tr key={item.snapshotId} className="border-b">
+                      <td className="py-2 pr-4 text-gray-900">{item.initiative.name} <span className="text-xs text-gray-500">({item.initiative.code})</span></td>
+                      <td className="py-2 pr-4 text-gray-600">{INITIATIVE_STATUS_LABELS[item.initiative.status]}</td>
+                      <td className="py-2 pr-4 text-gray-600">{item.initiative.owner?.name ?? '–'}</td>
+                      <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(item.totalCost)}</td>
+                      <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(item.totalBenefit)}</td>
+                      <td className={`py-2 pr-4 text-right font-medium ${item.net >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(item.net)}</td>
+                      <td className="py-2 pr-4 text-right font-medium text-blue-600">{formatPercentage(item.roiPct)}</td>
+                      <td className="py-2 text-right text-gray-900">{item.npv != null ? formatCurrency(item.npv) : '–'}</td>
+                    </tr>
+                  ))}
+                  <tr className="bg-gray-50 font-bold">
+                    <td className="py-2 pr-4 text-gray-900" colSpan={3}>Portfolio ({portfolio.portfolio.initiativeCount} initiatives)</td>
+                    <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(portfolio.portfolio.totalCost)}</td>
+                    <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(portfolio.portfolio.totalBenefit)}</td>
+                    <td className={`py-2 pr-4 text-right ${portfolio.portfolio.net >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(portfolio.portfolio.net)}</td>
+                    <td className="py-2 pr-4 text-right text-blue-600">{formatPercentage(portfolio.portfolio.roiPct)}</td>
+                    <td className="py-2 text-right text-gray-900">{portfolio.portfolio.npv != null ? formatCurrency(portfolio.portfolio.npv) : '–'}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-gray-500 text-center py-4">No initiative ROI calculated for this period</p>
+          )}
+        </div>
+
+{/* Budget vs Actual */}
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <div className="mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Budget vs Actual</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Actual spend against plan for cost pools that have reported an actual; towers use each basis's own allocation
+            </p>
+          </div>
+          {variance && hasActuals ? (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <div className="text-sm text-gray-600">Plan</div>
+                  <div className="text-lg font-bold text-gray-900">{formatCurrency(variance.totals.plan)}</div>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <div className="text-sm text-gray-600">Forecast</div>
+                  <div className="text-lg font-bold text-gray-900">{variance.totals.forecast !== null ? formatCurrency(variance.totals.forecast) : '–'}</div>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <div className="text-sm text-gray-600">Actual</div>
+                  <div className="text-lg font-bold text-gray-900">{variance.totals.actual !== null ? formatCurrency(variance.totals.actual) : '–'}</div>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <div className="text-sm text-gray-600">Variance</div>
+                  <div className="text-lg font-bold">{formatVariance(variance.totals)}</div>
+                </div>
+              </div>
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">By Cost Pool</h4>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 border-b">
+                        <th className="py-2 pr-4 font-medium">Cost Pool</th>
+                        <th className="py-2 pr-4 font-medium text-right">Plan</th>
+                        <th className="py-2 pr-4 font-medium text-right">Forecast</th>
+                        <th className="py-2 pr-4 font-medium text-right">Actual</th>
+                        <th className="py-2 font-medium text-right">Variance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {mergeSort([...variance.costPools], (a, b) => b.plan - a.plan).map(line => (
+                        <tr key={line.code} className="border-b last:border-0">
+                          <td className="py-2 pr-4 text-gray-900">{costPoolName(line.code)}</td>
+                          <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(line.plan)}</td>
+                          <td className="py-2 pr-4 text-right text-gray-600">{line.forecast !== null ? formatCurrency(line.forecast) : '–'}</td>
+                          <td className="py-2 pr-4 text-right text-gray-900">{line.actual !== null ? formatCurrency(line.actual) : '–'}</td>
+                          <td className="py-2 text-right font-medium">{formatVariance(line)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">By Tower</h4>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 border-b">
+                        <th className="py-2 pr-4 font-medium">Tower</th>
+                        <th className="py-2 pr-4 font-medium text-right">Plan</th>
+                        <th className="py-2 pr-4 font-medium text-right">Forecast</th>
+                        <th className="py-2 pr-4 font-medium text-right">Actual</th>
+                        <th className="py-2 font-medium text-right">Variance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {mergeSort([...variance.towers], (a, b) => b.plan - a.plan).map(line => (
+                        <tr key={line.code} className="border-b last:border-0">
+                          <td className="py-2 pr-4 text-gray-900">{getTowerLabel(taxonomy.towers, line.code)}</td>
+                          <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(line.plan)}</td>
+                          <td className="py-2 pr-4 text-right text-gray-600">{line.forecast !== null ? formatCurrency(line.forecast) : '–'}</td>
+                          <td className="py-2 pr-4 text-right text-gray-900">{line.actual !== null ? formatCurrency(line.actual) : '–'}</td>
+                          <td className="py-2 text-right font-medium">{formatVariance(line)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="text-gray-500 text-center py-4">No actuals recorded for this period</p>
+          )}
+        </div>
+
 {/* L4 - ROI Analysis */}
         <div className="bg-white rounded-lg shadow p-6 mb-8">
           <div className="mb-4">
@@ -597,31 +1049,147 @@ export default function Dashboard() {
                 
                 <div className="bg-green-50 p-4 rounded-lg">
                   <h4 className="text-sm font-medium text-green-900 mb-2">Total Investment</h4>
-                  <div className="text-2xl font-bold text-green-600">{formatCurrency(currentSnapshot.totalCost)}</div>
+                  <div className="text-2xl font-bold text-green-600">{formatCurrency(currentSnapshot.totalCost, snapshotCurrency)}</div>
                   <p className="text-xs text-green-700 mt-1">From L1 data</p>
                 </div>
                 
                 <div className="bg-purple-50 p-4 rounded-lg">
                   <h4 className="text-sm font-medium text-purple-900 mb-2">Expected Benefits</h4>
-                  <div className="text-2xl font-bold text-purple-600">{formatCurrency(currentSnapshot.totalBenefit)}</div>
+                  <div className="text-2xl font-bold text-purple-600">{formatCurrency(currentSnapshot.totalBenefit, snapshotCurrency)}</div>
                   <p className="text-xs text-purple-700 mt-1">From L4 assumptions</p>
                 </div>
               </div>
 
 
+              {currentSnapshot.breakdown && Object.keys(currentSnapshot.breakdown.benefitByCategory).length > 0 && (
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <h4 className="text-md font-medium text-gray-700 mb-3">Benefit Breakdown</h4>
+                  <div className="space-y-3">
+                    {mergeSort(Object.entries(currentSnapshot.breakdown.benefitByCategory), (a, b) => b[1] - a[1]).map(([category, amount]) => {
+                      const share = currentSnapshot.totalBenefit > 0 ? (amount / currentSnapshot.totalBenefit) * 100 : 0;
+                      return (
+                        <div key={category}>
+                          <div className="flex justify-between mb-1">
+                            <span className="text-sm text-gray-600">{getBenefitLabel(taxonomy.benefitCategories, category)}</span>
+                            <span className="text-sm font-medium text-gray-900">
+                              {formatCurrency(amount, snapshotCurrency)} <span className="text-xs text-gray-500">({formatPercentage(share)})</span>
+                            </span>
+                          </div>
+                          <div className="w-full bg-gray-200 rounded-full h-2">
+                            <div className="bg-purple-500 h-2 rounded-full" style={{ width: `${share}%` }}></div>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {waterfall && waterfall.businessUnits.length > 0 && (
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <h4 className="text-md font-medium text-gray-700 mb-3">Cost Waterfall</h4>
+                  {(() => {
+                    const toTowers = Object.values(waterfall.towers).reduce((a, b) => a + b, 0);
+                    const toUnits = waterfall.businessUnits.reduce((sum, unit) => sum + unit.total, 0);
+                    const stages = [
+                      { label: 'Cost pools', amount: waterfall.totalCost, dropped: 0 },
+                      { label: 'Allocated to towers', amount: toTowers, dropped: waterfall.unallocatedToTowers },
+                      { label: 'Allocated to business units', amount: toUnits, dropped: toTowers - toUnits },
+                    ];
+                    return (
+                      <div className="space-y-2 mb-4">
+                        {stages.map(stage => (
+                          <div key={stage.label} className="flex justify-between">
+                            <span className="text-sm text-gray-600">{stage.label}:</span>
+                            <span className="text-sm font-medium text-gray-900">
+                              {formatCurrency(stage.amount, snapshotCurrency)}
+                              {stage.dropped > 0.005 && <span className="text-xs text-gray-500"> ({formatCurrency(stage.dropped, snapshotCurrency)} unallocated)</span>}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })()}
+
+                  <h5 className="text-sm font-medium text-gray-700 mb-2">Fully Loaded Cost by Business Unit</h5>
+                  <div className="space-y-3">
+                    {waterfall.businessUnits.map(unit => {
+                      const share = waterfall.totalCost > 0 ? (unit.total / waterfall.totalCost) * 100 : 0;
+                      const towers = mergeSort(Object.entries(unit.byTower), (a, b) => b[1] - a[1]).slice(0, 3);
+                      return (
+                        <div key={unit.businessUnit}>
+                          <div className="flex justify-between mb-1">
+                            <span className="text-sm text-gray-600">{businessUnitName(unit.businessUnit)}</span>
+                            <span className="text-sm font-medium text-gray-900">
+                              {formatCurrency(unit.total, snapshotCurrency)} <span className="text-xs text-gray-500">({formatPercentage(share)})</span>
+                            </span>
+                          </div>
+                          <div className="w-full bg-gray-200 rounded-full h-2">
+                            <div className="bg-blue-500 h-2 rounded-full" style={{ width: `${share}%` }}></div>
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {towers.map(([tower, amount]) => `${getTowerLabel(taxonomy.towers, tower)} ${formatCurrency(amount, snapshotCurrency)}`).join(' · ')}
+                          </p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               <div className="bg-gray-50 p-4 rounded-lg">
                 <h4 className="text-md font-medium text-gray-700 mb-3">Investment Summary</h4>
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <span className="text-sm text-gray-600">Net Benefit:</span>
                     <span className={`text-sm font-bold ${(currentSnapshot.totalBenefit - currentSnapshot.totalCost) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {formatCurrency(currentSnapshot.totalBenefit - currentSnapshot.totalCost)}
+                      {formatCurrency(currentSnapshot.totalBenefit - currentSnapshot.totalCost, snapshotCurrency)}
                     </span>
                   </div>
+                  {currentSnapshot.breakdown?.costTypes && currentSnapshot.breakdown.costTypes.capexPurchased + currentSnapshot.breakdown.costTypes.depreciation > 0 && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-sm text-gray-600">Opex:</span>
+                        <span className="text-sm font-medium text-gray-900">{formatCurrency(currentSnapshot.breakdown.costTypes.opex, snapshotCurrency)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm text-gray-600">Capex Depreciation:</span>
+                        <span className="text-sm font-medium text-gray-900">{formatCurrency(currentSnapshot.breakdown.costTypes.depreciation, snapshotCurrency)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm text-gray-600">Capex Purchased (full value):</span>
+                        <span className="text-sm font-medium text-gray-900">{formatCurrency(currentSnapshot.breakdown.costTypes.capexPurchased, snapshotCurrency)}</span>
+                      </div>
+                    </>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-sm text-gray-600">Revenue Uplift :</span>
-                    <span className="text-sm font-medium text-gray-900">{formatCurrency(currentSnapshot.assumptions.revenueUplift)}</span>
+                    <span className="text-sm font-medium text-gray-900">{formatCurrency(currentSnapshot.assumptions.revenueUplift, currentSnapshot.assumptions.currency ?? snapshotCurrency)}</span>
                   </div>
+                  {currentSnapshot.npv != null && (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-gray-600">NPV ({currentSnapshot.projection?.horizonYears ?? ''} yrs @ {formatPercentage((currentSnapshot.projection?.discountRate ?? 0) * 100)}):</span>
+                      <span className={`text-sm font-bold ${currentSnapshot.npv >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(currentSnapshot.npv, snapshotCurrency)}
+                      </span>
+                    </div>
+                  )}
+                  {currentSnapshot.projection && (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-gray-600">IRR:</span>
+                      <span className="text-sm font-medium text-gray-900">
+                        {currentSnapshot.irr != null ? formatPercentage(currentSnapshot.irr * 100) : 'n/a'}
+                      </span>
+                    </div>
+                  )}
+                  {currentSnapshot.projection && (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-gray-600">Payback Period:</span>
+                      <span className="text-sm font-medium text-gray-900">
+                        {currentSnapshot.paybackMonths != null ? `${currentSnapshot.paybackMonths.toFixed(1)} months` : 'Beyond horizon'}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -630,13 +1198,69 @@ export default function Dashboard() {
           )}
         </div>
 
+{/* Multi-Year Projection */}
+        {currentSnapshot?.projection && currentSnapshot.projection.cashflows.length > 0 && (() => {
+          const { cashflows } = currentSnapshot.projection;
+          const scale = Math.max(...cashflows.map(c => Math.max(c.cost, c.benefit)), 1);
+          return (
+            <div className="bg-white rounded-lg shadow p-6 mb-8">
+              <div className="mb-4">
+                <h3 className="text-lg font-medium text-gray-900">Multi-Year Projection</h3>
+                <p className="text-sm text-gray-600 mt-1">
+                  Yearly cost and benefit with each benefit category phased in by its realisation ramp
+                </p>
+              </div>
+              <div className="space-y-4">
+                {cashflows.map(c => (
+                  <div key={c.year}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-600">
+                        Year {c.year}
+                        {c.realisationPct != null && c.realisationPct < 99.95 && (
+                          <span className="ml-2 text-xs text-gray-500">({formatPercentage(c.realisationPct)} of full benefit realised)</span>
+                        )}
+                      </span>
+                      <span className="text-gray-900">
+                        <span className={c.net >= 0 ? 'text-green-600' : 'text-red-600'}>{formatCurrency(c.net, snapshotCurrency)}</span>
+                        {c.cumulativeRoiPct != null && (
+                          <span className="ml-2 text-xs text-gray-500">cumulative ROI {formatPercentage(c.cumulativeRoiPct)}</span>
+                        )}
+                      </span>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="w-full bg-gray-100 rounded-full h-2" title={`Cost ${formatCurrency(c.cost, snapshotCurrency)}`}>
+                        <div className="bg-red-400 h-2 rounded-full" style={{ width: `${(c.cost / scale) * 100}%` }}></div>
+                      </div>
+                      <div className="w-full bg-gray-100 rounded-full h-2" title={`Benefit ${formatCurrency(c.benefit, snapshotCurrency)}`}>
+                        <div className="bg-green-500 h-2 rounded-full" style={{ width: `${(c.benefit / scale) * 100}%` }}></div>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-4 flex items-center justify-between text-xs text-gray-500">
+                <div className="flex items-center space-x-4">
+                  <span className="flex items-center"><span className="inline-block w-3 h-2 bg-red-400 rounded-full mr-1"></span>Cost</span>
+                  <span className="flex items-center"><span className="inline-block w-3 h-2 bg-green-500 rounded-full mr-1"></span>Benefit</span>
+                </div>
+                {currentSnapshot.projection.tco != null && (
+                  <span>TCO over {currentSnapshot.projection.horizonYears} years (capex depreciated): <span className="font-medium text-gray-900">{formatCurrency(currentSnapshot.projection.tco, snapshotCurrency)}</span></span>
+                )}
+              </div>
+            </div>
+          );
+        })()}
+
 
 {/* Revenue/Return graphs */}
-        {showGraphs && l1Data.length > 0 && l2Data.length > 0 && (
+        {showGraphs && trendPoints.length >= 2 && l1Data.length > 0 && l2Data.length > 0 && (
           <div className="bg-white rounded-lg shadow p-6 mb-8">
             <h3 className="text-lg font-medium text-gray-900 mb-4">Revenue & Return Projections</h3>
             <p className="text-sm text-gray-600 mb-6">
-              Based on {historicalData.length} months of historical data
+              Based on {pastPoints.length} {pastPoints.length === 1 ? 'snapshot' : 'snapshots'}
+              {forecast && forecast.points.length > 0 && (
+                <> followed by a forecast of the next {forecast.points.length} periods (dashed, marked *), rolling the current inputs forward with cost pool and loaded rate escalation</>
+              )}
             </p>
             
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -659,29 +1283,38 @@ export default function Dashboard() {
                     ))}
                     
 {/* Revenue line */}
-                    {historicalData.length > 1 && (() => {
-                      const maxRevenue = Math.max(...historicalData.map(s => s.totalBenefit));
-                      const minRevenue = Math.min(...historicalData.map(s => s.totalBenefit));
+                    {trendPoints.length > 1 && (() => {
+                      const maxRevenue = Math.max(...trendPoints.map(s => s.totalBenefit));
+                      const minRevenue = Math.min(...trendPoints.map(s => s.totalBenefit));
                       const range = maxRevenue - minRevenue;
                       
-                      const points = historicalData.map((snapshot, index) => {
-                        const x = (index / (historicalData.length - 1)) * 360 + 40;
+                      const points = trendPoints.map((snapshot, index) => {
+                        const x = (index / (trendPoints.length - 1)) * 360 + 40;
                         const y = range > 0 ? 180 - ((snapshot.totalBenefit - minRevenue) / range) * 160 : 100;
                         return `${x},${y}`;
-                      }).join(' ');
+                      });
                       
                       return (
                         <>
                           <polyline
-                            points={points}
+                            points={points.slice(0, forecastFrom + 1).join(' ')}
                             fill="none"
                             stroke="#3b82f6"
                             strokeWidth="3"
                             strokeLinecap="round"
                             strokeLinejoin="round"
                           />
-                          {historicalData.map((snapshot, index) => {
-                            const x = (index / (historicalData.length - 1)) * 360 + 40;
+                          <polyline
+                            points={points.slice(Math.max(0, forecastFrom)).join(' ')}
+                            fill="none"
+                            stroke="#3b82f6"
+                            strokeWidth="3"
+                            strokeDasharray="6,6"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          />
+                          {trendPoints.map((snapshot, index) => {
+                            const x = (index / (trendPoints.length - 1)) * 360 + 40;
                             const y = range > 0 ? 180 - ((snapshot.totalBenefit - minRevenue) / range) * 160 : 100;
                             return (
                               <circle
@@ -689,8 +1322,8 @@ export default function Dashboard() {
                                 cx={x}
                                 cy={y}
                                 r="4"
-                                fill="#3b82f6"
-                                stroke="#f3f4f6"
+                                fill={snapshot.forecast ? '#ffffff' : '#3b82f6'}
+                                stroke={snapshot.forecast ? '#3b82f6' : '#f3f4f6'}
                                 strokeWidth="2"
                               />
                             );
@@ -701,9 +1334,9 @@ export default function Dashboard() {
                   </svg>
                   
 {/* Y-axis labels */}
-                  {historicalData.length > 1 && (() => {
-                    const maxRevenue = Math.max(...historicalData.map(s => s.totalBenefit));
-                    const minRevenue = Math.min(...historicalData.map(s => s.totalBenefit));
+                  {trendPoints.length > 1 && (() => {
+                    const maxRevenue = Math.max(...trendPoints.map(s => s.totalBenefit));
+                    const minRevenue = Math.min(...trendPoints.map(s => s.totalBenefit));
                     const range = maxRevenue - minRevenue;
                     
                     return (
@@ -723,9 +1356,9 @@ export default function Dashboard() {
                   
 {/* x- axis labels */}
                   <div className="absolute bottom-0 left-0 right-0 flex justify-between px-4">
-                    {historicalData.map((snapshot, index) => (
-                      <div key={index} className="text-xs text-gray-600 flex-shrink-0" style={{ width: `${100 / historicalData.length}%`, textAlign: 'center' }}>
-                        {new Date(snapshot.period).toLocaleDateString('en-US', { month: 'short' })}
+                    {trendPoints.map((snapshot, index) => (
+                      <div key={index} className="text-xs text-gray-600 flex-shrink-0" style={{ width: `${100 / trendPoints.length}%`, textAlign: 'center' }}>
+                        {new Date(snapshot.period).toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' })}{snapshot.forecast ? '*' : ''}
                       </div>
                     ))}
                   </div>
@@ -761,14 +1394,14 @@ export default function Dashboard() {
                       strokeDasharray="5,5"
                     />
 {/* ROI line */}
-                    {historicalData.length > 1 && (() => {
-                      const maxROI = Math.max(...historicalData.map(s => s.roiPct));
-                      const minROI = Math.min(...historicalData.map(s => s.roiPct));
+                    {trendPoints.length > 1 && (() => {
+                      const maxROI = Math.max(...trendPoints.map(s => s.roiPct));
+                      const minROI = Math.min(...trendPoints.map(s => s.roiPct));
                       const range = maxROI - minROI;
                       const centerY = 100; // Zero line
                       
-                      const points = historicalData.map((snapshot, index) => {
-                        const x = (index / (historicalData.length - 1)) * 360 + 40;
+                      const points = trendPoints.map((snapshot, index) => {
+                        const x = (index / (trendPoints.length - 1)) * 360 + 40;
                         let y;
                         if (range > 0) {
                           y = centerY - ((snapshot.roiPct - minROI) / range) * 80;
@@ -776,20 +1409,30 @@ export default function Dashboard() {
                           y = centerY;
                         }
                         return `${x},${y}`;
-                      }).join(' ');
+                      });
+                      const stroke = trendPoints[trendPoints.length - 1]?.roiPct >= 0 ? "#10b981" : "#ef4444";
                       
                       return (
                         <>
                           <polyline
-                            points={points}
+                            points={points.slice(0, forecastFrom + 1).join(' ')}
+                            fill="none"
+                            stroke={stroke}
+                            strokeWidth="3"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          />
+                          <polyline
+                            points={points.slice(Math.max(0, forecastFrom)).join(' ')}
                             fill="none"
-                            stroke={historicalData[historicalData.length - 1]?.roiPct >= 0 ? "#10b981" : "#ef4444"}
+                            stroke={stroke}
                             strokeWidth="3"
+                            strokeDasharray="6,6"
                             strokeLinecap="round"
                             strokeLinejoin="round"
                           />
-                          {historicalData.map((snapshot, index) => {
-                            const x = (index / (historicalData.length - 1)) * 360 + 40;
+                          {trendPoints.map((snapshot, index) => {
+                            const x = (index / (trendPoints.length - 1)) * 360 + 40;
                             let y;
                             if (range > 0) {
                               y = centerY - ((snapshot.roiPct - minROI) / range) * 80;
@@ -802,8 +1445,8 @@ export default function Dashboard() {
                                 cx={x}
                                 cy={y}
                                 r="4"
-                                fill={snapshot.roiPct >= 0 ? "#10b981" : "#ef4444"}
-                                stroke="#f3f4f6"
+                                fill={snapshot.forecast ? '#ffffff' : snapshot.roiPct >= 0 ? "#10b981" : "#ef4444"}
+                                stroke={snapshot.forecast ? (snapshot.roiPct >= 0 ? "#10b981" : "#ef4444") : "#f3f4f6"}
                                 strokeWidth="2"
                               />
                             );
@@ -814,9 +1457,9 @@ export default function Dashboard() {
                   </svg>
                   
 {/* Y-axis labels */}
-                  {historicalData.length > 1 && (() => {
-                    const maxROI = Math.max(...historicalData.map(s => s.roiPct));
-                    const minROI = Math.min(...historicalData.map(s => s.roiPct));
+                  {trendPoints.length > 1 && (() => {
+                    const maxROI = Math.max(...trendPoints.map(s => s.roiPct));
+                    const minROI = Math.min(...trendPoints.map(s => s.roiPct));
                     const range = maxROI - minROI;
                     
                     return (
@@ -836,9 +1479,9 @@ export default function Dashboard() {
                   
 {/* Month labels */}
                   <div className="absolute bottom-0 left-0 right-0 flex justify-between px-4">
-                    {historicalData.map((snapshot, index) => (
-                      <div key={index} className="text-xs text-gray-600 flex-shrink-0" style={{ width: `${100 / historicalData.length}%`, textAlign: 'center' }}>
-                        {new Date(snapshot.period).toLocaleDateString('en-US', { month: 'short' })}
+                    {trendPoints.map((snapshot, index) => (
+                      <div key={index} className="text-xs text-gray-600 flex-shrink-0" style={{ width: `${100 / trendPoints.length}%`, textAlign: 'center' }}>
+                        {new Date(snapshot.period).toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' })}{snapshot.forecast ? '*' : ''}
                       </div>
                     ))}
                   </div>
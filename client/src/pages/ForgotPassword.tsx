@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import api from '../lib/api';
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState('');
+  const [isSent, setIsSent] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [err, setErr] = useState('');
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setErr('');
+    setIsLoading(true);
+    try {
+      await api.requestPasswordReset(email);
+      setIsSent(true);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : 'Failed to request a password reset');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">Reset your password</h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {isSent
+              ? `If ${email} has an account, we've sent it a link to choose a new password. The link expires in an hour.`
+              : "Enter your account's email and we'll send you a link to choose a new password."}
+          </p>
+        </div>
+
+        {!isSent && (
+          <form className="mt-8 space-y-6" onSubmit={onSubmit}>
+            <div>
+              <label htmlFor="email-address" className="sr-only">Email address</label>
+              <input
+                id="email-address"
+                name="email"
+                type="email"
+                autoComplete="email"
+                required
+                className="appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 bg-white rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="Email address"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+
+            {err && <div className="text-red-600 text-sm text-center">{err}</div>}
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-gray-900 bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {isLoading ? 'Sending...' : 'Send Reset Link'}
+            </button>
+          </form>
+        )}
+
+        <div className="text-center">
+          <Link to="/login" className="text-blue-600 hover:text-blue-300 text-sm font-medium">Back to sign in</Link>
+        </div>
+      </div>
+    </div>
+  );
+}
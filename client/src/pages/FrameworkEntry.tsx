@@ -1,36 +1,110 @@
 import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/useAuth';
-import { api, type Department, } from '../lib/api';
-import { getDatabaseValue, getAllDisplayLabels, type DisplayDepartment } from '../utils/departmentLabels';
+import { api, type AllocationRule, type AssumptionDistributions, type CostBasis, type CostType, type DepreciationMethod, type CostPool, type Distribution, type DistributionType, type GoalSeekResult, type GoalSeekVariable, type Initiative, type PeriodGranularity, type Scenario, type ScenarioKind, type ScenarioOverrides, type Taxonomy } from '../lib/api';
+import { ALLOCATION_DRIVER_LABELS } from '../utils/allocationDrivers';
+import { COST_BASES, COST_BASIS_LABELS } from '../utils/costBasis';
+import { SCENARIO_KINDS, SCENARIO_KIND_LABELS } from '../utils/scenarios';
+import { COST_TYPES, COST_TYPE_LABELS, DEPRECIATION_METHODS, DEPRECIATION_METHOD_LABELS } from '../utils/costTypes';
+import { CURRENCIES, CURRENCY_LABELS, DEFAULT_CURRENCY, formatMoney } from '../utils/currency';
+import { GRANULARITY_LABELS, MONTH_NAMES, buildPeriodLabel, describeFiscalYear, fiscalYearOf } from '../utils/periods';
+import { can } from '../utils/roles';
+
+type UncertainAssumption = keyof AssumptionDistributions;
+
+// L4 assumptions that can be entered as a range for the Monte Carlo simulation on the Dashboard
+const UNCERTAIN_ASSUMPTIONS: { key: UncertainAssumption; label: string }[] = [
+  { key: 'revenueUplift', label: 'Revenue Uplift' },
+  { key: 'productivityGainHours', label: 'Productivity Gain (Hours)' },
+  { key: 'avgLoadedRate', label: 'Average Loaded Rate' },
+  { key: 'riskAvoidedValue', label: 'Risk Avoided Value' },
+  { key: 'costAvoided', label: 'Cost Avoided' },
+];
+
+const DISTRIBUTION_LABELS: Record<DistributionType, string> = {
+  triangular: 'Triangular',
+  normal: 'Normal',
+  uniform: 'Uniform',
+};
 
 export default function FrameworkEntry() {
   const { user, company } = useAuth();
+  // Reporting period: a calendar month, or a quarter/year of the company's fiscal calendar
+  const [granularity, setGranularity] = useState<PeriodGranularity>('MONTH');
   const [period, setPeriod] = useState<string>(new Date().toISOString().slice(0, 7));
+  const [fiscalYearStartMonth, setFiscalYearStartMonth] = useState<number>(1);
+  const [fiscalYear, setFiscalYear] = useState<number>(new Date().getFullYear());
+  const [quarter, setQuarter] = useState<number>(1);
   const [currentStep, setCurrentStep] = useState<number>(1);
 
-  // Admin switch between companies
-  const [selectedCompanyId, setSelectedCompanyId] = useState<string>('');
-  const [availableCompanies, setAvailableCompanies] = useState<{ id: string; name: string; domain: string }[]>([]);
-
-  // L1 data with display departments overlayed
-  const [dept, setDept] = useState<Department>('ENGINEERING'); //from prisma schema
-  const [displayDept, setDisplayDept] = useState<DisplayDepartment>('Labour'); //shows on UI
+  // L1 data against the company's cost pools
+  const [costPools, setCostPools] = useState<CostPool[]>([]);
+  const [costPoolId, setCostPoolId] = useState<string>('');
+  // pools whose company-wide L2 weights are derived from driver values
+  const [allocationRules, setAllocationRules] = useState<AllocationRule[]>([]);
   const [employees, setEmployees] = useState<number>(0);
   const [budget, setBudget] = useState<number>(0);
+  // blank until recorded; a blank field leaves any saved forecast/actual untouched
+  const [forecast, setForecast] = useState<string>('');
+  const [actual, setActual] = useState<string>('');
+  const [costType, setCostType] = useState<CostType>('OPEX');
+  const [assetLifeMonths, setAssetLifeMonths] = useState<number>(36);
+  const [depreciationMethod, setDepreciationMethod] = useState<DepreciationMethod>('STRAIGHT_LINE');
+  // amounts may be entered in any currency; they're converted to the company's reporting currency
+  const [reportingCurrency, setReportingCurrency] = useState(DEFAULT_CURRENCY);
+  const [l1Currency, setL1Currency] = useState(DEFAULT_CURRENCY);
+
+  // Initiative the L1-L4 entries are attributed to; blank for company-wide data
+  const [initiatives, setInitiatives] = useState<Initiative[]>([]);
+  const [initiativeId, setInitiativeId] = useState<string>('');
 
-  // L2 technology towers
-  const [appDev, setAppDev] = useState<number>(0);
-  const [cloud, setCloud] = useState<number>(0);
-  const [endUser, setEndUser] = useState<number>(0);
+  // Company towers and benefit categories that L2/L3 weights are entered against
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ towers: [], benefitCategories: [], businessUnits: [] });
 
-  // L3 benefit weights
-  const [prod, setProd] = useState<number>(0);
-  const [rev, setRev] = useState<number>(0);
+  // L2 technology towers keyed by company tower code, any subset may carry weight
+  const [towerWeights, setTowerWeights] = useState<Record<string, number>>({});
+  const [towerWeightErrors, setTowerWeightErrors] = useState<Record<string, string | undefined>>({});
+  const l2Sum = taxonomy.towers.reduce((sum, tower) => sum + (towerWeights[tower.code] ?? 0), 0);
+
+  // L3 benefit weights keyed by company category code
+  const [benefitWeights, setBenefitWeights] = useState<Record<string, number>>({});
+  const [benefitWeightErrors, setBenefitWeightErrors] = useState<Record<string, string | undefined>>({});
+  const l3Sum = taxonomy.benefitCategories.reduce((sum, category) => sum + (benefitWeights[category.code] ?? 0), 0);
 
   // L4 assumptions data
   const [uplift, setUplift] = useState<number>(0);
   const [hours, setHours] = useState<number>(0);
   const [rate, setRate] = useState<number>(0);
+  const [riskAvoided, setRiskAvoided] = useState<number>(0);
+  const [costAvoided, setCostAvoided] = useState<number>(0);
+  const [assumptionCurrency, setAssumptionCurrency] = useState(DEFAULT_CURRENCY);
+  // yearly growth of the loaded rate, as a percentage; only forecasts use it
+  const [rateEscalationPct, setRateEscalationPct] = useState<number>(0);
+  const [costBasis, setCostBasis] = useState<CostBasis>('PLAN');
+  // assumptions without a distribution are simulated at their point value
+  const [distributions, setDistributions] = useState<AssumptionDistributions>({});
+
+  // Scenario: '' computes on the stored data, 'new' creates one on save, otherwise an existing scenario's id
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [scenarioId, setScenarioId] = useState<string>('');
+  const [scenarioName, setScenarioName] = useState<string>('');
+  const [scenarioKind, setScenarioKind] = useState<ScenarioKind>('CUSTOM');
+  // blank entries keep the stored value
+  const [budgetOverrides, setBudgetOverrides] = useState<Record<string, string>>({});
+  const [benefitOverrides, setBenefitOverrides] = useState<Record<string, string>>({});
+
+  // "What would it take": the value of one input that reaches a target ROI
+  const [goalTargetRoiPct, setGoalTargetRoiPct] = useState<number>(0);
+  const [goalVariable, setGoalVariable] = useState<string>('ASSUMPTION:revenueUplift');
+  const [goalResult, setGoalResult] = useState<GoalSeekResult | null>(null);
+  const [goalError, setGoalError] = useState<string>('');
+  const [isSolving, setIsSolving] = useState<boolean>(false);
+
+  // L4 multi-year projection
+  const [horizonYears, setHorizonYears] = useState<number>(3);
+  const [discountRatePct, setDiscountRatePct] = useState<number>(8);
+  const [costPhasing, setCostPhasing] = useState<string>('');
+  const [benefitPhasing, setBenefitPhasing] = useState<string>('');
 
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [successMessage, setSuccessMessage] = useState<string>('');
@@ -40,36 +114,90 @@ export default function FrameworkEntry() {
   const [validationErrors, setValidationErrors] = useState<{
     employees?: string;
     budget?: string;
-    appDev?: string;
-    cloud?: string;
-    endUser?: string;
-    prod?: string;
-    rev?: string;
+    forecast?: string;
+    actual?: string;
     uplift?: string;
     hours?: string;
     rate?: string;
+    riskAvoided?: string;
+    costAvoided?: string;
+    horizonYears?: string;
+    discountRatePct?: string;
   }>({});
 
-  // load companies for admin users
+  // load cost pools and taxonomy whenever the active company changes
+  const poolCompanyId = user?.companyId;
   useEffect(() => {
-    if (user?.role === 'ADMIN') {
-      // Load all companies for admin users
-      api.getCompanies().then(setAvailableCompanies).catch(() => setAvailableCompanies([]));
+    if (!poolCompanyId) {
+      setCostPools([]);
+      setTaxonomy({ towers: [], benefitCategories: [], businessUnits: [] });
+      setInitiatives([]);
+      setAllocationRules([]);
+      return;
     }
-  }, [user?.role]);
+    api.costPools(poolCompanyId)
+      .then(pools => {
+        setCostPools(pools);
+        setCostPoolId(current => pools.some(p => p.id === current) ? current : pools[0]?.id ?? '');
+      })
+      .catch(() => setCostPools([]));
+    api.allocationRules(poolCompanyId)
+      .then(setAllocationRules)
+      .catch(() => setAllocationRules([]));
+    api.taxonomy(poolCompanyId)
+      .then(setTaxonomy)
+      .catch(() => setTaxonomy({ towers: [], benefitCategories: [], businessUnits: [] }));
+    api.initiatives(poolCompanyId)
+      .then(list => {
+        const open = list.filter(i => i.status !== 'CANCELLED' && i.status !== 'COMPLETED');
+        setInitiatives(open);
+        setInitiativeId(current => open.some(i => i.id === current) ? current : '');
+      })
+      .catch(() => setInitiatives([]));
+    api.companySettings(poolCompanyId)
+      .then(settings => {
+        setFiscalYearStartMonth(settings.fiscalYearStartMonth);
+        setFiscalYear(fiscalYearOf(new Date(), settings.fiscalYearStartMonth));
+        setReportingCurrency(settings.reportingCurrency);
+        setL1Currency(settings.reportingCurrency);
+        setAssumptionCurrency(settings.reportingCurrency);
+      })
+      .catch(() => setFiscalYearStartMonth(1));
+  }, [poolCompanyId]);
+
+  // scenarios belong to a period, so reload them whenever it changes
+  useEffect(() => {
+    if (!poolCompanyId) {
+      setScenarios([]);
+      return;
+    }
+    api.scenarios(poolCompanyId, buildPeriodLabel(granularity, period, fiscalYear, quarter))
+      .then(list => {
+        setScenarios(list);
+        setScenarioId(current => current === 'new' || list.some(s => s.id === current) ? current : '');
+      })
+      .catch(() => setScenarios([]));
+  }, [poolCompanyId, granularity, period, fiscalYear, quarter]);
 
   if (!user) return <div className="text-sm">Please login.</div>;
   
   
-  const full = `${period}-01`; // server normalising date to be in the 1st of month
+  const full = buildPeriodLabel(granularity, period, fiscalYear, quarter);
+  const currencyOptions = CURRENCIES.includes(reportingCurrency) ? CURRENCIES : [reportingCurrency, ...CURRENCIES];
+  // initiative-specific weights are always entered by hand
+  const poolRule = initiativeId ? undefined : allocationRules.find(rule => rule.costPoolId === costPoolId);
 
-  // Check if EMPLOYEE has a company
-  if (user.role !== 'ADMIN' && !user.companyId) {
+  // Check if the user has a company
+  if (!user.companyId) {
     return (
       <div className="min-h-screen bg-black flex items-center justify-center">
         <div className="text-center">
           <h1 className="text-2xl font-bold text-gray-900 mb-4">No Company Assigned</h1>
-          <p className="text-gray-600">You are not assigned to any company. Please contact your administrator.</p>
+          <p className="text-gray-600">
+            {user.role === 'PLATFORM_ADMIN'
+              ? 'Choose a company from the switcher in the navigation bar.'
+              : 'You are not assigned to any company. Please contact your administrator.'}
+          </p>
         </div>
       </div>
     );
@@ -78,13 +206,23 @@ export default function FrameworkEntry() {
 //l1save 
   async function saveL1() {
     // Check for validation errors
-    if (validationErrors.employees || validationErrors.budget) {
+    if (validationErrors.employees || validationErrors.budget || validationErrors.forecast || validationErrors.actual) {
       setErrorMessage('Please fix validation errors before saving');
       return;
     }
+
+    if (!costPoolId) {
+      setErrorMessage('Select a cost pool');
+      return;
+    }
+
+    if (costType === 'CAPEX' && (!Number.isInteger(assetLifeMonths) || assetLifeMonths < 1 || assetLifeMonths > 360)) {
+      setErrorMessage('Asset life must be a whole number of months between 1 and 360');
+      return;
+    }
     
     // Use the user's actual company ID for L1 operations
-    const targetCompanyId = user?.role === 'ADMIN' && selectedCompanyId ? selectedCompanyId : user?.companyId;
+    const targetCompanyId = user?.companyId;
     
     if (!targetCompanyId) {
       setErrorMessage('No company in context');
@@ -99,9 +237,16 @@ export default function FrameworkEntry() {
       await api.l1Upsert({
         companyId: targetCompanyId,
         period: full,
-        department: dept,
+        costPoolId,
+        initiativeId: initiativeId || null,
         employees,
         budget,
+        forecast: optionalAmount(forecast),
+        actual: optionalAmount(actual),
+        currency: l1Currency,
+        costType,
+        assetLifeMonths: costType === 'CAPEX' ? assetLifeMonths : null,
+        depreciationMethod: costType === 'CAPEX' ? depreciationMethod : null,
       });
       setSuccessMessage('L1 Operational inputs saved successfully!');
       setCurrentStep(2);
@@ -115,7 +260,7 @@ export default function FrameworkEntry() {
 //l2 save
   async function saveL2() {
     // Check for individual field validation errors
-    if (validationErrors.appDev || validationErrors.cloud || validationErrors.endUser) {
+    if (Object.values(towerWeightErrors).some(Boolean)) {
       setErrorMessage('Please fix validation errors before saving');
       return;
     }
@@ -128,7 +273,7 @@ export default function FrameworkEntry() {
     }
     
     // Use the user's actual company ID for L2 operations
-    const targetCompanyId = user?.role === 'ADMIN' && selectedCompanyId ? selectedCompanyId : user?.companyId;
+    const targetCompanyId = user?.companyId;
     
     if (!targetCompanyId) {
       setErrorMessage('No company in context');
@@ -143,8 +288,12 @@ export default function FrameworkEntry() {
       await api.l2UpsertBatch({
         companyId: targetCompanyId,
         period: full,
-        department: dept,
-        weights: { APP_DEV: appDev, CLOUD: cloud, END_USER: endUser },
+        costPoolId,
+        initiativeId: initiativeId || null,
+        // zero-weight towers are left out so the server clears them
+        weights: Object.fromEntries(
+          taxonomy.towers.filter(tower => (towerWeights[tower.code] ?? 0) > 0).map(tower => [tower.code, towerWeights[tower.code]])
+        ),
       });
       setSuccessMessage('L2 Allocation weights saved successfully!');
       setCurrentStep(3);
@@ -157,7 +306,7 @@ export default function FrameworkEntry() {
 //l3save
   async function saveL3() {
     // Check for individual errors
-    if (validationErrors.prod || validationErrors.rev) {
+    if (Object.values(benefitWeightErrors).some(Boolean)) {
       setErrorMessage('Please fix validation errors before saving');
       return;
     }
@@ -170,7 +319,7 @@ export default function FrameworkEntry() {
     }
     
     // Use the user's actual company ID for L3 operations
-    const targetCompanyId = user?.role === 'ADMIN' && selectedCompanyId ? selectedCompanyId : user?.companyId;
+    const targetCompanyId = user?.companyId;
     
     if (!targetCompanyId) {
       setErrorMessage('No company in context');
@@ -185,7 +334,11 @@ export default function FrameworkEntry() {
       await api.l3UpsertBatch({
         companyId: targetCompanyId,
         period: full,
-        weights: { PRODUCTIVITY: prod, REVENUE_UPLIFT: rev },
+        initiativeId: initiativeId || null,
+        // zero-weight categories are left out so the server clears them
+        weights: Object.fromEntries(
+          taxonomy.benefitCategories.filter(category => (benefitWeights[category.code] ?? 0) > 0).map(category => [category.code, benefitWeights[category.code]])
+        ),
       });
       setSuccessMessage('L3 Benefit weights saved successfully!');
       setCurrentStep(4);
@@ -200,36 +353,98 @@ export default function FrameworkEntry() {
 
   async function computeAndSave() {
     // Check for validation errors
-    if (validationErrors.uplift || validationErrors.hours || validationErrors.rate) {
+    if (validationErrors.uplift || validationErrors.hours || validationErrors.rate || validationErrors.riskAvoided || validationErrors.costAvoided || validationErrors.horizonYears || validationErrors.discountRatePct) {
       setErrorMessage('Please fix validation errors before saving');
       return;
     }
+
+    const badRange = UNCERTAIN_ASSUMPTIONS.find(({ key }) => {
+      const d = distributions[key];
+      return d && (d.min > d.max || (d.likely !== undefined && (d.likely < d.min || d.likely > d.max)));
+    });
+    if (badRange) {
+      setErrorMessage(`${badRange.label}: the range needs min <= likely <= max`);
+      return;
+    }
+
+    if (rateEscalationPct <= -100 || rateEscalationPct > 100) {
+      setErrorMessage('Loaded rate escalation must be above -100% and at most 100% per year');
+      return;
+    }
     
     // Use the user's actual company ID for L4 computation (same as L1, L2, L3)
-    const targetCompanyId = user?.role === 'ADMIN' && selectedCompanyId ? selectedCompanyId : user?.companyId;
+    const targetCompanyId = user?.companyId;
     
     if (!targetCompanyId) {
       setErrorMessage('No company in context');
       return;
     }
 
+    if (scenarioId === 'new' && !scenarioName.trim()) {
+      setErrorMessage('Name the new scenario');
+      return;
+    }
+
+    const overrides = buildOverrides();
+    const benefitTotal = Object.values(overrides?.l3 ?? {}).reduce((sum, w) => sum + w, 0);
+    if (overrides?.l3 && Math.abs(benefitTotal - 1) > 0.0001) {
+      setErrorMessage(`Scenario benefit weights must sum to 1.0 (currently ${benefitTotal.toFixed(2)})`);
+      return;
+    }
+
     setIsLoading(true);
     setErrorMessage('');
     setSuccessMessage('');
 
+    const assumptions = {
+      revenueUplift: uplift,
+      productivityGainHours: hours,
+      avgLoadedRate: rate,
+      riskAvoidedValue: riskAvoided,
+      costAvoided,
+      currency: assumptionCurrency,
+      avgLoadedRateEscalation: rateEscalationPct / 100,
+      distributions: Object.keys(distributions).length > 0 ? distributions : undefined,
+    };
+
     try {
+      // the scenario is saved first so the snapshot runs on what was just entered
+      let scenario: Scenario | null = null;
+      if (scenarioId === 'new') {
+        scenario = await api.createScenario({ companyId: targetCompanyId, period: full, name: scenarioName.trim(), kind: scenarioKind, assumptions, overrides });
+        setScenarios(current => [...current, scenario!]);
+        setScenarioId(scenario.id);
+        setScenarioName('');
+      } else if (scenarioId) {
+        scenario = await api.updateScenario(scenarioId, { assumptions, overrides: overrides ?? null });
+        setScenarios(current => current.map(s => s.id === scenarioId ? scenario! : s));
+      }
+
       // Use the snapshot calculation that actually works
       const result = await api.snapshot({
         companyId: targetCompanyId,
         period: full,
-        assumptions: {
-          revenueUplift: uplift,
-          productivityGainHours: hours,
-          avgLoadedRate: rate,
+        costBasis,
+        initiativeId: initiativeId || null,
+        scenarioId: scenario?.id ?? null,
+        assumptions,
+        projection: {
+          horizonYears,
+          discountRate: discountRatePct / 100,
+          costPhasing: parsePhasing(costPhasing),
+          benefitPhasing: parsePhasing(benefitPhasing),
         },
       });
       
-      setSuccessMessage(`ROI calculated successfully! Total Cost: $${result.totalCost.toLocaleString()}, Total Benefit: $${result.totalBenefit.toLocaleString()}, ROI: ${result.roiPct.toFixed(1)}%`);
+      const money = (amount: number) => formatMoney(amount, result.currency);
+      const npvText = result.npv != null ? `, NPV: ${money(result.npv)}` : '';
+      const paybackText = result.paybackMonths != null ? `, Payback: ${result.paybackMonths.toFixed(1)} months` : '';
+      const rolledUp = result.breakdown?.sources?.l1;
+      const rollupText = rolledUp && rolledUp.granularity !== granularity ? ` (rolled up from ${rolledUp.periods} ${rolledUp.granularity.toLowerCase()}${rolledUp.periods === 1 ? '' : 's'})` : '';
+      const basisText = costBasis === 'PLAN' ? '' : ` on ${COST_BASIS_LABELS[costBasis].toLowerCase()} costs`;
+      const initiativeName = initiatives.find(i => i.id === initiativeId)?.name;
+      const scopeText = [initiativeName, scenario && `${scenario.name} scenario`].filter(Boolean).map(t => ` (${t})`).join('');
+      setSuccessMessage(`ROI calculated successfully for ${full}${scopeText}${basisText}${rollupText}! Total Cost: ${money(result.totalCost)}, Total Benefit: ${money(result.totalBenefit)}, ROI: ${result.roiPct.toFixed(1)}%${npvText}${paybackText}`);
     } catch (error) {
       setErrorMessage(error instanceof Error ? error.message : 'Failed to compute ROI');
     } finally {
@@ -240,6 +455,121 @@ export default function FrameworkEntry() {
 
   const num = (v: string) => Number(v);
 
+  // Picking a type seeds the range around the current point value
+  const pointValues: Record<UncertainAssumption, number> = {
+    revenueUplift: uplift,
+    productivityGainHours: hours,
+    avgLoadedRate: rate,
+    riskAvoidedValue: riskAvoided,
+    costAvoided,
+  };
+  const setDistributionType = (key: UncertainAssumption, type: DistributionType | '') => {
+    setDistributions(current => {
+      const { [key]: existing, ...rest } = current;
+      if (!type) return rest;
+      const likely = pointValues[key];
+      return { ...rest, [key]: existing ? { ...existing, type } : { type, min: likely * 0.8, likely, max: likely * 1.2 } };
+    });
+  };
+  const setDistributionValue = (key: UncertainAssumption, field: 'min' | 'likely' | 'max', value: number) => {
+    setDistributions(current => {
+      const existing = current[key];
+      return existing ? { ...current, [key]: { ...existing, [field]: value } as Distribution } : current;
+    });
+  };
+  const optionalAmount = (v: string) => (v.trim() === '' ? undefined : Number(v));
+
+  // goal-seek variables are kept as 'ASSUMPTION:<field>' or 'L1:<cost pool code>' in the select
+  const parseGoalVariable = (value: string): GoalSeekVariable => {
+    const [layer, key] = value.split(':');
+    return layer === 'L1' ? { layer: 'L1', costPool: key } : { layer: 'ASSUMPTION', field: key as UncertainAssumption };
+  };
+  const goalVariableLabel = (variable: GoalSeekVariable) =>
+    variable.layer === 'L1'
+      ? `${costPools.find(p => p.code === variable.costPool)?.name ?? variable.costPool} budget`
+      : UNCERTAIN_ASSUMPTIONS.find(a => a.key === variable.field)?.label ?? variable.field;
+  const assumptionSetters: Record<UncertainAssumption, (value: number) => void> = {
+    revenueUplift: setUplift,
+    productivityGainHours: setHours,
+    avgLoadedRate: setRate,
+    riskAvoidedValue: setRiskAvoided,
+    costAvoided: setCostAvoided,
+  };
+
+  async function solveGoal() {
+    if (!poolCompanyId) return;
+    setIsSolving(true);
+    setGoalError('');
+    setGoalResult(null);
+    try {
+      setGoalResult(await api.goalSeek({
+        companyId: poolCompanyId,
+        period: full,
+        costBasis,
+        initiativeId: initiativeId || null,
+        assumptions: pointValues,
+        targetRoiPct: goalTargetRoiPct,
+        variable: parseGoalVariable(goalVariable),
+      }));
+    } catch (error) {
+      setGoalError(error instanceof Error ? error.message : 'Failed to solve for the target');
+    } finally {
+      setIsSolving(false);
+    }
+  }
+
+  const applyGoalResult = () => {
+    if (goalResult?.requiredValue == null || goalResult.variable.layer !== 'ASSUMPTION') return;
+    const value = Math.round(goalResult.requiredValue * 100) / 100;
+    assumptionSetters[goalResult.variable.field](value);
+    setGoalResult(null);
+  };
+
+  // Only the filled-in overrides are sent; none at all means the scenario just varies the assumptions
+  const buildOverrides = (): ScenarioOverrides | undefined => {
+    const l1 = Object.fromEntries(Object.entries(budgetOverrides)
+      .filter(([, v]) => v.trim() !== '')
+      .map(([code, v]) => [code, { budget: Number(v) }]));
+    const l3 = Object.fromEntries(Object.entries(benefitOverrides)
+      .filter(([, v]) => v.trim() !== '')
+      .map(([code, v]) => [code, Number(v)]));
+    const overrides: ScenarioOverrides = {
+      ...(Object.keys(l1).length > 0 ? { l1 } : {}),
+      ...(Object.keys(l3).length > 0 ? { l3 } : {}),
+    };
+    return Object.keys(overrides).length > 0 ? overrides : undefined;
+  };
+
+  // Picking an existing scenario loads its assumptions and overrides into the form
+  const selectScenario = (id: string) => {
+    setScenarioId(id);
+    const scenario = scenarios.find(s => s.id === id);
+    if (!scenario) {
+      setBudgetOverrides({});
+      setBenefitOverrides({});
+      return;
+    }
+    const a = scenario.assumptions;
+    setUplift(a.revenueUplift ?? 0);
+    setHours(a.productivityGainHours ?? 0);
+    setRate(a.avgLoadedRate ?? 0);
+    setRiskAvoided(a.riskAvoidedValue ?? 0);
+    setCostAvoided(a.costAvoided ?? 0);
+    setAssumptionCurrency(a.currency ?? reportingCurrency);
+    setRateEscalationPct((a.avgLoadedRateEscalation ?? 0) * 100);
+    setDistributions(a.distributions ?? {});
+    setBudgetOverrides(Object.fromEntries(Object.entries(scenario.overrides?.l1 ?? {})
+      .filter(([, o]) => o.budget !== undefined)
+      .map(([code, o]) => [code, String(o.budget)])));
+    setBenefitOverrides(Object.fromEntries(Object.entries(scenario.overrides?.l3 ?? {}).map(([code, w]) => [code, String(w)])));
+  };
+
+  // "1, 0.5, 0" -> [1, 0.5, 0]; blank leaves the server defaults in place
+  const parsePhasing = (v: string): number[] | undefined => {
+    const parts = v.split(',').map(p => p.trim()).filter(Boolean);
+    return parts.length > 0 ? parts.map(Number) : undefined;
+  };
+
   // Boundary validation functions
   const validateEmployees = (value: number): string | null => {
     if (value < 0) return 'Number of employees cannot be negative';
@@ -262,7 +592,7 @@ export default function FrameworkEntry() {
 
   // Check if L2 weights sum to 1.0
   const validateL2Sum = (): string | null => {
-    const sum = appDev + cloud + endUser;
+    const sum = l2Sum;
     if (Math.abs(sum - 1) >= 0.0001) {
       return `Weights must sum to 1.0 (current sum: ${sum.toFixed(3)})`;
     }
@@ -271,7 +601,7 @@ export default function FrameworkEntry() {
 
   // Check if L3 weights sum to 1.0
   const validateL3Sum = (): string | null => {
-    const sum = prod + rev;
+    const sum = l3Sum;
     if (Math.abs(sum - 1) >= 0.0001) {
       return `Weights must sum to 1.0 (current sum: ${sum.toFixed(3)})`;
     }
@@ -284,6 +614,12 @@ export default function FrameworkEntry() {
     return null;
   };
 
+  const validateAvoidedValue = (value: number, fieldName: string): string | null => {
+    if (value < 0) return `${fieldName} cannot be negative`;
+    if (value > 10000000) return `${fieldName} cannot exceed $10,000,000`;
+    return null;
+  };
+
   const validateHours = (value: number): string | null => {
     if (value < 0) return 'Productivity hours cannot be negative';
     if (value > 100000) return 'Productivity hours cannot exceed 100,000';
@@ -296,6 +632,18 @@ export default function FrameworkEntry() {
     return null;
   };
 
+  const validateHorizon = (value: number): string | null => {
+    if (!Number.isInteger(value)) return 'Horizon must be a whole number of years';
+    if (value < 1 || value > 10) return 'Horizon must be between 1 and 10 years';
+    return null;
+  };
+
+  const validateDiscountRate = (value: number): string | null => {
+    if (value < 0) return 'Discount rate cannot be negative';
+    if (value > 100) return 'Discount rate cannot exceed 100%';
+    return null;
+  };
+
   // Update validation errors when values change
   const updateValidationError = (field: string, value: number) => {
     let error: string | null = null;
@@ -305,23 +653,10 @@ export default function FrameworkEntry() {
         error = validateEmployees(value);
         break;
       case 'budget':
+      case 'forecast':
+      case 'actual':
         error = validateBudget(value);
         break;
-      case 'appDev':
-        error = validateWeight(value, 'Applications weight');
-        break;
-      case 'cloud':
-        error = validateWeight(value, 'Infrastructure weight');
-        break;
-      case 'endUser':
-        error = validateWeight(value, 'Operations weight');
-        break;
-      case 'prod':
-        error = validateWeight(value, 'Productivity weight');
-        break;
-      case 'rev':
-        error = validateWeight(value, 'Revenue weight');
-        break;
       case 'uplift':
         error = validateUplift(value);
         break;
@@ -331,6 +666,18 @@ export default function FrameworkEntry() {
       case 'rate':
         error = validateRate(value);
         break;
+      case 'riskAvoided':
+        error = validateAvoidedValue(value, 'Risk avoided value');
+        break;
+      case 'costAvoided':
+        error = validateAvoidedValue(value, 'Cost avoided');
+        break;
+      case 'horizonYears':
+        error = validateHorizon(value);
+        break;
+      case 'discountRatePct':
+        error = validateDiscountRate(value);
+        break;
     }
     
     setValidationErrors(prev => ({
@@ -339,10 +686,20 @@ export default function FrameworkEntry() {
     }));
   };
 
-  // Handle department selection change
-  const handleDepartmentChange = (displayValue: DisplayDepartment) => {
-    setDisplayDept(displayValue);
-    setDept(getDatabaseValue(displayValue));
+  const updateTowerWeight = (code: string, name: string, value: number) => {
+    setTowerWeights(prev => ({ ...prev, [code]: value }));
+    setTowerWeightErrors(prev => ({
+      ...prev,
+      [code]: validateWeight(value, `${name} weight`) || undefined
+    }));
+  };
+
+  const updateBenefitWeight = (code: string, name: string, value: number) => {
+    setBenefitWeights(prev => ({ ...prev, [code]: value }));
+    setBenefitWeightErrors(prev => ({
+      ...prev,
+      [code]: validateWeight(value, `${name} weight`) || undefined
+    }));
   };
 
   // Step navigation
@@ -359,8 +716,12 @@ export default function FrameworkEntry() {
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900">TBM Framework Entry</h1>
           <p className="mt-2 text-gray-600">
-            Set up your Technology Business Management framework step by step
+            Set up your Technology Business Management framework step by step.{' '}
+            <Link to="/period-locks" className="text-blue-600 hover:text-blue-800">Period locks</Link>
           </p>
+          {!can(user, 'data:write') && (
+            <p className="mt-2 text-sm text-amber-700">Your role is read-only: you can view this company's data but not save changes.</p>
+          )}
         </div>
 
 
@@ -394,47 +755,69 @@ export default function FrameworkEntry() {
 {/* Period selection */}
         <div className="bg-white rounded-lg shadow p-6 mb-6">
           <h3 className="text-lg font-medium text-gray-900 mb-4">Reporting Period</h3>
-          <div className="max-w-xs">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Select Period (YYYY-MM)
-            </label>
-            <input
-              type="month"
-              value={period}
-              onChange={(e) => setPeriod(e.target.value)}
-              className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
-        </div>
-
-{/* Company Selection for Admin Users Only */}
-        {user.role === 'ADMIN' && (
-          <div className="bg-white rounded-lg shadow p-6 mb-6">
-            <h3 className="text-lg font-medium text-gray-900 mb-4">Company Selection</h3>
-            <p className="text-sm text-gray-600 mb-4">As an admin, you can enter data for any company.</p>
-            <div className="max-w-md">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Select Company
-              </label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-w-3xl">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Granularity</label>
               <select
-                value={selectedCompanyId}
-                onChange={(e) => setSelectedCompanyId(e.target.value)}
+                value={granularity}
+                onChange={(e) => setGranularity(e.target.value as PeriodGranularity)}
                 className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                <option value="">Select a company...</option>
-                {availableCompanies.map((company) => (
-                  <option key={company.id} value={company.id}>
-                    {company.name} {company.domain && `(${company.domain})`}
-                  </option>
+                {(Object.keys(GRANULARITY_LABELS) as PeriodGranularity[]).map(g => (
+                  <option key={g} value={g}>{GRANULARITY_LABELS[g]}</option>
                 ))}
               </select>
             </div>
-          </div>
-        )}
 
+            {granularity === 'MONTH' ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Select Period (YYYY-MM)
+                </label>
+                <input
+                  type="month"
+                  value={period}
+                  onChange={(e) => setPeriod(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Fiscal Year</label>
+                <input
+                  type="number"
+                  min={2000}
+                  max={2100}
+                  value={fiscalYear}
+                  onChange={(e) => setFiscalYear(Number(e.target.value))}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            )}
+
+            {granularity === 'QUARTER' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Quarter</label>
+                <select
+                  value={quarter}
+                  onChange={(e) => setQuarter(Number(e.target.value))}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {[1, 2, 3, 4].map(q => <option key={q} value={q}>Q{q}</option>)}
+                </select>
+              </div>
+            )}
+          </div>
+          {granularity !== 'MONTH' && (
+            <p className="mt-3 text-xs text-gray-500">
+              FY{fiscalYear} runs {describeFiscalYear(fiscalYear, fiscalYearStartMonth)} (fiscal year starts in {MONTH_NAMES[fiscalYearStartMonth - 1]}).
+              Inputs entered monthly are rolled up when you calculate ROI for a quarter or year.
+            </p>
+          )}
+        </div>
 
-{/* Company Info for Regular Users */}
-        {user.role !== 'ADMIN' && company && (
+{/* Active company; users in several companies switch it from the navigation bar */}
+        {company && (
           <div className="bg-white rounded-lg shadow p-6 mb-6">
             <h3 className="text-lg font-medium text-gray-900 mb-4">Company Information</h3>
             <p className="text-sm text-gray-600 mb-2">You are entering data for:</p>
@@ -444,29 +827,54 @@ export default function FrameworkEntry() {
             </div>
           </div>
         )}
+{/* Initiative attribution */}
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Initiative</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Attribute these inputs to an initiative, or leave them company-wide. An initiative without its own L2/L3 weights uses the company-wide ones.{' '}
+            <Link to="/initiatives" className="text-blue-600 hover:text-blue-800">Manage initiatives</Link>
+          </p>
+          <div className="max-w-md">
+            <select
+              value={initiativeId}
+              onChange={(e) => setInitiativeId(e.target.value)}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Company-wide (no initiative)</option>
+              {initiatives.map((initiative) => (
+                <option key={initiative.id} value={initiative.id}>
+                  {initiative.name} ({initiative.code})
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
 {/* Step Content */}
         <div className="bg-white rounded-lg shadow">
 {/* L1*/}
           {currentStep === 1 && (
             <div className="p-6">
               <h3 className="text-xl font-semibold text-gray-900 mb-4">L1 - Operational Inputs</h3>
-              <p className="text-gray-600 mb-6">Enter your department's operational data for the selected period.</p>
+              <p className="text-gray-600 mb-6">
+                Enter operational data for one of your cost pools for the selected period.{' '}
+                <Link to="/cost-pools" className="text-blue-600 hover:text-blue-800">Manage cost pools</Link>
+              </p>
               
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Department</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Cost Pool</label>
                   <select
-                    value={displayDept}
-                    onChange={(e) => handleDepartmentChange(e.target.value as DisplayDepartment)}
+                    value={costPoolId}
+                    onChange={(e) => setCostPoolId(e.target.value)}
                     className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
-    {getAllDisplayLabels().map(
-      (label) => (
-        <option key={label} value={label}>
-          {label}
-        </option>
-      ),
-    )}
+                    {costPools.length === 0 && <option value="">No cost pools defined</option>}
+                    {costPools.map((pool) => (
+                      <option key={pool.id} value={pool.id}>
+                        {pool.name}
+                      </option>
+                    ))}
                   </select>
                 </div>
 
@@ -492,7 +900,7 @@ export default function FrameworkEntry() {
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Budget ($)</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Plan Budget ({l1Currency})</label>
                   <input
                     type="number"
                     min={0}
@@ -511,108 +919,175 @@ export default function FrameworkEntry() {
                     <p className="mt-1 text-sm text-red-600">{validationErrors.budget}</p>
                   )}
                 </div>
-              </div>
 
-              <div className="mt-6 flex justify-end">
-                <button
-                  onClick={saveL1}
-                  disabled={isLoading}
-                  className="px-6 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {isLoading ? 'Saving...' : 'Save L1 Data'}
-                </button>
-              </div>
-            </div>
-          )}
-
-{/* L2 */}
-          {currentStep === 2 && (
-            <div className="p-6">
-              <h3 className="text-xl font-semibold text-gray-900 mb-4">L2 - Allocation Weights</h3>
-              <p className="text-gray-600 mb-6">Define how your budget is allocated across technology towers. Weights must sum to 1.0.</p>
-              
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Applications</label>
-                  <p className="text-xs text-gray-500 mb-2">Software applications and data platforms</p>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Forecast ({l1Currency}) <span className="text-gray-400 font-normal">optional</span></label>
                   <input
                     type="number"
-                    step="0.01"
                     min={0}
-                    max={1}
-                    value={appDev}
+                    max={10000000}
+                    value={forecast}
                     onChange={(e) => {
-                      const value = num(e.target.value);
-                      setAppDev(value);
-                      updateValidationError('appDev', value);
+                      setForecast(e.target.value);
+                      updateValidationError('forecast', num(e.target.value));
                     }}
                     className={`w-full border rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                      validationErrors.appDev ? 'border-red-500' : 'border-gray-300'
+                      validationErrors.forecast ? 'border-red-500' : 'border-gray-300'
                     }`}
                   />
-                  {validationErrors.appDev && (
-                    <p className="mt-1 text-sm text-red-600">{validationErrors.appDev}</p>
+                  {validationErrors.forecast && (
+                    <p className="mt-1 text-sm text-red-600">{validationErrors.forecast}</p>
                   )}
                 </div>
+
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Infrastructure</label>
-                  <p className="text-xs text-gray-500 mb-2">Core technology infrastructure and foundational systems</p>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Actual ({l1Currency}) <span className="text-gray-400 font-normal">optional</span></label>
                   <input
                     type="number"
-                    step="0.01"
                     min={0}
-                    max={1}
-                    value={cloud}
+                    max={10000000}
+                    value={actual}
                     onChange={(e) => {
-                      const value = num(e.target.value);
-                      setCloud(value);
-                      updateValidationError('cloud', value);
+                      setActual(e.target.value);
+                      updateValidationError('actual', num(e.target.value));
                     }}
                     className={`w-full border rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                      validationErrors.cloud ? 'border-red-500' : 'border-gray-300'
+                      validationErrors.actual ? 'border-red-500' : 'border-gray-300'
                     }`}
                   />
-                  {validationErrors.cloud && (
-                    <p className="mt-1 text-sm text-red-600">{validationErrors.cloud}</p>
+                  {validationErrors.actual && (
+                    <p className="mt-1 text-sm text-red-600">{validationErrors.actual}</p>
                   )}
                 </div>
+
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Operations</label>
-                  <p className="text-xs text-gray-500 mb-2">IT operations, security, and governance</p>
-                  <input
-                    type="number"
-                    step="0.01"
-                    min={0}
-                    max={1}
-                    value={endUser}
-                    onChange={(e) => {
-                      const value = num(e.target.value);
-                      setEndUser(value);
-                      updateValidationError('endUser', value);
-                    }}
-                    className={`w-full border rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                      validationErrors.endUser ? 'border-red-500' : 'border-gray-300'
-                    }`}
-                  />
-                  {validationErrors.endUser && (
-                    <p className="mt-1 text-sm text-red-600">{validationErrors.endUser}</p>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Currency</label>
+                  <select
+                    value={l1Currency}
+                    onChange={(e) => setL1Currency(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {currencyOptions.map((code) => (
+                      <option key={code} value={code}>{CURRENCY_LABELS[code] ?? code}</option>
+                    ))}
+                  </select>
+                  {l1Currency !== reportingCurrency && (
+                    <p className="mt-1 text-xs text-gray-500">Converted to {reportingCurrency} at the FX rate for this period.</p>
                   )}
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Cost Type</label>
+                  <select
+                    value={costType}
+                    onChange={(e) => setCostType(e.target.value as CostType)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {COST_TYPES.map((type) => (
+                      <option key={type} value={type}>{COST_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {costType === 'CAPEX' && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Asset Life (Months)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={360}
+                        value={assetLifeMonths}
+                        onChange={(e) => setAssetLifeMonths(num(e.target.value))}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Depreciation Method</label>
+                      <select
+                        value={depreciationMethod}
+                        onChange={(e) => setDepreciationMethod(e.target.value as DepreciationMethod)}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {DEPRECIATION_METHODS.map((method) => (
+                          <option key={method} value={method}>{DEPRECIATION_METHOD_LABELS[method]}</option>
+                        ))}
+                      </select>
+                      <p className="mt-1 text-xs text-gray-500">ROI charges only the depreciation falling in each period, starting this period.</p>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div className="mt-6 flex justify-end">
+                <button
+                  onClick={saveL1}
+                  disabled={isLoading}
+                  className="px-6 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoading ? 'Saving...' : 'Save L1 Data'}
+                </button>
+              </div>
+            </div>
+          )}
+
+{/* L2 */}
+          {currentStep === 2 && (
+            <div className="p-6">
+              <h3 className="text-xl font-semibold text-gray-900 mb-4">L2 - Allocation Weights</h3>
+              <p className="text-gray-600 mb-6">Define how {costPools.find(p => p.id === costPoolId)?.name ?? 'this cost pool'}'s budget is allocated across technology towers. Leave unused towers at 0; weights must sum to 1.0.{' '}
+                <Link to="/taxonomy" className="text-blue-600 hover:text-blue-800">Manage towers</Link>{' · '}
+                <Link to="/allocation-rules" className="text-blue-600 hover:text-blue-800">Allocation rules</Link>{' · '}
+                <Link to="/business-unit-weights" className="text-blue-600 hover:text-blue-800">Allocate towers to business units</Link>
+              </p>
+
+              {poolRule ? (
+                <div className="p-4 bg-gray-50 rounded-md">
+                  <p className="text-sm text-gray-700">
+                    {poolRule.costPool.name} is allocated by {ALLOCATION_DRIVER_LABELS[poolRule.driver].toLowerCase()} across {poolRule.towers ? poolRule.towers.length : 'all active'} towers.
+                    Its weights are recalculated from the driver values entered for each period, so they can't be edited here.
+                  </p>
+                </div>
+              ) : (
+              <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {taxonomy.towers.map((tower) => (
+                  <div key={tower.code}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">{tower.name}</label>
+                    {tower.description && <p className="text-xs text-gray-500 mb-2">{tower.description}</p>}
+                    <input
+                      type="number"
+                      step="0.01"
+                      min={0}
+                      max={1}
+                      value={towerWeights[tower.code] ?? 0}
+                      onChange={(e) => updateTowerWeight(tower.code, tower.name, num(e.target.value))}
+                      className={`w-full border rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        towerWeightErrors[tower.code] ? 'border-red-500' : 'border-gray-300'
+                      }`}
+                    />
+                    {towerWeightErrors[tower.code] && (
+                      <p className="mt-1 text-sm text-red-600">{towerWeightErrors[tower.code]}</p>
+                    )}
+                  </div>
+                ))}
               </div>
               
               <div className="mt-4 p-4 bg-gray-50 rounded-md">
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium text-gray-600">Total Weight:</span>
                   <span className={`text-sm font-bold ${
-                    Math.abs((appDev + cloud + endUser) - 1) < 0.0001 ? 'text-green-800' : 'text-red-800'
+                    Math.abs(l2Sum - 1) < 0.0001 ? 'text-green-800' : 'text-red-800'
                   }`}>
-                    {(appDev + cloud + endUser).toFixed(3)}
+                    {l2Sum.toFixed(3)}
                   </span>
                 </div>
-                {Math.abs((appDev + cloud + endUser) - 1) >= 0.0001 && (
-                  <p className="text-xs text-red-800 mt-1">Weights must sum to 1.0 (current sum: {(appDev + cloud + endUser).toFixed(3)})</p>
+                {Math.abs(l2Sum - 1) >= 0.0001 && (
+                  <p className="text-xs text-red-800 mt-1">Weights must sum to 1.0 (current sum: {l2Sum.toFixed(3)})</p>
                 )}
               </div>
+              </>
+              )}
 
               <div className="mt-6 flex justify-between">
                 <button
@@ -621,13 +1096,22 @@ export default function FrameworkEntry() {
                 >
                   Previous
                 </button>
-                <button
-                  onClick={saveL2}
-                  disabled={isLoading || Math.abs((appDev + cloud + endUser) - 1) >= 0.0001 || !!validationErrors.appDev || !!validationErrors.cloud || !!validationErrors.endUser}
-                  className="px-6 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {isLoading ? 'Saving...' : 'Save L2 Data'}
-                </button>
+                {poolRule ? (
+                  <button
+                    onClick={() => setCurrentStep(3)}
+                    className="px-6 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700"
+                  >
+                    Next
+                  </button>
+                ) : (
+                  <button
+                    onClick={saveL2}
+                    disabled={isLoading || Math.abs(l2Sum - 1) >= 0.0001 || Object.values(towerWeightErrors).some(Boolean)}
+                    className="px-6 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isLoading ? 'Saving...' : 'Save L2 Data'}
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -636,64 +1120,44 @@ export default function FrameworkEntry() {
           {currentStep === 3 && (
             <div className="p-6">
               <h3 className="text-xl font-semibold text-gray-900 mb-4">L3 - Benefit Weights</h3>
-              <p className="text-gray-600 mb-6">Define the expected benefit categories. Weights must sum to 1.0.</p>
+              <p className="text-gray-600 mb-6">Define the expected benefit categories. Weights must sum to 1.0.{' '}
+                <Link to="/taxonomy" className="text-blue-600 hover:text-blue-800">Manage benefit categories</Link>
+              </p>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Productivity Gains</label>
-                  <input
-                    type="number"
-                    step="0.01"
-                    min={0}
-                    max={1}
-                    value={prod}
-                    onChange={(e) => {
-                      const value = num(e.target.value);
-                      setProd(value);
-                      updateValidationError('prod', value);
-                    }}
-                    className={`w-full border rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                      validationErrors.prod ? 'border-red-500' : 'border-gray-300'
-                    }`}
-                  />
-                  {validationErrors.prod && (
-                    <p className="mt-1 text-sm text-red-600">{validationErrors.prod}</p>
-                  )}
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Revenue Uplift</label>
-                  <input
-                    type="number"
-                    step="0.01"
-                    min={0}
-                    max={1}
-                    value={rev}
-                    onChange={(e) => {
-                      const value = num(e.target.value);
-                      setRev(value);
-                      updateValidationError('rev', value);
-                    }}
-                    className={`w-full border rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                      validationErrors.rev ? 'border-red-500' : 'border-gray-300'
-                    }`}
-                  />
-                  {validationErrors.rev && (
-                    <p className="mt-1 text-sm text-red-600">{validationErrors.rev}</p>
-                  )}
-                </div>
+                {taxonomy.benefitCategories.map((category) => (
+                  <div key={category.code}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">{category.name}</label>
+                    {category.description && <p className="text-xs text-gray-500 mb-2">{category.description}</p>}
+                    <input
+                      type="number"
+                      step="0.01"
+                      min={0}
+                      max={1}
+                      value={benefitWeights[category.code] ?? 0}
+                      onChange={(e) => updateBenefitWeight(category.code, category.name, num(e.target.value))}
+                      className={`w-full border rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        benefitWeightErrors[category.code] ? 'border-red-500' : 'border-gray-300'
+                      }`}
+                    />
+                    {benefitWeightErrors[category.code] && (
+                      <p className="mt-1 text-sm text-red-600">{benefitWeightErrors[category.code]}</p>
+                    )}
+                  </div>
+                ))}
               </div>
               
               <div className="mt-4 p-4 bg-gray-50 rounded-md">
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium text-gray-600">Total Weight:</span>
                   <span className={`text-sm font-bold ${
-                    Math.abs((prod + rev) - 1) < 0.0001 ? 'text-green-800' : 'text-red-800'
+                    Math.abs(l3Sum - 1) < 0.0001 ? 'text-green-800' : 'text-red-800'
                   }`}>
-                    {(prod + rev).toFixed(3)}
+                    {l3Sum.toFixed(3)}
                   </span>
                 </div>
-                {Math.abs((prod + rev) - 1) >= 0.0001 && (
-                  <p className="text-xs text-red-800 mt-1">Weights must sum to 1.0 (current sum: {(prod + rev).toFixed(3)})</p>
+                {Math.abs(l3Sum - 1) >= 0.0001 && (
+                  <p className="text-xs text-red-800 mt-1">Weights must sum to 1.0 (current sum: {l3Sum.toFixed(3)})</p>
                 )}
               </div>
 
@@ -706,7 +1170,7 @@ export default function FrameworkEntry() {
                 </button>
                 <button
                   onClick={saveL3}
-                  disabled={isLoading || Math.abs((prod + rev) - 1) >= 0.0001 || !!validationErrors.prod || !!validationErrors.rev}
+                  disabled={isLoading || Math.abs(l3Sum - 1) >= 0.0001 || Object.values(benefitWeightErrors).some(Boolean)}
                   className="px-6 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {isLoading ? 'Saving...' : 'Save L3 Data'}
@@ -720,10 +1184,128 @@ export default function FrameworkEntry() {
             <div className="p-6">
               <h3 className="text-xl font-semibold text-gray-900 mb-4">L4 - ROI Assumptions</h3>
               <p className="text-gray-600 mb-6">Enter your assumptions for calculating ROI and benefits.</p>
+
+              <div className="bg-gray-50 rounded-lg p-4 mb-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Scenario</label>
+                    <select
+                      value={scenarioId}
+                      onChange={(e) => selectScenario(e.target.value)}
+                      className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Stored data (no scenario)</option>
+                      {scenarios.map((s) => (
+                        <option key={s.id} value={s.id}>{s.name} ({SCENARIO_KIND_LABELS[s.kind]})</option>
+                      ))}
+                      <option value="new">+ New scenario</option>
+                    </select>
+                  </div>
+                  {scenarioId === 'new' && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Scenario Name</label>
+                        <input
+                          type="text"
+                          placeholder="e.g. Optimistic"
+                          value={scenarioName}
+                          onChange={(e) => setScenarioName(e.target.value)}
+                          className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Kind</label>
+                        <select
+                          value={scenarioKind}
+                          onChange={(e) => setScenarioKind(e.target.value as ScenarioKind)}
+                          className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          {SCENARIO_KINDS.map((kind) => (
+                            <option key={kind} value={kind}>{SCENARIO_KIND_LABELS[kind]}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </>
+                  )}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Scenarios keep their own assumptions and snapshot for {full}, so base, optimistic and pessimistic cases can be compared side by side on the Dashboard.
+                </p>
+
+                {scenarioId && (
+                  <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                      <h5 className="text-sm font-medium text-gray-900 mb-2">L1 Budget Overrides</h5>
+                      <div className="space-y-2">
+                        {costPools.map((pool) => (
+                          <div key={pool.code} className="flex items-center justify-between gap-4">
+                            <label className="text-sm text-gray-700">{pool.name}</label>
+                            <input
+                              type="number"
+                              min={0}
+                              placeholder="Stored"
+                              value={budgetOverrides[pool.code] ?? ''}
+                              onChange={(e) => setBudgetOverrides({ ...budgetOverrides, [pool.code]: e.target.value })}
+                              className="w-40 border border-gray-300 rounded-md px-3 py-1 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <h5 className="text-sm font-medium text-gray-900 mb-2">L3 Benefit Weight Overrides</h5>
+                      <div className="space-y-2">
+                        {taxonomy.benefitCategories.map((category) => (
+                          <div key={category.code} className="flex items-center justify-between gap-4">
+                            <label className="text-sm text-gray-700">{category.name}</label>
+                            <input
+                              type="number"
+                              step="0.01"
+                              min={0}
+                              max={1}
+                              placeholder="Stored"
+                              value={benefitOverrides[category.code] ?? ''}
+                              onChange={(e) => setBenefitOverrides({ ...benefitOverrides, [category.code]: e.target.value })}
+                              className="w-40 border border-gray-300 rounded-md px-3 py-1 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">Filled-in weights replace the whole stored set and must sum to 1.0.</p>
+                    </div>
+                  </div>
+                )}
+              </div>
               
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Revenue Uplift ($)</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Cost Basis</label>
+                  <select
+                    value={costBasis}
+                    onChange={(e) => setCostBasis(e.target.value as CostBasis)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {COST_BASES.map((basis) => (
+                      <option key={basis} value={basis}>{COST_BASIS_LABELS[basis]}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">Forecast falls back to plan; actual only counts cost pools with a recorded actual.</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Assumption Currency</label>
+                  <select
+                    value={assumptionCurrency}
+                    onChange={(e) => setAssumptionCurrency(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {currencyOptions.map((code) => (
+                      <option key={code} value={code}>{CURRENCY_LABELS[code] ?? code}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">Monetary assumptions below are in this currency; results are reported in {reportingCurrency}.</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Revenue Uplift ({assumptionCurrency})</label>
                   <input
                     type="number"
                     min={0}
@@ -763,7 +1345,7 @@ export default function FrameworkEntry() {
                   )}
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Average Loaded Rate ($)</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Average Loaded Rate ({assumptionCurrency})</label>
                   <input
                     type="number"
                     min={0}
@@ -782,6 +1364,240 @@ export default function FrameworkEntry() {
                     <p className="mt-1 text-sm text-red-600">{validationErrors.rate}</p>
                   )}
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Loaded Rate Escalation (%/yr)</label>
+                  <input
+                    type="number"
+                    min={-99}
+                    max={100}
+                    step={0.1}
+                    value={rateEscalationPct}
+                    onChange={(e) => setRateEscalationPct(num(e.target.value))}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Grows the loaded rate in the Dashboard forecast; cost pool escalation is set on each pool.</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Risk Avoided Value ({assumptionCurrency})</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={10000000}
+                    value={riskAvoided}
+                    onChange={(e) => {
+                      const value = num(e.target.value);
+                      setRiskAvoided(value);
+                      updateValidationError('riskAvoided', value);
+                    }}
+                    className={`w-full border rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      validationErrors.riskAvoided ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {validationErrors.riskAvoided && (
+                    <p className="mt-1 text-sm text-red-600">{validationErrors.riskAvoided}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Cost Avoided ({assumptionCurrency})</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={10000000}
+                    value={costAvoided}
+                    onChange={(e) => {
+                      const value = num(e.target.value);
+                      setCostAvoided(value);
+                      updateValidationError('costAvoided', value);
+                    }}
+                    className={`w-full border rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      validationErrors.costAvoided ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {validationErrors.costAvoided && (
+                    <p className="mt-1 text-sm text-red-600">{validationErrors.costAvoided}</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="mt-6 border border-gray-200 rounded-lg p-4">
+                <h5 className="text-sm font-medium text-gray-900 mb-1">What would it take?</h5>
+                <p className="text-xs text-gray-500 mb-3">
+                  Solve for the one value that reaches a target ROI, holding the other inputs as entered above. A 0% target is break-even.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Target ROI (%)</label>
+                    <input
+                      type="number"
+                      min={-99}
+                      value={goalTargetRoiPct}
+                      onChange={(e) => setGoalTargetRoiPct(num(e.target.value))}
+                      className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Solve For</label>
+                    <select
+                      value={goalVariable}
+                      onChange={(e) => {
+                        setGoalVariable(e.target.value);
+                        setGoalResult(null);
+                      }}
+                      className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {UNCERTAIN_ASSUMPTIONS.map(({ key, label }) => (
+                        <option key={key} value={`ASSUMPTION:${key}`}>{label}</option>
+                      ))}
+                      {costPools.map((pool) => (
+                        <option key={pool.code} value={`L1:${pool.code}`}>{pool.name} budget</option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    onClick={solveGoal}
+                    disabled={isSolving}
+                    className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                  >
+                    {isSolving ? 'Solving...' : 'Solve'}
+                  </button>
+                </div>
+                {goalError && <p className="mt-3 text-sm text-red-600">{goalError}</p>}
+                {goalResult && (
+                  <div className="mt-3 text-sm text-gray-700">
+                    {goalResult.achievable && goalResult.requiredValue != null ? (
+                      <div className="flex items-center justify-between gap-4">
+                        <p>
+                          {goalVariableLabel(goalResult.variable)} of <span className="font-medium">{goalResult.requiredValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>{' '}
+                          reaches {goalResult.targetRoiPct}% ROI (currently {goalResult.currentValue.toLocaleString(undefined, { maximumFractionDigits: 2 })},{' '}
+                          {(goalResult.change ?? 0) >= 0 ? '+' : ''}{(goalResult.change ?? 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}).
+                        </p>
+                        {goalResult.variable.layer === 'ASSUMPTION' && (
+                          <button
+                            onClick={applyGoalResult}
+                            className="px-3 py-1 border border-gray-200 rounded-md text-sm text-gray-600 hover:bg-gray-50 whitespace-nowrap"
+                          >
+                            Use this value
+                          </button>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-red-600">{goalVariableLabel(goalResult.variable)} can't reach {goalResult.targetRoiPct}% ROI: {goalResult.reason}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <h4 className="text-lg font-medium text-gray-900 mt-8 mb-2">Uncertainty (Optional)</h4>
+              <p className="text-gray-600 mb-6">
+                Give any assumption a range and the Dashboard will simulate the snapshot's ROI across it (P10/P50/P90 and the chance of a negative return).
+                For a normal distribution, min and max are read as three standard deviations either side of the likely value.
+              </p>
+
+              <div className="space-y-3">
+                {UNCERTAIN_ASSUMPTIONS.map(({ key, label }) => {
+                  const d = distributions[key];
+                  return (
+                    <div key={key} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+                        <select
+                          value={d?.type ?? ''}
+                          onChange={(e) => setDistributionType(key, e.target.value as DistributionType | '')}
+                          className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Point value</option>
+                          {(Object.keys(DISTRIBUTION_LABELS) as DistributionType[]).map(type => (
+                            <option key={type} value={type}>{DISTRIBUTION_LABELS[type]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      {d && (['min', 'likely', 'max'] as const).map(field => (
+                        <div key={field}>
+                          <label className="block text-xs text-gray-500 mb-1">{field === 'likely' ? 'Likely' : field === 'min' ? 'Min' : 'Max'}</label>
+                          <input
+                            type="number"
+                            min={0}
+                            value={d[field] ?? ''}
+                            disabled={field === 'likely' && d.type === 'uniform'}
+                            onChange={(e) => setDistributionValue(key, field, num(e.target.value))}
+                            className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <h4 className="text-lg font-medium text-gray-900 mt-8 mb-2">Multi-Year Projection</h4>
+              <p className="text-gray-600 mb-6">
+                Used for NPV, IRR and payback. Phasing multiplies this period's cost and benefit for each year (year 0 first).
+                Leave blank to treat cost as up-front and benefits as recurring. On top of this, each benefit category
+                is phased in by its realisation ramp from the taxonomy.
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Horizon (Years)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={horizonYears}
+                    onChange={(e) => {
+                      const value = num(e.target.value);
+                      setHorizonYears(value);
+                      updateValidationError('horizonYears', value);
+                    }}
+                    className={`w-full border rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      validationErrors.horizonYears ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {validationErrors.horizonYears && (
+                    <p className="mt-1 text-sm text-red-600">{validationErrors.horizonYears}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Discount Rate (%)</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    min={0}
+                    max={100}
+                    value={discountRatePct}
+                    onChange={(e) => {
+                      const value = num(e.target.value);
+                      setDiscountRatePct(value);
+                      updateValidationError('discountRatePct', value);
+                    }}
+                    className={`w-full border rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      validationErrors.discountRatePct ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {validationErrors.discountRatePct && (
+                    <p className="mt-1 text-sm text-red-600">{validationErrors.discountRatePct}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Cost Phasing per Year</label>
+                  <input
+                    type="text"
+                    placeholder="e.g. 1, 0.2, 0.2"
+                    value={costPhasing}
+                    onChange={(e) => setCostPhasing(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Benefit Phasing per Year</label>
+                  <input
+                    type="text"
+                    placeholder="e.g. 0.5, 1, 1"
+                    value={benefitPhasing}
+                    onChange={(e) => setBenefitPhasing(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
               </div>
 
               <div className="mt-6 flex justify-between">
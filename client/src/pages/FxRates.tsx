@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/useAuth';
+import api, { type FxRate } from '../lib/api';
+import { CURRENCIES, CURRENCY_LABELS } from '../utils/currency';
+
+export default function FxRates() {
+  const { user } = useAuth();
+  // rates are shared by every company, so only platform admins maintain them
+  const canEdit = user?.role === 'PLATFORM_ADMIN';
+
+  const [rates, setRates] = useState<FxRate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [newRate, setNewRate] = useState({ period: new Date().toISOString().slice(0, 7), fromCurrency: 'AUD', toCurrency: 'USD', rate: '' });
+
+  const loadRates = async () => {
+    try {
+      setRates(await api.fxRates());
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load FX rates' });
+    }
+  };
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const handleSave = async () => {
+    const rate = Number(newRate.rate);
+    if (!(rate > 0)) {
+      setMessage({ type: 'error', text: 'Rate must be a positive number' });
+      return;
+    }
+    if (newRate.fromCurrency === newRate.toCurrency) {
+      setMessage({ type: 'error', text: 'Pick two different currencies' });
+      return;
+    }
+
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await api.upsertFxRate({ period: newRate.period, fromCurrency: newRate.fromCurrency, toCurrency: newRate.toCurrency, rate });
+      setNewRate({ ...newRate, rate: '' });
+      setMessage({ type: 'success', text: `Rate saved for ${newRate.fromCurrency}/${newRate.toCurrency} from ${newRate.period}` });
+      await loadRates();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save FX rate' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await api.deleteFxRate(id);
+      await loadRates();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete FX rate' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b">
+            <h1 className="text-2xl font-bold text-gray-900">FX Rates</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Rates used to convert costs and assumptions into each company's reporting currency. A rate applies from its month until a later one is entered.{' '}
+              <Link to="/account" className="text-blue-600 hover:text-blue-800">Back to Account</Link>
+            </p>
+          </div>
+
+          <div className="p-6 space-y-8">
+{/* existing rates */}
+            {rates.length > 0 ? (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">From</th>
+                    <th className="py-2 pr-4 font-medium">Pair</th>
+                    <th className="py-2 pr-4 font-medium text-right">Rate</th>
+                    {canEdit && <th className="py-2" />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rates.map((rate) => (
+                    <tr key={rate.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4 text-gray-900">{rate.period}</td>
+                      <td className="py-2 pr-4 text-gray-900">1 {rate.fromCurrency} = {rate.toCurrency}</td>
+                      <td className="py-2 pr-4 text-right text-gray-900">{rate.rate.toLocaleString(undefined, { maximumFractionDigits: 6 })}</td>
+                      {canEdit && (
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => handleDelete(rate.id)}
+                            disabled={isLoading}
+                            className="px-3 py-1 border border-gray-200 rounded-md text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-gray-600">No FX rates yet. Amounts in a currency other than the reporting currency can't be converted until one is entered.</p>
+            )}
+
+{/* new rate form */}
+            {canEdit && (
+              <div className="bg-gray-50 rounded-lg p-6">
+                <h4 className="text-md font-medium text-gray-900 mb-4">Set Rate</h4>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <input
+                    type="month"
+                    value={newRate.period}
+                    onChange={(e) => setNewRate({ ...newRate, period: e.target.value })}
+                    className="border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <select
+                    value={newRate.fromCurrency}
+                    onChange={(e) => setNewRate({ ...newRate, fromCurrency: e.target.value })}
+                    className="border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {CURRENCIES.map((code) => (
+                      <option key={code} value={code}>{CURRENCY_LABELS[code]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={newRate.toCurrency}
+                    onChange={(e) => setNewRate({ ...newRate, toCurrency: e.target.value })}
+                    className="border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {CURRENCIES.map((code) => (
+                      <option key={code} value={code}>{CURRENCY_LABELS[code]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    placeholder={`1 ${newRate.fromCurrency} = ? ${newRate.toCurrency}`}
+                    value={newRate.rate}
+                    onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })}
+                    className="border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <p className="mt-2 text-xs text-gray-500">Saving a pair for a month that already has a rate replaces it. The inverse direction is derived, so each pair only needs entering once.</p>
+                <div className="mt-4 flex justify-end">
+                  <button
+                    onClick={handleSave}
+                    disabled={isLoading}
+                    className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                  >
+                    Save Rate
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {message && (
+              <div className={`rounded-md p-4 bg-white border ${message.type === 'success' ? 'border-green-400' : 'border-red-400'}`}>
+                <p className={`text-sm ${message.type === 'success' ? 'text-green-800' : 'text-red-800'}`}>{message.text}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ export default function Home() {
   const frameworkLayers = [
     {
       title: 'L1 - Cost Foundation',
-      description: 'Capture your actual IT costs: department budgets, headcount, and operational expenses. This becomes your baseline cost for ROI calculations.',
+      description: 'Capture your actual IT costs: cost pool budgets, headcount, and operational expenses. This becomes your baseline cost for ROI calculations.',
       icon: '💰',
       color: 'bg-blue-500',
       link: '/framework'
@@ -21,7 +21,7 @@ export default function Home() {
     },
     {
       title: 'L3 - Benefit Weightings',
-      description: 'Define how you measure value: productivity gains vs revenue uplift.',
+      description: 'Define how you measure value: productivity gains, revenue uplift, risk avoidance and cost avoidance.',
       icon: '🎯',
       color: 'bg-purple-500',
       link: '/framework'
@@ -83,7 +83,7 @@ export default function Home() {
             <div className="mt-8 p-6 bg-blue-50 rounded-lg border border-blue-200 max-w-4xl mx-auto">
               <h3 className="text-lg font-semibold text-blue-900 mb-3">How ROI is Calculated</h3>
               <div className="text-sm text-blue-800 space-y-2">
-                <p><strong>Costs (L1 + L2):</strong> Your actual IT spending across departments and towers</p>
+                <p><strong>Costs (L1 + L2):</strong> Your actual IT spending across cost pools and towers</p>
                 <p><strong>Benefits (L3 + Assumptions):</strong> Quantified value from productivity gains, revenue uplift, cost avoidance</p>
                 <p><strong>ROI Formula:</strong> <code className="bg-blue-100 px-2 py-1 rounded">(Total Benefits - Total Costs) ÷ Total Costs × 100%</code></p>
               </div>
@@ -0,0 +1,272 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/useAuth';
+import api, { type CompanyUser, type Initiative, type InitiativeStatus } from '../lib/api';
+import { INITIATIVE_STATUSES, INITIATIVE_STATUS_LABELS, toDateInput } from '../utils/initiatives';
+
+type InitiativeForm = {
+  name: string;
+  description: string;
+  ownerId: string;
+  startDate: string;
+  endDate: string;
+  status: InitiativeStatus;
+};
+
+const EMPTY_FORM: InitiativeForm = { name: '', description: '', ownerId: '', startDate: '', endDate: '', status: 'PROPOSED' };
+
+const inputClass = 'border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function Initiatives() {
+  const { user } = useAuth();
+  const companyId = user?.companyId;
+
+  const [initiatives, setInitiatives] = useState<Initiative[]>([]);
+  const [users, setUsers] = useState<CompanyUser[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [newCode, setNewCode] = useState('');
+  const [newInitiative, setNewInitiative] = useState<InitiativeForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<InitiativeForm>(EMPTY_FORM);
+
+  const loadInitiatives = async (id: string) => {
+    try {
+      setInitiatives(await api.initiatives(id));
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load initiatives' });
+    }
+  };
+
+  useEffect(() => {
+    if (!companyId) return;
+    loadInitiatives(companyId);
+    api.companyUsers(companyId).then(setUsers).catch(() => setUsers([]));
+  }, [companyId]);
+
+  if (!companyId) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Select a company in the navigation bar before managing initiatives.</p>
+      </div>
+    );
+  }
+
+  const handleCreate = async () => {
+    if (!newCode.trim() || !newInitiative.name.trim() || !newInitiative.startDate) {
+      setMessage({ type: 'error', text: 'Code, name and start date are required' });
+      return;
+    }
+
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await api.createInitiative({
+        companyId,
+        code: newCode.trim().toUpperCase(),
+        name: newInitiative.name.trim(),
+        description: newInitiative.description.trim() || undefined,
+        ownerId: newInitiative.ownerId || null,
+        startDate: newInitiative.startDate,
+        endDate: newInitiative.endDate || null,
+        status: newInitiative.status,
+      });
+      setNewCode('');
+      setNewInitiative(EMPTY_FORM);
+      setMessage({ type: 'success', text: 'Initiative added' });
+      await loadInitiatives(companyId);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to add initiative' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEdit = (initiative: Initiative) => {
+    setEditingId(initiative.id);
+    setEditForm({
+      name: initiative.name,
+      description: initiative.description ?? '',
+      ownerId: initiative.ownerId ?? '',
+      startDate: toDateInput(initiative.startDate),
+      endDate: toDateInput(initiative.endDate),
+      status: initiative.status,
+    });
+    setMessage(null);
+  };
+
+  const handleSave = async (id: string) => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await api.updateInitiative(id, {
+        name: editForm.name.trim(),
+        description: editForm.description.trim(),
+        ownerId: editForm.ownerId || null,
+        startDate: editForm.startDate,
+        endDate: editForm.endDate || null,
+        status: editForm.status,
+      });
+      setEditingId(null);
+      await loadInitiatives(companyId);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update initiative' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderFields = (form: InitiativeForm, setForm: (form: InitiativeForm) => void) => (
+    <>
+      <input
+        type="text"
+        placeholder="Name"
+        value={form.name}
+        onChange={(e) => setForm({ ...form, name: e.target.value })}
+        className={inputClass}
+      />
+      <select
+        value={form.ownerId}
+        onChange={(e) => setForm({ ...form, ownerId: e.target.value })}
+        className={inputClass}
+      >
+        <option value="">No owner</option>
+        {users.map((u) => (
+          <option key={u.id} value={u.id}>{u.name}</option>
+        ))}
+      </select>
+      <select
+        value={form.status}
+        onChange={(e) => setForm({ ...form, status: e.target.value as InitiativeStatus })}
+        className={inputClass}
+      >
+        {INITIATIVE_STATUSES.map((status) => (
+          <option key={status} value={status}>{INITIATIVE_STATUS_LABELS[status]}</option>
+        ))}
+      </select>
+      <label className="text-xs text-gray-600">
+        Start date
+        <input
+          type="date"
+          value={form.startDate}
+          onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+          className={`mt-1 w-full ${inputClass}`}
+        />
+      </label>
+      <label className="text-xs text-gray-600">
+        End date (optional)
+        <input
+          type="date"
+          value={form.endDate}
+          onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+          className={`mt-1 w-full ${inputClass}`}
+        />
+      </label>
+      <input
+        type="text"
+        placeholder="Description (optional)"
+        value={form.description}
+        onChange={(e) => setForm({ ...form, description: e.target.value })}
+        className={`md:col-span-3 ${inputClass}`}
+      />
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b">
+            <h1 className="text-2xl font-bold text-gray-900">Initiatives</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Projects that costs and benefits can be attributed to. Each initiative gets its own ROI, and together they make up the portfolio on the Dashboard.{' '}
+              <Link to="/framework" className="text-blue-600 hover:text-blue-800">Back to Framework Entry</Link>
+            </p>
+          </div>
+
+          <div className="p-6 space-y-8">
+{/* existing initiatives */}
+            <div className="space-y-3">
+              {initiatives.length === 0 && <p className="text-sm text-gray-500">No initiatives yet.</p>}
+              {initiatives.map((initiative) => (
+                <div key={initiative.id} className={`border rounded-lg p-4 ${initiative.status === 'CANCELLED' ? 'bg-gray-50' : ''}`}>
+                  {editingId === initiative.id ? (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      {renderFields(editForm, setEditForm)}
+                      <div className="md:col-span-3 flex justify-end space-x-4">
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="px-4 py-2 border border-gray-200 rounded-md text-sm font-medium text-gray-600 hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleSave(initiative.id)}
+                          disabled={isLoading || !editForm.name.trim() || !editForm.startDate}
+                          className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {initiative.name} <span className="text-xs text-gray-500">({initiative.code})</span>
+                          <span className="ml-2 text-xs text-blue-600">{INITIATIVE_STATUS_LABELS[initiative.status]}</span>
+                        </p>
+                        <p className="text-xs text-gray-600 mt-1">
+                          {toDateInput(initiative.startDate)} – {initiative.endDate ? toDateInput(initiative.endDate) : 'open-ended'}
+                          {initiative.owner && ` · Owner: ${initiative.owner.name}`}
+                        </p>
+                        {initiative.description && <p className="text-xs text-gray-600 mt-1">{initiative.description}</p>}
+                      </div>
+                      <button
+                        onClick={() => handleEdit(initiative)}
+                        className="px-3 py-1 border border-gray-200 rounded-md text-sm text-gray-600 hover:bg-gray-50"
+                      >
+                        Edit
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+{/* new initiative form */}
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h4 className="text-md font-medium text-gray-900 mb-4">Add Initiative</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <input
+                  type="text"
+                  placeholder="Code (e.g. ERP_UPGRADE)"
+                  value={newCode}
+                  onChange={(e) => setNewCode(e.target.value)}
+                  className={`md:col-span-3 ${inputClass}`}
+                />
+                {renderFields(newInitiative, setNewInitiative)}
+              </div>
+              <div className="mt-4 flex justify-end">
+                <button
+                  onClick={handleCreate}
+                  disabled={isLoading}
+                  className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                >
+                  {isLoading ? 'Saving...' : 'Add Initiative'}
+                </button>
+              </div>
+            </div>
+
+            {message && (
+              <div className={`rounded-md p-4 bg-white border ${message.type === 'success' ? 'border-green-400' : 'border-red-400'}`}>
+                <p className={`text-sm ${message.type === 'success' ? 'text-green-800' : 'text-red-800'}`}>{message.text}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/useAuth';
+import api, { type InvitationPreview } from '../lib/api';
+import { ROLE_LABELS } from '../utils/roles';
+import { validatePassword } from '../utils/password';
 
 export default function Login() {
     const [email, setEmail] = useState('');
@@ -8,23 +11,24 @@ export default function Login() {
     const [name, setName] = useState('');
     const [companyName, setCompanyName] = useState('');
     const [companyDomain, setCompanyDomain] = useState('');
-    const [role, setRole] = useState<'EMPLOYEE' | 'ADMIN'>('EMPLOYEE');
-    const [adminPassword, setAdminPassword] = useState('');
-    const [isSignup, setIsSignup] = useState(false);
+    const [searchParams] = useSearchParams();
+    // invitation links look like /login?invite=<token>
+    const inviteToken = searchParams.get('invite');
+    const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+    const [isSignup, setIsSignup] = useState(!!inviteToken);
     const [err, setErr] = useState('');
     const navigate = useNavigate();
-    const { login, signup } = useAuth();
+    const { login, signup, acceptInvitation } = useAuth();
 
-// Password validation function
-    function validatePassword(password: string): string | null {
-        if (password.length < 8) {
-            return 'Password must be at least 8 characters long';
-        }
-        if (!/[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?]/.test(password)) {
-            return 'Password must contain at least one special character';
-        }
-        return null;
-    }
+    useEffect(() => {
+        if (!inviteToken) return;
+        api.invitationPreview(inviteToken)
+            .then(preview => {
+                setInvitation(preview);
+                setEmail(preview.email);
+            })
+            .catch((e: unknown) => setErr(e instanceof Error ? e.message : 'This invitation is invalid or has expired'));
+    }, [inviteToken]);
 
     async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
         e.preventDefault();
@@ -39,22 +43,14 @@ export default function Login() {
             }
         }
         
-// Validate admin password if admin role is selected
-        if (isSignup && role === 'ADMIN' && adminPassword !== 'ADMINPASS') {
-            setErr('Invalid admin password. Please enter ADMINPASS to create an admin account.');
-            return;
-        }
-        
         try {
             if (isSignup) {
-                // For ADMIN users, don't pass company information
-                if (role === 'ADMIN') {
-                    await signup(email, password, name, undefined, undefined, role);
-                } else {
-                    await signup(email, password, name, companyName, companyDomain, role);
-                }
+                // without an invitation, signing up creates a new company run by the new user
+                await signup(email, password, name, invitation && inviteToken ? { inviteToken } : { companyName, companyDomain: companyDomain || undefined });
             } else {
                 await login(email, password);
+                // users who already have an account join the invited company by signing in
+                if (invitation && inviteToken) await acceptInvitation(inviteToken);
             }
             navigate('/');
         } catch (e: unknown) {
@@ -70,7 +66,13 @@ export default function Login() {
                         {isSignup ? 'Create your account' : 'Sign in to your account'}
                     </h2>
                     <p className="mt-2 text-center text-sm text-gray-600">
-                        {isSignup ? 'Join your company or create a new one' : 'Database connection required for authentication'}
+                        {isSignup
+                            ? invitation
+                                ? `You're invited to join ${invitation.companyName} as ${ROLE_LABELS[invitation.role].toLowerCase()}`
+                                : 'Register a new company as its admin. To join an existing company, use the invitation link from one of its admins.'
+                            : invitation
+                                ? `Sign in to join ${invitation.companyName} as ${ROLE_LABELS[invitation.role].toLowerCase()}`
+                                : 'Database connection required for authentication'}
                     </p>
                 </div>
                 <form className="mt-8 space-y-6" onSubmit={onSubmit}>
@@ -103,6 +105,7 @@ export default function Login() {
                                 type="email"
                                 autoComplete="email"
                                 required
+                                readOnly={!!invitation}
                                 className={`appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 bg-white ${isSignup ? '' : 'rounded-t-md'} focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm`}
                                 placeholder="Email address"
                                 value={email}
@@ -130,73 +133,37 @@ export default function Login() {
                                 </p>
                             )}
                         </div>
-                        {isSignup && (
+                        {isSignup && !invitation && (
                             <>
-                                {role === 'EMPLOYEE' && (
-                                    <>
-                                        <div>
-                                            <label htmlFor="company-name" className="sr-only">
-                                                Company Name
-                                            </label>
-                                            <input
-                                                id="company-name"
-                                                name="companyName"
-                                                type="text"
-                                                required
-                                                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 bg-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
-                                                placeholder="Company Name"
-                                                value={companyName}
-                                                onChange={(e) => setCompanyName(e.target.value)}
-                                            />
-                                        </div>
-                                        <div>
-                                            <label htmlFor="company-domain" className="sr-only">
-                                                Company Domain (Optional)
-                                            </label>
-                                            <input
-                                                id="company-domain"
-                                                name="companyDomain"
-                                                type="text"
-                                                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 bg-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
-                                                placeholder="Company Domain (Optional)"
-                                                value={companyDomain}
-                                                onChange={(e) => setCompanyDomain(e.target.value)}
-                                            />
-                                        </div>
-                                    </>
-                                )}
                                 <div>
-                                    <label htmlFor="role" className="sr-only">
-                                        Role
+                                    <label htmlFor="company-name" className="sr-only">
+                                        Company Name
                                     </label>
-                                    <select
-                                        id="role"
-                                        name="role"
+                                    <input
+                                        id="company-name"
+                                        name="companyName"
+                                        type="text"
+                                        required
                                         className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 bg-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
-                                        value={role}
-                                        onChange={(e) => setRole(e.target.value as 'EMPLOYEE' | 'ADMIN')}
-                                    >
-                                        <option value="EMPLOYEE">Employee</option>
-                                        <option value="ADMIN">Admin</option>
-                                    </select>
+                                        placeholder="Company Name"
+                                        value={companyName}
+                                        onChange={(e) => setCompanyName(e.target.value)}
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="company-domain" className="sr-only">
+                                        Company Domain (Optional)
+                                    </label>
+                                    <input
+                                        id="company-domain"
+                                        name="companyDomain"
+                                        type="text"
+                                        className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 bg-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
+                                        placeholder="Company Domain (Optional)"
+                                        value={companyDomain}
+                                        onChange={(e) => setCompanyDomain(e.target.value)}
+                                    />
                                 </div>
-                                {role === 'ADMIN' && (
-                                    <div>
-                                        <label htmlFor="admin-password" className="sr-only">
-                                            Admin Password
-                                        </label>
-                                        <input
-                                            id="admin-password"
-                                            name="adminPassword"
-                                            type="password"
-                                            required
-                                            className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 bg-white rounded-b-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
-                                            placeholder="Admin Password "
-                                            value={adminPassword}
-                                            onChange={(e) => setAdminPassword(e.target.value)}
-                                        />
-                                    </div>
-                                )}
                             </>
                         )}
                     </div>
@@ -215,6 +182,14 @@ export default function Login() {
                             {isSignup ? 'Create Account' : 'Sign in'}
                         </button>
                     </div>
+
+                    {!isSignup && (
+                        <div className="text-center">
+                            <Link to="/forgot-password" className="text-blue-600 hover:text-blue-300 text-sm font-medium">
+                                Forgot your password?
+                            </Link>
+                        </div>
+                    )}
                     
                     <div className="text-center">
                         <button
@@ -222,13 +197,11 @@ export default function Login() {
                             onClick={() => {
                                 setIsSignup(!isSignup);
                                 setErr('');
-                                setEmail('');
+                                setEmail(invitation?.email ?? '');
                                 setPassword('');
                                 setName('');
                                 setCompanyName('');
                                 setCompanyDomain('');
-                                setRole('EMPLOYEE');
-                                setAdminPassword('');
                             }}
                             className="text-blue-600 hover:text-blue-300 text-sm font-medium"
                         >
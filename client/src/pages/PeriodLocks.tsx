@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/useAuth';
+import api, { type PeriodLock } from '../lib/api';
+import { can } from '../utils/roles';
+
+const inputClass = 'border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function PeriodLocks() {
+  const { user } = useAuth();
+  const companyId = user?.companyId;
+  const canLock = can(user, 'periods:lock');
+
+  const [locks, setLocks] = useState<PeriodLock[]>([]);
+  const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadLocks = async (id: string) => {
+    try {
+      setLocks(await api.periodLocks(id));
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load period locks' });
+    }
+  };
+
+  useEffect(() => {
+    if (companyId) loadLocks(companyId);
+  }, [companyId]);
+
+  if (!companyId) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Select a company in the navigation bar before managing period locks.</p>
+      </div>
+    );
+  }
+
+  const handleLock = async () => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const lock = await api.lockPeriod(companyId, period);
+      setMessage({ type: 'success', text: `Locked ${lock.periodLabel}` });
+      await loadLocks(companyId);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to lock period' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUnlock = async (lock: PeriodLock) => {
+    if (!window.confirm(`Unlock ${lock.periodLabel}? Contributors will be able to change its data again.`)) return;
+    setMessage(null);
+    try {
+      await api.unlockPeriod(lock.id);
+      setMessage({ type: 'success', text: `Unlocked ${lock.periodLabel}` });
+      await loadLocks(companyId);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to unlock period' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b">
+            <h1 className="text-2xl font-bold text-gray-900">Period Locks</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              A locked period's L1, L2, L3 and allocation data can't be changed. Locking a quarter or year also locks the months in it.{' '}
+              <Link to="/framework" className="text-blue-600 hover:text-blue-800">Back to Framework Entry</Link>
+            </p>
+            {!canLock && <p className="mt-2 text-sm text-amber-700">Only approvers and company admins can lock or unlock periods.</p>}
+          </div>
+
+          <div className="p-6 space-y-6">
+            {canLock && (
+              <div className="flex gap-4">
+                <input type="text" value={period} placeholder="2025-03, FY2025-Q1 or FY2025" onChange={(e) => setPeriod(e.target.value.trim())} className={inputClass} />
+                <button
+                  onClick={handleLock}
+                  disabled={isLoading || !period}
+                  className="px-6 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoading ? 'Locking...' : 'Lock Period'}
+                </button>
+              </div>
+            )}
+
+            {message && (
+              <div className={`rounded-md p-4 bg-white border ${message.type === 'success' ? 'border-green-400' : 'border-red-400'}`}>
+                <p className={`text-sm ${message.type === 'success' ? 'text-green-800' : 'text-red-800'}`}>{message.text}</p>
+              </div>
+            )}
+
+            {locks.length === 0 ? (
+              <p className="text-sm text-gray-600">No periods are locked.</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4">Period</th>
+                    <th className="py-2 pr-4">Locked by</th>
+                    <th className="py-2 pr-4">Locked</th>
+                    {canLock && <th className="py-2 pr-4" />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {locks.map(lock => (
+                    <tr key={lock.id} className="border-b">
+                      <td className="py-2 pr-4 font-medium text-gray-900">{lock.periodLabel}</td>
+                      <td className="py-2 pr-4 text-gray-600">{lock.lockedBy?.name ?? '—'}</td>
+                      <td className="py-2 pr-4 text-gray-600">{new Date(lock.createdAt).toLocaleString()}</td>
+                      {canLock && (
+                        <td className="py-2 pr-4 text-right">
+                          <button onClick={() => handleUnlock(lock)} className="text-sm text-red-600 hover:text-red-800">Unlock</button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import api from '../lib/api';
+import { validatePassword } from '../utils/password';
+
+const inputClass = 'appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 bg-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm';
+
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  // reset emails link to /reset-password?token=<token>
+  const token = searchParams.get('token');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isDone, setIsDone] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [err, setErr] = useState('');
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setErr('');
+    if (!token) return;
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      setErr(passwordError);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setErr('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await api.confirmPasswordReset(token, password);
+      setIsDone(true);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : 'Failed to reset password');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">Choose a new password</h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {!token
+              ? 'This reset link is incomplete. Open the link from your email again, or request a new one.'
+              : isDone
+                ? 'Your password has been changed. Sign in with your new password.'
+                : 'Password must be at least 8 characters with special characters'}
+          </p>
+        </div>
+
+        {token && !isDone && (
+          <form className="mt-8 space-y-6" onSubmit={onSubmit}>
+            <div className="rounded-md shadow-sm -space-y-px">
+              <div>
+                <label htmlFor="password" className="sr-only">New password</label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete="new-password"
+                  required
+                  className={`${inputClass} rounded-t-md`}
+                  placeholder="New password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+              <div>
+                <label htmlFor="confirm-password" className="sr-only">Confirm new password</label>
+                <input
+                  id="confirm-password"
+                  name="confirmPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  required
+                  className={`${inputClass} rounded-b-md`}
+                  placeholder="Confirm new password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {err && <div className="text-red-600 text-sm text-center">{err}</div>}
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-gray-900 bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {isLoading ? 'Saving...' : 'Set New Password'}
+            </button>
+          </form>
+        )}
+
+        <div className="text-center space-x-4">
+          <Link to="/login" className="text-blue-600 hover:text-blue-300 text-sm font-medium">Sign in</Link>
+          {(!token || err) && (
+            <Link to="/forgot-password" className="text-blue-600 hover:text-blue-300 text-sm font-medium">Request a new link</Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,450 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/useAuth';
+import api, { type BenefitRamp, type CompanyBenefitCategory, type CompanyBusinessUnit, type CompanyTower, type L3Category, type Taxonomy as TaxonomyData, type Tower } from '../lib/api';
+import { ALL_TOWERS, TOWER_LABELS } from '../utils/towerLabels';
+import { can } from '../utils/roles';
+import { BENEFIT_CATEGORIES, BENEFIT_LABELS, BENEFIT_RAMPS, BENEFIT_RAMP_LABELS, describeRamp } from '../utils/benefitLabels';
+
+const inputClass = 'border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function parseIncludes(text: string): string[] {
+  return text.split(',').map(s => s.trim()).filter(Boolean);
+}
+
+export default function Taxonomy() {
+  const { user } = useAuth();
+  const canConfigure = can(user, 'company:configure');
+  const companyId = user?.companyId;
+
+  const [taxonomy, setTaxonomy] = useState<TaxonomyData>({ towers: [], benefitCategories: [], businessUnits: [] });
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [newTower, setNewTower] = useState({ code: '', name: '', description: '', includes: '', standardTower: 'OTHER' as Tower });
+  const [newCategory, setNewCategory] = useState({ code: '', name: '', description: '', standardCategory: 'OTHER' as L3Category });
+  const [newUnit, setNewUnit] = useState({ code: '', name: '', description: '' });
+
+  const [editingTowerId, setEditingTowerId] = useState<string | null>(null);
+  const [towerForm, setTowerForm] = useState({ name: '', description: '', includes: '', standardTower: 'OTHER' as Tower, sortOrder: 0 });
+  const [editingCategoryId, setEditingCategoryId] = useState<string | null>(null);
+  const [categoryForm, setCategoryForm] = useState({
+    name: '',
+    description: '',
+    standardCategory: 'OTHER' as L3Category,
+    sortOrder: 0,
+    rampType: 'IMMEDIATE' as BenefitRamp,
+    rampMonths: '',
+    rampCustom: '',
+  });
+
+  const [editingUnitId, setEditingUnitId] = useState<string | null>(null);
+  const [unitForm, setUnitForm] = useState({ name: '', description: '', sortOrder: 0 });
+
+  const loadTaxonomy = async (id: string) => {
+    try {
+      setTaxonomy(await api.taxonomy(id, true));
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load taxonomy' });
+    }
+  };
+
+  useEffect(() => {
+    if (companyId) loadTaxonomy(companyId);
+  }, [companyId]);
+
+  if (!companyId) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Select a company in the navigation bar before managing towers and benefit categories.</p>
+      </div>
+    );
+  }
+
+  // Shared save wrapper: run the request, reload, report errors
+  const run = async (action: () => Promise<unknown>, successText?: string) => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await action();
+      if (successText) setMessage({ type: 'success', text: successText });
+      await loadTaxonomy(companyId);
+      return true;
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Request failed' });
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateTower = async () => {
+    if (!newTower.code.trim() || !newTower.name.trim()) {
+      setMessage({ type: 'error', text: 'Code and name are required' });
+      return;
+    }
+    const ok = await run(() => api.createTower({
+      companyId,
+      code: newTower.code.trim().toUpperCase(),
+      name: newTower.name.trim(),
+      description: newTower.description.trim() || undefined,
+      includes: parseIncludes(newTower.includes),
+      standardTower: newTower.standardTower,
+    }), 'Tower added');
+    if (ok) setNewTower({ code: '', name: '', description: '', includes: '', standardTower: 'OTHER' });
+  };
+
+  const handleCreateCategory = async () => {
+    if (!newCategory.code.trim() || !newCategory.name.trim()) {
+      setMessage({ type: 'error', text: 'Code and name are required' });
+      return;
+    }
+    const ok = await run(() => api.createBenefitCategory({
+      companyId,
+      code: newCategory.code.trim().toUpperCase(),
+      name: newCategory.name.trim(),
+      description: newCategory.description.trim() || undefined,
+      standardCategory: newCategory.standardCategory,
+    }), 'Benefit category added');
+    if (ok) setNewCategory({ code: '', name: '', description: '', standardCategory: 'OTHER' });
+  };
+
+  const handleCreateUnit = async () => {
+    if (!newUnit.code.trim() || !newUnit.name.trim()) {
+      setMessage({ type: 'error', text: 'Code and name are required' });
+      return;
+    }
+    const ok = await run(() => api.createBusinessUnit({
+      companyId,
+      code: newUnit.code.trim().toUpperCase(),
+      name: newUnit.name.trim(),
+      description: newUnit.description.trim() || undefined,
+    }), 'Business unit added');
+    if (ok) setNewUnit({ code: '', name: '', description: '' });
+  };
+
+  const startEditUnit = (unit: CompanyBusinessUnit) => {
+    setEditingUnitId(unit.id);
+    setUnitForm({ name: unit.name, description: unit.description ?? '', sortOrder: unit.sortOrder });
+    setMessage(null);
+  };
+
+  const saveUnit = async (id: string) => {
+    const ok = await run(() => api.updateBusinessUnit(id, unitForm));
+    if (ok) setEditingUnitId(null);
+  };
+
+  const startEditTower = (tower: CompanyTower) => {
+    setEditingTowerId(tower.id);
+    setTowerForm({
+      name: tower.name,
+      description: tower.description ?? '',
+      includes: tower.includes.join(', '),
+      standardTower: tower.standardTower,
+      sortOrder: tower.sortOrder,
+    });
+    setMessage(null);
+  };
+
+  const startEditCategory = (category: CompanyBenefitCategory) => {
+    setEditingCategoryId(category.id);
+    setCategoryForm({
+      name: category.name,
+      description: category.description ?? '',
+      standardCategory: category.standardCategory,
+      sortOrder: category.sortOrder,
+      rampType: category.rampType,
+      rampMonths: category.rampMonths?.toString() ?? '',
+      rampCustom: category.rampCustom?.join(', ') ?? '',
+    });
+    setMessage(null);
+  };
+
+  const saveTower = async (id: string) => {
+    const ok = await run(() => api.updateTower(id, { ...towerForm, includes: parseIncludes(towerForm.includes) }));
+    if (ok) setEditingTowerId(null);
+  };
+
+  const saveCategory = async (id: string) => {
+    const { rampMonths, rampCustom, ...rest } = categoryForm;
+    const ok = await run(() => api.updateBenefitCategory(id, {
+      ...rest,
+      rampMonths: rampMonths.trim() ? Number(rampMonths) : null,
+      rampCustom: rampCustom.trim() ? parseIncludes(rampCustom).map(Number) : null,
+    }));
+    if (ok) setEditingCategoryId(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b">
+            <h1 className="text-2xl font-bold text-gray-900">Towers</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Your own technology towers for L2 allocations. Each maps to a standard TBM tower so results can be compared across companies.{' '}
+              <Link to="/framework" className="text-blue-600 hover:text-blue-800">Back to Framework Entry</Link>
+            </p>
+            {!canConfigure && <p className="mt-2 text-sm text-amber-700">Only company admins can change the taxonomy.</p>}
+          </div>
+
+          <div className="p-6 space-y-3">
+            {taxonomy.towers.map((tower) => (
+              <div key={tower.id} className={`border rounded-lg p-4 ${tower.archived ? 'bg-gray-50' : ''}`}>
+                {editingTowerId === tower.id ? (
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <input type="text" value={towerForm.name} onChange={(e) => setTowerForm({ ...towerForm, name: e.target.value })} className={inputClass} />
+                    <input type="text" value={towerForm.description} placeholder="Description" onChange={(e) => setTowerForm({ ...towerForm, description: e.target.value })} className={`md:col-span-2 ${inputClass}`} />
+                    <input type="number" min={0} value={towerForm.sortOrder} onChange={(e) => setTowerForm({ ...towerForm, sortOrder: Number(e.target.value) })} className={inputClass} />
+                    <input type="text" value={towerForm.includes} placeholder="Includes (comma-separated)" onChange={(e) => setTowerForm({ ...towerForm, includes: e.target.value })} className={`md:col-span-3 ${inputClass}`} />
+                    <select value={towerForm.standardTower} onChange={(e) => setTowerForm({ ...towerForm, standardTower: e.target.value as Tower })} className={inputClass}>
+                      {ALL_TOWERS.map(t => <option key={t} value={t}>{TOWER_LABELS[t]}</option>)}
+                    </select>
+                    <div className="md:col-span-4 flex justify-end space-x-4">
+                      <button onClick={() => setEditingTowerId(null)} className="px-4 py-2 border border-gray-200 rounded-md text-sm font-medium text-gray-600 hover:bg-gray-50">
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => saveTower(tower.id)}
+                        disabled={isLoading || !towerForm.name.trim()}
+                        className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {tower.name} <span className="text-xs text-gray-500">({tower.code} → {TOWER_LABELS[tower.standardTower]})</span>
+                        {tower.archived && <span className="ml-2 text-xs text-red-600">Archived</span>}
+                      </p>
+                      {tower.description && <p className="text-xs text-gray-600 mt-1">{tower.description}</p>}
+                      {tower.includes.length > 0 && <p className="text-xs text-gray-500 mt-1">Includes: {tower.includes.join(', ')}</p>}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button onClick={() => startEditTower(tower)} className="px-3 py-1 border border-gray-200 rounded-md text-sm text-gray-600 hover:bg-gray-50">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => run(() => api.updateTower(tower.id, { archived: !tower.archived }))}
+                        disabled={isLoading}
+                        className="px-3 py-1 border border-gray-200 rounded-md text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {tower.archived ? 'Restore' : 'Archive'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h4 className="text-md font-medium text-gray-900 mb-4">Add Tower</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <input type="text" placeholder="Code (e.g. DATA_PLATFORM)" value={newTower.code} onChange={(e) => setNewTower({ ...newTower, code: e.target.value })} className={inputClass} />
+                <input type="text" placeholder="Name" value={newTower.name} onChange={(e) => setNewTower({ ...newTower, name: e.target.value })} className={inputClass} />
+                <input type="text" placeholder="Description (optional)" value={newTower.description} onChange={(e) => setNewTower({ ...newTower, description: e.target.value })} className={inputClass} />
+                <select value={newTower.standardTower} onChange={(e) => setNewTower({ ...newTower, standardTower: e.target.value as Tower })} className={inputClass}>
+                  {ALL_TOWERS.map(t => <option key={t} value={t}>Maps to {TOWER_LABELS[t]}</option>)}
+                </select>
+                <input type="text" placeholder="Includes (comma-separated, optional)" value={newTower.includes} onChange={(e) => setNewTower({ ...newTower, includes: e.target.value })} className={`md:col-span-2 ${inputClass}`} />
+              </div>
+              <div className="mt-4 flex justify-end">
+                <button
+                  onClick={handleCreateTower}
+                  disabled={isLoading}
+                  className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                >
+                  Add Tower
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b">
+            <h1 className="text-2xl font-bold text-gray-900">Benefit Categories</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Your own benefit categories for L3 weights. The standard category decides how each one is valued in the ROI calculation,
+              and the realisation ramp how quickly its benefit arrives in the multi-year projection.
+            </p>
+          </div>
+
+          <div className="p-6 space-y-3">
+            {taxonomy.benefitCategories.map((category) => (
+              <div key={category.id} className={`border rounded-lg p-4 ${category.archived ? 'bg-gray-50' : ''}`}>
+                {editingCategoryId === category.id ? (
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <input type="text" value={categoryForm.name} onChange={(e) => setCategoryForm({ ...categoryForm, name: e.target.value })} className={inputClass} />
+                    <input type="text" value={categoryForm.description} placeholder="Description" onChange={(e) => setCategoryForm({ ...categoryForm, description: e.target.value })} className={`md:col-span-2 ${inputClass}`} />
+                    <input type="number" min={0} value={categoryForm.sortOrder} onChange={(e) => setCategoryForm({ ...categoryForm, sortOrder: Number(e.target.value) })} className={inputClass} />
+                    <select value={categoryForm.standardCategory} onChange={(e) => setCategoryForm({ ...categoryForm, standardCategory: e.target.value as L3Category })} className={`md:col-span-2 ${inputClass}`}>
+                      {BENEFIT_CATEGORIES.map(c => <option key={c} value={c}>{BENEFIT_LABELS[c]}</option>)}
+                    </select>
+                    <select value={categoryForm.rampType} onChange={(e) => setCategoryForm({ ...categoryForm, rampType: e.target.value as BenefitRamp })} className={inputClass}>
+                      {BENEFIT_RAMPS.map(ramp => <option key={ramp} value={ramp}>{BENEFIT_RAMP_LABELS[ramp]}</option>)}
+                    </select>
+                    {categoryForm.rampType === 'CUSTOM' ? (
+                      <input type="text" placeholder="% per month, e.g. 10, 40, 80, 100" value={categoryForm.rampCustom} onChange={(e) => setCategoryForm({ ...categoryForm, rampCustom: e.target.value })} className={`md:col-span-3 ${inputClass}`} />
+                    ) : categoryForm.rampType !== 'IMMEDIATE' && (
+                      <input
+                        type="number"
+                        min={1}
+                        max={120}
+                        placeholder={categoryForm.rampType === 'STEP' ? 'Month benefit lands' : 'Months to full benefit'}
+                        value={categoryForm.rampMonths}
+                        onChange={(e) => setCategoryForm({ ...categoryForm, rampMonths: e.target.value })}
+                        className={`md:col-span-3 ${inputClass}`}
+                      />
+                    )}
+                    <div className="md:col-span-2 flex justify-end space-x-4">
+                      <button onClick={() => setEditingCategoryId(null)} className="px-4 py-2 border border-gray-200 rounded-md text-sm font-medium text-gray-600 hover:bg-gray-50">
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => saveCategory(category.id)}
+                        disabled={isLoading || !categoryForm.name.trim()}
+                        className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {category.name} <span className="text-xs text-gray-500">({category.code} → {BENEFIT_LABELS[category.standardCategory]})</span>
+                        {category.archived && <span className="ml-2 text-xs text-red-600">Archived</span>}
+                      </p>
+                      {category.description && <p className="text-xs text-gray-600 mt-1">{category.description}</p>}
+                      <p className="text-xs text-gray-500 mt-1">Realisation: {describeRamp(category)}</p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button onClick={() => startEditCategory(category)} className="px-3 py-1 border border-gray-200 rounded-md text-sm text-gray-600 hover:bg-gray-50">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => run(() => api.updateBenefitCategory(category.id, { archived: !category.archived }))}
+                        disabled={isLoading}
+                        className="px-3 py-1 border border-gray-200 rounded-md text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {category.archived ? 'Restore' : 'Archive'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h4 className="text-md font-medium text-gray-900 mb-4">Add Benefit Category</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <input type="text" placeholder="Code (e.g. LICENCE_SAVINGS)" value={newCategory.code} onChange={(e) => setNewCategory({ ...newCategory, code: e.target.value })} className={inputClass} />
+                <input type="text" placeholder="Name" value={newCategory.name} onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })} className={inputClass} />
+                <input type="text" placeholder="Description (optional)" value={newCategory.description} onChange={(e) => setNewCategory({ ...newCategory, description: e.target.value })} className={inputClass} />
+                <select value={newCategory.standardCategory} onChange={(e) => setNewCategory({ ...newCategory, standardCategory: e.target.value as L3Category })} className={inputClass}>
+                  {BENEFIT_CATEGORIES.map(c => <option key={c} value={c}>Valued as {BENEFIT_LABELS[c]}</option>)}
+                </select>
+              </div>
+              <div className="mt-4 flex justify-end">
+                <button
+                  onClick={handleCreateCategory}
+                  disabled={isLoading}
+                  className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                >
+                  Add Benefit Category
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b">
+            <h1 className="text-2xl font-bold text-gray-900">Business Units</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              The business units or applications that consume tower services. Tower cost is allocated to them in a second stage to give each one a fully loaded cost.{' '}
+              <Link to="/business-unit-weights" className="text-blue-600 hover:text-blue-800">Allocate towers to business units</Link>
+            </p>
+          </div>
+
+          <div className="p-6 space-y-3">
+            {taxonomy.businessUnits.map((unit) => (
+              <div key={unit.id} className={`border rounded-lg p-4 ${unit.archived ? 'bg-gray-50' : ''}`}>
+                {editingUnitId === unit.id ? (
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <input type="text" value={unitForm.name} onChange={(e) => setUnitForm({ ...unitForm, name: e.target.value })} className={inputClass} />
+                    <input type="text" value={unitForm.description} placeholder="Description" onChange={(e) => setUnitForm({ ...unitForm, description: e.target.value })} className={`md:col-span-2 ${inputClass}`} />
+                    <input type="number" min={0} value={unitForm.sortOrder} onChange={(e) => setUnitForm({ ...unitForm, sortOrder: Number(e.target.value) })} className={inputClass} />
+                    <div className="md:col-span-4 flex justify-end space-x-4">
+                      <button onClick={() => setEditingUnitId(null)} className="px-4 py-2 border border-gray-200 rounded-md text-sm font-medium text-gray-600 hover:bg-gray-50">
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => saveUnit(unit.id)}
+                        disabled={isLoading || !unitForm.name.trim()}
+                        className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {unit.name} <span className="text-xs text-gray-500">({unit.code})</span>
+                        {unit.archived && <span className="ml-2 text-xs text-red-600">Archived</span>}
+                      </p>
+                      {unit.description && <p className="text-xs text-gray-600 mt-1">{unit.description}</p>}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button onClick={() => startEditUnit(unit)} className="px-3 py-1 border border-gray-200 rounded-md text-sm text-gray-600 hover:bg-gray-50">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => run(() => api.updateBusinessUnit(unit.id, { archived: !unit.archived }))}
+                        disabled={isLoading}
+                        className="px-3 py-1 border border-gray-200 rounded-md text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {unit.archived ? 'Restore' : 'Archive'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h4 className="text-md font-medium text-gray-900 mb-4">Add Business Unit</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <input type="text" placeholder="Code (e.g. RETAIL)" value={newUnit.code} onChange={(e) => setNewUnit({ ...newUnit, code: e.target.value })} className={inputClass} />
+                <input type="text" placeholder="Name" value={newUnit.name} onChange={(e) => setNewUnit({ ...newUnit, name: e.target.value })} className={inputClass} />
+                <input type="text" placeholder="Description (optional)" value={newUnit.description} onChange={(e) => setNewUnit({ ...newUnit, description: e.target.value })} className={inputClass} />
+              </div>
+              <div className="mt-4 flex justify-end">
+                <button
+                  onClick={handleCreateUnit}
+                  disabled={isLoading}
+                  className="px-4 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+                >
+                  Add Business Unit
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {message && (
+          <div className={`rounded-md p-4 bg-white border ${message.type === 'success' ? 'border-green-400' : 'border-red-400'}`}>
+            <p className={`text-sm ${message.type === 'success' ? 'text-green-800' : 'text-red-800'}`}>{message.text}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
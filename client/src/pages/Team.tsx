@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/useAuth';
+import api, { type CompanyRole, type Invitation, type InvitationStatus, type Member } from '../lib/api';
+import { COMPANY_ROLES, ROLE_LABELS, can } from '../utils/roles';
+
+const inputClass = 'border border-gray-300 rounded-md px-3 py-2 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const STATUS_CLASSES: Record<InvitationStatus, string> = {
+  PENDING: 'text-blue-800',
+  ACCEPTED: 'text-green-800',
+  REVOKED: 'text-gray-500',
+  EXPIRED: 'text-gray-500',
+};
+
+export default function Team() {
+  const { user } = useAuth();
+  const companyId = user?.companyId;
+  const canManage = can(user, 'users:manage');
+
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<CompanyRole>('CONTRIBUTOR');
+  // the signup link for the invitation just sent; the token can't be read back later
+  const [link, setLink] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadTeam = async (id: string) => {
+    try {
+      const [memberList, invitationList] = await Promise.all([api.members(id), api.invitations(id)]);
+      setMembers(memberList);
+      setInvitations(invitationList);
+    } catch {
+      setMembers([]);
+      setInvitations([]);
+    }
+  };
+
+  useEffect(() => {
+    if (companyId && canManage) loadTeam(companyId);
+  }, [companyId, canManage]);
+
+  if (!companyId || !canManage) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-600">Only company admins can manage a company's people.</p>
+      </div>
+    );
+  }
+
+  const handleInvite = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setMessage(null);
+    setLink(null);
+    try {
+      const invitation = await api.invite(companyId, email.trim(), role);
+      setLink(`${window.location.origin}/login?invite=${encodeURIComponent(invitation.token)}`);
+      setMessage({ type: 'success', text: `Invitation created for ${invitation.email}. Send them the link below; it works once and expires on ${new Date(invitation.expiresAt).toLocaleDateString()}.` });
+      setEmail('');
+      await loadTeam(companyId);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to create invitation' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    try {
+      await api.revokeInvitation(invitation.id);
+      await loadTeam(companyId);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to revoke invitation' });
+    }
+  };
+
+  const handleRoleChange = async (member: Member, newRole: CompanyRole) => {
+    setMessage(null);
+    try {
+      const updated = await api.setMemberRole(companyId, member.id, newRole);
+      setMembers(members.map(m => m.id === updated.id ? updated : m));
+      setMessage({ type: 'success', text: `${updated.name} is now ${ROLE_LABELS[updated.role].toLowerCase()}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to change role' });
+    }
+  };
+
+  const handleRemove = async (member: Member) => {
+    if (!window.confirm(`Remove ${member.name} from this company? They keep their account and can be invited again.`)) return;
+    setMessage(null);
+    try {
+      await api.removeMember(companyId, member.id);
+      setMembers(members.filter(m => m.id !== member.id));
+      setMessage({ type: 'success', text: `${member.name} was removed from the company` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to remove member' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b">
+            <h1 className="text-2xl font-bold text-gray-900">Team</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Viewers see the dashboards, contributors also enter L1-L3 data, approvers can lock periods, and company admins manage settings and people.
+              People join by signing up from an invitation link, with the role it was sent for; a new invitation to the same email replaces the pending one.
+            </p>
+          </div>
+
+          <div className="p-6 space-y-6">
+            <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <input type="email" required value={email} placeholder="name@company.com" onChange={(e) => setEmail(e.target.value)} className={inputClass} />
+              <select value={role} onChange={(e) => setRole(e.target.value as CompanyRole)} className={inputClass}>
+                {COMPANY_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+              </select>
+              <button
+                type="submit"
+                disabled={isLoading || !email.trim()}
+                className="px-6 py-2 bg-blue-600 text-gray-900 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Sending...' : 'Invite'}
+              </button>
+            </form>
+
+            {message && (
+              <div className={`rounded-md p-4 bg-white border ${message.type === 'success' ? 'border-green-400' : 'border-red-400'}`}>
+                <p className={`text-sm ${message.type === 'success' ? 'text-green-800' : 'text-red-800'}`}>{message.text}</p>
+                {link && <input type="text" readOnly value={link} onFocus={(e) => e.target.select()} className={`mt-2 w-full text-sm ${inputClass}`} />}
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Members</h3>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4">Name</th>
+                    <th className="py-2 pr-4">Email</th>
+                    <th className="py-2 pr-4">Role</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {members.map(member => (
+                    <tr key={member.id} className="border-b">
+                      <td className="py-2 pr-4 text-gray-900">{member.name}</td>
+                      <td className="py-2 pr-4 text-gray-600">{member.email}</td>
+                      <td className="py-2 pr-4">
+                        <select value={member.role} onChange={(e) => handleRoleChange(member, e.target.value as CompanyRole)} className={`text-sm ${inputClass}`}>
+                          {COMPANY_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                        </select>
+                      </td>
+                      <td className="py-2 text-right">
+                        <button onClick={() => handleRemove(member)} className="text-red-600 hover:text-red-800">Remove</button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <h3 className="text-lg font-medium text-gray-900">Invitations</h3>
+            {invitations.length === 0 ? (
+              <p className="text-sm text-gray-600">No invitations sent yet.</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4">Email</th>
+                    <th className="py-2 pr-4">Role</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2 pr-4">Expires</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {invitations.map(invitation => (
+                    <tr key={invitation.id} className="border-b">
+                      <td className="py-2 pr-4 text-gray-900">{invitation.email}</td>
+                      <td className="py-2 pr-4 text-gray-600">{ROLE_LABELS[invitation.role]}</td>
+                      <td className={`py-2 pr-4 ${STATUS_CLASSES[invitation.status]}`}>{invitation.status.charAt(0) + invitation.status.slice(1).toLowerCase()}</td>
+                      <td className="py-2 pr-4 text-gray-600">{new Date(invitation.expiresAt).toLocaleDateString()}</td>
+                      <td className="py-2 text-right">
+                        {invitation.status === 'PENDING' && (
+                          <button onClick={() => handleRevoke(invitation)} className="text-red-600 hover:text-red-800">Revoke</button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import type { AllocationDriver } from '../lib/api';
+
+export const ALLOCATION_DRIVER_LABELS: Record<AllocationDriver, string> = {
+  HEADCOUNT: 'Headcount',
+  TICKETS: 'Ticket volume',
+  COMPUTE_HOURS: 'Compute hours',
+  STORAGE_GB: 'Storage (GB)',
+};
+
+export const ALLOCATION_DRIVERS = Object.keys(ALLOCATION_DRIVER_LABELS) as AllocationDriver[];
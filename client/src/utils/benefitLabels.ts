@@ -0,0 +1,48 @@
+// Benefit category labels for L3 weights and dashboard breakdowns
+// Standard categories have fixed labels; company categories resolve from the company's taxonomy
+
+import type { BenefitRamp, CompanyBenefitCategory, L3Category } from '../lib/api';
+
+export const BENEFIT_CATEGORIES: L3Category[] = [
+  "PRODUCTIVITY",
+  "REVENUE_UPLIFT",
+  "RISK_AVOIDANCE",
+  "COST_AVOIDANCE",
+  "OTHER",
+];
+
+export const BENEFIT_LABELS: Record<L3Category, string> = {
+  PRODUCTIVITY: "Productivity Gains",
+  REVENUE_UPLIFT: "Revenue Uplift",
+  RISK_AVOIDANCE: "Risk Avoidance",
+  COST_AVOIDANCE: "Cost Avoidance",
+  OTHER: "Other",
+};
+
+export function getBenefitLabel(categories: CompanyBenefitCategory[], code: string): string {
+  return categories.find(c => c.code === code)?.name ?? BENEFIT_LABELS[code as L3Category] ?? code;
+}
+
+export const BENEFIT_RAMP_LABELS: Record<BenefitRamp, string> = {
+  IMMEDIATE: "Immediate",
+  LINEAR: "Linear ramp",
+  S_CURVE: "S-curve",
+  STEP: "Step",
+  CUSTOM: "Custom",
+};
+
+export const BENEFIT_RAMPS = Object.keys(BENEFIT_RAMP_LABELS) as BenefitRamp[];
+
+export function describeRamp(category: Pick<CompanyBenefitCategory, "rampType" | "rampMonths" | "rampCustom">): string {
+  switch (category.rampType) {
+    case "LINEAR":
+    case "S_CURVE":
+      return `${BENEFIT_RAMP_LABELS[category.rampType]} to full over ${category.rampMonths} months`;
+    case "STEP":
+      return `Lands in full at month ${category.rampMonths}`;
+    case "CUSTOM":
+      return `Custom: ${(category.rampCustom ?? []).join("%, ")}% by month`;
+    default:
+      return "Full benefit from month 1";
+  }
+}
@@ -0,0 +1,9 @@
+import type { CostBasis } from '../lib/api';
+
+export const COST_BASIS_LABELS: Record<CostBasis, string> = {
+  PLAN: 'Plan',
+  FORECAST: 'Forecast',
+  ACTUAL: 'Actual',
+};
+
+export const COST_BASES = Object.keys(COST_BASIS_LABELS) as CostBasis[];
@@ -0,0 +1,15 @@
+import type { CostType, DepreciationMethod } from '../lib/api';
+
+export const COST_TYPE_LABELS: Record<CostType, string> = {
+  OPEX: 'Opex (expensed in the period)',
+  CAPEX: 'Capex (depreciated over asset life)',
+};
+
+export const COST_TYPES = Object.keys(COST_TYPE_LABELS) as CostType[];
+
+export const DEPRECIATION_METHOD_LABELS: Record<DepreciationMethod, string> = {
+  STRAIGHT_LINE: 'Straight-line',
+  DECLINING_BALANCE: 'Declining balance (double)',
+};
+
+export const DEPRECIATION_METHODS = Object.keys(DEPRECIATION_METHOD_LABELS) as DepreciationMethod[];
@@ -0,0 +1,24 @@
+import type { CurrencyCode } from '../lib/api';
+
+// Currencies offered in the pickers; the API accepts any ISO 4217 code
+export const CURRENCY_LABELS: Record<CurrencyCode, string> = {
+  AUD: 'AUD - Australian dollar',
+  NZD: 'NZD - New Zealand dollar',
+  USD: 'USD - US dollar',
+  EUR: 'EUR - Euro',
+  GBP: 'GBP - Pound sterling',
+};
+
+export const CURRENCIES = Object.keys(CURRENCY_LABELS) as CurrencyCode[];
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export function formatMoney(amount: number, currency: CurrencyCode = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    currencyDisplay: 'narrowSymbol',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
@@ -0,0 +1,17 @@
+import type { InitiativeStatus } from '../lib/api';
+
+export const INITIATIVE_STATUS_LABELS: Record<InitiativeStatus, string> = {
+  PROPOSED: 'Proposed',
+  APPROVED: 'Approved',
+  ACTIVE: 'Active',
+  ON_HOLD: 'On Hold',
+  COMPLETED: 'Completed',
+  CANCELLED: 'Cancelled',
+};
+
+export const INITIATIVE_STATUSES = Object.keys(INITIATIVE_STATUS_LABELS) as InitiativeStatus[];
+
+// Dates come back as ISO timestamps; date inputs want 'YYYY-MM-DD'
+export function toDateInput(value: string | null): string {
+  return value ? value.slice(0, 10) : '';
+}
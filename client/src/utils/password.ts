@@ -0,0 +1,10 @@
+// The password rules for new accounts, password changes and resets; the server's passwordSchema enforces the same
+export function validatePassword(password: string): string | null {
+  if (password.length < 8) {
+    return 'Password must be at least 8 characters long';
+  }
+  if (!/[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?]/.test(password)) {
+    return 'Password must contain at least one special character';
+  }
+  return null;
+}
@@ -0,0 +1,37 @@
+// Period labels shared with the server:
+// months are calendar months ('2025-03'), quarters and years follow the company's
+// fiscal year ('FY2025-Q1', 'FY2025') and a fiscal year is named after the year it ends in
+
+import type { PeriodGranularity } from '../lib/api';
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+export const GRANULARITY_LABELS: Record<PeriodGranularity, string> = {
+  MONTH: 'Month',
+  QUARTER: 'Fiscal Quarter',
+  YEAR: 'Fiscal Year',
+};
+
+export function buildPeriodLabel(granularity: PeriodGranularity, month: string, fiscalYear: number, quarter: number): string {
+  if (granularity === 'MONTH') return month;
+  if (granularity === 'QUARTER') return `FY${fiscalYear}-Q${quarter}`;
+  return `FY${fiscalYear}`;
+}
+
+// Fiscal year containing the given date
+export function fiscalYearOf(date: Date, fiscalYearStartMonth: number): number {
+  const year = date.getFullYear();
+  return fiscalYearStartMonth === 1 || date.getMonth() + 1 < fiscalYearStartMonth ? year : year + 1;
+}
+
+// e.g. "Jul 2024 – Jun 2025" for FY2025 with a July start
+export function describeFiscalYear(fiscalYear: number, fiscalYearStartMonth: number): string {
+  const startYear = fiscalYearStartMonth === 1 ? fiscalYear : fiscalYear - 1;
+  const start = new Date(startYear, fiscalYearStartMonth - 1, 1);
+  const end = new Date(startYear, fiscalYearStartMonth + 10, 1);
+  const fmt = (d: Date) => d.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+  return `${fmt(start)} – ${fmt(end)}`;
+}
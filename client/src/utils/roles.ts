@@ -0,0 +1,28 @@
+import type { CompanyRole, Role } from '../lib/api';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  VIEWER: 'Viewer',
+  CONTRIBUTOR: 'Contributor',
+  APPROVER: 'Approver',
+  COMPANY_ADMIN: 'Company admin',
+  PLATFORM_ADMIN: 'Platform admin',
+};
+
+// Platform admins are provisioned by the operator, never invited or assigned
+export const COMPANY_ROLES: CompanyRole[] = ['VIEWER', 'CONTRIBUTOR', 'APPROVER', 'COMPANY_ADMIN'];
+
+export type Permission = 'data:read' | 'data:write' | 'periods:lock' | 'company:configure' | 'users:manage' | 'platform:manage';
+
+// Mirrors the server's matrix in middleware/rbac.ts, which is what's enforced; this only decides what to show
+const PERMISSIONS: Record<Role, Permission[]> = {
+  VIEWER: ['data:read'],
+  CONTRIBUTOR: ['data:read', 'data:write'],
+  APPROVER: ['data:read', 'data:write', 'periods:lock'],
+  COMPANY_ADMIN: ['data:read', 'data:write', 'periods:lock', 'company:configure', 'users:manage'],
+  PLATFORM_ADMIN: ['data:read', 'data:write', 'periods:lock', 'company:configure', 'users:manage', 'platform:manage'],
+};
+
+// Checks the user's role in their active company
+export function can(user: { role: Role | null } | null | undefined, permission: Permission): boolean {
+  return !!user?.role && PERMISSIONS[user.role].includes(permission);
+}
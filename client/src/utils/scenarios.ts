@@ -0,0 +1,10 @@
+import type { ScenarioKind } from '../lib/api';
+
+export const SCENARIO_KIND_LABELS: Record<ScenarioKind, string> = {
+  BASE: 'Base',
+  OPTIMISTIC: 'Optimistic',
+  PESSIMISTIC: 'Pessimistic',
+  CUSTOM: 'Custom',
+};
+
+export const SCENARIO_KINDS = Object.keys(SCENARIO_KIND_LABELS) as ScenarioKind[];
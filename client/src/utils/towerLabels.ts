@@ -1,60 +1,53 @@
-// Tower category label mapping - client-side only
-// Maps database values to labels updated
+// Tower label mapping
+// Standard TBM towers have fixed labels; company towers resolve from the company's taxonomy
 
-export type DatabaseTower = "APP_DEV" | "CLOUD" | "END_USER";
+import type { CompanyTower } from '../lib/api';
 
-export type DisplayTower = 
-  | "Infrastructure"
-  | "Applications" 
-  | "Operations";
+export type DatabaseTower =
+  | "APP_DEV"
+  | "SERVICE_DESK"
+  | "DATA_CENTER"
+  | "NETWORK"
+  | "END_USER"
+  | "SECURITY"
+  | "CLOUD"
+  | "OTHER";
 
-// Mapping from database values to overlay labels
+export type DisplayTower =
+  | "Application Development"
+  | "Service Desk"
+  | "Data Center"
+  | "Network"
+  | "End User"
+  | "Security"
+  | "Cloud"
+  | "Other";
+
+// Mapping from database values to display labels
 export const TOWER_LABELS: Record<DatabaseTower, DisplayTower> = {
-  APP_DEV: "Applications",
-  CLOUD: "Infrastructure", 
-  END_USER: "Operations",
+  APP_DEV: "Application Development",
+  SERVICE_DESK: "Service Desk",
+  DATA_CENTER: "Data Center",
+  NETWORK: "Network",
+  END_USER: "End User",
+  SECURITY: "Security",
+  CLOUD: "Cloud",
+  OTHER: "Other",
 };
 
 // Mapping from display labels to database values
 export const DISPLAY_TO_TOWER: Record<DisplayTower, DatabaseTower> = {
-  "Infrastructure": "CLOUD",
-  "Applications": "APP_DEV",
-  "Operations": "END_USER",
+  "Application Development": "APP_DEV",
+  "Service Desk": "SERVICE_DESK",
+  "Data Center": "DATA_CENTER",
+  "Network": "NETWORK",
+  "End User": "END_USER",
+  "Security": "SECURITY",
+  "Cloud": "CLOUD",
+  "Other": "OTHER",
 };
 
-// Tower descriptions 
-export const TOWER_DESCRIPTIONS: Record<DisplayTower, {
-  description: string;
-  includes: string[];
-}> = {
-  Infrastructure: {
-    description: "Core technology infrastructure and foundational systems",
-    includes: [
-      "Data Center facilities and management",
-      "Storage systems and data repositories", 
-      "Compute resources and servers",
-      "Network infrastructure and connectivity"
-    ]
-  },
-  Applications: {
-    description: "Software applications and data platforms",
-    includes: [
-      "Application development and maintenance",
-      "Data management and analytics platforms",
-      "Business application platforms",
-      "Integration and middleware systems"
-    ]
-  },
-  Operations: {
-    description: "IT operations, security, and governance",
-    includes: [
-      "Delivery and deployment processes",
-      "Security systems and monitoring",
-      "Technology management and governance", 
-      "Risk management and compliance"
-    ]
-  }
-};
+export const ALL_TOWERS = Object.keys(TOWER_LABELS) as DatabaseTower[];
 
 export function getDisplayLabel(dbValue: DatabaseTower): DisplayTower {
   return TOWER_LABELS[dbValue];
@@ -67,3 +60,12 @@ export function getDatabaseValue(displayLabel: DisplayTower): DatabaseTower {
 export function getAllDisplayLabels(): DisplayTower[] {
   return Object.values(TOWER_LABELS);
 }
+
+// Company tower code -> name, falling back to the standard label for codes that match a TBM tower
+export function getTowerLabel(towers: CompanyTower[], code: string): string {
+  return towers.find(t => t.code === code)?.name ?? TOWER_LABELS[code as DatabaseTower] ?? code;
+}
+
+export function getTowerDescription(towers: CompanyTower[], code: string): string {
+  return towers.find(t => t.code === code)?.description ?? '';
+}
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "L4RoiSnapshot" ADD COLUMN     "irr" DOUBLE PRECISION,
+ADD COLUMN     "npv" DOUBLE PRECISION,
+ADD COLUMN     "paybackMonths" DOUBLE PRECISION,
+ADD COLUMN     "projection" TEXT,
+ALTER COLUMN "totalCost" SET DATA TYPE DOUBLE PRECISION,
+ALTER COLUMN "totalBenefit" SET DATA TYPE DOUBLE PRECISION,
+ALTER COLUMN "roiPct" SET DATA TYPE DOUBLE PRECISION;
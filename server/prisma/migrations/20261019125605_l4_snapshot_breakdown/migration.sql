@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "L4RoiSnapshot" ADD COLUMN     "breakdown" TEXT;
@@ -0,0 +1,105 @@
+-- CreateTable
+CREATE TABLE "CostPool" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CostPool_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CostPool_companyId_sortOrder_idx" ON "CostPool"("companyId", "sortOrder");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CostPool_companyId_code_key" ON "CostPool"("companyId", "code");
+
+-- AddForeignKey
+ALTER TABLE "CostPool" ADD CONSTRAINT "CostPool_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Departments were shown under these pool names, so every company with L1 or L2 rows gets the
+-- default pools, plus OTHER where it was used, and its rows move to the pool their department stood for
+CREATE TEMPORARY TABLE "DepartmentCostPool" (
+    "department" "Department" NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "sortOrder" INTEGER NOT NULL
+);
+
+INSERT INTO "DepartmentCostPool" ("department", "code", "name", "description", "sortOrder") VALUES
+    ('ENGINEERING', 'LABOUR', 'Labour', 'Internal staff and contractors', 0),
+    ('SALES', 'CLOUD', 'Cloud Services', 'IaaS, PaaS and hosted services', 1),
+    ('MARKETING', 'SOFTWARE', 'Software & SaaS', 'Licences and subscriptions', 2),
+    ('FINANCE', 'HARDWARE', 'Hardware', 'Servers, devices and peripherals', 3),
+    ('HR', 'FACILITIES', 'Data Centre Facilities', 'Space, power and cooling', 4),
+    ('OPERATIONS', 'TELECOM', 'Telecom', 'Network carriage and voice', 5),
+    ('OTHER', 'OTHER', 'Other', NULL, 6);
+
+INSERT INTO "CostPool" ("id", "companyId", "code", "name", "description", "sortOrder")
+SELECT md5(c."companyId" || '/' || p."code"), c."companyId", p."code", p."name", p."description", p."sortOrder"
+FROM (
+    SELECT "companyId" FROM "L1OperationalInput"
+    UNION
+    SELECT "companyId" FROM "L2AllocationWeight"
+) c
+CROSS JOIN "DepartmentCostPool" p
+WHERE p."department" <> 'OTHER'
+   OR EXISTS (SELECT 1 FROM "L1OperationalInput" i WHERE i."companyId" = c."companyId" AND i."department" = 'OTHER')
+   OR EXISTS (SELECT 1 FROM "L2AllocationWeight" w WHERE w."companyId" = c."companyId" AND w."department" = 'OTHER');
+
+-- AlterTable
+ALTER TABLE "L1OperationalInput" ADD COLUMN     "costPoolId" TEXT;
+
+-- AlterTable
+ALTER TABLE "L2AllocationWeight" ADD COLUMN     "costPoolId" TEXT;
+
+UPDATE "L1OperationalInput" i
+SET "costPoolId" = md5(i."companyId" || '/' || p."code")
+FROM "DepartmentCostPool" p
+WHERE p."department" = i."department";
+
+UPDATE "L2AllocationWeight" w
+SET "costPoolId" = md5(w."companyId" || '/' || p."code")
+FROM "DepartmentCostPool" p
+WHERE p."department" = w."department";
+
+-- AlterTable
+ALTER TABLE "L1OperationalInput" ALTER COLUMN "costPoolId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "L2AllocationWeight" ALTER COLUMN "costPoolId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "L1OperationalInput_companyId_period_department_key";
+
+-- DropIndex
+DROP INDEX "L2AllocationWeight_companyId_period_department_tower_key";
+
+-- AlterTable
+ALTER TABLE "L1OperationalInput" DROP COLUMN "department";
+
+-- AlterTable
+ALTER TABLE "L2AllocationWeight" DROP COLUMN "department";
+
+-- DropTable
+DROP TABLE "DepartmentCostPool";
+
+-- DropEnum
+DROP TYPE "Department";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L1OperationalInput_companyId_period_costPoolId_key" ON "L1OperationalInput"("companyId", "period", "costPoolId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L2AllocationWeight_companyId_period_costPoolId_tower_key" ON "L2AllocationWeight"("companyId", "period", "costPoolId", "tower");
+
+-- AddForeignKey
+ALTER TABLE "L1OperationalInput" ADD CONSTRAINT "L1OperationalInput_costPoolId_fkey" FOREIGN KEY ("costPoolId") REFERENCES "CostPool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "L2AllocationWeight" ADD CONSTRAINT "L2AllocationWeight_costPoolId_fkey" FOREIGN KEY ("costPoolId") REFERENCES "CostPool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
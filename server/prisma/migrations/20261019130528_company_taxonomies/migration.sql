@@ -0,0 +1,55 @@
+-- Existing rows keep their TBM codes, which are also the codes of the default taxonomy entries
+-- AlterTable
+ALTER TABLE "L2AllocationWeight" ALTER COLUMN "tower" SET DATA TYPE TEXT USING "tower"::TEXT;
+
+-- AlterTable
+ALTER TABLE "L3BenefitWeight" ALTER COLUMN "category" SET DATA TYPE TEXT USING "category"::TEXT;
+
+-- CreateTable
+CREATE TABLE "CompanyTower" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "includes" TEXT,
+    "standardTower" "TbmTower" NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CompanyTower_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CompanyBenefitCategory" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "standardCategory" "BenefitCategory" NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CompanyBenefitCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CompanyTower_companyId_sortOrder_idx" ON "CompanyTower"("companyId", "sortOrder");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompanyTower_companyId_code_key" ON "CompanyTower"("companyId", "code");
+
+-- CreateIndex
+CREATE INDEX "CompanyBenefitCategory_companyId_sortOrder_idx" ON "CompanyBenefitCategory"("companyId", "sortOrder");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompanyBenefitCategory_companyId_code_key" ON "CompanyBenefitCategory"("companyId", "code");
+
+-- AddForeignKey
+ALTER TABLE "CompanyTower" ADD CONSTRAINT "CompanyTower_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompanyBenefitCategory" ADD CONSTRAINT "CompanyBenefitCategory_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "PeriodGranularity" AS ENUM ('MONTH', 'QUARTER', 'YEAR');
+
+-- DropIndex
+DROP INDEX "L1OperationalInput_companyId_period_costPoolId_key";
+
+-- DropIndex
+DROP INDEX "L2AllocationWeight_companyId_period_costPoolId_tower_key";
+
+-- DropIndex
+DROP INDEX "L3BenefitWeight_companyId_period_category_key";
+
+-- DropIndex
+DROP INDEX "L4RoiSnapshot_companyId_period_key";
+
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN     "fiscalYearStartMonth" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "L1OperationalInput" ADD COLUMN     "granularity" "PeriodGranularity" NOT NULL DEFAULT 'MONTH';
+
+-- AlterTable
+ALTER TABLE "L2AllocationWeight" ADD COLUMN     "granularity" "PeriodGranularity" NOT NULL DEFAULT 'MONTH';
+
+-- AlterTable
+ALTER TABLE "L3BenefitWeight" ADD COLUMN     "granularity" "PeriodGranularity" NOT NULL DEFAULT 'MONTH';
+
+-- AlterTable
+ALTER TABLE "L4RoiSnapshot" ADD COLUMN     "granularity" "PeriodGranularity" NOT NULL DEFAULT 'MONTH';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L1OperationalInput_companyId_period_granularity_costPoolId_key" ON "L1OperationalInput"("companyId", "period", "granularity", "costPoolId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L2AllocationWeight_companyId_period_granularity_costPoolId__key" ON "L2AllocationWeight"("companyId", "period", "granularity", "costPoolId", "tower");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L3BenefitWeight_companyId_period_granularity_category_key" ON "L3BenefitWeight"("companyId", "period", "granularity", "category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L4RoiSnapshot_companyId_period_granularity_key" ON "L4RoiSnapshot"("companyId", "period", "granularity");
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "CostBasis" AS ENUM ('PLAN', 'FORECAST', 'ACTUAL');
+
+-- DropIndex
+DROP INDEX "L4RoiSnapshot_companyId_period_granularity_key";
+
+-- AlterTable
+ALTER TABLE "L1OperationalInput" ADD COLUMN     "actual" DECIMAL(18,2),
+ADD COLUMN     "forecast" DECIMAL(18,2);
+
+-- AlterTable
+ALTER TABLE "L4RoiSnapshot" ADD COLUMN     "costBasis" "CostBasis" NOT NULL DEFAULT 'PLAN';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L4RoiSnapshot_companyId_period_granularity_costBasis_key" ON "L4RoiSnapshot"("companyId", "period", "granularity", "costBasis");
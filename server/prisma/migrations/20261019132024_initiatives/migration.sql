@@ -0,0 +1,78 @@
+-- CreateEnum
+CREATE TYPE "InitiativeStatus" AS ENUM ('PROPOSED', 'APPROVED', 'ACTIVE', 'ON_HOLD', 'COMPLETED', 'CANCELLED');
+
+-- DropIndex
+DROP INDEX "L1OperationalInput_companyId_period_granularity_costPoolId_key";
+
+-- DropIndex
+DROP INDEX "L2AllocationWeight_companyId_period_granularity_costPoolId__key";
+
+-- DropIndex
+DROP INDEX "L3BenefitWeight_companyId_period_granularity_category_key";
+
+-- DropIndex
+DROP INDEX "L4RoiSnapshot_companyId_period_granularity_costBasis_key";
+
+-- AlterTable
+ALTER TABLE "L1OperationalInput" ADD COLUMN     "initiativeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "L2AllocationWeight" ADD COLUMN     "initiativeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "L3BenefitWeight" ADD COLUMN     "initiativeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "L4RoiSnapshot" ADD COLUMN     "initiativeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Initiative" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "ownerId" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "status" "InitiativeStatus" NOT NULL DEFAULT 'PROPOSED',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Initiative_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Initiative_companyId_status_idx" ON "Initiative"("companyId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Initiative_companyId_code_key" ON "Initiative"("companyId", "code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L1OperationalInput_companyId_period_granularity_costPoolId__key" ON "L1OperationalInput"("companyId", "period", "granularity", "costPoolId", "initiativeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L2AllocationWeight_companyId_period_granularity_costPoolId__key" ON "L2AllocationWeight"("companyId", "period", "granularity", "costPoolId", "tower", "initiativeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L3BenefitWeight_companyId_period_granularity_category_initi_key" ON "L3BenefitWeight"("companyId", "period", "granularity", "category", "initiativeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L4RoiSnapshot_companyId_period_granularity_costBasis_initia_key" ON "L4RoiSnapshot"("companyId", "period", "granularity", "costBasis", "initiativeId");
+
+-- AddForeignKey
+ALTER TABLE "Initiative" ADD CONSTRAINT "Initiative_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Initiative" ADD CONSTRAINT "Initiative_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "L1OperationalInput" ADD CONSTRAINT "L1OperationalInput_initiativeId_fkey" FOREIGN KEY ("initiativeId") REFERENCES "Initiative"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "L2AllocationWeight" ADD CONSTRAINT "L2AllocationWeight_initiativeId_fkey" FOREIGN KEY ("initiativeId") REFERENCES "Initiative"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "L3BenefitWeight" ADD CONSTRAINT "L3BenefitWeight_initiativeId_fkey" FOREIGN KEY ("initiativeId") REFERENCES "Initiative"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "L4RoiSnapshot" ADD CONSTRAINT "L4RoiSnapshot_initiativeId_fkey" FOREIGN KEY ("initiativeId") REFERENCES "Initiative"("id") ON DELETE SET NULL ON UPDATE CASCADE;
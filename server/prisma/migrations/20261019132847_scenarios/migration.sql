@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "ScenarioKind" AS ENUM ('BASE', 'OPTIMISTIC', 'PESSIMISTIC', 'CUSTOM');
+
+-- DropIndex
+DROP INDEX "L4RoiSnapshot_companyId_period_granularity_costBasis_initia_key";
+
+-- AlterTable
+ALTER TABLE "L4RoiSnapshot" ADD COLUMN     "scenarioId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Scenario" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "period" TIMESTAMP(3) NOT NULL,
+    "granularity" "PeriodGranularity" NOT NULL DEFAULT 'MONTH',
+    "name" TEXT NOT NULL,
+    "kind" "ScenarioKind" NOT NULL DEFAULT 'CUSTOM',
+    "description" TEXT,
+    "assumptions" TEXT NOT NULL,
+    "overrides" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Scenario_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Scenario_companyId_period_granularity_name_key" ON "Scenario"("companyId", "period", "granularity", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L4RoiSnapshot_companyId_period_granularity_costBasis_initia_key" ON "L4RoiSnapshot"("companyId", "period", "granularity", "costBasis", "initiativeId", "scenarioId");
+
+-- AddForeignKey
+ALTER TABLE "Scenario" ADD CONSTRAINT "Scenario_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "L4RoiSnapshot" ADD CONSTRAINT "L4RoiSnapshot_scenarioId_fkey" FOREIGN KEY ("scenarioId") REFERENCES "Scenario"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "BenefitRamp" AS ENUM ('IMMEDIATE', 'LINEAR', 'S_CURVE', 'STEP', 'CUSTOM');
+
+-- AlterTable
+ALTER TABLE "CompanyBenefitCategory" ADD COLUMN     "rampCustom" TEXT,
+ADD COLUMN     "rampMonths" INTEGER,
+ADD COLUMN     "rampType" "BenefitRamp" NOT NULL DEFAULT 'IMMEDIATE';
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "CostType" AS ENUM ('OPEX', 'CAPEX');
+
+-- CreateEnum
+CREATE TYPE "DepreciationMethod" AS ENUM ('STRAIGHT_LINE', 'DECLINING_BALANCE');
+
+-- AlterTable
+ALTER TABLE "L1OperationalInput" ADD COLUMN     "assetLifeMonths" INTEGER,
+ADD COLUMN     "costType" "CostType" NOT NULL DEFAULT 'OPEX',
+ADD COLUMN     "depreciationMethod" "DepreciationMethod";
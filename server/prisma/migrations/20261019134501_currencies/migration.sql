@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN     "reportingCurrency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "L1OperationalInput" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "L4RoiSnapshot" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- CreateTable
+CREATE TABLE "FxRate" (
+    "id" TEXT NOT NULL,
+    "period" TIMESTAMP(3) NOT NULL,
+    "fromCurrency" TEXT NOT NULL,
+    "toCurrency" TEXT NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FxRate_fromCurrency_toCurrency_period_idx" ON "FxRate"("fromCurrency", "toCurrency", "period");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FxRate_period_fromCurrency_toCurrency_key" ON "FxRate"("period", "fromCurrency", "toCurrency");
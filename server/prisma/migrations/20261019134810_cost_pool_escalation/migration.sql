@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CostPool" ADD COLUMN     "escalationRate" DOUBLE PRECISION NOT NULL DEFAULT 0;
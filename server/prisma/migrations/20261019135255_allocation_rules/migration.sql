@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "AllocationDriver" AS ENUM ('HEADCOUNT', 'TICKETS', 'COMPUTE_HOURS', 'STORAGE_GB');
+
+-- CreateTable
+CREATE TABLE "AllocationRule" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "costPoolId" TEXT NOT NULL,
+    "driver" "AllocationDriver" NOT NULL,
+    "towers" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AllocationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DriverValue" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "period" TIMESTAMP(3) NOT NULL,
+    "granularity" "PeriodGranularity" NOT NULL DEFAULT 'MONTH',
+    "driver" "AllocationDriver" NOT NULL,
+    "tower" TEXT NOT NULL,
+    "value" DECIMAL(18,4) NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DriverValue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AllocationRule_costPoolId_key" ON "AllocationRule"("costPoolId");
+
+-- CreateIndex
+CREATE INDEX "AllocationRule_companyId_idx" ON "AllocationRule"("companyId");
+
+-- CreateIndex
+CREATE INDEX "DriverValue_companyId_period_idx" ON "DriverValue"("companyId", "period");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DriverValue_companyId_period_granularity_driver_tower_key" ON "DriverValue"("companyId", "period", "granularity", "driver", "tower");
+
+-- AddForeignKey
+ALTER TABLE "AllocationRule" ADD CONSTRAINT "AllocationRule_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AllocationRule" ADD CONSTRAINT "AllocationRule_costPoolId_fkey" FOREIGN KEY ("costPoolId") REFERENCES "CostPool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DriverValue" ADD CONSTRAINT "DriverValue_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DriverValue" ADD CONSTRAINT "DriverValue_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
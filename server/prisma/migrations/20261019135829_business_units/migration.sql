@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "CompanyBusinessUnit" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CompanyBusinessUnit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BusinessUnitWeight" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "period" TIMESTAMP(3) NOT NULL,
+    "granularity" "PeriodGranularity" NOT NULL DEFAULT 'MONTH',
+    "initiativeId" TEXT,
+    "tower" TEXT NOT NULL,
+    "businessUnit" TEXT NOT NULL,
+    "weightPct" DECIMAL(7,4) NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BusinessUnitWeight_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CompanyBusinessUnit_companyId_sortOrder_idx" ON "CompanyBusinessUnit"("companyId", "sortOrder");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompanyBusinessUnit_companyId_code_key" ON "CompanyBusinessUnit"("companyId", "code");
+
+-- CreateIndex
+CREATE INDEX "BusinessUnitWeight_companyId_period_idx" ON "BusinessUnitWeight"("companyId", "period");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BusinessUnitWeight_companyId_period_granularity_tower_busin_key" ON "BusinessUnitWeight"("companyId", "period", "granularity", "tower", "businessUnit", "initiativeId");
+
+-- AddForeignKey
+ALTER TABLE "CompanyBusinessUnit" ADD CONSTRAINT "CompanyBusinessUnit_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BusinessUnitWeight" ADD CONSTRAINT "BusinessUnitWeight_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BusinessUnitWeight" ADD CONSTRAINT "BusinessUnitWeight_initiativeId_fkey" FOREIGN KEY ("initiativeId") REFERENCES "Initiative"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BusinessUnitWeight" ADD CONSTRAINT "BusinessUnitWeight_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "ChargebackStatement" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "period" TIMESTAMP(3) NOT NULL,
+    "granularity" "PeriodGranularity" NOT NULL DEFAULT 'MONTH',
+    "periodLabel" TEXT NOT NULL,
+    "costBasis" "CostBasis" NOT NULL DEFAULT 'PLAN',
+    "businessUnit" TEXT NOT NULL,
+    "businessUnitName" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "totalCost" DOUBLE PRECISION NOT NULL,
+    "lines" TEXT NOT NULL,
+    "issuedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChargebackStatement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChargebackStatement_companyId_period_idx" ON "ChargebackStatement"("companyId", "period");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChargebackStatement_companyId_number_key" ON "ChargebackStatement"("companyId", "number");
+
+-- AddForeignKey
+ALTER TABLE "ChargebackStatement" ADD CONSTRAINT "ChargebackStatement_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChargebackStatement" ADD CONSTRAINT "ChargebackStatement_issuedById_fkey" FOREIGN KEY ("issuedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
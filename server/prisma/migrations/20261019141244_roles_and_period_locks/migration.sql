@@ -0,0 +1,39 @@
+-- ADMIN was picked by users at signup, so it becomes the company role; PLATFORM_ADMIN is only granted explicitly
+UPDATE "User" SET "role" = 'COMPANY_ADMIN' WHERE "role" = 'ADMIN';
+
+UPDATE "Invitation" SET "role" = 'COMPANY_ADMIN' WHERE "role" = 'ADMIN';
+
+-- AlterEnum
+BEGIN;
+CREATE TYPE "Role_new" AS ENUM ('VIEWER', 'EMPLOYEE', 'APPROVER', 'COMPANY_ADMIN', 'PLATFORM_ADMIN');
+ALTER TABLE "User" ALTER COLUMN "role" DROP DEFAULT;
+ALTER TABLE "Invitation" ALTER COLUMN "role" DROP DEFAULT;
+ALTER TABLE "User" ALTER COLUMN "role" TYPE "Role_new" USING ("role"::text::"Role_new");
+ALTER TABLE "Invitation" ALTER COLUMN "role" TYPE "Role_new" USING ("role"::text::"Role_new");
+ALTER TYPE "Role" RENAME TO "Role_old";
+ALTER TYPE "Role_new" RENAME TO "Role";
+DROP TYPE "Role_old";
+ALTER TABLE "User" ALTER COLUMN "role" SET DEFAULT 'EMPLOYEE';
+ALTER TABLE "Invitation" ALTER COLUMN "role" SET DEFAULT 'EMPLOYEE';
+COMMIT;
+
+-- CreateTable
+CREATE TABLE "PeriodLock" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "period" TIMESTAMP(3) NOT NULL,
+    "granularity" "PeriodGranularity" NOT NULL DEFAULT 'MONTH',
+    "lockedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PeriodLock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PeriodLock_companyId_period_granularity_key" ON "PeriodLock"("companyId", "period", "granularity");
+
+-- AddForeignKey
+ALTER TABLE "PeriodLock" ADD CONSTRAINT "PeriodLock_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PeriodLock" ADD CONSTRAINT "PeriodLock_lockedById_fkey" FOREIGN KEY ("lockedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- DropIndex
+DROP INDEX "Invitation_acceptedById_key";
+
+-- CreateTable
+CREATE TABLE "Membership" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "role" "Role" NOT NULL DEFAULT 'EMPLOYEE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Membership_pkey" PRIMARY KEY ("id")
+);
+
+-- Users from before memberships keep their company and role as a membership
+INSERT INTO "Membership" ("id", "userId", "companyId", "role")
+SELECT md5('membership/' || "id"), "id", "companyId", "role"
+FROM "User"
+WHERE "companyId" IS NOT NULL AND "role" <> 'PLATFORM_ADMIN';
+
+-- CreateIndex
+CREATE INDEX "Membership_companyId_idx" ON "Membership"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Membership_userId_companyId_key" ON "Membership"("userId", "companyId");
+
+-- AddForeignKey
+ALTER TABLE "Membership" ADD CONSTRAINT "Membership_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Membership" ADD CONSTRAINT "Membership_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
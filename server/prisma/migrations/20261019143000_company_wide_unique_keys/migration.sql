@@ -0,0 +1,33 @@
+-- Company-wide rows have a null initiativeId (and baseline snapshots a null scenarioId). Postgres
+-- treats NULLs as distinct, so these keys stopped catching duplicates of those rows; recreate them
+-- with NULLS NOT DISTINCT (Postgres 15+) so two concurrent saves can't both insert one.
+
+-- DropIndex
+DROP INDEX "L1OperationalInput_companyId_period_granularity_costPoolId__key";
+
+-- DropIndex
+DROP INDEX "L2AllocationWeight_companyId_period_granularity_costPoolId__key";
+
+-- DropIndex
+DROP INDEX "BusinessUnitWeight_companyId_period_granularity_tower_busin_key";
+
+-- DropIndex
+DROP INDEX "L3BenefitWeight_companyId_period_granularity_category_initi_key";
+
+-- DropIndex
+DROP INDEX "L4RoiSnapshot_companyId_period_granularity_costBasis_initia_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L1OperationalInput_companyId_period_granularity_costPoolId__key" ON "L1OperationalInput"("companyId", "period", "granularity", "costPoolId", "initiativeId") NULLS NOT DISTINCT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L2AllocationWeight_companyId_period_granularity_costPoolId__key" ON "L2AllocationWeight"("companyId", "period", "granularity", "costPoolId", "tower", "initiativeId") NULLS NOT DISTINCT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BusinessUnitWeight_companyId_period_granularity_tower_busin_key" ON "BusinessUnitWeight"("companyId", "period", "granularity", "tower", "businessUnit", "initiativeId") NULLS NOT DISTINCT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L3BenefitWeight_companyId_period_granularity_category_initi_key" ON "L3BenefitWeight"("companyId", "period", "granularity", "category", "initiativeId") NULLS NOT DISTINCT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "L4RoiSnapshot_companyId_period_granularity_costBasis_initia_key" ON "L4RoiSnapshot"("companyId", "period", "granularity", "costBasis", "initiativeId", "scenarioId") NULLS NOT DISTINCT;
@@ -4,23 +4,36 @@ import bcrypt from 'bcryptjs';
 const prisma = new PrismaClient();
 
 async function main() {
-    const email = 'admin@example.com';
-    const password = 'AdminPass123!';
+    // Platform admins reach every company, so the role only goes to the account named here
+    const email = process.env.PLATFORM_ADMIN_EMAIL;
+    const password = process.env.PLATFORM_ADMIN_PASSWORD;
 
-    const hash = await bcrypt.hash(password, 10);
+    if (email) {
+        const existing = await prisma.user.findUnique({ where: { email } });
+        if (existing) {
+            await prisma.user.update({ where: { id: existing.id }, data: { role: 'PLATFORM_ADMIN' } });
+        } else if (password) {
+            const hash = await bcrypt.hash(password, 10);
+            await prisma.user.create({
+                data: {
+                email,
+                name: 'Admin',
+                role: 'PLATFORM_ADMIN',
+                passwordHash: hash,
+                },
+            });
+        } else {
+            console.warn(`Set PLATFORM_ADMIN_PASSWORD to create the platform admin ${email}`);
+        }
+    }
 
-    await prisma.user.upsert({
-        where: { email },
-        update: {},
-        create: {
-        email,
-        name: 'Admin',
-        role: 'ADMIN',
-        passwordHash: hash,
-        },
+    // Users from before memberships keep their company and role as a membership
+    const unmigrated = await prisma.user.findMany({
+        where: { companyId: { not: null }, role: { not: 'PLATFORM_ADMIN' }, memberships: { none: {} } },
     });
-
-    // Seeded user
+    for (const user of unmigrated) {
+        await prisma.membership.create({ data: { userId: user.id, companyId: user.companyId, role: user.role } });
+    }
     }
 
 main()
@@ -0,0 +1,107 @@
+import express from 'express';
+import cors from 'cors';
+import cookieParser from 'cookie-parser';
+import rateLimit from 'express-rate-limit';
+import { ENV } from './env.js';
+
+// The app without a listener; index.ts starts it, and tests drive it on a port of their own
+const app = express();
+
+// CORS configuration for cross-origin requests
+app.use(
+    cors({
+        origin: true,
+        methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'x-api-key'],
+        credentials: true,
+    })
+);
+
+// Handle preflight OPTIONS requests
+app.use((req, res, next) => {
+    if (req.method !== 'OPTIONS') return next();
+
+    const origin = (req.headers.origin as string | undefined) ?? '*';
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Access-Control-Allow-Methods', 'GET,POST,PUT,PATCH,DELETE,OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-api-key');
+    return res.sendStatus(204);
+});
+
+// Parse JSON bodies and cookies
+app.use(express.json());
+app.use(cookieParser());
+app.set('trust proxy', 1); // Trust proxy headers for secure cookies
+
+// Request timeout middleware (30 seconds)
+app.use((req, res, next) => {
+    const timeout = setTimeout(() => {
+        if (!res.headersSent) {
+            res.status(408).json({ error: 'Request timeout' });
+        }
+    }, 30000);
+
+    res.on('finish', () => clearTimeout(timeout));
+    res.on('close', () => clearTimeout(timeout));
+    next();
+});
+
+// Rate limiting to prevent abuse
+app.use(
+    rateLimit({
+        windowMs: 15 * 60 * 1000, // 15 minutes
+        max: 1000, // 1000 requests per window
+        standardHeaders: true,
+        legacyHeaders: false,
+    })
+);
+
+// Health check endpoint for monitoring
+app.get('/api/health', (_req, res) => {
+    res.status(200).json({ 
+        ok: true, 
+        timestamp: new Date().toISOString(),
+        uptime: process.uptime(),
+        environment: process.env.NODE_ENV || 'development'
+    });
+});
+
+// Route handlers
+import authRouter from './routes/auth.js';
+import l1Router from './routes/l1.js';
+import l2Router from './routes/l2.js';
+import l3Router from './routes/l3.js';
+import l4Router from './routes/l4.js';
+import companyRouter from './routes/company.js';
+import costPoolsRouter from './routes/costPools.js';
+import taxonomyRouter from './routes/taxonomy.js';
+import initiativesRouter from './routes/initiatives.js';
+import scenariosRouter from './routes/scenarios.js';
+import fxRatesRouter from './routes/fxRates.js';
+import allocationRulesRouter from './routes/allocationRules.js';
+import businessUnitWeightsRouter from './routes/businessUnitWeights.js';
+import chargebackRouter from './routes/chargeback.js';
+import invitationsRouter from './routes/invitations.js';
+import periodLocksRouter from './routes/periodLocks.js';
+
+// Mount route handlers
+app.use('/api', authRouter);
+app.use('/api/cost-pools', costPoolsRouter);
+app.use('/api/taxonomy', taxonomyRouter);
+app.use('/api/initiatives', initiativesRouter);
+app.use('/api/scenarios', scenariosRouter);
+app.use('/api/fx-rates', fxRatesRouter);
+app.use('/api/allocation-rules', allocationRulesRouter);
+app.use('/api/l1', l1Router);
+app.use('/api/l2', l2Router);
+app.use('/api/bu-weights', businessUnitWeightsRouter);
+app.use('/api/l3', l3Router);
+app.use('/api/l4', l4Router);
+app.use('/api/chargeback', chargebackRouter);
+app.use('/api/invitations', invitationsRouter);
+app.use('/api/period-locks', periodLocksRouter);
+app.use('/api', companyRouter);
+
+export default app;
@@ -12,9 +12,17 @@ const required = (name: string, v: string | undefined) => {
     return v;
 };
 
+const NODE_ENV = process.env.NODE_ENV || 'production';
+
+// file and console mail write reset links where anyone reading the disk or logs can use them
+const MAIL_TRANSPORT = (process.env.MAIL_TRANSPORT || (NODE_ENV === 'production' ? 'smtp' : 'console')).toLowerCase();
+if (NODE_ENV === 'production' && MAIL_TRANSPORT !== 'smtp') {
+    throw new Error(`MAIL_TRANSPORT=${MAIL_TRANSPORT} would expose password reset links; use smtp in production`);
+}
+
 export const ENV = {
     PORT: Number(process.env.PORT || 8080),
-    NODE_ENV: process.env.NODE_ENV || 'production',
+    NODE_ENV,
     DATABASE_URL: process.env.DATABASE_URL || (() => {
         throw new Error('DATABASE_URL environment variable is required');
     })(),
@@ -22,6 +30,17 @@ export const ENV = {
         throw new Error('JWT_SECRET environment variable is required');
     })(),
     CORS_ORIGIN: process.env.CORS_ORIGIN || '',
+    // where the client is served; links in emails point here
+    APP_URL: (process.env.APP_URL || 'http://localhost:5173').replace(/\/+$/, ''),
+    // smtp, file or console; production only allows smtp
+    MAIL_TRANSPORT,
+    MAIL_FROM: process.env.MAIL_FROM || 'TVOT Framework <no-reply@localhost>',
+    MAIL_DIR: process.env.MAIL_DIR || 'mail',
+    SMTP_HOST: process.env.SMTP_HOST || '',
+    SMTP_PORT: Number(process.env.SMTP_PORT || 587),
+    SMTP_SECURE: (process.env.SMTP_SECURE || 'false').toLowerCase() === 'true',
+    SMTP_USER: process.env.SMTP_USER || '',
+    SMTP_PASS: process.env.SMTP_PASS || '',
     OPENAI_API_KEY: process.env.OPENAI_API_KEY || '',
     COOKIE_SAMESITE: (process.env.COOKIE_SAMESITE || 'none') as 'lax' | 'strict' | 'none',
     COOKIE_SECURE: (process.env.COOKIE_SECURE || 'true').toLowerCase() === 'true',
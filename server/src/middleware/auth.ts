@@ -1,11 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import type { Role } from '@prisma/client';
 import { ENV } from '../env.js';
+import { prisma } from '../prisma.js';
+
+export type SessionMembership = { companyId: string; role: Role };
 
 export type JwtPayload = {
     userId: string;
-    role: 'EMPLOYEE' | 'ADMIN';
+    // the role in the active company; null when the user belongs to no company
+    role: Role | null;
+    // the session's active company
     companyId?: string | null;
+    memberships: SessionMembership[];
     };
 
     declare global {
@@ -17,7 +24,7 @@ export type JwtPayload = {
     }
 
     export function auth(required = true) {
-    return (req: Request, res: Response, next: NextFunction) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
 
         if (req.method === 'OPTIONS') return next();
 
@@ -32,16 +39,42 @@ export type JwtPayload = {
         return required ? res.status(401).json({ error: 'Unauthenticated' }) : next();
         }
 
+        let payload: { sub: string; companyId?: string | null; iat?: number };
         try {
-        const payload = jwt.verify(token, ENV.JWT_SECRET) as { sub: string; role: string; companyId?: string | null };
-        req.user = {
-            userId: payload.sub,
-            role: payload.role as 'EMPLOYEE' | 'ADMIN',
-            companyId: payload.companyId
-        };
-        next();
+        payload = jwt.verify(token, ENV.JWT_SECRET) as typeof payload;
         } catch {
         return res.status(401).json({ error: 'Invalid token' });
         }
+
+        let user: JwtPayload | null;
+        try {
+        user = await loadSessionUser(payload.sub, payload.companyId, payload.iat);
+        } catch (error) {
+        console.error('[AUTH ERROR] Failed to load session user:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+        }
+        if (!user) return res.status(401).json({ error: 'Invalid token' });
+
+        req.user = user;
+        next();
     };
 }
+
+// Roles and memberships are read per request so a role change or removal applies to open sessions.
+// The session's company stays active while the user belongs to it; otherwise their first company is.
+// Platform admins can make any company active. Sessions issued before a password reset are rejected
+export async function loadSessionUser(userId: string, companyId: string | null | undefined, issuedAt?: number): Promise<JwtPayload | null> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { role: true, companyId: true, passwordChangedAt: true, memberships: { select: { companyId: true, role: true }, orderBy: { createdAt: 'asc' } } },
+    });
+    if (!user) return null;
+    if (user.passwordChangedAt && (issuedAt === undefined || issuedAt * 1000 < user.passwordChangedAt.getTime())) return null;
+
+    const requested = companyId ?? user.companyId;
+    if (user.role === 'PLATFORM_ADMIN') {
+        return { userId, role: 'PLATFORM_ADMIN', companyId: requested, memberships: user.memberships };
+    }
+    const active = user.memberships.find(m => m.companyId === requested) ?? user.memberships[0];
+    return { userId, role: active?.role ?? null, companyId: active?.companyId ?? null, memberships: user.memberships };
+}
@@ -1,14 +1,42 @@
 import { Request, Response, NextFunction } from 'express';
+import type { Role } from '@prisma/client';
+import type { JwtPayload } from './auth.js';
 
-export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
-    if (req.user?.role !== 'ADMIN') return res.status(403).json({ error: 'Admin only' });
-    next();
+export type Permission =
+    | 'data:read'         // dashboards, reports and every L1-L4 read
+    | 'data:write'        // L1-L3 inputs, initiatives, scenarios and snapshots
+    | 'periods:lock'      // lock and unlock periods
+    | 'company:configure' // taxonomy, cost pools, allocation rules and company settings
+    | 'users:manage'      // invitations and member roles
+    | 'platform:manage';  // every company, and the shared FX rate table
+
+// What each role may do in a company the user belongs to. Only PLATFORM_ADMIN's permissions reach other companies
+export const PERMISSIONS: Record<Role, readonly Permission[]> = {
+    VIEWER: ['data:read'],
+    CONTRIBUTOR: ['data:read', 'data:write'],
+    APPROVER: ['data:read', 'data:write', 'periods:lock'],
+    COMPANY_ADMIN: ['data:read', 'data:write', 'periods:lock', 'company:configure', 'users:manage'],
+    PLATFORM_ADMIN: ['data:read', 'data:write', 'periods:lock', 'company:configure', 'users:manage', 'platform:manage'],
 };
 
-export const restrictToCompany = (req: Request, res: Response, next: NextFunction) => {
-    if (req.user?.role === 'ADMIN') return next();
-    const paramCompanyId = (req.params.companyId || req.body.companyId || req.query.companyId) as string | undefined;
-    if (!paramCompanyId) return res.status(400).json({ error: 'companyId required' });
-    if (req.user?.companyId !== paramCompanyId) return res.status(403).json({ error: 'Forbidden for this company' });
+// Checks the role the user has in the session's active company
+export function hasPermission(user: JwtPayload | undefined, permission: Permission) {
+    return !!user?.role && PERMISSIONS[user.role].includes(permission);
+}
+
+// Whether the user may exercise a permission on one company's data, with the role of their
+// membership in that company, whichever company is active
+export function canAccessCompany(user: JwtPayload | undefined, companyId: string | null | undefined, permission: Permission) {
+    if (user?.role === 'PLATFORM_ADMIN') return hasPermission(user, permission);
+    const membership = companyId ? user?.memberships.find(m => m.companyId === companyId) : undefined;
+    return !!membership && PERMISSIONS[membership.role].includes(permission);
+}
+
+// Route guard; checks the company in :companyId or the body's companyId when the route has one.
+// Routes that load a record first check its company with canAccessCompany instead
+export const requirePermission = (permission: Permission) => (req: Request, res: Response, next: NextFunction) => {
+    const companyId = (req.params.companyId || req.body?.companyId) as string | undefined;
+    const allowed = companyId ? canAccessCompany(req.user, companyId, permission) : hasPermission(req.user, permission);
+    if (!allowed) return res.status(403).json({ error: 'Forbidden' });
     next();
-};
\ No newline at end of file
+};
@@ -0,0 +1,30 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { auth } from './auth.js';
+import { canAccessCompany } from './rbac.js';
+
+// Tenant scoping only checks that the user belongs to the company; handlers check the permission
+// they need, and the company of any record they load by id
+const belongsTo = (req: Request, companyId: unknown) =>
+    typeof companyId === 'string' && canAccessCompany(req.user, companyId, 'data:read');
+
+export function scopeBodyCompany(req: Request, res: Response, next: NextFunction) {
+    const companyId = req.body?.companyId;
+    if (companyId !== undefined && companyId !== null && !belongsTo(req, companyId)) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+    next();
+}
+
+export function scopeParamCompany(req: Request, res: Response, next: NextFunction, companyId: string) {
+    if (!belongsTo(req, companyId)) return res.status(403).json({ error: 'Forbidden' });
+    next();
+}
+
+// The router every company data route is defined on: requests are authenticated, and a :companyId
+// or body companyId of a company the user doesn't belong to is rejected before any handler runs
+export function tenantRouter() {
+    const r = Router();
+    r.use(auth(), scopeBodyCompany);
+    r.param('companyId', scopeParamCompany);
+    return r;
+}
@@ -0,0 +1,184 @@
+import { prisma } from '../prisma.js';
+import { tenantRouter } from '../middleware/tenant.js';
+import { canAccessCompany, requirePermission } from '../middleware/rbac.js';
+import { loadTaxonomy } from '../utils/taxonomy.js';
+import { formatPeriod, getFiscalYearStartMonth, parsePeriod } from '../utils/period.js';
+import { coveringLock, periodLockError } from '../utils/periodLocks.js';
+import { allocationRuleSchema, driverValuesSchema, periodSchema } from '../utils/validators.js';
+import { applyAllocationRules, serializeRule, type RuleApplication } from '../utils/allocationRules.js';
+
+const r = tenantRouter();
+
+// Rederiving every period of a large company outlasts Prisma's 5s default, but stays under the 30s request timeout
+const REDERIVE_TIMEOUT_MS = 20_000;
+
+// Tower codes that aren't active in the company's taxonomy
+function unknownTowers(taxonomy: Awaited<ReturnType<typeof loadTaxonomy>>, towers: string[]) {
+    return towers.filter(code => {
+        const tower = taxonomy.towers.get(code);
+        return !tower || tower.archived;
+    });
+}
+
+const withLabels = (applied: RuleApplication[], fiscalYearStartMonth: number) =>
+    applied.map(a => ({ ...a, periodLabel: formatPeriod(a.period, a.granularity, fiscalYearStartMonth) }));
+
+r.get('/:companyId', async (req, res) => {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const rules = await prisma.allocationRule.findMany({
+        where: { companyId },
+        include: { costPool: { select: { id: true, code: true, name: true } } },
+        orderBy: { costPool: { sortOrder: 'asc' } },
+    });
+    res.json(rules.map(rule => ({ ...serializeRule(rule), costPool: rule.costPool })));
+});
+
+// Creates or replaces a cost pool's rule, then rederives its weights for every unlocked period with driver values
+r.put('/', requirePermission('company:configure'), async (req, res) => {
+    const parsed = allocationRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    try {
+        const pool = await prisma.costPool.findUnique({ where: { id: body.costPoolId } });
+        if (!pool || pool.companyId !== body.companyId) {
+            return res.status(400).json({ error: 'Unknown cost pool for this company' });
+        }
+
+        const taxonomy = await loadTaxonomy(body.companyId);
+        const unknown = unknownTowers(taxonomy, body.towers ?? []);
+        if (unknown.length > 0) {
+            return res.status(400).json({ error: `Unknown towers for this company: ${unknown.join(', ')}` });
+        }
+
+        const towers = body.towers ? JSON.stringify(body.towers) : null;
+        const userId = req.user!.userId;
+
+        // locked periods keep the weights they were locked with
+        const [periods, locks] = await Promise.all([
+            prisma.driverValue.findMany({
+                where: { companyId: body.companyId, driver: body.driver },
+                distinct: ['period', 'granularity'],
+                select: { period: true, granularity: true },
+            }),
+            prisma.periodLock.findMany({ where: { companyId: body.companyId } }),
+        ]);
+        const unlocked = periods.filter(p => !coveringLock(locks, p.period, p.granularity));
+
+        const { rule, applied } = await prisma.$transaction(async (tx) => {
+            const rule = await tx.allocationRule.upsert({
+                where: { costPoolId: body.costPoolId },
+                update: { driver: body.driver, towers },
+                create: { companyId: body.companyId, costPoolId: body.costPoolId, driver: body.driver, towers },
+            });
+
+            const applied: RuleApplication[] = [];
+            for (const period of unlocked) {
+                applied.push(...await applyAllocationRules(tx, body.companyId, { start: period.period, granularity: period.granularity }, [rule], taxonomy, userId));
+            }
+            return { rule, applied };
+        }, { timeout: REDERIVE_TIMEOUT_MS });
+
+        res.json({ rule: serializeRule(rule), applied: withLabels(applied, await getFiscalYearStartMonth(body.companyId)) });
+    } catch (error) {
+        console.error('[ALLOCATION RULE ERROR] Failed to save allocation rule:', error);
+        res.status(500).json({ error: 'Failed to save allocation rule', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+// The pool's weights stay as last derived and can be edited by hand again
+r.delete('/:id', async (req, res) => {
+    const rule = await prisma.allocationRule.findUnique({ where: { id: req.params.id } });
+    if (!rule) return res.status(404).json({ error: 'Allocation rule not found' });
+    if (!canAccessCompany(req.user, rule.companyId, 'company:configure')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    await prisma.allocationRule.delete({ where: { id: rule.id } });
+    res.json({ success: true });
+});
+
+// Driver values for a period, keyed by driver then tower code
+r.get('/:companyId/drivers/:period', async (req, res) => {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const label = periodSchema.safeParse(req.params.period);
+    if (!label.success) {
+        return res.status(400).json({ error: label.error.flatten() });
+    }
+
+    const fiscalYearStartMonth = await getFiscalYearStartMonth(companyId);
+    const period = parsePeriod(label.data, fiscalYearStartMonth);
+    const rows = await prisma.driverValue.findMany({
+        where: { companyId, period: period.start, granularity: period.granularity },
+        orderBy: [{ driver: 'asc' }, { tower: 'asc' }],
+    });
+
+    const values: Record<string, Record<string, number>> = {};
+    for (const row of rows) {
+        (values[row.driver] ??= {})[row.tower] = Number(row.value);
+    }
+    res.json({ companyId, periodLabel: period.label, granularity: period.granularity, values });
+});
+
+// Replaces one driver's values for a period and rederives the weights of every pool allocated by it
+r.put('/drivers', async (req, res) => {
+    const parsed = driverValuesSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    // employees may only write to their own company
+    if (!canAccessCompany(req.user, body.companyId, 'data:write')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        const taxonomy = await loadTaxonomy(body.companyId);
+        const entries = Object.entries(body.values);
+        const unknown = unknownTowers(taxonomy, entries.map(([tower]) => tower));
+        if (unknown.length > 0) {
+            return res.status(400).json({ error: `Unknown towers for this company: ${unknown.join(', ')}` });
+        }
+
+        const fiscalYearStartMonth = await getFiscalYearStartMonth(body.companyId);
+        const period = parsePeriod(body.period, fiscalYearStartMonth);
+        const lockError = await periodLockError(body.companyId, period.start, period.granularity);
+        if (lockError) {
+            return res.status(409).json({ error: lockError });
+        }
+        const userId = req.user!.userId;
+
+        const applied = await prisma.$transaction(async (tx) => {
+            const key = { companyId: body.companyId, period: period.start, granularity: period.granularity, driver: body.driver };
+            await tx.driverValue.deleteMany({ where: { ...key, tower: { notIn: entries.map(([tower]) => tower) } } });
+            for (const [tower, value] of entries) {
+                await tx.driverValue.upsert({
+                    where: { companyId_period_granularity_driver_tower: { ...key, tower } },
+                    update: { value },
+                    create: { ...key, tower, value, createdById: userId },
+                });
+            }
+
+            const rules = await tx.allocationRule.findMany({ where: { companyId: body.companyId, driver: body.driver } });
+            return applyAllocationRules(tx, body.companyId, period, rules, taxonomy, userId);
+        }, { timeout: REDERIVE_TIMEOUT_MS });
+
+        res.json({ periodLabel: period.label, driver: body.driver, values: body.values, applied: withLabels(applied, fiscalYearStartMonth) });
+    } catch (error) {
+        console.error('[ALLOCATION RULE ERROR] Failed to save driver values:', error);
+        res.status(500).json({ error: 'Failed to save driver values', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+export default r;
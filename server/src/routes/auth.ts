@@ -3,6 +3,13 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../prisma.js';
 import { ENV } from '../env.js';
+import { auth } from '../middleware/auth.js';
+import { canAccessCompany } from '../middleware/rbac.js';
+import { InvitationUnavailableError, findPendingInvitation, redeemInvitation } from '../utils/invitations.js';
+import { PasswordResetUnavailableError, hashResetToken, newResetToken, resetEmail } from '../utils/passwordReset.js';
+import { mailer } from '../utils/mail.js';
+import { isUniqueViolation } from '../utils/prismaErrors.js';
+import { passwordSchema } from '../utils/validators.js';
 
 const router = Router();
 
@@ -18,8 +25,9 @@ function resolveSecureFlag(req: Request): boolean {
     return req.secure || xfProto === 'https';
 }
 
-function setSessionCookie(req: Request, res: Response, userId: string, role: string, companyId: string | null): string {
-    const token = jwt.sign({ sub: userId, role, companyId }, JWT_SECRET, { expiresIn: '7d' });
+// The session carries the user's active company; their roles are looked up per request
+function setSessionCookie(req: Request, res: Response, userId: string, companyId: string | null): string {
+    const token = jwt.sign({ sub: userId, companyId }, JWT_SECRET, { expiresIn: '7d' });
 
     res.cookie('session', token, {
         httpOnly: true,
@@ -31,78 +39,141 @@ function setSessionCookie(req: Request, res: Response, userId: string, role: str
 
     return token;
 }
+
+// The first password rule `password` breaks, or null when it meets them all
+function passwordRuleError(password: string): string | null {
+    const result = passwordSchema.safeParse(password);
+    return result.success ? null : result.error.issues[0].message;
+}
+
+// Signup either redeems an invitation, joining its company with the invited role, or creates
+// a new company with the new user as its admin. Existing companies are only joined by invitation
 router.post('/auth/signup', async (req: Request, res: Response) => {
     try {
-        const { email, password, name, companyName, companyDomain, role } = (req.body ?? {}) as { 
-        email?: string; 
-        password?: string; 
-        name?: string;
-        companyName?: string;
-        companyDomain?: string;
-        role?: 'ADMIN' | 'EMPLOYEE';
-    };
-        
+        const { email, password, name, inviteToken, companyName, companyDomain } = (req.body ?? {}) as {
+            email?: string;
+            password?: string;
+            name?: string;
+            inviteToken?: string;
+            companyName?: string;
+            companyDomain?: string;
+        };
+
         if (!email || !password || !name) {
-        return res.status(400).json({ error: 'Missing required fields: email, password, name' });
+            return res.status(400).json({ error: 'Missing required fields: email, password, name' });
+        }
+
+        const passwordError = passwordRuleError(password);
+        if (passwordError) {
+            return res.status(400).json({ error: passwordError });
         }
 
         // Check if user already exists
-        const existingUser = await prisma.user.findUnique({ where: { email } });
+        const existingUser = await prisma.user.findFirst({ where: { email: { equals: email, mode: 'insensitive' } } });
         if (existingUser) {
-        return res.status(400).json({ error: 'User with this email already exists' });
+            return res.status(400).json({ error: 'User with this email already exists' });
         }
 
         // Hash password
         const passwordHash = await bcrypt.hash(password, 10);
 
-        // Create company if provided, or find existing one
-        let companyId: string | null = null;
-        if (companyName && role !== 'ADMIN') {
-        console.log(`[SIGNUP] Looking for company: "${companyName}"`);
-        
-        // Check if company already exists
-        let company = await prisma.company.findFirst({
-            where: { name: companyName }
-        });
-        
-        if (company) {
-            console.log(`[SIGNUP] Found existing company: ${company.id} - ${company.name}`);
+        let user;
+        if (inviteToken) {
+            const invitation = await findPendingInvitation(inviteToken);
+            if (!invitation) throw new InvitationUnavailableError();
+            if (invitation.email !== email.toLowerCase()) {
+                return res.status(400).json({ error: 'This invitation was sent to a different email address' });
+            }
+
+            user = await prisma.$transaction(async (tx) => {
+                const created = await tx.user.create({
+                    data: { email, passwordHash, name, companyId: invitation.companyId },
+                });
+                await redeemInvitation(tx, invitation, created.id);
+                return created;
+            });
         } else {
-            console.log(`[SIGNUP] Company not found, creating new one: "${companyName}"`);
+            const trimmedName = companyName?.trim();
+            if (!trimmedName) {
+                return res.status(400).json({ error: 'Enter a name for your new company, or sign up from an invitation to join an existing one' });
+            }
 
-            company = await prisma.company.create({
-                data: {
-                name: companyName,
-                domain: companyDomain || null,
-                },
+            const taken = await prisma.company.findFirst({
+                where: { OR: [{ name: trimmedName }, ...(companyDomain ? [{ domain: companyDomain }] : [])] },
+            });
+            if (taken) {
+                return res.status(409).json({ error: `${taken.name} is already registered; ask one of its admins for an invitation` });
+            }
+
+            user = await prisma.$transaction(async (tx) => {
+                const company = await tx.company.create({ data: { name: trimmedName, domain: companyDomain || null } });
+                return tx.user.create({
+                    data: { email, passwordHash, name, companyId: company.id, memberships: { create: { companyId: company.id, role: 'COMPANY_ADMIN' } } },
+                });
             });
-            console.log(`[SIGNUP] Created new company: ${company.id} - ${company.name}`);
         }
-        companyId = company.id;
-        } else if (role === 'ADMIN') {
-        console.log(`[SIGNUP] Admin user - no company required`);
+
+        setSessionCookie(req, res, user.id, user.companyId);
+        return res.json({ ok: true, user: { id: user.id, email: user.email, name: user.name, companyId: user.companyId } });
+    } catch (e) {
+        if (e instanceof InvitationUnavailableError) return res.status(400).json({ error: e.message });
+        // a concurrent signup got the email or company name first
+        if (isUniqueViolation(e, 'email')) return res.status(409).json({ error: 'User with this email already exists' });
+        if (isUniqueViolation(e)) return res.status(409).json({ error: 'This company is already registered; ask one of its admins for an invitation' });
+        const msg = e instanceof Error ? e.message : String(e);
+        console.error('SIGNUP ERROR:', e);
+        return res.status(500).json({ error: `Server error during signup: ${msg}` });
+    }
+    });
+
+
+    // What the signup page shows for an invitation link
+    router.get('/auth/invitations/:token', async (req: Request, res: Response) => {
+    try {
+        const invitation = await findPendingInvitation(req.params.token);
+        if (!invitation) return res.status(404).json({ error: new InvitationUnavailableError().message });
+        return res.json({ email: invitation.email, role: invitation.role, companyName: invitation.company.name, expiresAt: invitation.expiresAt });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        console.error('INVITATION ERROR:', e);
+        return res.status(500).json({ error: `Server error while loading the invitation: ${msg}` });
+    }
+    });
+
+
+    // An existing user joins the invitation's company, which becomes their active one
+    router.post('/auth/invitations/:token/accept', auth(), async (req: Request, res: Response) => {
+    try {
+        const invitation = await findPendingInvitation(req.params.token);
+        if (!invitation) return res.status(404).json({ error: new InvitationUnavailableError().message });
+
+        const userId = req.user!.userId;
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+        if (!user || user.email.toLowerCase() !== invitation.email) {
+            return res.status(400).json({ error: 'This invitation was sent to a different email address' });
+        }
+
+        // leave the invitation pending rather than spend it on a membership the user already has
+        const existingMember = await prisma.membership.findUnique({
+            where: { userId_companyId: { userId, companyId: invitation.companyId } },
+        });
+        if (existingMember) {
+            return res.status(409).json({ error: 'You are already a member of this company' });
         }
 
-        // Use provided role or default to EMPLOYEE
-        const userRole = role || 'EMPLOYEE';
-
-        // Create user
-        const user = await prisma.user.create({
-        data: {
-            email,
-            passwordHash,
-            name,
-            role: userRole,
-            companyId,
-        },
+        await prisma.$transaction(async (tx) => {
+            await redeemInvitation(tx, invitation, userId);
+            await tx.user.update({ where: { id: userId }, data: { companyId: invitation.companyId } });
         });
 
-        setSessionCookie(req, res, user.id, user.role, user.companyId);
-        return res.json({ ok: true, user: { id: user.id, email: user.email, name: user.name, role: user.role, companyId: user.companyId } });
+        setSessionCookie(req, res, userId, invitation.companyId);
+        return res.json({ ok: true, companyId: invitation.companyId });
     } catch (e) {
+        if (e instanceof InvitationUnavailableError) return res.status(400).json({ error: e.message });
+        if (isUniqueViolation(e)) return res.status(409).json({ error: 'You are already a member of this company' });
         const msg = e instanceof Error ? e.message : String(e);
-        console.error('SIGNUP ERROR:', e);
-        return res.status(500).json({ error: `Server error during signup: ${msg}` });
+        console.error('ACCEPT INVITATION ERROR:', e);
+        return res.status(500).json({ error: `Server error while accepting the invitation: ${msg}` });
     }
     });
 
@@ -120,7 +191,7 @@ router.post('/auth/signup', async (req: Request, res: Response) => {
         const ok = await bcrypt.compare(password, (user as any).passwordHash);
         if (!ok) return res.status(401).json({ error: 'Invalid credentials' });
 
-        setSessionCookie(req, res, user.id, user.role, user.companyId);
+        setSessionCookie(req, res, user.id, user.companyId);
         return res.json({ ok: true });
     } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
@@ -130,72 +201,156 @@ router.post('/auth/signup', async (req: Request, res: Response) => {
     });
 
 
-    router.get('/auth/me', async (req: Request, res: Response) => {
+    // Emails a reset link. The response is the same whether or not the email has an account,
+    // so it can't be used to find out who has one
+    router.post('/auth/password-reset', async (req: Request, res: Response) => {
     try {
-        const token = req.cookies?.session as string | undefined;
-        if (!token) return res.status(401).json({ error: 'Unauthorized' });
+        const { email } = (req.body ?? {}) as { email?: string };
+        if (!email) return res.status(400).json({ error: 'Missing email' });
+
+        const user = await prisma.user.findFirst({ where: { email: { equals: email.trim(), mode: 'insensitive' } } });
+        if (user) {
+            const { token, tokenHash, expiresAt } = newResetToken();
+            // only the newest link works
+            await prisma.$transaction([
+                prisma.passwordResetToken.updateMany({ where: { userId: user.id, usedAt: null }, data: { usedAt: new Date() } }),
+                prisma.passwordResetToken.create({ data: { userId: user.id, tokenHash, expiresAt } }),
+            ]);
+            // not awaited: a response that waits on delivery would be slower for emails with an account
+            Promise.resolve()
+                .then(() => mailer().send(resetEmail(user.email, user.name, token)))
+                .catch((e) => console.error('PASSWORD RESET MAIL ERROR:', e));
+        }
 
-        const payload = jwt.verify(token, JWT_SECRET) as { sub: string };
-        const me = await prisma.user.findUnique({
-        where: { id: payload.sub },
-        select: { id: true, email: true, name: true, role: true, companyId: true },
+        return res.json({ ok: true });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        console.error('PASSWORD RESET ERROR:', e);
+        return res.status(500).json({ error: `Server error during password reset: ${msg}` });
+    }
+    });
+
+
+    // Sets a new password with a token from a reset email; the user then signs in with it
+    router.post('/auth/password-reset/confirm', async (req: Request, res: Response) => {
+    try {
+        const { token, password } = (req.body ?? {}) as { token?: string; password?: string };
+        if (!token || !password) {
+            return res.status(400).json({ error: 'Token and new password are required' });
+        }
+        const passwordError = passwordRuleError(password);
+        if (passwordError) {
+            return res.status(400).json({ error: passwordError });
+        }
+
+        const passwordHash = await bcrypt.hash(password, 10);
+        // whole seconds, as JWTs carry their issue time; sessions issued before the reset are signed out
+        const passwordChangedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+        await prisma.$transaction(async (tx) => {
+            const reset = await tx.passwordResetToken.findUnique({ where: { tokenHash: hashResetToken(token) } });
+            if (!reset) throw new PasswordResetUnavailableError();
+
+            // claiming with the unused conditions makes the token single-use under concurrent resets
+            const claimed = await tx.passwordResetToken.updateMany({
+                where: { id: reset.id, usedAt: null, expiresAt: { gt: new Date() } },
+                data: { usedAt: new Date() },
+            });
+            if (claimed.count !== 1) throw new PasswordResetUnavailableError();
+
+            await tx.user.update({ where: { id: reset.userId }, data: { passwordHash, passwordChangedAt } });
         });
 
-        if (!me) return res.status(401).json({ error: 'Unauthorized' });
-        return res.json(me);
-    } catch {
-        return res.status(401).json({ error: 'Unauthorized' });
+        return res.json({ ok: true });
+    } catch (e) {
+        if (e instanceof PasswordResetUnavailableError) return res.status(400).json({ error: e.message });
+        const msg = e instanceof Error ? e.message : String(e);
+        console.error('PASSWORD RESET CONFIRM ERROR:', e);
+        return res.status(500).json({ error: `Server error during password reset: ${msg}` });
     }
     });
 
 
-    router.get('/auth/company', async (req: Request, res: Response) => {
+    // The user with their role in the session's active company
+    router.get('/auth/me', auth(), async (req: Request, res: Response) => {
     try {
-        const token = req.cookies?.session as string | undefined;
-        if (!token) return res.status(401).json({ error: 'Unauthorized' });
-
-        const payload = jwt.verify(token, JWT_SECRET) as { sub: string };
-        const user = await prisma.user.findUnique({
-        where: { id: payload.sub },
-        select: { companyId: true, role: true },
+        const me = await prisma.user.findUnique({
+            where: { id: req.user!.userId },
+            select: { id: true, email: true, name: true },
         });
+        if (!me) return res.status(401).json({ error: 'Unauthorized' });
+        return res.json({ ...me, role: req.user!.role, companyId: req.user!.companyId ?? null });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        console.error('ME ERROR:', e);
+        return res.status(500).json({ error: `Server error loading the user: ${msg}` });
+    }
+    });
 
-        if (!user || !user.companyId) return res.status(404).json({ error: 'No company found' });
+
+    // The session's active company
+    router.get('/auth/company', auth(), async (req: Request, res: Response) => {
+    try {
+        if (!req.user!.companyId) return res.status(404).json({ error: 'No company found' });
 
         const company = await prisma.company.findUnique({
-        where: { id: user.companyId },
-        select: { id: true, name: true, domain: true },
+            where: { id: req.user!.companyId },
+            select: { id: true, name: true, domain: true },
         });
 
         if (!company) return res.status(404).json({ error: 'Company not found' });
         return res.json(company);
-    } catch {
-        return res.status(401).json({ error: 'Unauthorized' });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        console.error('COMPANY ERROR:', e);
+        return res.status(500).json({ error: `Server error loading the company: ${msg}` });
     }
     });
 
 
-    router.get('/auth/companies', async (req: Request, res: Response) => {
+    // The companies the user can switch to, with their role in each; platform admins get every company
+    router.get('/auth/companies', auth(), async (req: Request, res: Response) => {
     try {
-        const token = req.cookies?.session as string | undefined;
-        if (!token) return res.status(401).json({ error: 'Unauthorized' });
+        if (req.user!.role === 'PLATFORM_ADMIN') {
+            const companies = await prisma.company.findMany({
+            select: { id: true, name: true, domain: true },
+            orderBy: { name: 'asc' }
+            });
+            return res.json(companies.map(company => ({ ...company, role: 'PLATFORM_ADMIN' })));
+        }
 
-        const payload = jwt.verify(token, JWT_SECRET) as { sub: string };
-        const user = await prisma.user.findUnique({
-        where: { id: payload.sub },
-        select: { role: true },
+        const memberships = await prisma.membership.findMany({
+            where: { userId: req.user!.userId },
+            include: { company: { select: { id: true, name: true, domain: true } } },
+            orderBy: { company: { name: 'asc' } },
         });
+        return res.json(memberships.map(m => ({ ...m.company, role: m.role })));
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        console.error('COMPANIES ERROR:', e);
+        return res.status(500).json({ error: `Server error loading companies: ${msg}` });
+    }
+    });
 
-        if (!user || user.role !== 'ADMIN') return res.status(403).json({ error: 'Admin access required' });
 
-        const companies = await prisma.company.findMany({
-        select: { id: true, name: true, domain: true },
-        orderBy: { name: 'asc' }
-        });
+    // Makes another of the user's companies the session's active one, and the one their next sign-in starts in
+    router.post('/auth/switch-company', auth(), async (req: Request, res: Response) => {
+    try {
+        const { companyId } = (req.body ?? {}) as { companyId?: string };
+        if (!companyId) return res.status(400).json({ error: 'Missing companyId' });
+
+        if (!canAccessCompany(req.user, companyId, 'data:read')) {
+            return res.status(403).json({ error: 'You are not a member of this company' });
+        }
+        const company = await prisma.company.findUnique({ where: { id: companyId }, select: { id: true } });
+        if (!company) return res.status(404).json({ error: 'Company not found' });
 
-        return res.json(companies);
-    } catch {
-        return res.status(401).json({ error: 'Unauthorized' });
+        await prisma.user.update({ where: { id: req.user!.userId }, data: { companyId } });
+        setSessionCookie(req, res, req.user!.userId, companyId);
+        return res.json({ ok: true });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        console.error('SWITCH COMPANY ERROR:', e);
+        return res.status(500).json({ error: `Server error switching company: ${msg}` });
     }
     });
 
@@ -206,12 +361,9 @@ router.post('/auth/signup', async (req: Request, res: Response) => {
     });
 
 
-    router.put('/auth/profile', async (req: Request, res: Response) => {
+    router.put('/auth/profile', auth(), async (req: Request, res: Response) => {
     try {
-        const token = req.cookies?.session as string | undefined;
-        if (!token) return res.status(401).json({ error: 'Unauthorized' });
-
-        const payload = jwt.verify(token, JWT_SECRET) as { sub: string };
+        const userId = req.user!.userId;
         const { name, email } = (req.body ?? {}) as { name?: string; email?: string };
         
         if (!name && !email) {
@@ -223,7 +375,7 @@ router.post('/auth/signup', async (req: Request, res: Response) => {
         if (email) {
         // Check if email is already taken by another user
         const existingUser = await prisma.user.findFirst({
-            where: { email, id: { not: payload.sub } }
+            where: { email, id: { not: userId } }
         });
         if (existingUser) {
             return res.status(400).json({ error: 'Email already in use' });
@@ -232,9 +384,9 @@ router.post('/auth/signup', async (req: Request, res: Response) => {
         }
 
         const updatedUser = await prisma.user.update({
-        where: { id: payload.sub },
+        where: { id: userId },
         data: updateData,
-        select: { id: true, email: true, name: true, role: true, companyId: true }
+        select: { id: true, email: true, name: true }
         });
 
         return res.json(updatedUser);
@@ -246,12 +398,9 @@ router.post('/auth/signup', async (req: Request, res: Response) => {
     });
 
 
-    router.put('/auth/password', async (req: Request, res: Response) => {
+    router.put('/auth/password', auth(), async (req: Request, res: Response) => {
     try {
-        const token = req.cookies?.session as string | undefined;
-        if (!token) return res.status(401).json({ error: 'Unauthorized' });
-
-        const payload = jwt.verify(token, JWT_SECRET) as { sub: string };
+        const userId = req.user!.userId;
         const { currentPassword, newPassword } = (req.body ?? {}) as { 
         currentPassword?: string; 
         newPassword?: string; 
@@ -261,13 +410,14 @@ router.post('/auth/signup', async (req: Request, res: Response) => {
         return res.status(400).json({ error: 'Current password and new password are required' });
         }
 
-        if (newPassword.length < 6) {
-        return res.status(400).json({ error: 'New password must be at least 6 characters' });
+        const passwordError = passwordRuleError(newPassword);
+        if (passwordError) {
+        return res.status(400).json({ error: passwordError });
         }
 
         // Get current user with password hash
         const user = await prisma.user.findUnique({ 
-        where: { id: payload.sub },
+        where: { id: userId },
         select: { passwordHash: true }
         });
         
@@ -282,12 +432,14 @@ router.post('/auth/signup', async (req: Request, res: Response) => {
         // Hash new password
         const newPasswordHash = await bcrypt.hash(newPassword, 10);
 
-        // Update password
+        // Update password; other sessions are signed out as after a reset, this one is re-issued
+        const passwordChangedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
         await prisma.user.update({
-        where: { id: payload.sub },
-        data: { passwordHash: newPasswordHash }
+        where: { id: userId },
+        data: { passwordHash: newPasswordHash, passwordChangedAt }
         });
 
+        setSessionCookie(req, res, userId, req.user!.companyId ?? null);
         return res.json({ ok: true });
     } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
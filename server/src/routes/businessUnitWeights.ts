@@ -0,0 +1,121 @@
+import { z } from 'zod';
+import { prisma } from '../prisma.js';
+import { tenantRouter } from '../middleware/tenant.js';
+import { canAccessCompany } from '../middleware/rbac.js';
+import { loadTaxonomy } from '../utils/taxonomy.js';
+import { initiativeIdSchema, periodSchema, taxonomyCodeSchema } from '../utils/validators.js';
+import { resolvePeriod } from '../utils/period.js';
+import { periodLockError } from '../utils/periodLocks.js';
+import { findCompanyInitiative, initiativeFromQuery } from '../utils/initiatives.js';
+import { retryOnUniqueViolation } from '../utils/prismaErrors.js';
+
+const r = tenantRouter();
+
+// save the full business unit split for one tower at once
+const businessUnitBatchSchema = z.object({
+    companyId: z.string().min(1),
+    period: periodSchema,
+    tower: taxonomyCodeSchema,
+    initiativeId: initiativeIdSchema,
+    // any subset of business units; omitted units are cleared for the tower
+    weights: z.record(taxonomyCodeSchema, z.number().min(0).max(1))
+        .refine(w => Object.keys(w).length > 0, 'At least one business unit is required'),
+});
+
+r.get('/:companyId/:period', async (req, res) => {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const label = periodSchema.safeParse(req.params.period);
+    if (!label.success) {
+        return res.status(400).json({ error: label.error.flatten() });
+    }
+
+    try {
+        const period = await resolvePeriod(companyId, label.data);
+        const [rows, taxonomy] = await Promise.all([
+            prisma.businessUnitWeight.findMany({
+                where: { companyId, period: period.start, granularity: period.granularity, initiativeId: initiativeFromQuery(req.query.initiativeId) },
+                orderBy: [{ tower: 'asc' }, { businessUnit: 'asc' }],
+            }),
+            loadTaxonomy(companyId),
+        ]);
+
+        // labels come from the company's taxonomy so renamed towers and units show their current name
+        res.json(rows.map(row => ({
+            ...row,
+            towerName: taxonomy.towers.get(row.tower)?.name ?? row.tower,
+            businessUnitName: taxonomy.businessUnits.get(row.businessUnit)?.name ?? row.businessUnit,
+        })));
+    } catch (error) {
+        console.error('[BU WEIGHTS ERROR] Failed to load business unit weights:', error);
+        res.status(500).json({ error: 'Failed to load business unit weights', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.post('/batch', async (req, res) => {
+    const parsed = businessUnitBatchSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    // employees may only write to their own company
+    if (!canAccessCompany(req.user, body.companyId, 'data:write')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        const initiativeId = body.initiativeId ?? null;
+        if (initiativeId && !(await findCompanyInitiative(body.companyId, initiativeId))) {
+            return res.status(400).json({ error: 'Unknown initiative for this company' });
+        }
+
+        const taxonomy = await loadTaxonomy(body.companyId);
+        const tower = taxonomy.towers.get(body.tower);
+        if (!tower || tower.archived) {
+            return res.status(400).json({ error: `Unknown tower ${body.tower} for this company` });
+        }
+
+        const entries = Object.entries(body.weights);
+        const unknown = entries.map(([code]) => code).filter(code => {
+            const unit = taxonomy.businessUnits.get(code);
+            return !unit || unit.archived;
+        });
+        if (unknown.length > 0) {
+            return res.status(400).json({ error: `Unknown business units for this company: ${unknown.join(', ')}` });
+        }
+
+        const sum = entries.reduce((acc, [, weightPct]) => acc + Number(weightPct), 0);
+        if (Math.abs(sum - 1) >= 0.0001) {
+            return res.status(400).json({ error: `Weights must sum to 1.0 (current sum: ${sum.toFixed(3)})` });
+        }
+
+        const { start: period, granularity } = await resolvePeriod(body.companyId, body.period);
+
+        const lockError = await periodLockError(body.companyId, period, granularity);
+        if (lockError) {
+            return res.status(409).json({ error: lockError });
+        }
+        const userId = req.user!.userId;
+
+        // Replace the tower's split in one transaction, again if a concurrent save inserted rows first
+        const key = { companyId: body.companyId, period, granularity, tower: body.tower, initiativeId };
+        const rows = await retryOnUniqueViolation(() => prisma.$transaction(async (tx) => {
+            await tx.businessUnitWeight.deleteMany({ where: key });
+            await tx.businessUnitWeight.createMany({
+                data: entries.map(([businessUnit, weightPct]) => ({ ...key, businessUnit, weightPct, createdById: userId })),
+            });
+            return tx.businessUnitWeight.findMany({ where: key, orderBy: { businessUnit: 'asc' } });
+        }));
+
+        return res.json({ ok: true, rows });
+    } catch (error) {
+        console.error('[BU WEIGHTS ERROR] Failed to save business unit weights:', error);
+        res.status(500).json({ error: 'Failed to save business unit weights', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+export default r;
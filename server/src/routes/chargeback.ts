@@ -0,0 +1,154 @@
+import type { ChargebackStatement } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { tenantRouter } from '../middleware/tenant.js';
+import { canAccessCompany } from '../middleware/rbac.js';
+import { chargebackIssueSchema, periodSchema } from '../utils/validators.js';
+import { resolvePeriod } from '../utils/period.js';
+import { loadRoiInputs } from '../utils/roiData.js';
+import { loadTaxonomy } from '../utils/taxonomy.js';
+import { computeWaterfall } from '../utils/waterfall.js';
+import { MissingFxRateError } from '../utils/fx.js';
+import { isUniqueViolation } from '../utils/prismaErrors.js';
+import { serializeStatement, statementCsv, statementLines } from '../utils/chargeback.js';
+
+const r = tenantRouter();
+
+// Statement numbers are the company's highest plus one, so two concurrent runs can pick the
+// same numbers; the loser of the unique constraint retries with fresh ones
+const ISSUE_ATTEMPTS = 3;
+
+// Issues a new statement for each business unit that receives cost in the period.
+// Earlier statements for the same period are kept as they were
+r.post('/', async (req, res) => {
+    const parsed = chargebackIssueSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    if (!canAccessCompany(req.user, body.companyId, 'data:write')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        const period = await resolvePeriod(body.companyId, body.period);
+        const loaded = await loadRoiInputs(body.companyId, period, {}, { basis: body.costBasis });
+
+        const waterfall = computeWaterfall(loaded.inputs);
+        const units = waterfall.businessUnits.filter(u => !body.businessUnits || body.businessUnits.includes(u.businessUnit));
+        if (units.length === 0) {
+            return res.status(400).json({ error: 'No cost reaches a business unit in this period; enter business unit weights first' });
+        }
+
+        const [taxonomy, volumes] = await Promise.all([
+            loadTaxonomy(body.companyId),
+            prisma.driverValue.findMany({ where: { companyId: body.companyId, period: period.start, granularity: period.granularity } }),
+        ]);
+        const driverVolumes = volumes.map(v => ({ tower: v.tower, driver: v.driver, value: Number(v.value) }));
+        const userId = req.user!.userId;
+
+        const issue = () => prisma.$transaction(async (tx) => {
+            const last = await tx.chargebackStatement.aggregate({ where: { companyId: body.companyId }, _max: { number: true } });
+            let number = last._max.number ?? 0;
+            const created = [];
+            for (const unit of units) {
+                number += 1;
+                created.push(await tx.chargebackStatement.create({
+                    data: {
+                        companyId: body.companyId,
+                        number,
+                        period: period.start,
+                        granularity: period.granularity,
+                        periodLabel: period.label,
+                        costBasis: body.costBasis,
+                        businessUnit: unit.businessUnit,
+                        businessUnitName: taxonomy.businessUnits.get(unit.businessUnit)?.name ?? unit.businessUnit,
+                        currency: loaded.currency,
+                        totalCost: unit.total,
+                        lines: JSON.stringify(statementLines(waterfall, unit.businessUnit, taxonomy, driverVolumes)),
+                        issuedById: userId,
+                    },
+                }));
+            }
+            return created;
+        });
+
+        let statements: ChargebackStatement[] | undefined;
+        for (let attempt = 1; !statements; attempt++) {
+            try {
+                statements = await issue();
+            } catch (error) {
+                if (!isUniqueViolation(error) || attempt === ISSUE_ATTEMPTS) throw error;
+            }
+        }
+
+        res.json(statements.map(serializeStatement));
+    } catch (error) {
+        if (error instanceof MissingFxRateError) return res.status(400).json({ error: error.message });
+        if (isUniqueViolation(error)) {
+            return res.status(409).json({ error: 'Statements for this company were being issued at the same time; try again' });
+        }
+        console.error('[CHARGEBACK ERROR] Failed to issue statements:', error);
+        res.status(500).json({ error: 'Failed to issue statements', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+// Statement headers, newest first; ?period= and ?businessUnit= narrow the list
+r.get('/:companyId', async (req, res) => {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    let period;
+    if (req.query.period) {
+        const label = periodSchema.safeParse(req.query.period);
+        if (!label.success) {
+            return res.status(400).json({ error: label.error.flatten() });
+        }
+        period = await resolvePeriod(companyId, label.data);
+    }
+
+    const statements = await prisma.chargebackStatement.findMany({
+        where: {
+            companyId,
+            ...(period ? { period: period.start, granularity: period.granularity } : {}),
+            ...(typeof req.query.businessUnit === 'string' ? { businessUnit: req.query.businessUnit } : {}),
+        },
+        omit: { lines: true },
+        orderBy: { number: 'desc' },
+    });
+    res.json(statements);
+});
+
+async function findStatement(companyId: string, id: string) {
+    const statement = await prisma.chargebackStatement.findUnique({ where: { id } });
+    return statement && statement.companyId === companyId ? statement : null;
+}
+
+r.get('/:companyId/:id', async (req, res) => {
+    const { companyId, id } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const statement = await findStatement(companyId, id);
+    if (!statement) return res.status(404).json({ error: 'Statement not found' });
+    res.json(serializeStatement(statement));
+});
+
+r.get('/:companyId/:id/csv', async (req, res) => {
+    const { companyId, id } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const statement = await findStatement(companyId, id);
+    if (!statement) return res.status(404).json({ error: 'Statement not found' });
+
+    res.type('text/csv')
+        .attachment(`chargeback-${statement.businessUnit}-${statement.periodLabel}-${statement.number}.csv`)
+        .send(statementCsv(serializeStatement(statement)));
+});
+
+export default r;
@@ -1,13 +1,169 @@
-import { Router } from 'express';
+import type { Role } from '@prisma/client';
 import { prisma } from "../prisma.js";
-import { auth } from "../middleware/auth.js";
-import { requireAdmin } from '../middleware/rbac.js';
+import { tenantRouter } from "../middleware/tenant.js";
+import { canAccessCompany, requirePermission } from '../middleware/rbac.js';
+import { companySettingsSchema, memberRoleSchema } from '../utils/validators.js';
+import { isRecordNotFound } from '../utils/prismaErrors.js';
 
-const r = Router();
+const r = tenantRouter();
 
-r.get('/', auth(), requireAdmin, async (_req, res) => {
-    const companies = await prisma.company.findMany({ orderBy: { createdAt: 'desc' } });
-    res.json(companies);
+r.get('/', requirePermission('platform:manage'), async (_req, res) => {
+    try {
+        const companies = await prisma.company.findMany({ orderBy: { createdAt: 'desc' } });
+        res.json(companies);
+    } catch (error) {
+        console.error('[COMPANY ERROR] Failed to load companies:', error);
+        res.status(500).json({ error: 'Failed to load companies', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
 });
 
-export default r;
\ No newline at end of file
+r.get('/companies/:companyId/settings', async (req, res) => {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        const company = await prisma.company.findUnique({
+            where: { id: companyId },
+            select: { id: true, fiscalYearStartMonth: true, reportingCurrency: true },
+        });
+        if (!company) return res.status(404).json({ error: 'Company not found' });
+        res.json(company);
+    } catch (error) {
+        console.error('[COMPANY ERROR] Failed to load company settings:', error);
+        res.status(500).json({ error: 'Failed to load company settings', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+// Users an initiative can be assigned to; no credentials or roles are exposed
+r.get('/companies/:companyId/users', async (req, res) => {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        const users = await prisma.user.findMany({
+            where: { memberships: { some: { companyId } } },
+            select: { id: true, name: true, email: true },
+            orderBy: { name: 'asc' },
+        });
+        res.json(users);
+    } catch (error) {
+        console.error('[COMPANY ERROR] Failed to load company users:', error);
+        res.status(500).json({ error: 'Failed to load company users', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+const serializeMember = (membership: { role: Role; createdAt: Date; user: { id: string; name: string; email: string } }) =>
+    ({ ...membership.user, role: membership.role, createdAt: membership.createdAt });
+
+// Members with their role in this company, for the company admins who manage them
+r.get('/companies/:companyId/members', requirePermission('users:manage'), async (req, res) => {
+    try {
+        const memberships = await prisma.membership.findMany({
+            where: { companyId: req.params.companyId },
+            include: { user: { select: { id: true, name: true, email: true } } },
+            orderBy: { user: { name: 'asc' } },
+        });
+        res.json(memberships.map(serializeMember));
+    } catch (error) {
+        console.error('[COMPANY ERROR] Failed to load members:', error);
+        res.status(500).json({ error: 'Failed to load members', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+// Takes effect on the member's next request
+r.put('/companies/:companyId/members/:userId', requirePermission('users:manage'), async (req, res) => {
+    const { companyId, userId } = req.params;
+    const parsed = memberRoleSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    try {
+        const key = { userId_companyId: { userId, companyId } };
+        const member = await prisma.membership.findUnique({ where: key });
+        if (!member) return res.status(404).json({ error: 'Member not found' });
+
+        if (member.role === 'COMPANY_ADMIN' && parsed.data.role !== 'COMPANY_ADMIN') {
+            const admins = await prisma.membership.count({ where: { companyId, role: 'COMPANY_ADMIN' } });
+            if (admins <= 1) return res.status(400).json({ error: 'A company needs at least one company admin' });
+        }
+
+        const updated = await prisma.membership.update({
+            where: key,
+            data: { role: parsed.data.role },
+            include: { user: { select: { id: true, name: true, email: true } } },
+        });
+        res.json(serializeMember(updated));
+    } catch (error) {
+        if (isRecordNotFound(error)) return res.status(404).json({ error: 'Member not found' });
+        console.error('[COMPANY ERROR] Failed to change member role:', error);
+        res.status(500).json({ error: 'Failed to change member role', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+// Removes the user from this company only; they keep their account and other memberships.
+// Takes effect on their next request
+r.delete('/companies/:companyId/members/:userId', requirePermission('users:manage'), async (req, res) => {
+    const { companyId, userId } = req.params;
+    try {
+        const key = { userId_companyId: { userId, companyId } };
+        const member = await prisma.membership.findUnique({ where: key });
+        if (!member) return res.status(404).json({ error: 'Member not found' });
+
+        if (member.role === 'COMPANY_ADMIN') {
+            const admins = await prisma.membership.count({ where: { companyId, role: 'COMPANY_ADMIN' } });
+            if (admins <= 1) return res.status(400).json({ error: 'A company needs at least one company admin' });
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.membership.delete({ where: key });
+            // their next sign-in starts in another of their companies, if they have one
+            const user = await tx.user.findUnique({ where: { id: userId }, select: { companyId: true } });
+            if (user?.companyId === companyId) {
+                const next = await tx.membership.findFirst({ where: { userId }, orderBy: { createdAt: 'asc' } });
+                await tx.user.update({ where: { id: userId }, data: { companyId: next?.companyId ?? null } });
+            }
+        });
+        res.json({ success: true });
+    } catch (error) {
+        // a concurrent removal got there first
+        if (isRecordNotFound(error)) return res.status(404).json({ error: 'Member not found' });
+        console.error('[COMPANY ERROR] Failed to remove member:', error);
+        res.status(500).json({ error: 'Failed to remove member', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.put('/companies/:companyId/settings', async (req, res) => {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'company:configure')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const parsed = companySettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    try {
+        const company = await prisma.company.findUnique({ where: { id: companyId } });
+        if (!company) return res.status(404).json({ error: 'Company not found' });
+
+        // Changing the fiscal start re-labels quarters and years; stored period start dates are unchanged.
+        // Changing the reporting currency applies to new snapshots; stored ones keep the currency they were taken in
+        const updated = await prisma.company.update({
+            where: { id: companyId },
+            data: parsed.data,
+            select: { id: true, fiscalYearStartMonth: true, reportingCurrency: true },
+        });
+        res.json(updated);
+    } catch (error) {
+        console.error('[COMPANY ERROR] Failed to update company settings:', error);
+        res.status(500).json({ error: 'Failed to update company settings', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+export default r;
@@ -0,0 +1,111 @@
+import { prisma } from '../prisma.js';
+import { tenantRouter } from '../middleware/tenant.js';
+import { canAccessCompany } from '../middleware/rbac.js';
+import { costPoolSchema, costPoolUpdateSchema } from '../utils/validators.js';
+import { isUniqueViolation } from '../utils/prismaErrors.js';
+
+const r = tenantRouter();
+
+// Starting pools for companies that haven't defined their own
+const DEFAULT_COST_POOLS = [
+    { code: 'LABOUR', name: 'Labour', description: 'Internal staff and contractors' },
+    { code: 'CLOUD', name: 'Cloud Services', description: 'IaaS, PaaS and hosted services' },
+    { code: 'SOFTWARE', name: 'Software & SaaS', description: 'Licences and subscriptions' },
+    { code: 'HARDWARE', name: 'Hardware', description: 'Servers, devices and peripherals' },
+    { code: 'FACILITIES', name: 'Data Centre Facilities', description: 'Space, power and cooling' },
+    { code: 'TELECOM', name: 'Telecom', description: 'Network carriage and voice' },
+];
+
+async function ensureDefaultCostPools(companyId: string) {
+    const count = await prisma.costPool.count({ where: { companyId } });
+    if (count > 0) return;
+
+    await prisma.costPool.createMany({
+        data: DEFAULT_COST_POOLS.map((pool, index) => ({ ...pool, companyId, sortOrder: index })),
+        skipDuplicates: true,
+    });
+}
+
+r.get('/:companyId', async (req, res) => {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        const company = await prisma.company.findUnique({ where: { id: companyId } });
+        if (!company) return res.status(404).json({ error: 'Company not found' });
+
+        await ensureDefaultCostPools(companyId);
+
+        const includeArchived = req.query.includeArchived === 'true';
+        const pools = await prisma.costPool.findMany({
+            where: { companyId, ...(includeArchived ? {} : { archived: false }) },
+            orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+        });
+        res.json(pools);
+    } catch (error) {
+        console.error('[COST POOL ERROR] Failed to load cost pools:', error);
+        res.status(500).json({ error: 'Failed to load cost pools', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.post('/', async (req, res) => {
+    const parsed = costPoolSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    if (!canAccessCompany(req.user, body.companyId, 'company:configure')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        const existing = await prisma.costPool.findUnique({
+            where: { companyId_code: { companyId: body.companyId, code: body.code } },
+        });
+        if (existing) {
+            return res.status(400).json({ error: `Cost pool code ${body.code} is already in use` });
+        }
+
+        const sortOrder = body.sortOrder ?? await prisma.costPool.count({ where: { companyId: body.companyId } });
+        const created = await prisma.costPool.create({
+            data: { ...body, sortOrder },
+        });
+        res.json(created);
+    } catch (error) {
+        // a concurrent request took the code between the check and the create
+        if (isUniqueViolation(error)) return res.status(409).json({ error: `Cost pool code ${body.code} is already in use` });
+        console.error('[COST POOL ERROR] Failed to create cost pool:', error);
+        res.status(500).json({ error: 'Failed to create cost pool', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.put('/:id', async (req, res) => {
+    const parsed = costPoolUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    try {
+        const pool = await prisma.costPool.findUnique({ where: { id: req.params.id } });
+        if (!pool) return res.status(404).json({ error: 'Cost pool not found' });
+
+        if (!canAccessCompany(req.user, pool.companyId, 'company:configure')) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+
+        // Pools are archived rather than deleted so historic L1 rows keep their names
+        const updated = await prisma.costPool.update({
+            where: { id: pool.id },
+            data: parsed.data,
+        });
+        res.json(updated);
+    } catch (error) {
+        console.error('[COST POOL ERROR] Failed to update cost pool:', error);
+        res.status(500).json({ error: 'Failed to update cost pool', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+export default r;
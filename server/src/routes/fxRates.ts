@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import { prisma } from '../prisma.js';
+import { auth } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/rbac.js';
+import { currencySchema, fxRateSchema } from '../utils/validators.js';
+import { isRecordNotFound, retryOnUniqueViolation } from '../utils/prismaErrors.js';
+
+const r = Router();
+
+function toFxRateResponse(rate: { id: string; period: Date; fromCurrency: string; toCurrency: string; rate: unknown; updatedAt: Date }) {
+    return {
+        id: rate.id,
+        period: `${rate.period.getUTCFullYear()}-${String(rate.period.getUTCMonth() + 1).padStart(2, '0')}`,
+        fromCurrency: rate.fromCurrency,
+        toCurrency: rate.toCurrency,
+        rate: Number(rate.rate),
+        updatedAt: rate.updatedAt,
+    };
+}
+
+// Rates are shared by every company; ?currency= narrows to pairs involving one currency
+r.get('/', auth(), async (req, res) => {
+    const currency = currencySchema.optional().safeParse(req.query.currency || undefined);
+    if (!currency.success) {
+        return res.status(400).json({ error: currency.error.flatten() });
+    }
+
+    try {
+        const rates = await prisma.fxRate.findMany({
+            where: currency.data ? { OR: [{ fromCurrency: currency.data }, { toCurrency: currency.data }] } : {},
+            orderBy: [{ period: 'desc' }, { fromCurrency: 'asc' }, { toCurrency: 'asc' }],
+        });
+        res.json(rates.map(toFxRateResponse));
+    } catch (error) {
+        console.error('[FX RATE ERROR] Failed to load FX rates:', error);
+        res.status(500).json({ error: 'Failed to load FX rates', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+// Sets the rate for a currency pair from a month onwards, replacing any rate already entered for that month
+r.put('/', auth(), requirePermission('platform:manage'), async (req, res) => {
+    const parsed = fxRateSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    try {
+        const [year, month] = body.period.split('-').map(Number);
+        const period = new Date(Date.UTC(year, month - 1, 1));
+        // two admins entering the same pair and month race on the upsert's create; the retry updates instead
+        const rate = await retryOnUniqueViolation(() => prisma.fxRate.upsert({
+            where: { period_fromCurrency_toCurrency: { period, fromCurrency: body.fromCurrency, toCurrency: body.toCurrency } },
+            update: { rate: body.rate },
+            create: { period, fromCurrency: body.fromCurrency, toCurrency: body.toCurrency, rate: body.rate },
+        }));
+        res.json(toFxRateResponse(rate));
+    } catch (error) {
+        console.error('[FX RATE ERROR] Failed to save FX rate:', error);
+        res.status(500).json({ error: 'Failed to save FX rate', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.delete('/:id', auth(), requirePermission('platform:manage'), async (req, res) => {
+    try {
+        const rate = await prisma.fxRate.findUnique({ where: { id: req.params.id } });
+        if (!rate) return res.status(404).json({ error: 'FX rate not found' });
+
+        await prisma.fxRate.delete({ where: { id: rate.id } });
+        res.json({ success: true });
+    } catch (error) {
+        if (isRecordNotFound(error)) return res.status(404).json({ error: 'FX rate not found' });
+        console.error('[FX RATE ERROR] Failed to delete FX rate:', error);
+        res.status(500).json({ error: 'Failed to delete FX rate', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+export default r;
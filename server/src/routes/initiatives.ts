@@ -0,0 +1,115 @@
+import { prisma } from '../prisma.js';
+import { tenantRouter } from '../middleware/tenant.js';
+import { canAccessCompany } from '../middleware/rbac.js';
+import { initiativeSchema, initiativeStatusSchema, initiativeUpdateSchema } from '../utils/validators.js';
+import { isUniqueViolation } from '../utils/prismaErrors.js';
+
+const r = tenantRouter();
+
+const ownerSelect = { select: { id: true, name: true, email: true } };
+
+// Owners have to be members of the same company
+async function isCompanyUser(companyId: string, userId: string) {
+    return !!(await prisma.membership.findUnique({ where: { userId_companyId: { userId, companyId } } }));
+}
+
+r.get('/:companyId', async (req, res) => {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const status = initiativeStatusSchema.optional().safeParse(req.query.status);
+    if (!status.success) {
+        return res.status(400).json({ error: status.error.flatten() });
+    }
+
+    try {
+        const initiatives = await prisma.initiative.findMany({
+            where: { companyId, ...(status.data ? { status: status.data } : {}) },
+            include: { owner: ownerSelect },
+            orderBy: [{ startDate: 'asc' }, { name: 'asc' }],
+        });
+        res.json(initiatives);
+    } catch (error) {
+        console.error('[INITIATIVE ERROR] Failed to load initiatives:', error);
+        res.status(500).json({ error: 'Failed to load initiatives', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.post('/', async (req, res) => {
+    const parsed = initiativeSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    if (!canAccessCompany(req.user, body.companyId, 'data:write')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        const existing = await prisma.initiative.findUnique({
+            where: { companyId_code: { companyId: body.companyId, code: body.code } },
+        });
+        if (existing) {
+            return res.status(400).json({ error: `Initiative code ${body.code} is already in use` });
+        }
+
+        if (body.ownerId && !(await isCompanyUser(body.companyId, body.ownerId))) {
+            return res.status(400).json({ error: 'Owner must be a user of this company' });
+        }
+
+        const created = await prisma.initiative.create({
+            data: body,
+            include: { owner: ownerSelect },
+        });
+        res.json(created);
+    } catch (error) {
+        // a concurrent request took the code between the check and the create
+        if (isUniqueViolation(error)) return res.status(409).json({ error: `Initiative code ${body.code} is already in use` });
+        console.error('[INITIATIVE ERROR] Failed to create initiative:', error);
+        res.status(500).json({ error: 'Failed to create initiative', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.put('/:id', async (req, res) => {
+    const parsed = initiativeUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    try {
+        const initiative = await prisma.initiative.findUnique({ where: { id: req.params.id } });
+        if (!initiative) return res.status(404).json({ error: 'Initiative not found' });
+
+        if (!canAccessCompany(req.user, initiative.companyId, 'data:write')) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+
+        if (body.ownerId && !(await isCompanyUser(initiative.companyId, body.ownerId))) {
+            return res.status(400).json({ error: 'Owner must be a user of this company' });
+        }
+
+        // the refine only sees the fields sent, so check the merged dates too
+        const startDate = body.startDate ?? initiative.startDate;
+        const endDate = body.endDate === undefined ? initiative.endDate : body.endDate;
+        if (endDate && endDate < startDate) {
+            return res.status(400).json({ error: 'End date must be on or after the start date' });
+        }
+
+        // Initiatives are cancelled or completed rather than deleted so their snapshots stay attributable
+        const updated = await prisma.initiative.update({
+            where: { id: initiative.id },
+            data: body,
+            include: { owner: ownerSelect },
+        });
+        res.json(updated);
+    } catch (error) {
+        console.error('[INITIATIVE ERROR] Failed to update initiative:', error);
+        res.status(500).json({ error: 'Failed to update initiative', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+export default r;
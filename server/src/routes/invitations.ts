@@ -0,0 +1,81 @@
+import { prisma } from '../prisma.js';
+import { tenantRouter } from '../middleware/tenant.js';
+import { canAccessCompany, requirePermission } from '../middleware/rbac.js';
+import { invitationSchema } from '../utils/validators.js';
+import { newInvitationToken, serializeInvitation } from '../utils/invitations.js';
+
+const r = tenantRouter();
+
+const errorDetails = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
+r.get('/:companyId', requirePermission('users:manage'), async (req, res) => {
+    try {
+        const invitations = await prisma.invitation.findMany({
+            where: { companyId: req.params.companyId },
+            orderBy: { createdAt: 'desc' },
+        });
+        res.json(invitations.map(serializeInvitation));
+    } catch (error) {
+        console.error('[INVITATIONS ERROR] Failed to list invitations:', error);
+        res.status(500).json({ error: 'Failed to list invitations', details: errorDetails(error) });
+    }
+});
+
+// The response carries the token once; the admin shares the signup link with the invitee
+r.post('/', requirePermission('users:manage'), async (req, res) => {
+    const parsed = invitationSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    try {
+        // users who already have an account accept by signing in; only existing members are turned away
+        const existingMember = await prisma.membership.findFirst({
+            where: { companyId: body.companyId, user: { email: { equals: body.email, mode: 'insensitive' } } },
+        });
+        if (existingMember) {
+            return res.status(409).json({ error: 'This user is already a member of the company' });
+        }
+
+        const { token, tokenHash, expiresAt } = newInvitationToken();
+
+        // a new invitation replaces any the email still has pending for this company
+        const invitation = await prisma.$transaction(async (tx) => {
+            await tx.invitation.updateMany({
+                where: { companyId: body.companyId, email: body.email, acceptedAt: null, revokedAt: null },
+                data: { revokedAt: new Date() },
+            });
+            return tx.invitation.create({
+                data: { companyId: body.companyId, email: body.email, role: body.role, tokenHash, expiresAt, invitedById: req.user!.userId },
+            });
+        });
+
+        res.json({ ...serializeInvitation(invitation), token });
+    } catch (error) {
+        console.error('[INVITATIONS ERROR] Failed to create invitation:', error);
+        res.status(500).json({ error: 'Failed to create invitation', details: errorDetails(error) });
+    }
+});
+
+r.delete('/:id', async (req, res) => {
+    try {
+        const invitation = await prisma.invitation.findUnique({ where: { id: req.params.id } });
+        if (!invitation) return res.status(404).json({ error: 'Invitation not found' });
+
+        if (!canAccessCompany(req.user, invitation.companyId, 'users:manage')) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+        if (invitation.acceptedAt) {
+            return res.status(400).json({ error: 'This invitation has already been accepted' });
+        }
+
+        await prisma.invitation.update({ where: { id: invitation.id }, data: { revokedAt: invitation.revokedAt ?? new Date() } });
+        res.json({ success: true });
+    } catch (error) {
+        console.error('[INVITATIONS ERROR] Failed to revoke invitation:', error);
+        res.status(500).json({ error: 'Failed to revoke invitation', details: errorDetails(error) });
+    }
+});
+
+export default r;
@@ -1,65 +1,157 @@
-import { Router } from 'express';
 import { prisma } from '../prisma.js';
-import { auth } from '../middleware/auth.js';
-import { restrictToCompany } from '../middleware/rbac.js';
-import { l1Schema } from '../utils/validators.js';
+import { tenantRouter } from '../middleware/tenant.js';
+import { canAccessCompany } from '../middleware/rbac.js';
+import { l1Schema, periodSchema } from '../utils/validators.js';
+import { resolvePeriod } from '../utils/period.js';
+import { periodLockError } from '../utils/periodLocks.js';
+import { buildVarianceReport } from '../utils/variance.js';
+import { findCompanyInitiative, initiativeFromQuery } from '../utils/initiatives.js';
+import { getReportingCurrency, loadFxConverter, MissingFxRateError } from '../utils/fx.js';
+import { retryOnUniqueViolation } from '../utils/prismaErrors.js';
 import { Prisma } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 
-const r = Router();
+const r = tenantRouter();
 
 
 r.get('/', (req, res) => {
     res.status(400).json({ 
         error: 'L1 API requires companyId and period parameters',
         message: 'Use GET /api/l1/{companyId}/{period} to retrieve L1 data',
-        example: '/api/l1/your-company-id/2024-01'
+        example: '/api/l1/your-company-id/2024-01 or /api/l1/your-company-id/FY2025-Q1'
     });
 });
 
 r.get('/:companyId/:period', async (req, res) => {
-    const { companyId, period } = req.params;
-    const data = await prisma.l1OperationalInput.findMany({ where: { companyId, period: new Date(period) } });
-    res.json(data);
-});
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
 
-r.post('/', auth(), async (req, res) => {
-    const body = l1Schema.parse(req.body);
-    
-    // For admin users, they can access any company's data
-    if (req.user!.role === 'ADMIN') {
-        // If no companyId provided, use their own company
-        if (!body.companyId && req.user!.companyId) {
-            body.companyId = req.user!.companyId;
-        }
-    } else {
-        // For non-admin users, they can only access their own company's data
-        if (req.user!.companyId !== body.companyId) {
-            return res.status(403).json({ error: 'Forbidden' });
+    const label = periodSchema.safeParse(req.params.period);
+    if (!label.success) {
+        return res.status(400).json({ error: label.error.flatten() });
+    }
+
+    const period = await resolvePeriod(companyId, label.data);
+    const data = await prisma.l1OperationalInput.findMany({
+        where: { companyId, period: period.start, granularity: period.granularity, initiativeId: initiativeFromQuery(req.query.initiativeId) },
+        include: { costPool: { select: { id: true, code: true, name: true } } },
+        orderBy: { costPool: { sortOrder: 'asc' } },
+    });
+
+    // rows keep the currency they were entered in; the plan is also given in the reporting
+    // currency, or null while there's no rate for the row's month
+    const fx = await loadFxConverter(await getReportingCurrency(companyId));
+    res.json(data.map(d => {
+        let reportingBudget: number | null = null;
+        try {
+            reportingBudget = fx.convert(Number(d.budget), d.currency, d.period);
+        } catch (error) {
+            if (!(error instanceof MissingFxRateError)) throw error;
         }
+        return { ...d, reportingCurrency: fx.currency, reportingBudget };
+    }));
+});
+
+// Plan vs forecast vs actual per cost pool and tower; quarters and years roll up their months
+r.get('/:companyId/:period/variance', async (req, res) => {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const label = periodSchema.safeParse(req.params.period);
+    if (!label.success) {
+        return res.status(400).json({ error: label.error.flatten() });
+    }
+
+    const period = await resolvePeriod(companyId, label.data);
+    try {
+        res.json(await buildVarianceReport(companyId, period, initiativeFromQuery(req.query.initiativeId)));
+    } catch (error) {
+        if (error instanceof MissingFxRateError) return res.status(400).json({ error: error.message });
+        console.error(`[L1 ERROR] Failed to build variance report:`, error);
+        res.status(500).json({ error: 'Failed to build variance report', details: error instanceof Error ? error.message : 'Unknown error' });
     }
+});
+
+r.post('/', async (req, res) => {
+    const parsed = l1Schema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    if (!canAccessCompany(req.user, body.companyId, 'data:write')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const pool = await prisma.costPool.findUnique({ where: { id: body.costPoolId } });
+    if (!pool || pool.companyId !== body.companyId) {
+        return res.status(400).json({ error: 'Unknown cost pool for this company' });
+    }
+    if (pool.archived) {
+        return res.status(400).json({ error: `Cost pool ${pool.name} is archived` });
+    }
+
+    const initiativeId = body.initiativeId ?? null;
+    if (initiativeId && !(await findCompanyInitiative(body.companyId, initiativeId))) {
+        return res.status(400).json({ error: 'Unknown initiative for this company' });
+    }
+
+    const period = await resolvePeriod(body.companyId, body.period);
+
+    const lockError = await periodLockError(body.companyId, period.start, period.granularity);
+    if (lockError) {
+        return res.status(409).json({ error: lockError });
+    }
+
+    // asset life and method only mean something for capex
+    const costing = body.costType === 'CAPEX'
+        ? { costType: body.costType, assetLifeMonths: body.assetLifeMonths, depreciationMethod: body.depreciationMethod ?? 'STRAIGHT_LINE' as const }
+        : { costType: body.costType, assetLifeMonths: null, depreciationMethod: null };
 
     try {
-        const created = await prisma.l1OperationalInput.upsert({
-            where: { 
-                companyId_period_department: { 
-                    companyId: body.companyId, 
-                    period: new Date(body.period), 
-                    department: body.department 
-                } 
-            },
-            create: { 
-                ...body, 
-                period: new Date(body.period), 
-                createdById: req.user!.userId 
-            },
-            update: { 
-                employees: body.employees, 
-                budget: new Decimal(body.budget), 
-                baselineKpi: body.baselineKpi ?? null 
-            }
+        // findFirst rather than upsert: company-wide rows have a null initiativeId; a unique
+        // violation means a concurrent save created the row first, so the retry updates it
+        const created = await retryOnUniqueViolation(async () => {
+            const existing = await prisma.l1OperationalInput.findFirst({
+                where: {
+                    companyId: body.companyId,
+                    period: period.start,
+                    granularity: period.granularity,
+                    costPoolId: body.costPoolId,
+                    initiativeId
+                }
+            });
+            return existing
+                ? prisma.l1OperationalInput.update({
+                    where: { id: existing.id },
+                    data: { 
+                        employees: body.employees, 
+                        budget: new Decimal(body.budget), 
+                        // undefined leaves a stored forecast/actual alone, null clears it
+                        forecast: body.forecast,
+                        actual: body.actual,
+                        baselineKpi: body.baselineKpi ?? null,
+                        // undefined keeps the row's currency
+                        currency: body.currency,
+                        ...costing
+                    }
+                })
+                : prisma.l1OperationalInput.create({
+                    data: { 
+                        ...body, 
+                        ...costing,
+                        currency: body.currency ?? await getReportingCurrency(body.companyId),
+                        initiativeId,
+                        period: period.start, 
+                        granularity: period.granularity,
+                        createdById: req.user!.userId 
+                    }
+                });
         });
-        console.log(`[L1 DEBUG] Upserted L1 data for ${body.department}:`, created);
         res.json(created);
     } catch (error) {
         console.error(`[L1 ERROR] Failed to upsert L1 data:`, error);
@@ -1,66 +1,109 @@
 
-import { Router } from "express";
 import { z } from "zod";
 import { prisma } from "../prisma.js";
-import { auth } from "../middleware/auth.js";
+import { tenantRouter } from "../middleware/tenant.js";
+import { canAccessCompany } from "../middleware/rbac.js";
+import { loadTaxonomy, parseIncludes } from "../utils/taxonomy.js";
+import { initiativeIdSchema, periodSchema, taxonomyCodeSchema } from "../utils/validators.js";
+import { resolvePeriod, type PeriodGranularity } from "../utils/period.js";
+import { periodLockError } from "../utils/periodLocks.js";
+import { findCompanyInitiative, initiativeFromQuery } from "../utils/initiatives.js";
+import { retryOnUniqueViolation } from "../utils/prismaErrors.js";
+import type { Prisma } from "@prisma/client";
 
-const r = Router();
+const r = tenantRouter();
 
 
 const l2Schema = z.object({
     companyId: z.string().min(1),
 
-    period: z.string().regex(/^\d{4}-\d{2}(-\d{2})?$/, "Use YYYY-MM or YYYY-MM-01"),
-    department: z.enum([
-        "ENGINEERING",
-        "SALES",
-        "FINANCE",
-        "HR",
-        "MARKETING",
-        "OPERATIONS",
-    ] as const),
-    tower: z.enum(["APP_DEV", "CLOUD", "END_USER"] as const),
+    period: periodSchema,
+    costPoolId: z.string().min(1),
+    initiativeId: initiativeIdSchema,
+    tower: taxonomyCodeSchema, // company tower code
     weightPct: z.number().min(0).max(1),
 });
 
-// save all three towers for one department at once
+// save the full tower split for one cost pool at once
 const l2BatchSchema = z.object({
     companyId: z.string().min(1),
-    period: z.string().regex(/^\d{4}-\d{2}(-\d{2})?$/, 'Use YYYY-MM or YYYY-MM-01'),
-    department: z.enum([
-        'ENGINEERING',
-        'SALES',
-        'FINANCE',
-        'HR',
-        'MARKETING',
-        'OPERATIONS',
-    ] as const),
-    weights: z.object({
-        APP_DEV: z.number().min(0).max(1),
-        CLOUD: z.number().min(0).max(1),
-        END_USER: z.number().min(0).max(1),
-    }),
+    period: periodSchema,
+    costPoolId: z.string().min(1),
+    initiativeId: initiativeIdSchema,
+    // any subset of towers; omitted towers are cleared for the cost pool
+    weights: z.record(taxonomyCodeSchema, z.number().min(0).max(1))
+        .refine(w => Object.keys(w).length > 0, 'At least one tower is required'),
 });
 
-function toPeriodDate(p: string) {
-    const iso = /^\d{4}-\d{2}$/.test(p) ? `${p}-01` : p;
-    return new Date(iso + "T00:00:00.000Z");
+async function findCompanyPool(companyId: string, costPoolId: string) {
+    const pool = await prisma.costPool.findUnique({ where: { id: costPoolId } });
+    return pool && pool.companyId === companyId ? pool : null;
+}
+
+// Tower codes that aren't active in the company's taxonomy
+async function unknownTowers(companyId: string, towers: string[]) {
+    const taxonomy = await loadTaxonomy(companyId);
+    return towers.filter(code => {
+        const tower = taxonomy.towers.get(code);
+        return !tower || tower.archived;
+    });
+}
+
+// Company-wide weights of a pool with an allocation rule come from its driver values, not by hand
+async function ruleDrivenError(costPoolId: string, initiativeId: string | null) {
+    if (initiativeId) return null;
+    const rule = await prisma.allocationRule.findUnique({ where: { costPoolId }, include: { costPool: true } });
+    return rule ? `Cost pool ${rule.costPool.code} is allocated by its ${rule.driver} rule; edit the driver values instead` : null;
+}
+
+type WeightKey = { companyId: string; period: Date; granularity: PeriodGranularity; costPoolId: string; initiativeId: string | null; tower: string };
+
+// findFirst rather than upsert: company-wide rows have a null initiativeId. Callers retry on a
+// unique violation, which means a concurrent request created the row first
+async function saveWeight(db: Prisma.TransactionClient, key: WeightKey, weightPct: number, createdById?: string) {
+    const existing = await db.l2AllocationWeight.findFirst({ where: key });
+    return existing
+        ? db.l2AllocationWeight.update({ where: { id: existing.id }, data: { weightPct } })
+        : db.l2AllocationWeight.create({ data: { ...key, weightPct, createdById } });
 }
 
 
 r.get("/:companyId/:period", async (req, res) => {
-    const { companyId, period } = req.params;
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
 
-    const rows = await prisma.l2AllocationWeight.findMany({
-        where: { companyId, period: toPeriodDate(period) },
-        orderBy: [{ department: "asc" }, { tower: "asc" }],
-    });
+    const label = periodSchema.safeParse(req.params.period);
+    if (!label.success) {
+        return res.status(400).json({ error: label.error.flatten() });
+    }
 
-    res.json(rows);
+    const period = await resolvePeriod(companyId, label.data);
+    const [rows, taxonomy] = await Promise.all([
+        prisma.l2AllocationWeight.findMany({
+            where: { companyId, period: period.start, granularity: period.granularity, initiativeId: initiativeFromQuery(req.query.initiativeId) },
+            include: { costPool: { select: { id: true, code: true, name: true } } },
+            orderBy: [{ costPool: { sortOrder: "asc" } }, { tower: "asc" }],
+        }),
+        loadTaxonomy(companyId),
+    ]);
+
+    // labels come from the company's taxonomy so renamed towers show their current name
+    res.json(rows.map(row => {
+        const tower = taxonomy.towers.get(row.tower);
+        return {
+            ...row,
+            towerName: tower?.name ?? row.tower,
+            towerDescription: tower?.description ?? null,
+            towerIncludes: parseIncludes(tower?.includes ?? null),
+            standardTower: tower?.standardTower ?? "OTHER",
+        };
+    }));
 });
 
 
-r.post("/", auth(), async (req, res) => {
+r.post("/", async (req, res) => {
     const parsed = l2Schema.safeParse(req.body);
     if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.flatten() });
@@ -68,65 +111,67 @@ r.post("/", auth(), async (req, res) => {
     const body = parsed.data;
 
  // employees may only write to their own company
-    if (req.user?.role !== "ADMIN" && req.user?.companyId !== body.companyId) {
+    if (!canAccessCompany(req.user, body.companyId, "data:write")) {
         return res.status(403).json({ error: "Forbidden" });
     }
 
-    const period = toPeriodDate(body.period);
-  // support either req.user.id or req.user.userId
-    const userId =
-        (req.user as any)?.id ??
-        (req.user as any)?.userId ??
-        undefined;
+    if (!(await findCompanyPool(body.companyId, body.costPoolId))) {
+        return res.status(400).json({ error: "Unknown cost pool for this company" });
+    }
 
-// tower's weight (number is OK for decimal fields)
-    const created = await prisma.l2AllocationWeight.upsert({
-        where: {
-            companyId_period_department_tower: {
-                companyId: body.companyId,
-                period,
-                department: body.department,
-                tower: body.tower,
-            },
-    },
-    create: {
+    if ((await unknownTowers(body.companyId, [body.tower])).length > 0) {
+        return res.status(400).json({ error: `Unknown tower ${body.tower} for this company` });
+    }
+
+    const initiativeId = body.initiativeId ?? null;
+    if (initiativeId && !(await findCompanyInitiative(body.companyId, initiativeId))) {
+        return res.status(400).json({ error: "Unknown initiative for this company" });
+    }
+
+    const ruleError = await ruleDrivenError(body.costPoolId, initiativeId);
+    if (ruleError) {
+        return res.status(400).json({ error: ruleError });
+    }
+
+    const { start: period, granularity } = await resolvePeriod(body.companyId, body.period);
+
+    const lockError = await periodLockError(body.companyId, period, granularity);
+    if (lockError) {
+        return res.status(409).json({ error: lockError });
+    }
+    const userId = req.user!.userId;
+
+    const key: WeightKey = {
         companyId: body.companyId,
         period,
-        department: body.department,
+        granularity,
+        costPoolId: body.costPoolId,
+        initiativeId,
         tower: body.tower,
-        weightPct: body.weightPct,
-        createdById: userId,
-    },
-    update: {
-        weightPct: body.weightPct,
-    },
-    });
+    };
 
-    console.log(`[L2 DEBUG] Upserted tower ${body.tower} with weight ${body.weightPct}`);
-
-
-// Validate the department's weights sum to ~1.0 (±0.0001 tolerance)
+// A single tower can't tell whether the split is complete, so only reject over-allocation.
+// The sum is checked before saving, with this tower's stored weight replaced by the new one
     const rows = await prisma.l2AllocationWeight.findMany({
         where: {
             companyId: body.companyId,
             period,
-            department: body.department,
+            granularity,
+            costPoolId: body.costPoolId,
+            initiativeId,
         },
     });
 
-    type L2Row = Awaited<ReturnType<typeof prisma.l2AllocationWeight.findMany>>[number];
-
-// Only validate sum if we have all three towers
-    if (rows.length >= 3) {
-        const sum = rows.reduce((acc: number, row: L2Row) => acc + Number(row.weightPct), 0);
-
-        if (sum < 0.9999 || sum > 1.0001) {
-            return res.status(400).json({ 
-                error: `Weights for department must sum to 1.0 (current sum: ${sum.toFixed(3)})` 
-            });
-        }
+    const sum = rows.reduce((acc, row) => row.tower === body.tower ? acc : acc + Number(row.weightPct), body.weightPct);
+    if (sum > 1.0001) {
+        return res.status(400).json({ 
+            error: `Weights for cost pool must sum to 1.0 (current sum: ${sum.toFixed(3)})` 
+        });
     }
 
+// tower's weight (number is OK for decimal fields)
+    const created = await retryOnUniqueViolation(() => saveWeight(prisma, key, body.weightPct, userId));
+
     res.json(created);
 });
 
@@ -134,7 +179,7 @@ r.post("/", auth(), async (req, res) => {
 export default r;
 
 
-r.post('/batch', auth(), async (req, res) => {
+r.post('/batch', async (req, res) => {
     const parsed = l2BatchSchema.safeParse(req.body);
     if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.flatten() });
@@ -142,49 +187,61 @@ r.post('/batch', auth(), async (req, res) => {
     const body = parsed.data;
 
     // employees may only write to their own company
-    if (req.user?.role !== 'ADMIN' && req.user?.companyId !== body.companyId) {
+    if (!canAccessCompany(req.user, body.companyId, 'data:write')) {
         return res.status(403).json({ error: 'Forbidden' });
     }
 
-    const period = toPeriodDate(body.period);
-    const userId = (req.user as any)?.id ?? (req.user as any)?.userId ?? undefined;
+    if (!(await findCompanyPool(body.companyId, body.costPoolId))) {
+        return res.status(400).json({ error: 'Unknown cost pool for this company' });
+    }
 
+    const initiativeId = body.initiativeId ?? null;
+    if (initiativeId && !(await findCompanyInitiative(body.companyId, initiativeId))) {
+        return res.status(400).json({ error: 'Unknown initiative for this company' });
+    }
 
-    const sum = Number(body.weights.APP_DEV) + Number(body.weights.CLOUD) + Number(body.weights.END_USER);
+    const ruleError = await ruleDrivenError(body.costPoolId, initiativeId);
+    if (ruleError) {
+        return res.status(400).json({ error: ruleError });
+    }
+
+    const { start: period, granularity } = await resolvePeriod(body.companyId, body.period);
+
+    const lockError = await periodLockError(body.companyId, period, granularity);
+    if (lockError) {
+        return res.status(409).json({ error: lockError });
+    }
+    const userId = req.user!.userId;
+
+
+    const entries = Object.entries(body.weights);
+    const unknown = await unknownTowers(body.companyId, entries.map(([tower]) => tower));
+    if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown towers for this company: ${unknown.join(', ')}` });
+    }
+
+    const sum = entries.reduce((acc, [, weightPct]) => acc + Number(weightPct), 0);
     if (Math.abs(sum - 1) >= 0.0001) {
         return res.status(400).json({ error: `Weights must sum to 1.0 (current sum: ${sum.toFixed(3)})` });
     }
 
-    // Upsert all three at once
-    const result = await prisma.$transaction(async (tx) => {
-        const upsert = async (tower: 'APP_DEV' | 'CLOUD' | 'END_USER', weightPct: number) =>
-            tx.l2AllocationWeight.upsert({
-                where: {
-                    companyId_period_department_tower: {
-                        companyId: body.companyId,
-                        period,
-                        department: body.department,
-                        tower,
-                    },
-                },
-                create: {
-                    companyId: body.companyId,
-                    period,
-                    department: body.department,
-                    tower,
-                    weightPct,
-                    createdById: userId,
-                },
-                update: { weightPct },
-            });
-
-        const [a, c, e] = await Promise.all([
-            upsert('APP_DEV', body.weights.APP_DEV),
-            upsert('CLOUD', body.weights.CLOUD),
-            upsert('END_USER', body.weights.END_USER),
-        ]);
-        return [a, c, e];
-    });
+    // Replace the cost pool's split in one transaction
+    const result = await retryOnUniqueViolation(() => prisma.$transaction(async (tx) => {
+        await tx.l2AllocationWeight.deleteMany({
+            where: {
+                companyId: body.companyId,
+                period,
+                granularity,
+                costPoolId: body.costPoolId,
+                initiativeId,
+                tower: { notIn: entries.map(([tower]) => tower) },
+            },
+        });
+
+        return Promise.all(entries.map(([tower, weightPct]) =>
+            saveWeight(tx, { companyId: body.companyId, period, granularity, costPoolId: body.costPoolId, initiativeId, tower }, weightPct, userId)
+        ));
+    }));
 
     return res.json({ ok: true, rows: result });
 });
@@ -1,153 +1,198 @@
 
-import { Router } from "express";
 import { z } from "zod";
 import { prisma } from "../prisma.js";
-import { auth } from "../middleware/auth.js";
-
-const r = Router();
-
+import { tenantRouter } from "../middleware/tenant.js";
+import { canAccessCompany } from "../middleware/rbac.js";
+import { loadTaxonomy } from "../utils/taxonomy.js";
+import { initiativeIdSchema, periodSchema, taxonomyCodeSchema } from "../utils/validators.js";
+import { resolvePeriod, type PeriodGranularity } from "../utils/period.js";
+import { periodLockError } from "../utils/periodLocks.js";
+import { findCompanyInitiative, initiativeFromQuery } from "../utils/initiatives.js";
+import { retryOnUniqueViolation } from "../utils/prismaErrors.js";
+import type { Prisma } from "@prisma/client";
+
+const r = tenantRouter();
 
 const l3Schema = z.object({
     companyId: z.string().min(1),
 
-    period: z.string().regex(/^\d{4}-\d{2}(-\d{2})?$/, "Use YYYY-MM or YYYY-MM-01"),
-    category: z.enum(["PRODUCTIVITY", "REVENUE_UPLIFT"] as const),
+    period: periodSchema,
+    initiativeId: initiativeIdSchema,
+    category: taxonomyCodeSchema, // company benefit category code
     weightPct: z.number().min(0).max(1),
 });
 
 
 const l3BatchSchema = z.object({
     companyId: z.string().min(1),
-    period: z.string().regex(/^\d{4}-\d{2}(-\d{2})?$/, 'Use YYYY-MM or YYYY-MM-01'),
-    weights: z.object({
-        PRODUCTIVITY: z.number().min(0).max(1),
-        REVENUE_UPLIFT: z.number().min(0).max(1),
-    }),
+    period: periodSchema,
+    initiativeId: initiativeIdSchema,
+    // any subset of categories; omitted categories are cleared for the period
+    weights: z.record(taxonomyCodeSchema, z.number().min(0).max(1))
+        .refine(w => Object.keys(w).length > 0, 'At least one benefit category is required'),
 });
 
-function toPeriodDate(p: string) {
-    const iso = /^\d{4}-\d{2}$/.test(p) ? `${p}-01` : p;
-    return new Date(iso + "T00:00:00.000Z");
+// Category codes that aren't active in the company's taxonomy
+async function unknownCategories(companyId: string, categories: string[]) {
+    const taxonomy = await loadTaxonomy(companyId);
+    return categories.filter(code => {
+        const category = taxonomy.benefitCategories.get(code);
+        return !category || category.archived;
+    });
 }
 
+type WeightKey = { companyId: string; period: Date; granularity: PeriodGranularity; initiativeId: string | null; category: string };
+
+// findFirst rather than upsert: company-wide rows have a null initiativeId. Callers retry on a
+// unique violation, which means a concurrent request created the row first
+async function saveWeight(db: Prisma.TransactionClient, key: WeightKey, weightPct: number, createdById?: string) {
+    const existing = await db.l3BenefitWeight.findFirst({ where: key });
+    return existing
+        ? db.l3BenefitWeight.update({ where: { id: existing.id }, data: { weightPct } })
+        : db.l3BenefitWeight.create({ data: { ...key, weightPct, createdById } });
+}
 
-r.get("/:companyId/:period", auth(), async (req, res) => {
-    const { companyId, period } = req.params;
 
+r.get("/:companyId/:period", async (req, res) => {
+    const { companyId } = req.params;
 
-    if (req.user?.role !== "ADMIN" && req.user?.companyId !== companyId) {
+
+    if (!canAccessCompany(req.user, companyId, "data:read")) {
         return res.status(403).json({ error: "Forbidden" });
     }
 
-    const rows = await prisma.l3BenefitWeight.findMany({
-        where: { companyId, period: toPeriodDate(period) },
-        orderBy: { category: "asc" },
-    });
+    const label = periodSchema.safeParse(req.params.period);
+    if (!label.success) {
+        return res.status(400).json({ error: label.error.flatten() });
+    }
 
-    res.json(rows);
+    const period = await resolvePeriod(companyId, label.data);
+    const [rows, taxonomy] = await Promise.all([
+        prisma.l3BenefitWeight.findMany({
+            where: { companyId, period: period.start, granularity: period.granularity, initiativeId: initiativeFromQuery(req.query.initiativeId) },
+            orderBy: { category: "asc" },
+        }),
+        loadTaxonomy(companyId),
+    ]);
+
+    res.json(rows.map(row => {
+        const category = taxonomy.benefitCategories.get(row.category);
+        return {
+            ...row,
+            categoryName: category?.name ?? row.category,
+            categoryDescription: category?.description ?? null,
+            standardCategory: category?.standardCategory ?? "OTHER",
+        };
+    }));
 });
 
 
-r.post("/", auth(), async (req, res) => {
+r.post("/", async (req, res) => {
     const parsed = l3Schema.safeParse(req.body);
     if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.flatten() });
     } 
     const body = parsed.data;
 
-    if (req.user?.role !== "ADMIN" && req.user?.companyId !== body.companyId) {
+    if (!canAccessCompany(req.user, body.companyId, "data:write")) {
         return res.status(403).json({ error: "Forbidden" });
     }
 
-    const period = toPeriodDate(body.period);
-  // tolerate either id or userId on req.user
-    const userId = (req.user as any)?.id ?? (req.user as any)?.userId ?? undefined;
+    if ((await unknownCategories(body.companyId, [body.category])).length > 0) {
+        return res.status(400).json({ error: `Unknown benefit category ${body.category} for this company` });
+    }
 
-  // Upsert (accepts number for Decimal columns)
-    const created = await prisma.l3BenefitWeight.upsert({
-        where: {
-            companyId_period_category: {
-                companyId: body.companyId,
-                period,
-                category: body.category,
-            },
-    },
-        create: {
-            companyId: body.companyId,
-            period,
-            category: body.category,
-            weightPct: body.weightPct,
-            createdById: userId,
-        },
-        update: {
-            weightPct: body.weightPct,
-    },
-    });
+    const initiativeId = body.initiativeId ?? null;
+    if (initiativeId && !(await findCompanyInitiative(body.companyId, initiativeId))) {
+        return res.status(400).json({ error: "Unknown initiative for this company" });
+    }
+
+    const { start: period, granularity } = await resolvePeriod(body.companyId, body.period);
 
-  // Validate total weights across categories ~= 1.0
+    const lockError = await periodLockError(body.companyId, period, granularity);
+    if (lockError) {
+        return res.status(409).json({ error: lockError });
+    }
+    const userId = req.user!.userId;
+
+  // A single category can't tell whether the split is complete, so only reject over-allocation;
+  // the batch endpoint requires the full 1.0. The sum uses the new weight in place of the stored one
     const rows = await prisma.l3BenefitWeight.findMany({
-        where: { companyId: body.companyId, period },
+        where: { companyId: body.companyId, period, granularity, initiativeId },
     });
-    type L3Row = typeof rows[number]; 
-    
 
-    if (rows.length >= 2) {
-        const sum = rows.reduce((acc: number, row: L3Row) => acc + Number(row.weightPct), 0);
-
-        if (sum < 0.9999 || sum > 1.0001) {
-            return res.status(400).json({ 
-                error: `L3 weights must sum to 1.0 (current sum: ${sum.toFixed(3)})` 
-            });
-        }
+    const sum = rows.reduce((acc, row) => row.category === body.category ? acc : acc + Number(row.weightPct), body.weightPct);
+    if (sum > 1.0001) {
+        return res.status(400).json({ 
+            error: `L3 weights must sum to 1.0 (current sum: ${sum.toFixed(3)})` 
+        });
     }
 
+  // Upsert (accepts number for Decimal columns)
+    const created = await retryOnUniqueViolation(() => saveWeight(prisma, {
+        companyId: body.companyId,
+        period,
+        granularity,
+        initiativeId,
+        category: body.category,
+    }, body.weightPct, userId));
+
     res.json(created);
 });
 
 export default r;
 
-//upsert two weights atomically
-r.post('/batch', auth(), async (req, res) => {
+//upsert the full set of category weights atomically
+r.post('/batch', async (req, res) => {
     const parsed = l3BatchSchema.safeParse(req.body);
     if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.flatten() });
     }
     const body = parsed.data;
 
-    if (req.user?.role !== 'ADMIN' && req.user?.companyId !== body.companyId) {
+    if (!canAccessCompany(req.user, body.companyId, 'data:write')) {
         return res.status(403).json({ error: 'Forbidden' });
     }
 
-    const period = new Date((/^\d{4}-\d{2}$/.test(body.period) ? `${body.period}-01` : body.period) + 'T00:00:00.000Z');
-    const userId = (req.user as any)?.id ?? (req.user as any)?.userId ?? undefined;
+    const initiativeId = body.initiativeId ?? null;
+    if (initiativeId && !(await findCompanyInitiative(body.companyId, initiativeId))) {
+        return res.status(400).json({ error: 'Unknown initiative for this company' });
+    }
+
+    const { start: period, granularity } = await resolvePeriod(body.companyId, body.period);
+
+    const lockError = await periodLockError(body.companyId, period, granularity);
+    if (lockError) {
+        return res.status(409).json({ error: lockError });
+    }
+    const userId = req.user!.userId;
+
+    const entries = Object.entries(body.weights);
+    const unknown = await unknownCategories(body.companyId, entries.map(([category]) => category));
+    if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown benefit categories for this company: ${unknown.join(', ')}` });
+    }
 
-    const sum = Number(body.weights.PRODUCTIVITY) + Number(body.weights.REVENUE_UPLIFT);
+    const sum = entries.reduce((acc, [, weightPct]) => acc + Number(weightPct), 0);
     if (Math.abs(sum - 1) >= 0.0001) {
         return res.status(400).json({ error: `L3 weights must sum to 1.0 (current sum: ${sum.toFixed(3)})` });
     }
 
-    const result = await prisma.$transaction(async (tx) => {
-        const upsert = async (category: 'PRODUCTIVITY' | 'REVENUE_UPLIFT', weightPct: number) =>
-            tx.l3BenefitWeight.upsert({
-                where: {
-                    companyId_period_category: { companyId: body.companyId, period, category },
-                },
-                create: {
-                    companyId: body.companyId,
-                    period,
-                    category,
-                    weightPct,
-                    createdById: userId,
-                },
-                update: { weightPct },
-            });
-
-        const [p, r] = await Promise.all([
-            upsert('PRODUCTIVITY', body.weights.PRODUCTIVITY),
-            upsert('REVENUE_UPLIFT', body.weights.REVENUE_UPLIFT),
-        ]);
-        return [p, r];
-    });
+    const result = await retryOnUniqueViolation(() => prisma.$transaction(async (tx) => {
+        await tx.l3BenefitWeight.deleteMany({
+            where: {
+                companyId: body.companyId,
+                period,
+                granularity,
+                initiativeId,
+                category: { notIn: entries.map(([category]) => category) },
+            },
+        });
+
+        return Promise.all(entries.map(([category, weightPct]) =>
+            saveWeight(tx, { companyId: body.companyId, period, granularity, initiativeId, category }, weightPct, userId)
+        ));
+    }));
 
     return res.json({ ok: true, rows: result });
 });
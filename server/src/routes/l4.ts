@@ -1,229 +1,229 @@
-import { Router, type RequestHandler, type Request, type Response } from 'express';
+import { type RequestHandler, type Request, type Response } from 'express';
 import { z } from 'zod';
 import { prisma } from '../prisma.js';
-import { auth } from '../middleware/auth.js';
-import type { JwtPayload } from 'jsonwebtoken';
+import { tenantRouter } from '../middleware/tenant.js';
+import { canAccessCompany } from '../middleware/rbac.js';
+import { projectCashflows } from '../utils/finance.js';
+import { calculateRoi, computeRoiPct, type RoiResult } from '../utils/roi.js';
+import { loadRoiInputs } from '../utils/roiData.js';
+import { formatPeriod, getFiscalYearStartMonth, resolvePeriod } from '../utils/period.js';
+import { assumptionDistributionsSchema, costBasisSchema, initiativeIdSchema, periodSchema, roiAssumptionsSchema } from '../utils/validators.js';
+import { runMonteCarlo } from '../utils/simulation.js';
+import { runSensitivity } from '../utils/sensitivity.js';
+import { goalSeek } from '../utils/goalSeek.js';
+import { rollForward } from '../utils/forecast.js';
+import { computeWaterfall } from '../utils/waterfall.js';
+import { blendedRealisation } from '../utils/ramp.js';
+import { loadTaxonomy } from '../utils/taxonomy.js';
+import { depreciationSchedule } from '../utils/depreciation.js';
+import { findCompanyInitiative, initiativeFromQuery } from '../utils/initiatives.js';
+import { convertDistributions, getReportingCurrency, loadFxConverter, MissingFxRateError, MONETARY_ASSUMPTIONS } from '../utils/fx.js';
+import type { ScenarioOverrides } from '../utils/scenarios.js';
+import { retryOnUniqueViolation } from '../utils/prismaErrors.js';
 
-const r = Router();
+const r = tenantRouter();
 
-
-type AuthUser = JwtPayload & {
-  userId: string;
-  role: 'ADMIN' | 'EMPLOYEE' | 'USER' | string;
-  companyId?: string;
-};
+const projectionSchema = z.object({
+  horizonYears: z.number().int().min(1).max(10).default(3),
+  discountRate: z.number().min(0).max(1).default(0.08),
+  costPhasing: z.array(z.number().nonnegative()).max(10).optional(),
+  benefitPhasing: z.array(z.number().nonnegative()).max(10).optional(),
+});
 
 const snapshotSchema = z.object({
   companyId: z.string().min(1),
-  period: z.string().regex(/^\d{4}(-\d{2}(-\d{2})?)?$/, "Use 'YYYY-MM' or 'YYYY-MM-DD'"),
-  assumptions: z.object({
-      revenueUplift: z.number().nonnegative().default(0),
-      productivityGainHours: z.number().nonnegative().default(0),
-      avgLoadedRate: z.number().nonnegative().default(0),
-  }).passthrough(),
+  period: periodSchema,
+  // which L1 amounts the snapshot runs on
+  costBasis: costBasisSchema.default('PLAN'),
+  // cost the initiative's own L1 rows; omitted for the company-wide snapshot
+  initiativeId: initiativeIdSchema,
+  // run a named scenario; its stored assumptions and overrides replace the ones sent
+  scenarioId: z.string().min(1).nullable().optional(),
+  assumptions: roiAssumptionsSchema,
+  projection: projectionSchema.default({}),
 });
-type SnapshotBody = z.infer<typeof snapshotSchema>;
-
-function toPeriod(bodyPeriod: string) {
-  if (/^\d{4}-\d{2}$/.test(bodyPeriod)) return `${bodyPeriod}-01`;
-  return bodyPeriod;
-}
-
-
-function calculateL4Metrics(l1Data: any[], l2Data: any[], l3Data: any[], assumptions: any) {
-  console.log(`[L4-CALC] Starting ROI analysis with data: L1=${l1Data.length}, L2=${l2Data.length}, L3=${l3Data.length}`);
-  
-
-  const totalCosts = l1Data.reduce((sum, item) => sum + Number(item.budget || 0), 0);
-  const totalEmployees = l1Data.reduce((sum, item) => sum + Number(item.employees || 0), 0);
-  
-
-  // Calculate benefits from L2 and L3 data
-  let totalBenefits = 0;
-  
-  // Allocated costs per tower from L2 data
-  const towerAllocations = l2Data.reduce((acc, item) => {
-    const deptCost = l1Data.find(d => d.department === item.department);
-    if (deptCost) {
-      const allocatedAmount = Number(deptCost.budget) * item.weightPct;
-      acc[item.tower] = (acc[item.tower] || 0) + allocatedAmount;
-    }
-    return acc;
-  }, {});
-  
-  // Check required data
-  if (l1Data.length === 0 || l2Data.length === 0 || l3Data.length === 0) {
-    throw new Error('Missing required data for ROI computation. Please complete L1, L2, and L3 data entry before computing ROI.');
-  }
 
-  // Calculate benefits from L3 
-  l3Data.forEach(l3Item => {
-    const category = l3Item.category;
-    const weight = Number(l3Item.weightPct);
-    
-    console.log(`[L4-CALC] Processing L3 category: ${category}, weight: ${weight}`);
-    
-    if (category === 'PRODUCTIVITY') {
-      // Productivity benefits from assumptions
-      const productivityBenefit = (assumptions.productivityGainHours || 0) * (assumptions.avgLoadedRate || 0);
-      const weightedProductivity = productivityBenefit * weight;
-      totalBenefits += weightedProductivity;
-      console.log(`[L4-CALC] Productivity: ${productivityBenefit} * ${weight} = ${weightedProductivity}`);
-    } else if (category === 'REVENUE_UPLIFT') {
-      // Revenue benefits from assumptions
-      const revenueBenefit = (assumptions.revenueUplift || 0);
-      const weightedRevenue = revenueBenefit * weight;
-      totalBenefits += weightedRevenue;
-      console.log(`[L4-CALC] Revenue: ${revenueBenefit} * ${weight} = ${weightedRevenue}`);
-    }
-  });
-  
-  console.log(`[L4-CALC] Using L3 weighted benefits: $${totalBenefits.toLocaleString()}`);
-  console.log(`[L4-CALC] L3 Data:`, l3Data.map(item => ({ category: item.category, weight: Number(item.weightPct) })));
-  console.log(`[L4-CALC] Assumptions:`, assumptions);
-  
-  // ROI calc
-  const netBenefit = totalBenefits - totalCosts;
-  const roi = totalCosts > 0 ? ((totalBenefits - totalCosts) / totalCosts) * 100 : 0;
-  
-  console.log(`[L4-CALC] Analysis - ROI: ${roi.toFixed(1)}%, Total Cost: $${totalCosts.toLocaleString()}, Total Benefit: $${totalBenefits.toLocaleString()}`);
-  console.log(`[L4-CALC] Data counts - L1: ${l1Data.length}, L2: ${l2Data.length}, L3: ${l3Data.length}`);
-  console.log(`[L4-CALC] Assumptions - Revenue: $${assumptions.revenueUplift}, Hours: ${assumptions.productivityGainHours}, Rate: $${assumptions.avgLoadedRate}`);
-  
-  return {
-    totalRevenue: totalBenefits,
-    totalCosts: totalCosts,
-    netBenefit: netBenefit,
-    roi: roi,
-    assumptions,
-    dataCount: { l1: l1Data.length, l2: l2Data.length, l3: l3Data.length },
-    debug: {
-      l1Data: l1Data.map(d => ({ department: d.department, budget: d.budget })),
-      l2Data: l2Data.map(d => ({ department: d.department, tower: d.tower, weight: d.weightPct })),
-      l3Data: l3Data.map(d => ({ category: d.category, weight: d.weightPct })),
-      towerAllocations,
-      calculatedBenefits: totalBenefits
-    }
-  };
-}
-
-
-
-const postSnapshot: RequestHandler<unknown, any, SnapshotBody> = async (req, res) => {
+const simulationSchema = z.object({
+  companyId: z.string().min(1),
+  period: periodSchema,
+  costBasis: costBasisSchema.default('PLAN'),
+  initiativeId: initiativeIdSchema,
+  // point values for anything without a distribution
+  assumptions: roiAssumptionsSchema,
+  distributions: assumptionDistributionsSchema,
+  iterations: z.number().int().min(100).max(50000).default(5000),
+  bins: z.number().int().min(5).max(100).default(20),
+  seed: z.number().int().nonnegative().optional(),
+});
+
+const sensitivitySchema = z.object({
+  companyId: z.string().min(1),
+  period: periodSchema,
+  costBasis: costBasisSchema.default('PLAN'),
+  initiativeId: initiativeIdSchema,
+  assumptions: roiAssumptionsSchema,
+  // each input is moved down and up by this percentage in turn
+  flexPct: z.number().gt(0).max(100).default(10),
+});
+
+const goalSeekSchema = z.object({
+  companyId: z.string().min(1),
+  period: periodSchema,
+  costBasis: costBasisSchema.default('PLAN'),
+  initiativeId: initiativeIdSchema,
+  assumptions: roiAssumptionsSchema,
+  // ROI % to hit; 0 is break-even
+  targetRoiPct: z.number().gt(-100).max(10000).default(0),
+  variable: z.discriminatedUnion('layer', [
+    z.object({ layer: z.literal('ASSUMPTION'), field: z.enum(['revenueUplift', 'productivityGainHours', 'avgLoadedRate', 'riskAvoidedValue', 'costAvoided']) }),
+    z.object({ layer: z.literal('L1'), costPool: z.string().min(1) }),
+  ]),
+});
+
+const forecastSchema = z.object({
+  companyId: z.string().min(1),
+  period: periodSchema,
+  costBasis: costBasisSchema.default('PLAN'),
+  initiativeId: initiativeIdSchema,
+  assumptions: roiAssumptionsSchema,
+  // how many periods, at the base period's granularity, to roll forward
+  periods: z.number().int().min(1).max(36).default(12),
+});
+
+
+const postSnapshot: RequestHandler = async (req, res) => {
   try {
-    const { companyId, period, assumptions } = req.body;
-    
-    // Validate input
-    if (!companyId || !period || !assumptions) {
-      return res.status(400).json({
-        error: 'Missing required fields: companyId, period, assumptions'
-      });
+    const parsed = snapshotSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
     }
+    const { companyId, period, costBasis, initiativeId = null, scenarioId = null, projection: projectionOptions } = parsed.data;
+    let { assumptions } = parsed.data;
 
+    if (!canAccessCompany(req.user, companyId, 'data:write')) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
 
-    // Normalize period
-    const normalizedPeriod = toPeriod(period);
-    
-    // Ensure company exists (create if it doesn't)
-    let company = await prisma.company.findUnique({
+    const company = await prisma.company.findUnique({
       where: { id: companyId }
     });
-    
     if (!company) {
-      company = await prisma.company.create({
-        data: {
-          id: companyId,
-          name: companyId,
-          domain: `${companyId}.com`
-        }
-      });
+      return res.status(404).json({ error: 'Company not found' });
     }
 
-    // Fetch L1, L2, L3 data
-    const [l1Data, l2Data, l3Data] = await Promise.all([
-      prisma.l1OperationalInput.findMany({
-        where: { 
-          companyId, 
-          period: new Date(normalizedPeriod)
-        }
-      }),
-      prisma.l2AllocationWeight.findMany({
-        where: { 
-          companyId, 
-          period: new Date(normalizedPeriod)
-        }
-      }),
-      prisma.l3BenefitWeight.findMany({
-        where: { 
-          companyId, 
-          period: new Date(normalizedPeriod)
-        }
-      })
-    ]);
+    const snapshotPeriod = await resolvePeriod(companyId, period);
+
+    if (initiativeId && !(await findCompanyInitiative(companyId, initiativeId))) {
+      return res.status(400).json({ error: 'Unknown initiative for this company' });
+    }
+
+    let overrides: ScenarioOverrides | null = null;
+    if (scenarioId) {
+      const scenario = await prisma.scenario.findUnique({ where: { id: scenarioId } });
+      if (
+        !scenario ||
+        scenario.companyId !== companyId ||
+        scenario.period.getTime() !== snapshotPeriod.start.getTime() ||
+        scenario.granularity !== snapshotPeriod.granularity
+      ) {
+        return res.status(400).json({ error: 'Unknown scenario for this company and period' });
+      }
+      assumptions = JSON.parse(scenario.assumptions);
+      overrides = scenario.overrides ? JSON.parse(scenario.overrides) : null;
+    }
+
+    // Fetch L1, L2, L3 data, rolling months up into quarters and years
+    const { inputs, sources, costTypes, currency } = await loadRoiInputs(companyId, snapshotPeriod, assumptions, { basis: costBasis, initiativeId, overrides });
 
     // Calculate L4 metrics
-    let l4Metrics;
+    let l4Metrics: RoiResult;
     try {
-      l4Metrics = calculateL4Metrics(l1Data, l2Data, l3Data, assumptions);
+      l4Metrics = calculateRoi(inputs);
     } catch (error) {
       return res.status(400).json({
         error: error instanceof Error ? error.message : 'Failed to calculate L4 metrics',
         details: {
-          l1Count: l1Data.length,
-          l2Count: l2Data.length,
-          l3Count: l3Data.length
+          l1Count: inputs.l1.length,
+          l2Count: inputs.l2.length,
+          l3Count: inputs.l3.length
         }
       });
     }
 
+    const waterfall = computeWaterfall(inputs);
 
-    const existingSnapshot = await prisma.l4RoiSnapshot.findFirst({
-      where: {
-        companyId,
-        period: new Date(normalizedPeriod)
-      }
-    });
-    
-    let snapshot;
-    if (existingSnapshot) {
-      snapshot = await prisma.l4RoiSnapshot.update({
-        where: { id: existingSnapshot.id },
-        data: {
-          assumptions: JSON.stringify(assumptions),
-          totalCost: l4Metrics.totalCosts,
-          totalBenefit: l4Metrics.totalRevenue,
-          roiPct: l4Metrics.roi
-        }
-      });
-    } else {
-      snapshot = await prisma.l4RoiSnapshot.create({
-        data: {
-          companyId,
-          period: new Date(normalizedPeriod),
-          assumptions: JSON.stringify(assumptions),
-          totalCost: l4Metrics.totalCosts,
-          totalBenefit: l4Metrics.totalRevenue,
-          roiPct: l4Metrics.roi
-        }
-      });
+    // phase benefits in by each category's ramp profile
+    const { benefitCategories } = await loadTaxonomy(companyId);
+    const horizonMonths = projectionOptions.horizonYears * 12;
+    const realisation = blendedRealisation(l4Metrics.breakdown.benefitByCategory, benefitCategories, horizonMonths);
+
+    // the period's own capex is depreciated across the horizon instead of being phased like opex
+    const capexSchedule = new Array<number>(horizonMonths).fill(0);
+    for (const asset of costTypes.assets) {
+      depreciationSchedule(asset.amount, asset.lifeMonths, asset.method)
+        .slice(0, horizonMonths)
+        .forEach((charge, m) => { capexSchedule[m] += charge; });
     }
+    const ownCapexCharge = costTypes.assets.reduce((sum, a) => sum + a.chargedInPeriod, 0);
+    const projection = projectCashflows(Math.max(0, l4Metrics.totalCost - ownCapexCharge), l4Metrics.totalBenefit, projectionOptions, { benefitRealisation: realisation, capexSchedule });
+
+    const key = {
+      companyId,
+      period: snapshotPeriod.start,
+      granularity: snapshotPeriod.granularity,
+      costBasis,
+      initiativeId,
+      scenarioId
+    };
+    const values = {
+      assumptions: JSON.stringify(assumptions),
+      currency,
+      totalCost: l4Metrics.totalCost,
+      totalBenefit: l4Metrics.totalBenefit,
+      roiPct: l4Metrics.roiPct,
+      breakdown: JSON.stringify({ inputs, sources, costTypes, waterfall, ...l4Metrics.breakdown }),
+      projection: JSON.stringify(projection),
+      npv: projection.npv,
+      irr: projection.irr,
+      paybackMonths: projection.paybackMonths
+    };
+
+    // findFirst rather than upsert: initiativeId and scenarioId are null for the baseline snapshot.
+    // A unique violation means a concurrent save created it first, so the retry updates that one
+    const snapshot = await retryOnUniqueViolation(async () => {
+      const existing = await prisma.l4RoiSnapshot.findFirst({ where: key });
+      return existing
+        ? prisma.l4RoiSnapshot.update({ where: { id: existing.id }, data: values })
+        : prisma.l4RoiSnapshot.create({ data: { ...key, ...values } });
+    });
 
     res.json({
       id: snapshot.id,
       companyId: snapshot.companyId,
       period: snapshot.period,
+      periodLabel: snapshotPeriod.label,
+      granularity: snapshot.granularity,
+      costBasis: snapshot.costBasis,
+      initiativeId: snapshot.initiativeId,
+      scenarioId: snapshot.scenarioId,
       assumptions: snapshot.assumptions ? JSON.parse(snapshot.assumptions) : null,
+      currency: snapshot.currency,
       totalCost: snapshot.totalCost,
       totalBenefit: snapshot.totalBenefit,
       net: snapshot.totalBenefit - snapshot.totalCost,
       roiPct: snapshot.roiPct,
+      npv: snapshot.npv,
+      irr: snapshot.irr,
+      paybackMonths: snapshot.paybackMonths,
+      projection: snapshot.projection ? JSON.parse(snapshot.projection) : null,
+      breakdown: snapshot.breakdown ? JSON.parse(snapshot.breakdown) : null,
       createdAt: snapshot.createdAt
     });
 
   } catch (error) {
     console.error('Error in postSnapshot:', error);
     
-    res.status(500).json({
+    res.status(error instanceof MissingFxRateError ? 400 : 500).json({
       error: error instanceof Error ? error.message : 'Internal server error'
     });
   }
@@ -233,24 +233,40 @@ const postSnapshot: RequestHandler<unknown, any, SnapshotBody> = async (req, res
 const getSnapshots: RequestHandler<{ companyId: string }> = async (req, res) => {
   try {
     const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
 
-
-    const snapshots = await prisma.l4RoiSnapshot.findMany({
-      where: { companyId },
-      orderBy: { createdAt: 'desc' },
-      take: 50
-    });
+    const [snapshots, fiscalYearStartMonth] = await Promise.all([
+      prisma.l4RoiSnapshot.findMany({
+        where: { companyId },
+        orderBy: { createdAt: 'desc' },
+        take: 50
+      }),
+      getFiscalYearStartMonth(companyId)
+    ]);
 
     res.json({
       success: true,
-      snapshots: snapshots.map((s: any) => ({
+      snapshots: snapshots.map(s => ({
         id: s.id,
         companyId: s.companyId,
         period: s.period,
+        periodLabel: formatPeriod(s.period, s.granularity, fiscalYearStartMonth),
+        granularity: s.granularity,
+        costBasis: s.costBasis,
+        initiativeId: s.initiativeId,
+        scenarioId: s.scenarioId,
         assumptions: s.assumptions ? JSON.parse(s.assumptions) : null,
+        currency: s.currency,
         totalCost: s.totalCost,
         totalBenefit: s.totalBenefit,
         roiPct: s.roiPct,
+        npv: s.npv,
+        irr: s.irr,
+        paybackMonths: s.paybackMonths,
+        projection: s.projection ? JSON.parse(s.projection) : null,
+        breakdown: s.breakdown ? JSON.parse(s.breakdown) : null,
         createdAt: s.createdAt
       }))
     });
@@ -264,7 +280,349 @@ const getSnapshots: RequestHandler<{ companyId: string }> = async (req, res) =>
 };
 
 
+// Latest snapshot of each initiative for the period, plus their combined ROI
+const getPortfolio: RequestHandler<{ companyId: string; period: string }> = async (req, res) => {
+  try {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const label = periodSchema.safeParse(req.params.period);
+    if (!label.success) {
+      return res.status(400).json({ error: label.error.flatten() });
+    }
+    const basis = costBasisSchema.default('PLAN').safeParse(req.query.costBasis);
+    if (!basis.success) {
+      return res.status(400).json({ error: basis.error.flatten() });
+    }
+
+    const period = await resolvePeriod(companyId, label.data);
+    const snapshots = await prisma.l4RoiSnapshot.findMany({
+      where: {
+        companyId,
+        period: period.start,
+        granularity: period.granularity,
+        costBasis: basis.data,
+        initiativeId: { not: null },
+        scenarioId: null
+      },
+      include: { initiative: { include: { owner: { select: { id: true, name: true, email: true } } } } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    // cancelled initiatives keep their history but aren't part of the portfolio
+    const initiatives = snapshots
+      .filter(s => s.initiative && s.initiative.status !== 'CANCELLED')
+      .map(s => ({
+        snapshotId: s.id,
+        initiative: s.initiative,
+        currency: s.currency,
+        totalCost: s.totalCost,
+        totalBenefit: s.totalBenefit,
+        net: s.totalBenefit - s.totalCost,
+        roiPct: s.roiPct,
+        npv: s.npv,
+        irr: s.irr,
+        paybackMonths: s.paybackMonths,
+        createdAt: s.createdAt
+      }));
+
+    // each snapshot keeps the currency it was taken in, so totals are restated in today's reporting currency
+    const currency = await getReportingCurrency(companyId);
+    const fx = await loadFxConverter(currency);
+    const inReporting = (amount: number, from: string) => fx.convert(amount, from, period.start);
+
+    const totalCost = initiatives.reduce((sum, i) => sum + inReporting(i.totalCost, i.currency), 0);
+    const totalBenefit = initiatives.reduce((sum, i) => sum + inReporting(i.totalBenefit, i.currency), 0);
+    // NPV only adds up when every initiative has a projection
+    const npv = initiatives.every(i => i.npv != null) ? initiatives.reduce((sum, i) => sum + inReporting(i.npv ?? 0, i.currency), 0) : null;
+
+    res.json({
+      companyId,
+      periodLabel: period.label,
+      granularity: period.granularity,
+      costBasis: basis.data,
+      currency,
+      initiatives,
+      portfolio: {
+        initiativeCount: initiatives.length,
+        totalCost,
+        totalBenefit,
+        net: totalBenefit - totalCost,
+        roiPct: computeRoiPct(totalCost, totalBenefit),
+        npv
+      }
+    });
+  } catch (error) {
+    console.error('Error building portfolio:', error);
+    res.status(error instanceof MissingFxRateError ? 400 : 500).json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+
+// Runs the period's inputs through the engine N times with the uncertain assumptions resampled each run
+const postSimulation: RequestHandler = async (req, res) => {
+  try {
+    const parsed = simulationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    if (!canAccessCompany(req.user, body.companyId, 'data:read')) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const initiativeId = body.initiativeId ?? null;
+    if (initiativeId && !(await findCompanyInitiative(body.companyId, initiativeId))) {
+      return res.status(400).json({ error: 'Unknown initiative for this company' });
+    }
+
+    const period = await resolvePeriod(body.companyId, body.period);
+    const { inputs, currency } = await loadRoiInputs(body.companyId, period, body.assumptions, { basis: body.costBasis, initiativeId });
+    const fx = await loadFxConverter(currency);
+    const distributions = convertDistributions(body.distributions, body.assumptions.currency ?? currency, fx, period.start);
+
+    let result;
+    try {
+      result = runMonteCarlo(inputs, distributions, { iterations: body.iterations, bins: body.bins, seed: body.seed });
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to run simulation' });
+    }
+
+    res.json({
+      companyId: body.companyId,
+      periodLabel: period.label,
+      granularity: period.granularity,
+      costBasis: body.costBasis,
+      initiativeId,
+      currency,
+      distributions: body.distributions,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error in postSimulation:', error);
+    res.status(error instanceof MissingFxRateError ? 400 : 500).json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+
+// How far ROI moves when each input is flexed by ±flexPct on its own, largest swing first
+const postSensitivity: RequestHandler = async (req, res) => {
+  try {
+    const parsed = sensitivitySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    if (!canAccessCompany(req.user, body.companyId, 'data:read')) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const initiativeId = body.initiativeId ?? null;
+    if (initiativeId && !(await findCompanyInitiative(body.companyId, initiativeId))) {
+      return res.status(400).json({ error: 'Unknown initiative for this company' });
+    }
+
+    const period = await resolvePeriod(body.companyId, body.period);
+    const { inputs, currency } = await loadRoiInputs(body.companyId, period, body.assumptions, { basis: body.costBasis, initiativeId });
+
+    let result;
+    try {
+      result = runSensitivity(inputs, body.flexPct);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to run sensitivity analysis' });
+    }
+
+    res.json({
+      companyId: body.companyId,
+      periodLabel: period.label,
+      granularity: period.granularity,
+      costBasis: body.costBasis,
+      initiativeId,
+      currency,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error in postSensitivity:', error);
+    res.status(error instanceof MissingFxRateError ? 400 : 500).json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// Value of one free variable that brings the ROI to the target, everything else held as entered
+const postGoalSeek: RequestHandler = async (req, res) => {
+  try {
+    const parsed = goalSeekSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    if (!canAccessCompany(req.user, body.companyId, 'data:read')) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const initiativeId = body.initiativeId ?? null;
+    if (initiativeId && !(await findCompanyInitiative(body.companyId, initiativeId))) {
+      return res.status(400).json({ error: 'Unknown initiative for this company' });
+    }
+
+    const period = await resolvePeriod(body.companyId, body.period);
+    const { inputs, currency } = await loadRoiInputs(body.companyId, period, body.assumptions, { basis: body.costBasis, initiativeId });
+
+    let result;
+    try {
+      result = goalSeek(inputs, body.variable, body.targetRoiPct);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to solve for the target' });
+    }
+
+    // a monetary assumption is answered in the currency it was entered in, so it can be used as-is
+    const { variable } = body;
+    const assumptionCurrency = body.assumptions.currency ?? currency;
+    let valueCurrency = currency;
+    if (variable.layer === 'ASSUMPTION' && (MONETARY_ASSUMPTIONS as readonly string[]).includes(variable.field) && assumptionCurrency !== currency) {
+      const rate = (await loadFxConverter(currency)).convert(1, assumptionCurrency, period.start);
+      const restate = (value: number | null) => value === null ? null : value / rate;
+      result = { ...result, currentValue: result.currentValue / rate, requiredValue: restate(result.requiredValue), change: restate(result.change) };
+      valueCurrency = assumptionCurrency;
+    }
+
+    res.json({
+      companyId: body.companyId,
+      periodLabel: period.label,
+      granularity: period.granularity,
+      costBasis: body.costBasis,
+      initiativeId,
+      currency,
+      valueCurrency,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error in postGoalSeek:', error);
+    res.status(error instanceof MissingFxRateError ? 400 : 500).json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// Rolls the period's inputs forward with cost pool and loaded rate escalation; every point is a forecast
+const postForecast: RequestHandler = async (req, res) => {
+  try {
+    const parsed = forecastSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    if (!canAccessCompany(req.user, body.companyId, 'data:read')) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const initiativeId = body.initiativeId ?? null;
+    if (initiativeId && !(await findCompanyInitiative(body.companyId, initiativeId))) {
+      return res.status(400).json({ error: 'Unknown initiative for this company' });
+    }
+
+    const fiscalYearStartMonth = await getFiscalYearStartMonth(body.companyId);
+    const period = await resolvePeriod(body.companyId, body.period);
+    const [{ inputs, currency }, pools] = await Promise.all([
+      loadRoiInputs(body.companyId, period, body.assumptions, { basis: body.costBasis, initiativeId }),
+      prisma.costPool.findMany({ where: { companyId: body.companyId }, select: { code: true, escalationRate: true } }),
+    ]);
+    const rates = {
+      costPools: Object.fromEntries(pools.map(p => [p.code, p.escalationRate])),
+      avgLoadedRate: body.assumptions.avgLoadedRateEscalation ?? 0,
+    };
+
+    let points;
+    try {
+      points = rollForward(inputs, period, body.periods, rates, fiscalYearStartMonth);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to build the forecast' });
+    }
+
+    res.json({
+      companyId: body.companyId,
+      periodLabel: period.label,
+      granularity: period.granularity,
+      costBasis: body.costBasis,
+      initiativeId,
+      currency,
+      forecast: true,
+      escalation: rates,
+      points
+    });
+  } catch (error) {
+    console.error('Error in postForecast:', error);
+    res.status(error instanceof MissingFxRateError ? 400 : 500).json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+
+// Cost only: pools -> towers -> business units for a period, with each unit's fully loaded cost
+const getWaterfall: RequestHandler<{ companyId: string; period: string }> = async (req, res) => {
+  try {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const label = periodSchema.safeParse(req.params.period);
+    if (!label.success) {
+      return res.status(400).json({ error: label.error.flatten() });
+    }
+    const basis = costBasisSchema.default('PLAN').safeParse(req.query.costBasis);
+    if (!basis.success) {
+      return res.status(400).json({ error: basis.error.flatten() });
+    }
+
+    const initiativeId = initiativeFromQuery(req.query.initiativeId);
+    if (initiativeId && !(await findCompanyInitiative(companyId, initiativeId))) {
+      return res.status(400).json({ error: 'Unknown initiative for this company' });
+    }
+
+    const period = await resolvePeriod(companyId, label.data);
+    const { inputs, sources, currency } = await loadRoiInputs(companyId, period, {}, { basis: basis.data, initiativeId });
+    if (inputs.l1.length === 0) {
+      return res.status(400).json({ error: 'No L1 costs for this period' });
+    }
+
+    res.json({
+      companyId,
+      periodLabel: period.label,
+      granularity: period.granularity,
+      costBasis: basis.data,
+      initiativeId,
+      currency,
+      sources,
+      ...computeWaterfall(inputs)
+    });
+  } catch (error) {
+    console.error('Error in getWaterfall:', error);
+    res.status(error instanceof MissingFxRateError ? 400 : 500).json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
 r.post('/snapshot', postSnapshot);
+r.post('/simulate', postSimulation);
+r.post('/sensitivity', postSensitivity);
+r.post('/goal-seek', postGoalSeek);
+r.post('/forecast', postForecast);
 r.get('/snapshots/:companyId', getSnapshots);
+r.get('/portfolio/:companyId/:period', getPortfolio);
+r.get('/waterfall/:companyId/:period', getWaterfall);
 
 export default r;
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { prisma } from '../prisma.js';
+import { tenantRouter } from '../middleware/tenant.js';
+import { canAccessCompany, requirePermission } from '../middleware/rbac.js';
+import { periodLockSchema } from '../utils/validators.js';
+import { formatPeriod, getFiscalYearStartMonth, resolvePeriod } from '../utils/period.js';
+import { isRecordNotFound, isUniqueViolation } from '../utils/prismaErrors.js';
+
+const r = tenantRouter();
+
+r.get('/:companyId', requirePermission('data:read'), async (req, res) => {
+    const { companyId } = req.params;
+    try {
+        const [locks, fiscalYearStartMonth] = await Promise.all([
+            prisma.periodLock.findMany({
+                where: { companyId },
+                include: { lockedBy: { select: { id: true, name: true } } },
+                orderBy: [{ period: 'desc' }, { granularity: 'asc' }],
+            }),
+            getFiscalYearStartMonth(companyId),
+        ]);
+        res.json(locks.map(lock => ({ ...lock, periodLabel: formatPeriod(lock.period, lock.granularity, fiscalYearStartMonth) })));
+    } catch (error) {
+        console.error('[PERIOD LOCK ERROR] Failed to load period locks:', error);
+        res.status(500).json({ error: 'Failed to load period locks', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.post('/', requirePermission('periods:lock'), async (req, res) => {
+    const parsed = periodLockSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    try {
+        const period = await resolvePeriod(body.companyId, body.period);
+        // the unique key on company, period and granularity turns away a second lock, however concurrent
+        const lock = await prisma.periodLock.create({
+            data: { companyId: body.companyId, period: period.start, granularity: period.granularity, lockedById: req.user!.userId },
+        });
+        res.json({ ...lock, periodLabel: period.label });
+    } catch (error) {
+        if (isUniqueViolation(error)) return res.status(409).json({ error: `${body.period} is already locked` });
+        console.error('[PERIOD LOCK ERROR] Failed to lock period:', error);
+        res.status(500).json({ error: 'Failed to lock period', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.delete('/:id', async (req, res) => {
+    try {
+        const lock = await prisma.periodLock.findUnique({ where: { id: req.params.id } });
+        if (!lock) return res.status(404).json({ error: 'Period lock not found' });
+        if (!canAccessCompany(req.user, lock.companyId, 'periods:lock')) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+
+        await prisma.periodLock.delete({ where: { id: lock.id } });
+        res.json({ success: true });
+    } catch (error) {
+        // a concurrent unlock removed it first
+        if (isRecordNotFound(error)) return res.status(404).json({ error: 'Period lock not found' });
+        console.error('[PERIOD LOCK ERROR] Failed to unlock period:', error);
+        res.status(500).json({ error: 'Failed to unlock period', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+export default r;
@@ -0,0 +1,234 @@
+import type { Response } from 'express';
+import type { L4RoiSnapshot } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { tenantRouter } from '../middleware/tenant.js';
+import { canAccessCompany } from '../middleware/rbac.js';
+import { resolvePeriod } from '../utils/period.js';
+import { loadTaxonomy } from '../utils/taxonomy.js';
+import { initiativeFromQuery } from '../utils/initiatives.js';
+import { serializeScenario, unknownOverrideCodes, type ScenarioOverrides } from '../utils/scenarios.js';
+import { costBasisSchema, periodSchema, scenarioSchema, scenarioUpdateSchema } from '../utils/validators.js';
+import { MissingFxRateError } from '../utils/fx.js';
+import { isUniqueViolation } from '../utils/prismaErrors.js';
+
+const r = tenantRouter();
+
+async function invalidOverrides(companyId: string, overrides: ScenarioOverrides) {
+    const [pools, taxonomy] = await Promise.all([
+        prisma.costPool.findMany({ where: { companyId, archived: false }, select: { code: true } }),
+        loadTaxonomy(companyId),
+    ]);
+    const unknown = unknownOverrideCodes(overrides, new Set(pools.map(p => p.code)), taxonomy);
+    return unknown.length > 0 ? `Unknown codes in overrides: ${unknown.join(', ')}` : null;
+}
+
+// A name taken by a concurrent save is a conflict and a missing FX rate a bad request; anything else is ours
+function sendError(res: Response, error: unknown, action: string) {
+    if (isUniqueViolation(error)) return res.status(409).json({ error: 'A scenario with this name already exists for this period' });
+    if (error instanceof MissingFxRateError) return res.status(400).json({ error: error.message });
+    console.error(`[SCENARIO ERROR] Failed to ${action}:`, error);
+    res.status(500).json({ error: `Failed to ${action}`, details: error instanceof Error ? error.message : 'Unknown error' });
+}
+
+// The figures compared side by side; inputs and breakdowns stay on the snapshot endpoints
+function summarize(snapshot: L4RoiSnapshot | undefined) {
+    if (!snapshot) return null;
+    return {
+        id: snapshot.id,
+        currency: snapshot.currency,
+        totalCost: snapshot.totalCost,
+        totalBenefit: snapshot.totalBenefit,
+        net: snapshot.totalBenefit - snapshot.totalCost,
+        roiPct: snapshot.roiPct,
+        npv: snapshot.npv,
+        irr: snapshot.irr,
+        paybackMonths: snapshot.paybackMonths,
+        createdAt: snapshot.createdAt,
+    };
+}
+
+r.get('/:companyId/:period', async (req, res) => {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const label = periodSchema.safeParse(req.params.period);
+    if (!label.success) {
+        return res.status(400).json({ error: label.error.flatten() });
+    }
+
+    try {
+        const period = await resolvePeriod(companyId, label.data);
+        const scenarios = await prisma.scenario.findMany({
+            where: { companyId, period: period.start, granularity: period.granularity },
+            orderBy: [{ kind: 'asc' }, { name: 'asc' }],
+        });
+        res.json(scenarios.map(serializeScenario));
+    } catch (error) {
+        sendError(res, error, 'load scenarios');
+    }
+});
+
+// Baseline (stored data) next to the latest snapshot of every scenario for the period
+r.get('/:companyId/:period/comparison', async (req, res) => {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const label = periodSchema.safeParse(req.params.period);
+    if (!label.success) {
+        return res.status(400).json({ error: label.error.flatten() });
+    }
+    const basis = costBasisSchema.default('PLAN').safeParse(req.query.costBasis);
+    if (!basis.success) {
+        return res.status(400).json({ error: basis.error.flatten() });
+    }
+    const initiativeId = initiativeFromQuery(req.query.initiativeId);
+
+    try {
+        const period = await resolvePeriod(companyId, label.data);
+        const [scenarios, snapshots] = await Promise.all([
+            prisma.scenario.findMany({
+                where: { companyId, period: period.start, granularity: period.granularity },
+                orderBy: [{ kind: 'asc' }, { name: 'asc' }],
+            }),
+            prisma.l4RoiSnapshot.findMany({
+                where: { companyId, period: period.start, granularity: period.granularity, costBasis: basis.data, initiativeId },
+                orderBy: { createdAt: 'desc' },
+            }),
+        ]);
+
+        res.json({
+            companyId,
+            periodLabel: period.label,
+            granularity: period.granularity,
+            costBasis: basis.data,
+            initiativeId,
+            baseline: summarize(snapshots.find(s => s.scenarioId === null)),
+            scenarios: scenarios.map(scenario => ({
+                scenario: serializeScenario(scenario),
+                snapshot: summarize(snapshots.find(s => s.scenarioId === scenario.id)),
+            })),
+        });
+    } catch (error) {
+        sendError(res, error, 'compare scenarios');
+    }
+});
+
+r.post('/', async (req, res) => {
+    const parsed = scenarioSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    if (!canAccessCompany(req.user, body.companyId, 'data:write')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        if (body.overrides) {
+            const error = await invalidOverrides(body.companyId, body.overrides);
+            if (error) return res.status(400).json({ error });
+        }
+
+        const period = await resolvePeriod(body.companyId, body.period);
+        const existing = await prisma.scenario.findUnique({
+            where: {
+                companyId_period_granularity_name: {
+                    companyId: body.companyId,
+                    period: period.start,
+                    granularity: period.granularity,
+                    name: body.name,
+                },
+            },
+        });
+        if (existing) {
+            return res.status(400).json({ error: `Scenario ${body.name} already exists for ${period.label}` });
+        }
+
+        const created = await prisma.scenario.create({
+            data: {
+                companyId: body.companyId,
+                period: period.start,
+                granularity: period.granularity,
+                name: body.name,
+                kind: body.kind,
+                description: body.description,
+                assumptions: JSON.stringify(body.assumptions),
+                overrides: body.overrides ? JSON.stringify(body.overrides) : null,
+            },
+        });
+        res.json(serializeScenario(created));
+    } catch (error) {
+        sendError(res, error, 'create scenario');
+    }
+});
+
+// Changing a scenario leaves its snapshot as it was until it's recomputed
+r.put('/:id', async (req, res) => {
+    const parsed = scenarioUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    try {
+        const scenario = await prisma.scenario.findUnique({ where: { id: req.params.id } });
+        if (!scenario) return res.status(404).json({ error: 'Scenario not found' });
+
+        if (!canAccessCompany(req.user, scenario.companyId, 'data:write')) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+
+        if (body.overrides) {
+            const error = await invalidOverrides(scenario.companyId, body.overrides);
+            if (error) return res.status(400).json({ error });
+        }
+
+        if (body.name && body.name !== scenario.name) {
+            const clash = await prisma.scenario.findFirst({
+                where: { companyId: scenario.companyId, period: scenario.period, granularity: scenario.granularity, name: body.name },
+            });
+            if (clash) return res.status(400).json({ error: `Scenario ${body.name} already exists for this period` });
+        }
+
+        const updated = await prisma.scenario.update({
+            where: { id: scenario.id },
+            data: {
+                name: body.name,
+                kind: body.kind,
+                description: body.description,
+                assumptions: body.assumptions ? JSON.stringify(body.assumptions) : undefined,
+                overrides: body.overrides === undefined ? undefined : body.overrides && JSON.stringify(body.overrides),
+            },
+        });
+        res.json(serializeScenario(updated));
+    } catch (error) {
+        sendError(res, error, 'update scenario');
+    }
+});
+
+r.delete('/:id', async (req, res) => {
+    try {
+        const scenario = await prisma.scenario.findUnique({ where: { id: req.params.id } });
+        if (!scenario) return res.status(404).json({ error: 'Scenario not found' });
+
+        if (!canAccessCompany(req.user, scenario.companyId, 'data:write')) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+
+        // a scenario's snapshots mean nothing without it
+        await prisma.$transaction([
+            prisma.l4RoiSnapshot.deleteMany({ where: { scenarioId: scenario.id } }),
+            prisma.scenario.delete({ where: { id: scenario.id } }),
+        ]);
+        res.json({ success: true });
+    } catch (error) {
+        sendError(res, error, 'delete scenario');
+    }
+});
+
+export default r;
@@ -0,0 +1,238 @@
+import { prisma } from '../prisma.js';
+import { tenantRouter } from '../middleware/tenant.js';
+import { canAccessCompany } from '../middleware/rbac.js';
+import { ensureDefaultTaxonomy, parseIncludes } from '../utils/taxonomy.js';
+import { parseRampCustom } from '../utils/ramp.js';
+import { isUniqueViolation } from '../utils/prismaErrors.js';
+import {
+    companyTowerSchema,
+    companyTowerUpdateSchema,
+    companyBenefitCategorySchema,
+    companyBenefitCategoryUpdateSchema,
+    companyBusinessUnitSchema,
+    companyBusinessUnitUpdateSchema,
+    rampComplete,
+} from '../utils/validators.js';
+
+const r = tenantRouter();
+
+type TowerRow = Awaited<ReturnType<typeof prisma.companyTower.findMany>>[number];
+
+type BenefitCategoryRow = Awaited<ReturnType<typeof prisma.companyBenefitCategory.findMany>>[number];
+
+function toTowerResponse(tower: TowerRow) {
+    return { ...tower, includes: parseIncludes(tower.includes) };
+}
+
+function toBenefitCategoryResponse(category: BenefitCategoryRow) {
+    return { ...category, rampCustom: category.rampCustom ? parseRampCustom(category.rampCustom) : null };
+}
+
+r.get('/:companyId', async (req, res) => {
+    const { companyId } = req.params;
+    if (!canAccessCompany(req.user, companyId, 'data:read')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        const company = await prisma.company.findUnique({ where: { id: companyId } });
+        if (!company) return res.status(404).json({ error: 'Company not found' });
+
+        await ensureDefaultTaxonomy(companyId);
+
+        const where = { companyId, ...(req.query.includeArchived === 'true' ? {} : { archived: false }) };
+        const [towers, benefitCategories, businessUnits] = await Promise.all([
+            prisma.companyTower.findMany({ where, orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }] }),
+            prisma.companyBenefitCategory.findMany({ where, orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }] }),
+            prisma.companyBusinessUnit.findMany({ where, orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }] }),
+        ]);
+
+        res.json({ towers: towers.map(toTowerResponse), benefitCategories: benefitCategories.map(toBenefitCategoryResponse), businessUnits });
+    } catch (error) {
+        console.error('[TAXONOMY ERROR] Failed to load taxonomy:', error);
+        res.status(500).json({ error: 'Failed to load taxonomy', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.post('/towers', async (req, res) => {
+    const parsed = companyTowerSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const { includes, ...body } = parsed.data;
+
+    if (!canAccessCompany(req.user, body.companyId, 'company:configure')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        const existing = await prisma.companyTower.findUnique({
+            where: { companyId_code: { companyId: body.companyId, code: body.code } },
+        });
+        if (existing) {
+            return res.status(400).json({ error: `Tower code ${body.code} is already in use` });
+        }
+
+        const sortOrder = body.sortOrder ?? await prisma.companyTower.count({ where: { companyId: body.companyId } });
+        const created = await prisma.companyTower.create({
+            data: { ...body, sortOrder, includes: includes ? JSON.stringify(includes) : null },
+        });
+        res.json(toTowerResponse(created));
+    } catch (error) {
+        // a concurrent request took the code between the check and the create
+        if (isUniqueViolation(error)) return res.status(409).json({ error: `Tower code ${body.code} is already in use` });
+        console.error('[TAXONOMY ERROR] Failed to create tower:', error);
+        res.status(500).json({ error: 'Failed to create tower', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.put('/towers/:id', async (req, res) => {
+    const parsed = companyTowerUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const { includes, ...changes } = parsed.data;
+
+    try {
+        const tower = await prisma.companyTower.findUnique({ where: { id: req.params.id } });
+        if (!tower) return res.status(404).json({ error: 'Tower not found' });
+
+        if (!canAccessCompany(req.user, tower.companyId, 'company:configure')) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+
+        // Codes are fixed because L2 weights reference them; archive instead of deleting
+        const updated = await prisma.companyTower.update({
+            where: { id: tower.id },
+            data: { ...changes, ...(includes ? { includes: JSON.stringify(includes) } : {}) },
+        });
+        res.json(toTowerResponse(updated));
+    } catch (error) {
+        console.error('[TAXONOMY ERROR] Failed to update tower:', error);
+        res.status(500).json({ error: 'Failed to update tower', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.post('/benefit-categories', async (req, res) => {
+    const parsed = companyBenefitCategorySchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const { rampCustom, ...body } = parsed.data;
+
+    if (!canAccessCompany(req.user, body.companyId, 'company:configure')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        const existing = await prisma.companyBenefitCategory.findUnique({
+            where: { companyId_code: { companyId: body.companyId, code: body.code } },
+        });
+        if (existing) {
+            return res.status(400).json({ error: `Benefit category code ${body.code} is already in use` });
+        }
+
+        const sortOrder = body.sortOrder ?? await prisma.companyBenefitCategory.count({ where: { companyId: body.companyId } });
+        const created = await prisma.companyBenefitCategory.create({
+            data: { ...body, sortOrder, rampCustom: rampCustom ? JSON.stringify(rampCustom) : null },
+        });
+        res.json(toBenefitCategoryResponse(created));
+    } catch (error) {
+        // a concurrent request took the code between the check and the create
+        if (isUniqueViolation(error)) return res.status(409).json({ error: `Benefit category code ${body.code} is already in use` });
+        console.error('[TAXONOMY ERROR] Failed to create benefit category:', error);
+        res.status(500).json({ error: 'Failed to create benefit category', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.put('/benefit-categories/:id', async (req, res) => {
+    const parsed = companyBenefitCategoryUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    try {
+        const category = await prisma.companyBenefitCategory.findUnique({ where: { id: req.params.id } });
+        if (!category) return res.status(404).json({ error: 'Benefit category not found' });
+
+        if (!canAccessCompany(req.user, category.companyId, 'company:configure')) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+
+        const { rampCustom, ...changes } = parsed.data;
+        // check the ramp as it will be saved, since a change may only send some of its fields
+        const ramp = {
+            rampType: changes.rampType ?? category.rampType,
+            rampMonths: changes.rampMonths === undefined ? category.rampMonths : changes.rampMonths,
+            rampCustom: rampCustom === undefined ? parseRampCustom(category.rampCustom) : rampCustom,
+        };
+        if (!rampComplete(ramp)) {
+            return res.status(400).json({ error: 'Linear, S-curve and step ramps need rampMonths; custom ramps need rampCustom' });
+        }
+
+        const updated = await prisma.companyBenefitCategory.update({
+            where: { id: category.id },
+            data: { ...changes, ...(rampCustom !== undefined ? { rampCustom: rampCustom && JSON.stringify(rampCustom) } : {}) },
+        });
+        res.json(toBenefitCategoryResponse(updated));
+    } catch (error) {
+        console.error('[TAXONOMY ERROR] Failed to update benefit category:', error);
+        res.status(500).json({ error: 'Failed to update benefit category', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+// Business units have no defaults; a company without any simply stops its waterfall at towers
+r.post('/business-units', async (req, res) => {
+    const parsed = companyBusinessUnitSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+    const body = parsed.data;
+
+    if (!canAccessCompany(req.user, body.companyId, 'company:configure')) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        const existing = await prisma.companyBusinessUnit.findUnique({
+            where: { companyId_code: { companyId: body.companyId, code: body.code } },
+        });
+        if (existing) {
+            return res.status(400).json({ error: `Business unit code ${body.code} is already in use` });
+        }
+
+        const sortOrder = body.sortOrder ?? await prisma.companyBusinessUnit.count({ where: { companyId: body.companyId } });
+        const created = await prisma.companyBusinessUnit.create({ data: { ...body, sortOrder } });
+        res.json(created);
+    } catch (error) {
+        // a concurrent request took the code between the check and the create
+        if (isUniqueViolation(error)) return res.status(409).json({ error: `Business unit code ${body.code} is already in use` });
+        console.error('[TAXONOMY ERROR] Failed to create business unit:', error);
+        res.status(500).json({ error: 'Failed to create business unit', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+r.put('/business-units/:id', async (req, res) => {
+    const parsed = companyBusinessUnitUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() });
+    }
+
+    try {
+        const unit = await prisma.companyBusinessUnit.findUnique({ where: { id: req.params.id } });
+        if (!unit) return res.status(404).json({ error: 'Business unit not found' });
+
+        if (!canAccessCompany(req.user, unit.companyId, 'company:configure')) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+
+        // Codes are fixed because business unit weights reference them; archive instead of deleting
+        const updated = await prisma.companyBusinessUnit.update({ where: { id: unit.id }, data: parsed.data });
+        res.json(updated);
+    } catch (error) {
+        console.error('[TAXONOMY ERROR] Failed to update business unit:', error);
+        res.status(500).json({ error: 'Failed to update business unit', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+export default r;
@@ -0,0 +1,76 @@
+import type { AllocationRule, Prisma } from '@prisma/client';
+import type { loadTaxonomy } from './taxonomy.js';
+import type { PeriodGranularity } from './period.js';
+
+type Taxonomy = Awaited<ReturnType<typeof loadTaxonomy>>;
+type PeriodKey = { start: Date; granularity: PeriodGranularity };
+
+export type RuleApplication = {
+    costPoolId: string;
+    period: Date;
+    granularity: PeriodGranularity;
+    // null when the towers in scope have no driver volume, so the pool's weights were left alone
+    weights: Record<string, number> | null;
+};
+
+// Rule with its JSON tower list parsed for responses
+export function serializeRule(rule: AllocationRule) {
+    return { ...rule, towers: rule.towers ? JSON.parse(rule.towers) as string[] : null };
+}
+
+// Active towers a rule splits its pool across
+export function ruleTowers(rule: AllocationRule, taxonomy: Taxonomy): string[] {
+    const scope: string[] = rule.towers ? JSON.parse(rule.towers) : [...taxonomy.towers.keys()];
+    return scope.filter(code => {
+        const tower = taxonomy.towers.get(code);
+        return tower && !tower.archived;
+    });
+}
+
+// Shares of the total rounded to the 4dp weightPct holds, with the rounding remainder on the
+// largest share so the split still sums to exactly 1. Towers with no volume are left out
+export function driverWeights(values: Record<string, number>): Record<string, number> | null {
+    const entries = Object.entries(values).filter(([, value]) => value > 0);
+    const total = entries.reduce((sum, [, value]) => sum + value, 0);
+    if (total <= 0) return null;
+
+    const units = entries.map(([tower, value]) => [tower, Math.round(value / total * 10000)] as const);
+    const largest = units.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+    const remainder = 10000 - units.reduce((sum, [, unit]) => sum + unit, 0);
+    return Object.fromEntries(units.map(([tower, unit]) => [tower, (tower === largest[0] ? unit + remainder : unit) / 10000]));
+}
+
+// Recalculates the company-wide L2 weights of each rule's cost pool for one period from the
+// driver values stored for it. Initiative-specific weights are never touched
+export async function applyAllocationRules(
+    db: Prisma.TransactionClient,
+    companyId: string,
+    period: PeriodKey,
+    rules: AllocationRule[],
+    taxonomy: Taxonomy,
+    createdById?: string,
+): Promise<RuleApplication[]> {
+    const drivers = [...new Set(rules.map(rule => rule.driver))];
+    const rows = await db.driverValue.findMany({
+        where: { companyId, period: period.start, granularity: period.granularity, driver: { in: drivers } },
+    });
+
+    const applied: RuleApplication[] = [];
+    for (const rule of rules) {
+        const scope = new Set(ruleTowers(rule, taxonomy));
+        const values = Object.fromEntries(rows
+            .filter(row => row.driver === rule.driver && scope.has(row.tower))
+            .map(row => [row.tower, Number(row.value)]));
+        const weights = driverWeights(values);
+
+        if (weights) {
+            const key = { companyId, period: period.start, granularity: period.granularity, costPoolId: rule.costPoolId, initiativeId: null };
+            await db.l2AllocationWeight.deleteMany({ where: key });
+            await db.l2AllocationWeight.createMany({
+                data: Object.entries(weights).map(([tower, weightPct]) => ({ ...key, tower, weightPct, createdById })),
+            });
+        }
+        applied.push({ costPoolId: rule.costPoolId, period: period.start, granularity: period.granularity, weights });
+    }
+    return applied;
+}
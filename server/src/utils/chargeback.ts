@@ -0,0 +1,102 @@
+import type { AllocationDriver, ChargebackStatement } from '@prisma/client';
+import type { loadTaxonomy } from './taxonomy.js';
+import type { CostWaterfall } from './waterfall.js';
+
+type Taxonomy = Awaited<ReturnType<typeof loadTaxonomy>>;
+
+// Towers measured by more than one driver are rated by the first one here
+const DRIVER_PREFERENCE: AllocationDriver[] = ['HEADCOUNT', 'TICKETS', 'COMPUTE_HOURS', 'STORAGE_GB'];
+
+export type DriverVolume = { tower: string; driver: AllocationDriver; value: number };
+
+export type StatementLine = {
+    tower: string;
+    towerName: string;
+    standardTower: string;
+    towerCost: number; // the tower's whole cost in the period
+    sharePct: number; // the business unit's share of it, 0..1
+    cost: number;
+    byCostPool: Record<string, number>;
+    // consumption priced at the tower's cost per unit of driver; null when the tower has no driver values
+    driver: AllocationDriver | null;
+    units: number | null;
+    unitRate: number | null;
+};
+
+// One line per tower the business unit consumes, largest first
+export function statementLines(waterfall: CostWaterfall, businessUnit: string, taxonomy: Taxonomy, volumes: DriverVolume[]): StatementLine[] {
+    const lines = new Map<string, StatementLine>();
+    for (const flow of waterfall.flows) {
+        if (flow.businessUnit !== businessUnit || flow.tower === null) continue;
+
+        let line = lines.get(flow.tower);
+        if (!line) {
+            const tower = taxonomy.towers.get(flow.tower);
+            const volume = DRIVER_PREFERENCE
+                .map(driver => volumes.find(v => v.tower === flow.tower && v.driver === driver && v.value > 0))
+                .find(Boolean);
+            const towerCost = waterfall.towers[flow.tower] ?? 0;
+            line = {
+                tower: flow.tower,
+                towerName: tower?.name ?? flow.tower,
+                standardTower: tower?.standardTower ?? 'OTHER',
+                towerCost,
+                sharePct: 0,
+                cost: 0,
+                byCostPool: {},
+                driver: volume?.driver ?? null,
+                units: volume ? volume.value : null, // scaled to the unit's share below
+                unitRate: volume ? towerCost / volume.value : null,
+            };
+            lines.set(flow.tower, line);
+        }
+        line.cost += flow.amount;
+        line.byCostPool[flow.costPool] = (line.byCostPool[flow.costPool] || 0) + flow.amount;
+    }
+
+    return [...lines.values()]
+        .map(line => {
+            const sharePct = line.towerCost > 0 ? line.cost / line.towerCost : 0;
+            return { ...line, sharePct, units: line.units === null ? null : line.units * sharePct };
+        })
+        .sort((a, b) => b.cost - a.cost);
+}
+
+export function serializeStatement(statement: ChargebackStatement) {
+    return { ...statement, lines: JSON.parse(statement.lines) as StatementLine[] };
+}
+
+// Text starting with =, +, - or @ is read as a formula by spreadsheets, so it's prefixed with '
+// to keep names like "=HYPERLINK(...)" inert. Plain numbers, negative amounts included, are left alone
+const csvCell = (value: string | number | null) => {
+    let text = value === null ? '' : String(value);
+    if (/^[=+\-@]/.test(text) && !/^-\d+(\.\d+)?$/.test(text)) text = `'${text}`;
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const money = (n: number) => n.toFixed(2);
+
+export function statementCsv(statement: ReturnType<typeof serializeStatement>): string {
+    const rows: (string | number | null)[][] = [
+        ['Statement', `CB-${String(statement.number).padStart(5, '0')}`],
+        ['Business unit', `${statement.businessUnitName} (${statement.businessUnit})`],
+        ['Period', statement.periodLabel],
+        ['Cost basis', statement.costBasis],
+        ['Currency', statement.currency],
+        ['Issued', statement.createdAt.toISOString()],
+        [],
+        ['Tower', 'Tower code', 'Tower cost', 'Share %', 'Allocated cost', 'Driver', 'Units', 'Unit rate'],
+        ...statement.lines.map(line => [
+            line.towerName,
+            line.tower,
+            money(line.towerCost),
+            (line.sharePct * 100).toFixed(2),
+            money(line.cost),
+            line.driver,
+            line.units === null ? null : line.units.toFixed(2),
+            line.unitRate === null ? null : money(line.unitRate),
+        ]),
+        ['Total', '', '', '', money(statement.totalCost)],
+    ];
+    return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,31 @@
+import type { DepreciationMethod } from '@prisma/client';
+
+// Months since year 0, so period starts can be compared and subtracted
+export function monthIndex(date: Date) {
+    return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+// Monthly depreciation charges over the asset life; they always add up to the full amount.
+// Declining balance is double-declining and switches to straight-line once that charges more,
+// so nothing is left on the books at the end of the life.
+export function depreciationSchedule(amount: number, lifeMonths: number, method: DepreciationMethod): number[] {
+    if (method === 'STRAIGHT_LINE') return new Array<number>(lifeMonths).fill(amount / lifeMonths);
+
+    const schedule: number[] = [];
+    let book = amount;
+    for (let m = 0; m < lifeMonths; m++) {
+        const charge = Math.max(book * (2 / lifeMonths), book / (lifeMonths - m));
+        schedule.push(Math.min(charge, book));
+        book -= schedule[m];
+    }
+    return schedule;
+}
+
+// Charge falling in months [from, to) for an asset acquired in month `acquired`
+export function chargeBetween(schedule: number[], acquired: number, from: number, to: number) {
+    let total = 0;
+    for (let m = Math.max(from, acquired); m < Math.min(to, acquired + schedule.length); m++) {
+        total += schedule[m - acquired];
+    }
+    return total;
+}
@@ -0,0 +1,134 @@
+import { computeRoiPct } from './roi.js';
+
+export type ProjectionInputs = {
+    horizonYears: number;
+    discountRate: number; // annual, 0.08 = 8%
+    costPhasing?: number[]; // multiplier of period cost per year
+    benefitPhasing?: number[]; // multiplier of period benefit per year
+};
+
+export type YearlyCashflow = {
+    year: number;
+    cost: number;
+    benefit: number;
+    net: number;
+    discountedNet: number;
+    realisationPct: number; // average share of the full benefit realised during the year
+    cumulativeRoiPct: number; // ROI on everything spent and earned up to the end of the year
+};
+
+export type ProjectionResult = {
+    horizonYears: number;
+    discountRate: number;
+    costPhasing: number[];
+    benefitPhasing: number[];
+    cashflows: YearlyCashflow[];
+    tco: number; // total cost over the horizon
+    npv: number;
+    irr: number | null;
+    paybackMonths: number | null;
+};
+
+// Fill a phasing array out to the horizon. Costs default to up-front (year 0 only),
+// benefits default to recurring every year.
+function resolvePhasing(phasing: number[] | undefined, horizonYears: number, fallback: (year: number) => number) {
+    return Array.from({ length: horizonYears }, (_, y) => phasing?.[y] ?? fallback(y));
+}
+
+// Year 0 is the investment year and is not discounted
+export function npv(rate: number, cashflows: number[]) {
+    return cashflows.reduce((sum, cf, t) => sum + cf / Math.pow(1 + rate, t), 0);
+}
+
+// Bisection on NPV = 0; null when the cash flows never change sign
+export function irr(cashflows: number[]) {
+    const hasOutflow = cashflows.some(cf => cf < 0);
+    const hasInflow = cashflows.some(cf => cf > 0);
+    if (!hasOutflow || !hasInflow) return null;
+
+    let lo = -0.9999;
+    let hi = 10;
+    let fLo = npv(lo, cashflows);
+    const fHi = npv(hi, cashflows);
+    if (Math.sign(fLo) === Math.sign(fHi)) return null;
+
+    for (let i = 0; i < 200; i++) {
+        const mid = (lo + hi) / 2;
+        const fMid = npv(mid, cashflows);
+        if (Math.abs(fMid) < 1e-7 || hi - lo < 1e-9) return mid;
+        if (Math.sign(fMid) === Math.sign(fLo)) {
+            lo = mid;
+            fLo = fMid;
+        } else {
+            hi = mid;
+        }
+    }
+    return (lo + hi) / 2;
+}
+
+// Costs land at the start of each year, benefits accrue month by month within it
+export function paybackMonths(costs: number[], monthlyBenefits: number[]) {
+    let cumulative = 0;
+    for (let m = 0; m < costs.length * 12; m++) {
+        if (m % 12 === 0) {
+            cumulative -= costs[m / 12];
+            if (cumulative >= 0) return m;
+        }
+        const benefit = monthlyBenefits[m] ?? 0;
+        if (benefit > 0 && cumulative + benefit >= 0) {
+            return m + -cumulative / benefit;
+        }
+        cumulative += benefit;
+    }
+    return null;
+}
+
+export type ProjectionPhasing = {
+    // share of the full benefit realised in each month (see utils/ramp.ts); full from month one when omitted
+    benefitRealisation?: number[];
+    // monthly depreciation of the period's capex, charged as it falls rather than through costPhasing
+    capexSchedule?: number[];
+};
+
+export function projectCashflows(periodCost: number, periodBenefit: number, inputs: ProjectionInputs, phasing: ProjectionPhasing = {}): ProjectionResult {
+    const { horizonYears, discountRate } = inputs;
+    const { benefitRealisation, capexSchedule = [] } = phasing;
+    const costPhasing = resolvePhasing(inputs.costPhasing, horizonYears, y => (y === 0 ? 1 : 0));
+    const benefitPhasing = resolvePhasing(inputs.benefitPhasing, horizonYears, () => 1);
+
+    const realisation = Array.from({ length: horizonYears * 12 }, (_, m) => benefitRealisation?.[m] ?? 1);
+    const monthlyBenefits = realisation.map((r, m) => (periodBenefit / 12) * benefitPhasing[Math.floor(m / 12)] * r);
+
+    const yearSum = (monthly: number[], y: number) => monthly.slice(y * 12, y * 12 + 12).reduce((a, b) => a + b, 0);
+    const costs = costPhasing.map((p, y) => periodCost * p + yearSum(capexSchedule, y));
+    const benefits = costs.map((_, y) => yearSum(monthlyBenefits, y));
+    const nets = costs.map((c, y) => benefits[y] - c);
+
+    let cumulativeCost = 0;
+    let cumulativeBenefit = 0;
+    const cashflows = nets.map((net, y) => {
+        cumulativeCost += costs[y];
+        cumulativeBenefit += benefits[y];
+        return {
+            year: y,
+            cost: costs[y],
+            benefit: benefits[y],
+            net,
+            discountedNet: net / Math.pow(1 + discountRate, y),
+            realisationPct: (yearSum(realisation, y) / 12) * 100,
+            cumulativeRoiPct: computeRoiPct(cumulativeCost, cumulativeBenefit),
+        };
+    });
+
+    return {
+        horizonYears,
+        discountRate,
+        costPhasing,
+        benefitPhasing,
+        cashflows,
+        tco: costs.reduce((a, b) => a + b, 0),
+        npv: npv(discountRate, nets),
+        irr: irr(nets),
+        paybackMonths: paybackMonths(costs, monthlyBenefits),
+    };
+}
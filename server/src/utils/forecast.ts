@@ -0,0 +1,54 @@
+import { calculateRoi, type RoiInputs } from './roi.js';
+import { GRANULARITY_MONTHS, shiftPeriod, type Period } from './period.js';
+
+export type EscalationRates = {
+    // yearly rate per cost pool code; pools without one stay flat
+    costPools: Record<string, number>;
+    avgLoadedRate: number;
+};
+
+export type ForecastPoint = {
+    periodLabel: string;
+    start: Date;
+    step: number; // periods after the base period
+    totalCost: number;
+    totalBenefit: number;
+    net: number;
+    roiPct: number;
+    forecast: true;
+};
+
+// Rates are yearly and compound, so a quarter 18 months out grows by (1 + rate)^1.5
+function escalate(inputs: RoiInputs, rates: EscalationRates, years: number): RoiInputs {
+    const factor = (rate: number) => Math.pow(1 + rate, years);
+    const { avgLoadedRate } = inputs.assumptions;
+    return {
+        ...inputs,
+        l1: inputs.l1.map(d => ({ ...d, budget: d.budget * factor(rates.costPools[d.costPool] ?? 0) })),
+        assumptions: {
+            ...inputs.assumptions,
+            avgLoadedRate: avgLoadedRate === undefined ? undefined : avgLoadedRate * factor(rates.avgLoadedRate),
+        },
+    };
+}
+
+// The base period's inputs rolled forward `steps` periods, with only the escalation rates moving.
+// Weights and the other assumptions are held as entered, so this is a forecast, not a plan
+export function rollForward(inputs: RoiInputs, base: Period, steps: number, rates: EscalationRates, fiscalYearStartMonth = 1): ForecastPoint[] {
+    const yearsPerStep = GRANULARITY_MONTHS[base.granularity] / 12;
+    return Array.from({ length: steps }, (_, i) => {
+        const step = i + 1;
+        const period = shiftPeriod(base, step, fiscalYearStartMonth);
+        const { totalCost, totalBenefit, roiPct } = calculateRoi(escalate(inputs, rates, step * yearsPerStep));
+        return {
+            periodLabel: period.label,
+            start: period.start,
+            step,
+            totalCost,
+            totalBenefit,
+            net: totalBenefit - totalCost,
+            roiPct,
+            forecast: true as const,
+        };
+    });
+}
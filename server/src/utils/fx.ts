@@ -0,0 +1,71 @@
+import { prisma } from '../prisma.js';
+import type { BenefitAssumptions } from './roi.js';
+import type { AssumptionDistributions } from './simulation.js';
+
+// Assumptions held in money; productivity hours are converted through avgLoadedRate
+export const MONETARY_ASSUMPTIONS = ['revenueUplift', 'avgLoadedRate', 'riskAvoidedValue', 'costAvoided'] as const;
+
+// Raised when an amount can't be converted, so routes can answer 400 instead of 500
+export class MissingFxRateError extends Error {}
+
+type Rate = { period: Date; fromCurrency: string; toCurrency: string; rate: number };
+
+export type FxConverter = {
+    currency: string;
+    // reporting-currency value of an amount held in `from`, at the latest rate on or before `at`
+    convert: (amount: number, from: string, at: Date) => number;
+};
+
+const monthLabel = (date: Date) => `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+
+// Rates are looked up against the reporting currency only, either direction; no cross rates
+export async function loadFxConverter(currency: string): Promise<FxConverter> {
+    const rows = await prisma.fxRate.findMany({
+        where: { OR: [{ toCurrency: currency }, { fromCurrency: currency }] },
+        orderBy: { period: 'desc' },
+    });
+    const rates: Rate[] = rows.map(r => ({ period: r.period, fromCurrency: r.fromCurrency, toCurrency: r.toCurrency, rate: Number(r.rate) }));
+
+    return {
+        currency,
+        convert(amount, from, at) {
+            if (from === currency || amount === 0) return amount;
+            const rate = rates.find(r => r.period <= at && (
+                (r.fromCurrency === from && r.toCurrency === currency) ||
+                (r.fromCurrency === currency && r.toCurrency === from)
+            ));
+            if (!rate) throw new MissingFxRateError(`No FX rate between ${from} and ${currency} on or before ${monthLabel(at)}`);
+            return rate.fromCurrency === from ? amount * rate.rate : amount / rate.rate;
+        },
+    };
+}
+
+export async function getReportingCurrency(companyId: string): Promise<string> {
+    const company = await prisma.company.findUnique({ where: { id: companyId }, select: { reportingCurrency: true } });
+    return company?.reportingCurrency ?? 'USD';
+}
+
+// Monetary assumptions restated in the reporting currency; hours pass through unchanged
+export function convertAssumptions<T extends BenefitAssumptions>(assumptions: T, from: string, fx: FxConverter, at: Date): T {
+    const converted = { ...assumptions };
+    for (const field of MONETARY_ASSUMPTIONS) {
+        const value = assumptions[field];
+        if (value !== undefined) converted[field] = fx.convert(value, from, at) as T[typeof field];
+    }
+    return converted;
+}
+
+export function convertDistributions(distributions: AssumptionDistributions, from: string, fx: FxConverter, at: Date): AssumptionDistributions {
+    const converted = { ...distributions };
+    for (const field of MONETARY_ASSUMPTIONS) {
+        const d = distributions[field];
+        if (!d) continue;
+        converted[field] = {
+            ...d,
+            min: fx.convert(d.min, from, at),
+            likely: d.likely === undefined ? undefined : fx.convert(d.likely, from, at),
+            max: fx.convert(d.max, from, at),
+        };
+    }
+    return converted;
+}
@@ -0,0 +1,80 @@
+import { calculateRoi, type BenefitAssumptions, type RoiInputs } from './roi.js';
+
+export type GoalSeekVariable =
+    | { layer: 'L1'; costPool: string }
+    | { layer: 'ASSUMPTION'; field: keyof BenefitAssumptions };
+
+export type GoalSeekResult = {
+    targetRoiPct: number;
+    variable: GoalSeekVariable;
+    currentValue: number;
+    requiredValue: number | null; // null when no value of the variable reaches the target
+    change: number | null;
+    achievable: boolean;
+    reason?: string;
+    // the ROI recalculated with the required value in place
+    result: { totalCost: number; totalBenefit: number; roiPct: number } | null;
+};
+
+function withValue(inputs: RoiInputs, variable: GoalSeekVariable, value: number): RoiInputs {
+    if (variable.layer === 'ASSUMPTION') {
+        return { ...inputs, assumptions: { ...inputs.assumptions, [variable.field]: value } };
+    }
+    // a pool can have several rows after a rollup; the first carries the value and the rest are zeroed
+    const first = inputs.l1.findIndex(d => d.costPool === variable.costPool);
+    return {
+        ...inputs,
+        l1: inputs.l1.map((d, i) => d.costPool !== variable.costPool ? d : { ...d, budget: i === first ? value : 0 }),
+    };
+}
+
+function currentValueOf(inputs: RoiInputs, variable: GoalSeekVariable) {
+    return variable.layer === 'ASSUMPTION'
+        ? inputs.assumptions[variable.field] ?? 0
+        : inputs.l1.filter(d => d.costPool === variable.costPool).reduce((sum, d) => sum + d.budget, 0);
+}
+
+// Benefit is linear in each assumption and cost is linear in each budget, so the target is
+// solved exactly from two evaluations rather than searched for
+export function goalSeek(inputs: RoiInputs, variable: GoalSeekVariable, targetRoiPct: number): GoalSeekResult {
+    if (variable.layer === 'L1' && !inputs.l1.some(d => d.costPool === variable.costPool)) {
+        throw new Error(`Cost pool ${variable.costPool} has no budget in this period`);
+    }
+
+    const currentValue = currentValueOf(inputs, variable);
+    const at0 = calculateRoi(withValue(inputs, variable, 0));
+    const at1 = calculateRoi(withValue(inputs, variable, 1));
+    const factor = 1 + targetRoiPct / 100;
+
+    const unreachable = (reason: string): GoalSeekResult => ({
+        targetRoiPct, variable, currentValue, requiredValue: null, change: null, achievable: false, reason, result: null,
+    });
+
+    let requiredValue: number;
+    if (variable.layer === 'ASSUMPTION') {
+        // benefit needed for the target at today's cost, then how much of the assumption buys it
+        const slope = at1.totalBenefit - at0.totalBenefit;
+        if (slope === 0) return unreachable('This assumption has no effect on benefits with the current L3 weights');
+        requiredValue = (at0.totalCost * factor - at0.totalBenefit) / slope;
+    } else {
+        // cost at which today's benefit gives the target ROI, less what the other pools already cost
+        requiredValue = at0.totalBenefit / factor - at0.totalCost;
+    }
+
+    if (!Number.isFinite(requiredValue) || requiredValue < 0) {
+        return unreachable(variable.layer === 'L1'
+            ? 'Even with no budget in this cost pool the other pools cost too much for the target'
+            : 'The target would need a negative value');
+    }
+
+    const solved = calculateRoi(withValue(inputs, variable, requiredValue));
+    return {
+        targetRoiPct,
+        variable,
+        currentValue,
+        requiredValue,
+        change: requiredValue - currentValue,
+        achievable: true,
+        result: { totalCost: solved.totalCost, totalBenefit: solved.totalBenefit, roiPct: solved.roiPct },
+    };
+}
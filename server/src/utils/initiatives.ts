@@ -0,0 +1,12 @@
+import { prisma } from '../prisma.js';
+
+// The initiative only if it belongs to the company, so ids can't be borrowed across tenants
+export async function findCompanyInitiative(companyId: string, initiativeId: string) {
+    const initiative = await prisma.initiative.findUnique({ where: { id: initiativeId } });
+    return initiative && initiative.companyId === companyId ? initiative : null;
+}
+
+// `?initiativeId=` on GET routes; absent or blank means the company-wide rows
+export function initiativeFromQuery(value: unknown): string | null {
+    return typeof value === 'string' && value.length > 0 ? value : null;
+}
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import type { Invitation, Prisma } from '@prisma/client';
+import { prisma } from '../prisma.js';
+
+export const INVITATION_TTL_DAYS = 7;
+
+// Thrown when a token has expired, been revoked or was already used, including by a concurrent signup
+export class InvitationUnavailableError extends Error {
+    constructor() {
+        super('This invitation is invalid, has expired or has already been used');
+    }
+}
+
+export function hashInvitationToken(token: string) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// The plain token is only ever returned to the inviting admin; the database keeps its hash
+export function newInvitationToken() {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 3600 * 1000);
+    return { token, tokenHash: hashInvitationToken(token), expiresAt };
+}
+
+export function invitationStatus(invitation: Pick<Invitation, 'acceptedAt' | 'revokedAt' | 'expiresAt'>, now = new Date()) {
+    if (invitation.acceptedAt) return 'ACCEPTED' as const;
+    if (invitation.revokedAt) return 'REVOKED' as const;
+    if (invitation.expiresAt <= now) return 'EXPIRED' as const;
+    return 'PENDING' as const;
+}
+
+// The pending invitation a token belongs to, or null
+export async function findPendingInvitation(token: string) {
+    const invitation = await prisma.invitation.findUnique({
+        where: { tokenHash: hashInvitationToken(token) },
+        include: { company: { select: { id: true, name: true } } },
+    });
+    return invitation && invitationStatus(invitation) === 'PENDING' ? invitation : null;
+}
+
+// Accepts the invitation for a user and adds them to its company. Claiming with the pending
+// conditions makes the token single-use under concurrent redemptions
+export async function redeemInvitation(tx: Prisma.TransactionClient, invitation: Invitation, userId: string) {
+    const claimed = await tx.invitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+        data: { acceptedAt: new Date(), acceptedById: userId },
+    });
+    if (claimed.count !== 1) throw new InvitationUnavailableError();
+
+    return tx.membership.upsert({
+        where: { userId_companyId: { userId, companyId: invitation.companyId } },
+        create: { userId, companyId: invitation.companyId, role: invitation.role },
+        update: {},
+    });
+}
+
+// Serialized without the token hash
+export function serializeInvitation({ tokenHash: _tokenHash, ...invitation }: Invitation) {
+    return { ...invitation, status: invitationStatus(invitation) };
+}
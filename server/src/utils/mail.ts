@@ -0,0 +1,96 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { ENV } from '../env.js';
+
+export type MailMessage = {
+    to: string;
+    subject: string;
+    text: string;
+};
+
+// Anything that can deliver a message; MAIL_TRANSPORT picks the one the app uses
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
+
+export type SmtpOptions = {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+    from: string;
+};
+
+export function smtpTransport(options: SmtpOptions): MailTransport {
+    const transporter = nodemailer.createTransport({
+        host: options.host,
+        port: options.port,
+        secure: options.secure,
+        auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+    return {
+        async send(message) {
+            await transporter.sendMail({ from: options.from, ...message });
+        },
+    };
+}
+
+// Writes each message to its own .eml file, for local development without a mail server
+export function fileTransport(dir: string, from: string): MailTransport {
+    return {
+        async send(message) {
+            await fs.mkdir(dir, { recursive: true });
+            const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-z0-9@.-]/gi, '_')}.eml`);
+            const eml = [
+                `From: ${from}`,
+                `To: ${message.to}`,
+                `Subject: ${message.subject}`,
+                `Date: ${new Date().toUTCString()}`,
+                'Content-Type: text/plain; charset=utf-8',
+                '',
+                message.text,
+            ].join('\r\n');
+            await fs.writeFile(file, eml, 'utf8');
+            console.log(`[MAIL] Wrote "${message.subject}" for ${message.to} to ${file}`);
+        },
+    };
+}
+
+export function consoleTransport(): MailTransport {
+    return {
+        async send(message) {
+            console.log(`[MAIL] To: ${message.to}\n[MAIL] Subject: ${message.subject}\n${message.text}`);
+        },
+    };
+}
+
+export function createMailTransport(): MailTransport {
+    switch (ENV.MAIL_TRANSPORT) {
+        case 'smtp':
+            if (!ENV.SMTP_HOST) throw new Error('MAIL_TRANSPORT=smtp needs SMTP_HOST');
+            return smtpTransport({
+                host: ENV.SMTP_HOST,
+                port: ENV.SMTP_PORT,
+                secure: ENV.SMTP_SECURE,
+                user: ENV.SMTP_USER || undefined,
+                pass: ENV.SMTP_PASS || undefined,
+                from: ENV.MAIL_FROM,
+            });
+        case 'file':
+            return fileTransport(path.resolve(ENV.MAIL_DIR), ENV.MAIL_FROM);
+        case 'console':
+            return consoleTransport();
+        default:
+            throw new Error(`Unknown MAIL_TRANSPORT ${ENV.MAIL_TRANSPORT}; use smtp, file or console`);
+    }
+}
+
+let transport: MailTransport | undefined;
+
+// The configured transport, created on first use
+export function mailer(): MailTransport {
+    transport ??= createMailTransport();
+    return transport;
+}
@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+import { ENV } from '../env.js';
+import type { MailMessage } from './mail.js';
+
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+
+// Thrown when a reset token is unknown, has expired or was already used, including by a concurrent reset
+export class PasswordResetUnavailableError extends Error {
+    constructor() {
+        super('This reset link is invalid, has expired or has already been used');
+    }
+}
+
+export function hashResetToken(token: string) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// The plain token only goes out in the email; the database keeps its hash
+export function newResetToken() {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+    return { token, tokenHash: hashResetToken(token), expiresAt };
+}
+
+export function resetEmail(to: string, name: string, token: string): MailMessage {
+    const link = `${ENV.APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+    return {
+        to,
+        subject: 'Reset your TVOT Framework password',
+        text: [
+            `Hi ${name},`,
+            '',
+            'Someone asked to reset the password for your TVOT Framework account. To choose a new one, open this link:',
+            '',
+            link,
+            '',
+            `The link works once and expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. If you didn't ask for a reset, you can ignore this email; your password hasn't changed.`,
+        ].join('\n'),
+    };
+}
@@ -0,0 +1,92 @@
+import { prisma } from '../prisma.js';
+
+export const PERIOD_GRANULARITIES = ['MONTH', 'QUARTER', 'YEAR'] as const;
+export type PeriodGranularity = typeof PERIOD_GRANULARITIES[number];
+
+// start is the first day of the period, end is the first day after it (both UTC)
+export type Period = {
+    label: string;
+    granularity: PeriodGranularity;
+    start: Date;
+    end: Date;
+};
+
+function monthStart(year: number, monthIndex: number) {
+    return new Date(Date.UTC(year, monthIndex, 1));
+}
+
+function addMonths(date: Date, months: number) {
+    return monthStart(date.getUTCFullYear(), date.getUTCMonth() + months);
+}
+
+// First month of fiscal year `fy`, e.g. FY2025 with a July start begins 2024-07-01
+function fiscalYearStart(fy: number, fiscalYearStartMonth: number) {
+    const startYear = fiscalYearStartMonth === 1 ? fy : fy - 1;
+    return monthStart(startYear, fiscalYearStartMonth - 1);
+}
+
+export function parsePeriod(label: string, fiscalYearStartMonth = 1): Period {
+    const month = /^(\d{4})-(\d{2})(-01)?$/.exec(label);
+    if (month) {
+        const start = monthStart(Number(month[1]), Number(month[2]) - 1);
+        return { label: `${month[1]}-${month[2]}`, granularity: 'MONTH', start, end: addMonths(start, 1) };
+    }
+
+    const fiscal = /^FY(\d{4})(?:-Q([1-4]))?$/.exec(label);
+    if (fiscal) {
+        const yearStart = fiscalYearStart(Number(fiscal[1]), fiscalYearStartMonth);
+        if (fiscal[2]) {
+            const start = addMonths(yearStart, (Number(fiscal[2]) - 1) * 3);
+            return { label, granularity: 'QUARTER', start, end: addMonths(start, 3) };
+        }
+        return { label, granularity: 'YEAR', start: yearStart, end: addMonths(yearStart, 12) };
+    }
+
+    throw new Error(`Invalid period: ${label}`); // labels are checked by periodSchema before they get here
+}
+
+// Label for a stored period start, the inverse of parsePeriod
+export function formatPeriod(start: Date, granularity: PeriodGranularity, fiscalYearStartMonth = 1): string {
+    const year = start.getUTCFullYear();
+    const month = start.getUTCMonth() + 1;
+    if (granularity === 'MONTH') return `${year}-${String(month).padStart(2, '0')}`;
+
+    const monthsIntoYear = (month - fiscalYearStartMonth + 12) % 12;
+    const fy = fiscalYearStartMonth === 1 || month < fiscalYearStartMonth ? year : year + 1;
+    if (granularity === 'YEAR') return `FY${fy}`;
+    return `FY${fy}-Q${Math.floor(monthsIntoYear / 3) + 1}`;
+}
+
+export const GRANULARITY_MONTHS: Record<PeriodGranularity, number> = { MONTH: 1, QUARTER: 3, YEAR: 12 };
+
+// First day after the period starting at `start`
+export function periodEnd(start: Date, granularity: PeriodGranularity) {
+    return addMonths(start, GRANULARITY_MONTHS[granularity]);
+}
+
+// The period `steps` periods after (or before, when negative) the one given, at the same granularity
+export function shiftPeriod(period: Period, steps: number, fiscalYearStartMonth = 1): Period {
+    const months = GRANULARITY_MONTHS[period.granularity];
+    const start = addMonths(period.start, steps * months);
+    return { label: formatPeriod(start, period.granularity, fiscalYearStartMonth), granularity: period.granularity, start, end: addMonths(start, months) };
+}
+
+// Finer granularities a period can be rolled up from, coarsest first
+export const ROLLUP_SOURCES: Record<PeriodGranularity, PeriodGranularity[]> = {
+    MONTH: ['MONTH'],
+    QUARTER: ['QUARTER', 'MONTH'],
+    YEAR: ['YEAR', 'QUARTER', 'MONTH'],
+};
+
+export async function getFiscalYearStartMonth(companyId: string) {
+    const company = await prisma.company.findUnique({
+        where: { id: companyId },
+        select: { fiscalYearStartMonth: true },
+    });
+    return company?.fiscalYearStartMonth ?? 1;
+}
+
+// Parse a period label using the company's fiscal calendar
+export async function resolvePeriod(companyId: string, label: string) {
+    return parsePeriod(label, await getFiscalYearStartMonth(companyId));
+}
@@ -0,0 +1,20 @@
+import type { PeriodLock } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { formatPeriod, getFiscalYearStartMonth, periodEnd, type PeriodGranularity } from './period.js';
+
+// The lock covering a period, if any. A lock covers every period that overlaps it: locking a
+// quarter freezes its months, and locking a month freezes its quarter and year rows
+export function coveringLock(locks: PeriodLock[], start: Date, granularity: PeriodGranularity) {
+    const end = periodEnd(start, granularity);
+    return locks.find(l => l.period < end && periodEnd(l.period, l.granularity) > start);
+}
+
+// Why inputs for a period can't change, or null when they can
+export async function periodLockError(companyId: string, start: Date, granularity: PeriodGranularity) {
+    const locks = await prisma.periodLock.findMany({ where: { companyId, period: { lt: periodEnd(start, granularity) } } });
+    const lock = coveringLock(locks, start, granularity);
+    if (!lock) return null;
+
+    const label = formatPeriod(lock.period, lock.granularity, await getFiscalYearStartMonth(companyId));
+    return `${label} is locked; an approver must unlock it before its inputs can change`;
+}
@@ -0,0 +1,26 @@
+import { Prisma } from '@prisma/client';
+
+// A write hit a unique constraint, typically because a concurrent request created the row first;
+// `field` narrows it to constraints on that column
+export function isUniqueViolation(error: unknown, field?: string): boolean {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') return false;
+    const target = error.meta?.target;
+    return !field || (Array.isArray(target) && target.includes(field));
+}
+
+// An update or delete found no row, typically because a concurrent request removed it first
+export function isRecordNotFound(error: unknown): boolean {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+}
+
+// Runs a find-then-create save again when a concurrent request created the same row in between;
+// the second run finds that row and updates it. Wrap whole transactions, since Postgres aborts a
+// transaction on its first failed statement
+export async function retryOnUniqueViolation<T>(save: () => Promise<T>): Promise<T> {
+    try {
+        return await save();
+    } catch (error) {
+        if (!isUniqueViolation(error)) throw error;
+        return save();
+    }
+}
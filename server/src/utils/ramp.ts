@@ -0,0 +1,60 @@
+import type { BenefitRamp } from '@prisma/client';
+
+export type RampProfile = {
+    rampType: BenefitRamp;
+    rampMonths: number | null;
+    rampCustom: string | null; // JSON array of realisation %
+};
+
+// Steepness of the S-curve; 10 gives a slow start, fast middle and slow finish
+const S_CURVE_STEEPNESS = 10;
+
+export function parseRampCustom(rampCustom: string | null): number[] {
+    if (!rampCustom) return [];
+    try {
+        const parsed = JSON.parse(rampCustom);
+        return Array.isArray(parsed) ? parsed.map(Number).filter(Number.isFinite) : [];
+    } catch {
+        return [];
+    }
+}
+
+// Share of the full benefit (0-1) realised in each month of the projection
+export function monthlyRealisation(profile: RampProfile, months: number): number[] {
+    const n = Math.max(1, profile.rampMonths ?? 1);
+    const custom = parseRampCustom(profile.rampCustom);
+    const logistic = (t: number) => 1 / (1 + Math.exp(-S_CURVE_STEEPNESS * (t - 0.5)));
+
+    return Array.from({ length: months }, (_, m) => {
+        switch (profile.rampType) {
+            case 'LINEAR':
+                return Math.min(1, (m + 1) / n);
+            case 'S_CURVE': {
+                // logistic rescaled so it runs from 0 to exactly 1 over the ramp
+                if (m + 1 >= n) return 1;
+                return (logistic((m + 1) / n) - logistic(0)) / (logistic(1) - logistic(0));
+            }
+            case 'STEP':
+                return m + 1 >= n ? 1 : 0;
+            case 'CUSTOM':
+                return custom.length > 0 ? custom[Math.min(m, custom.length - 1)] / 100 : 1;
+            default:
+                return 1;
+        }
+    });
+}
+
+// Realisation of the whole benefit, weighting each category's curve by its share of the benefit
+export function blendedRealisation(benefitByCategory: Record<string, number>, profiles: Map<string, RampProfile>, months: number): number[] {
+    const total = Object.values(benefitByCategory).reduce((a, b) => a + b, 0);
+    const blended = new Array<number>(months).fill(0);
+    if (total <= 0) return blended.fill(1);
+
+    for (const [category, amount] of Object.entries(benefitByCategory)) {
+        const profile = profiles.get(category) ?? { rampType: 'IMMEDIATE', rampMonths: null, rampCustom: null };
+        monthlyRealisation(profile, months).forEach((r, m) => {
+            blended[m] += r * (amount / total);
+        });
+    }
+    return blended;
+}
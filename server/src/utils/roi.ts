@@ -1,48 +1,130 @@
+export type BenefitAssumptions = {
+    revenueUplift?: number;
+    productivityGainHours?: number;
+    avgLoadedRate?: number;
+    riskAvoidedValue?: number;
+    costAvoided?: number;
+};
+
 export type RoiInputs = {
-    l1: { department: string; budget: number }[];
-    l2: { department: string; tower: string; weightPct: number }[];
-    l3: { category: string; weightPct: number }[];
-    benefitAssumptions?: {
-        revenueUplift?: number;
-        productivityGainHours?: number;
-        avgLoadedRate?: number;
-        riskAvoidedValue?: number;
-        costAvoided?: number
+    l1: { costPool: string; budget: number; employees?: number }[]; // costPool is the pool code
+    // tower and category are company codes; the standard values drive valuation and cross-company rollups
+    l2: { costPool: string; tower: string; standardTower?: string; weightPct: number }[];
+    l3: { category: string; standardCategory?: string; weightPct: number }[];
+    // second allocation stage, tower -> business unit; optional because the waterfall may stop at towers
+    businessUnits?: { tower: string; businessUnit: string; weightPct: number }[];
+    assumptions: BenefitAssumptions;
+};
+
+export type TowerAllocationStep = { costPool: string; tower: string; standardTower: string; weightPct: number; amount: number };
+export type BenefitStep = { category: string; standardCategory: string; baseValue: number; weightPct: number; amount: number };
+
+export type RoiResult = {
+    totalCost: number;
+    totalBenefit: number;
+    netBenefit: number;
+    roiPct: number; // percentage, 25 = 25%
+    totalEmployees: number;
+    breakdown: {
+        costPoolCosts: Record<string, number>;
+        towerAllocations: Record<string, number>;
+        standardTowerAllocations: Record<string, number>;
+        allocationSteps: TowerAllocationStep[];
+        unallocatedCost: number;
+        benefitBase: Record<string, number>;
+        benefitByCategory: Record<string, number>;
+        benefitByStandardCategory: Record<string, number>;
+        benefitSteps: BenefitStep[];
     };
 };
-// compute cost function
-export function computeCost(l1: RoiInputs['l1'], l2: RoiInputs['l2']) {
-    const towerCost: Record<string, number> = {};
-    for (const { department, budget } of l1) {
-        const weights = l2.filter(w => w.department === department);
-        const sum = weights.reduce((s, w) => s + w.weightPct, 0);
-        if (sum > 1.0001 || sum < 0.9999) throw new Error(`L2 weights for ${department} must sum to 1`);
-        for (const w of weights) {
-            towerCost[w.tower] = (towerCost[w.tower] || 0) + budget * w.weightPct;
-        }
-    }
-    const totalCost = Object.values(towerCost).reduce((a, b) => a + b, 0);
-    return { totalCost, towerCost };
-}
-// compute beenfit function
-export function computeBenefit(l3: RoiInputs['l3'], assumptions: NonNullable<RoiInputs['benefitAssumptions']>) {
+
+// Value each benefit category would deliver at 100% weight
+export function benefitBaseValues(assumptions: BenefitAssumptions): Record<string, number> {
     const { revenueUplift = 0, productivityGainHours = 0, avgLoadedRate = 0, riskAvoidedValue = 0, costAvoided = 0 } = assumptions;
-    const base: Record<string, number> = {
+    return {
         REVENUE_UPLIFT: revenueUplift,
         PRODUCTIVITY: productivityGainHours * avgLoadedRate,
         RISK_AVOIDANCE: riskAvoidedValue,
         COST_AVOIDANCE: costAvoided,
         OTHER: 0,
     };
-    const sum = l3.reduce((s, w) => s + w.weightPct, 0);
-    if (sum > 1.0001 || sum < 0.9999) throw new Error('L3 benefit weights must sum to 1');
+}
+
+// L1 budgets allocated to towers by L2 weights; any share a cost pool leaves unweighted stays in totalCost
+export function computeCost(l1: RoiInputs['l1'], l2: RoiInputs['l2']) {
+    const costPoolCosts: Record<string, number> = {};
+    const towerAllocations: Record<string, number> = {};
+    const standardTowerAllocations: Record<string, number> = {};
+    const allocationSteps: TowerAllocationStep[] = [];
+    let unallocatedCost = 0;
+
+    for (const { costPool, budget } of l1) {
+        costPoolCosts[costPool] = (costPoolCosts[costPool] || 0) + budget;
+        let allocated = 0;
+        for (const w of l2.filter(w => w.costPool === costPool)) {
+            const amount = budget * w.weightPct;
+            const standardTower = w.standardTower ?? w.tower;
+            towerAllocations[w.tower] = (towerAllocations[w.tower] || 0) + amount;
+            standardTowerAllocations[standardTower] = (standardTowerAllocations[standardTower] || 0) + amount;
+            allocationSteps.push({ costPool, tower: w.tower, standardTower, weightPct: w.weightPct, amount });
+            allocated += amount;
+        }
+        unallocatedCost += budget - allocated;
+    }
+
+    const totalCost = Object.values(costPoolCosts).reduce((a, b) => a + b, 0);
+    return { totalCost, costPoolCosts, towerAllocations, standardTowerAllocations, allocationSteps, unallocatedCost };
+}
+
+export function computeBenefit(l3: RoiInputs['l3'], assumptions: BenefitAssumptions) {
+    const benefitBase = benefitBaseValues(assumptions);
+    const benefitByCategory: Record<string, number> = {};
+    const benefitByStandardCategory: Record<string, number> = {};
+    const benefitSteps: BenefitStep[] = [];
     let totalBenefit = 0;
-    for (const w of l3) totalBenefit += base[w.category] * w.weightPct;
-    return { totalBenefit, baseBreakdown: base };
+
+    for (const { category, standardCategory = category, weightPct } of l3) {
+        const baseValue = benefitBase[standardCategory] ?? 0;
+        const amount = baseValue * weightPct;
+        benefitByCategory[category] = (benefitByCategory[category] || 0) + amount;
+        benefitByStandardCategory[standardCategory] = (benefitByStandardCategory[standardCategory] || 0) + amount;
+        benefitSteps.push({ category, standardCategory, baseValue, weightPct, amount });
+        totalBenefit += amount;
+    }
+
+    return { totalBenefit, benefitBase, benefitByCategory, benefitByStandardCategory, benefitSteps };
 }
 
-export function computeRoi(cost: number, benefit: number) {
-    if (cost <= 0) throw new Error('Cost must be > 0');
-    const roiPct = (benefit - cost) / cost;
-    return roiPct;
-}
\ No newline at end of file
+export function computeRoiPct(cost: number, benefit: number) {
+    return cost > 0 ? ((benefit - cost) / cost) * 100 : 0;
+}
+
+// Single entry point for snapshots and any preview/scenario calculation
+export function calculateRoi(inputs: RoiInputs): RoiResult {
+    const { l1, l2, l3, assumptions } = inputs;
+    if (l1.length === 0 || l2.length === 0 || l3.length === 0) {
+        throw new Error('Missing required data for ROI computation. Please complete L1, L2, and L3 data entry before computing ROI.');
+    }
+
+    const cost = computeCost(l1, l2);
+    const benefit = computeBenefit(l3, assumptions);
+
+    return {
+        totalCost: cost.totalCost,
+        totalBenefit: benefit.totalBenefit,
+        netBenefit: benefit.totalBenefit - cost.totalCost,
+        roiPct: computeRoiPct(cost.totalCost, benefit.totalBenefit),
+        totalEmployees: l1.reduce((sum, d) => sum + (d.employees ?? 0), 0),
+        breakdown: {
+            costPoolCosts: cost.costPoolCosts,
+            towerAllocations: cost.towerAllocations,
+            standardTowerAllocations: cost.standardTowerAllocations,
+            allocationSteps: cost.allocationSteps,
+            unallocatedCost: cost.unallocatedCost,
+            benefitBase: benefit.benefitBase,
+            benefitByCategory: benefit.benefitByCategory,
+            benefitByStandardCategory: benefit.benefitByStandardCategory,
+            benefitSteps: benefit.benefitSteps,
+        },
+    };
+}
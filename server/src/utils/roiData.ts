@@ -0,0 +1,290 @@
+import type { CostBasis, CostType, DepreciationMethod, Prisma } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import type { BenefitAssumptions, RoiInputs } from './roi.js';
+import { loadTaxonomy } from './taxonomy.js';
+import { ROLLUP_SOURCES, type Period, type PeriodGranularity } from './period.js';
+import { applyScenarioOverrides, type ScenarioOverrides } from './scenarios.js';
+import { chargeBetween, depreciationSchedule, monthIndex } from './depreciation.js';
+import { MAX_ASSET_LIFE_MONTHS } from './validators.js';
+import { convertAssumptions, getReportingCurrency, loadFxConverter, type FxConverter } from './fx.js';
+
+// Which stored granularity each layer was read from, and how many periods were rolled up
+export type RollupSource = { granularity: PeriodGranularity; periods: number } | null;
+export type RollupSources = { l1: RollupSource; l2: RollupSource; l3: RollupSource; businessUnits: RollupSource };
+
+type Dated = { period: Date; granularity: PeriodGranularity };
+type L1Row = { costPool: string; budget: number; employees: number };
+type L2Row = { costPool: string; tower: string; standardTower: string; weightPct: number };
+type L3Row = { category: string; standardCategory: string; weightPct: number };
+type BusinessUnitRow = { tower: string; businessUnit: string; weightPct: number };
+
+// Use rows stored at the coarsest granularity available so a quarter entered directly
+// isn't double counted with its months
+function pickSource<T extends Dated>(rows: T[], target: PeriodGranularity) {
+    for (const granularity of ROLLUP_SOURCES[target]) {
+        const matching = rows.filter(r => r.granularity === granularity);
+        if (matching.length > 0) {
+            const periods = new Set(matching.map(r => r.period.getTime())).size;
+            return { rows: matching, source: { granularity, periods } };
+        }
+    }
+    return { rows: [] as T[], source: null };
+}
+
+function groupByPeriod<T extends Dated>(rows: T[]) {
+    const groups = new Map<number, T[]>();
+    for (const row of rows) {
+        const key = row.period.getTime();
+        groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+    return groups;
+}
+
+// Budgets add up; headcount is a level, so it's averaged over the periods a pool reported
+function rollupL1(rows: (L1Row & Dated)[]): L1Row[] {
+    const pools = new Map<string, { budget: number; employees: number; periods: number }>();
+    for (const row of rows) {
+        const pool = pools.get(row.costPool) ?? { budget: 0, employees: 0, periods: 0 };
+        pool.budget += row.budget;
+        pool.employees += row.employees;
+        pool.periods += 1;
+        pools.set(row.costPool, pool);
+    }
+    return [...pools].map(([costPool, p]) => ({
+        costPool,
+        budget: p.budget,
+        employees: Math.round(p.employees / p.periods),
+    }));
+}
+
+// Weights are averaged per cost pool, weighted by that pool's budget in each period
+// so the rolled-up allocation equals the sum of the per-period allocations
+function rollupL2(rows: (L2Row & Dated)[], l1Rows: (L1Row & Dated)[]): L2Row[] {
+    const budgetOf = (period: Date, costPool: string) =>
+        l1Rows.find(r => r.costPool === costPool && r.period.getTime() === period.getTime())?.budget ?? 0;
+
+    const result: L2Row[] = [];
+    const byPool = new Map<string, (L2Row & Dated)[]>();
+    for (const row of rows) byPool.set(row.costPool, [...(byPool.get(row.costPool) ?? []), row]);
+
+    for (const [costPool, poolRows] of byPool) {
+        const periods = groupByPeriod(poolRows);
+        const budgets = new Map([...periods.keys()].map(key => [key, budgetOf(new Date(key), costPool)]));
+        const totalBudget = [...budgets.values()].reduce((a, b) => a + b, 0);
+
+        const towers = new Map<string, { standardTower: string; weight: number }>();
+        for (const [key, periodRows] of periods) {
+            // fall back to a plain average when the pool has no matching budgets
+            const share = totalBudget > 0 ? budgets.get(key)! / totalBudget : 1 / periods.size;
+            for (const row of periodRows) {
+                const tower = towers.get(row.tower) ?? { standardTower: row.standardTower, weight: 0 };
+                tower.weight += row.weightPct * share;
+                towers.set(row.tower, tower);
+            }
+        }
+
+        for (const [tower, t] of towers) {
+            result.push({ costPool, tower, standardTower: t.standardTower, weightPct: t.weight });
+        }
+    }
+    return result;
+}
+
+// Benefit weights are shares of the period's benefit, so a plain average keeps them summing to 1
+function rollupL3(rows: (L3Row & Dated)[]): L3Row[] {
+    const periods = groupByPeriod(rows);
+    const categories = new Map<string, { standardCategory: string; weight: number }>();
+    for (const periodRows of periods.values()) {
+        for (const row of periodRows) {
+            const category = categories.get(row.category) ?? { standardCategory: row.standardCategory, weight: 0 };
+            category.weight += row.weightPct / periods.size;
+            categories.set(row.category, category);
+        }
+    }
+    return [...categories].map(([category, c]) => ({ category, standardCategory: c.standardCategory, weightPct: c.weight }));
+}
+
+// Each tower's split is averaged over the periods it was entered for, so it still sums to 1
+function rollupBusinessUnits(rows: (BusinessUnitRow & Dated)[]): BusinessUnitRow[] {
+    const result: BusinessUnitRow[] = [];
+    const byTower = new Map<string, (BusinessUnitRow & Dated)[]>();
+    for (const row of rows) byTower.set(row.tower, [...(byTower.get(row.tower) ?? []), row]);
+
+    for (const [tower, towerRows] of byTower) {
+        const periods = groupByPeriod(towerRows);
+        const units = new Map<string, number>();
+        for (const periodRows of periods.values()) {
+            for (const row of periodRows) units.set(row.businessUnit, (units.get(row.businessUnit) ?? 0) + row.weightPct / periods.size);
+        }
+        for (const [businessUnit, weightPct] of units) result.push({ tower, businessUnit, weightPct });
+    }
+    return result;
+}
+
+// The L1 amount a calculation runs on; forecasts fall back to plan, while a pool
+// without a recorded actual is left out rather than counted as zero spend
+function basisAmount(row: { budget: Prisma.Decimal; forecast: Prisma.Decimal | null; actual: Prisma.Decimal | null }, basis: CostBasis) {
+    if (basis === 'ACTUAL') return row.actual === null ? null : Number(row.actual);
+    if (basis === 'FORECAST') return Number(row.forecast ?? row.budget);
+    return Number(row.budget);
+}
+
+// An initiative's own weights, or the company-wide ones when it hasn't set any for the layer
+function scopedWeights<T extends { initiativeId: string | null }>(rows: T[], initiativeId: string | null) {
+    const own = rows.filter(r => r.initiativeId === initiativeId);
+    return own.length > 0 || initiativeId === null ? own : rows.filter(r => r.initiativeId === null);
+}
+
+// Capex entered for the period, at full value, with the part of it charged to the period
+export type CapexAsset = { costPool: string; amount: number; lifeMonths: number; method: DepreciationMethod; chargedInPeriod: number };
+
+// How the period's L1 cost splits between expensed opex and capex depreciation
+export type CostTypeSummary = {
+    opex: number;
+    depreciation: number; // charges falling in the period, from this period's capex and earlier
+    capexPurchased: number; // this period's capex at full value
+    assets: CapexAsset[];
+};
+
+type L1Source = {
+    period: Date;
+    granularity: PeriodGranularity;
+    initiativeId: string | null;
+    costPool: { code: string };
+    employees: number;
+    budget: Prisma.Decimal;
+    forecast: Prisma.Decimal | null;
+    actual: Prisma.Decimal | null;
+    currency: string;
+    costType: CostType;
+    assetLifeMonths: number | null;
+    depreciationMethod: DepreciationMethod | null;
+};
+
+// Opex counts in full; capex only by the depreciation that falls inside the period.
+// Amounts are converted at the rate for the row's own month, so capex keeps its historical cost
+function costRow(d: L1Source, basis: CostBasis, period: Period, fx: FxConverter) {
+    const entered = basisAmount(d, basis);
+    if (entered === null) return null;
+    const amount = fx.convert(entered, d.currency, d.period);
+
+    const base = { period: d.period, granularity: d.granularity, costPool: d.costPool.code, employees: d.employees };
+    if (d.costType === 'OPEX' || !d.assetLifeMonths) return { ...base, budget: amount, asset: null };
+
+    const method = d.depreciationMethod ?? 'STRAIGHT_LINE';
+    const charged = chargeBetween(
+        depreciationSchedule(amount, d.assetLifeMonths, method),
+        monthIndex(d.period),
+        monthIndex(period.start),
+        monthIndex(period.end),
+    );
+    return { ...base, budget: charged, asset: { costPool: base.costPool, amount, lifeMonths: d.assetLifeMonths, method, chargedInPeriod: charged } };
+}
+
+export type RoiScope = {
+    basis?: CostBasis;
+    // null or omitted: the company-wide rows that aren't attributed to an initiative
+    initiativeId?: string | null;
+    // a scenario's L1-L3 overrides, applied after the rollup
+    overrides?: ScenarioOverrides | null;
+};
+
+// Load the L1-L3 rows inside a period and roll finer-grained entries up into engine inputs,
+// with every amount converted to the company's reporting currency
+export async function loadRoiInputs(companyId: string, period: Period, assumptions: BenefitAssumptions & { currency?: string }, scope: RoiScope = {}): Promise<{ inputs: RoiInputs; sources: RollupSources; costTypes: CostTypeSummary; currency: string }> {
+    const basis = scope.basis ?? 'PLAN';
+    const initiativeId = scope.initiativeId ?? null;
+    const where = {
+        companyId,
+        period: { gte: period.start, lt: period.end },
+        granularity: { in: ROLLUP_SOURCES[period.granularity] },
+    };
+    // weights may fall back to the company-wide rows, costs never do
+    const weightsWhere = initiativeId === null
+        ? { ...where, initiativeId: null }
+        : { ...where, OR: [{ initiativeId }, { initiativeId: null }] };
+    // capex bought before the period can still be depreciating during it
+    const lookback = new Date(Date.UTC(period.start.getUTCFullYear(), period.start.getUTCMonth() - MAX_ASSET_LIFE_MONTHS, 1));
+    const l1Where = {
+        companyId,
+        initiativeId,
+        granularity: where.granularity,
+        OR: [
+            { period: where.period },
+            { costType: 'CAPEX' as const, period: { gte: lookback, lt: period.start } },
+        ],
+    };
+    const [l1Data, l2Data, l3Data, businessUnitData, taxonomy, currency] = await Promise.all([
+        prisma.l1OperationalInput.findMany({ where: l1Where, include: { costPool: true } }),
+        prisma.l2AllocationWeight.findMany({ where: weightsWhere, include: { costPool: true } }),
+        prisma.l3BenefitWeight.findMany({ where: weightsWhere }),
+        prisma.businessUnitWeight.findMany({ where: weightsWhere }),
+        loadTaxonomy(companyId),
+        getReportingCurrency(companyId),
+    ]);
+    const fx = await loadFxConverter(currency);
+
+    const costRows = l1Data.flatMap(d => costRow(d, basis, period, fx) ?? []);
+    const l1 = pickSource(costRows.filter(d => d.period >= period.start), period.granularity);
+    // earlier capex is read at the granularity the period itself was, so quarters aren't added to their months
+    const earlier = costRows.filter(d => d.period < period.start && d.budget > 0);
+    const earlierGranularity = l1.source?.granularity ?? pickSource(earlier, period.granularity).source?.granularity;
+    const carriedDepreciation = earlier.filter(d => d.granularity === earlierGranularity);
+    const l2 = pickSource(scopedWeights(l2Data, initiativeId).map(d => ({
+        period: d.period,
+        granularity: d.granularity,
+        costPool: d.costPool.code,
+        tower: d.tower,
+        standardTower: taxonomy.towers.get(d.tower)?.standardTower ?? 'OTHER',
+        weightPct: Number(d.weightPct),
+    })), period.granularity);
+    const l3 = pickSource(scopedWeights(l3Data, initiativeId).map(d => ({
+        period: d.period,
+        granularity: d.granularity,
+        category: d.category,
+        standardCategory: taxonomy.benefitCategories.get(d.category)?.standardCategory ?? 'OTHER',
+        weightPct: Number(d.weightPct),
+    })), period.granularity);
+    const businessUnits = pickSource(scopedWeights(businessUnitData, initiativeId).map(d => ({
+        period: d.period,
+        granularity: d.granularity,
+        tower: d.tower,
+        businessUnit: d.businessUnit,
+        weightPct: Number(d.weightPct),
+    })), period.granularity);
+
+    const pools = rollupL1(l1.rows);
+    for (const row of carriedDepreciation) {
+        const pool = pools.find(p => p.costPool === row.costPool);
+        if (pool) pool.budget += row.budget;
+        else pools.push({ costPool: row.costPool, budget: row.budget, employees: 0 });
+    }
+
+    // a scenario that overrides a pool's budget replaces its capex too
+    const assets = l1.rows.flatMap(r => r.asset ?? []).filter(a => scope.overrides?.l1?.[a.costPool]?.budget === undefined);
+    const depreciation = assets.reduce((sum, a) => sum + a.chargedInPeriod, 0)
+        + carriedDepreciation.reduce((sum, r) => sum + r.budget, 0);
+    const costTypes: CostTypeSummary = {
+        opex: l1.rows.filter(r => !r.asset).reduce((sum, r) => sum + r.budget, 0),
+        depreciation,
+        capexPurchased: assets.reduce((sum, a) => sum + a.amount, 0),
+        assets,
+    };
+
+    const { currency: assumptionCurrency = currency, ...entered } = assumptions;
+    const inputs: RoiInputs = {
+        l1: pools,
+        l2: rollupL2(l2.rows, l1.rows),
+        l3: rollupL3(l3.rows),
+        businessUnits: rollupBusinessUnits(businessUnits.rows),
+        // assumptions are converted at the rate for the start of the period
+        assumptions: convertAssumptions(entered, assumptionCurrency, fx, period.start),
+    };
+
+    return {
+        inputs: scope.overrides ? applyScenarioOverrides(inputs, scope.overrides, taxonomy) : inputs,
+        sources: { l1: l1.source, l2: l2.source, l3: l3.source, businessUnits: businessUnits.source },
+        costTypes,
+        currency,
+    };
+}
@@ -0,0 +1,76 @@
+import type { z } from 'zod';
+import type { Scenario } from '@prisma/client';
+import type { RoiInputs } from './roi.js';
+import type { scenarioOverridesSchema } from './validators.js';
+import type { loadTaxonomy } from './taxonomy.js';
+
+export type ScenarioOverrides = z.infer<typeof scenarioOverridesSchema>;
+type Taxonomy = Awaited<ReturnType<typeof loadTaxonomy>>;
+
+// Scenario with its JSON columns parsed for responses
+export function serializeScenario(scenario: Scenario) {
+    return {
+        ...scenario,
+        assumptions: JSON.parse(scenario.assumptions),
+        overrides: scenario.overrides ? JSON.parse(scenario.overrides) as ScenarioOverrides : null,
+    };
+}
+
+// Override codes the company doesn't have (or has archived), as readable messages
+export function unknownOverrideCodes(overrides: ScenarioOverrides, costPoolCodes: Set<string>, taxonomy: Taxonomy) {
+    const unknown: string[] = [];
+    const pools = [...Object.keys(overrides.l1 ?? {}), ...Object.keys(overrides.l2 ?? {})];
+    for (const code of new Set(pools)) {
+        if (!costPoolCodes.has(code)) unknown.push(`cost pool ${code}`);
+    }
+    for (const weights of Object.values(overrides.l2 ?? {})) {
+        for (const code of Object.keys(weights)) {
+            const tower = taxonomy.towers.get(code);
+            if (!tower || tower.archived) unknown.push(`tower ${code}`);
+        }
+    }
+    for (const code of Object.keys(overrides.l3 ?? {})) {
+        const category = taxonomy.benefitCategories.get(code);
+        if (!category || category.archived) unknown.push(`benefit category ${code}`);
+    }
+    return [...new Set(unknown)];
+}
+
+// Applied to the period's rolled-up inputs; anything not overridden keeps its stored value
+export function applyScenarioOverrides(inputs: RoiInputs, overrides: ScenarioOverrides, taxonomy: Taxonomy): RoiInputs {
+    let l1 = inputs.l1;
+    if (overrides.l1) {
+        const byPool = new Map(l1.map(d => [d.costPool, d]));
+        for (const [costPool, o] of Object.entries(overrides.l1)) {
+            const current = byPool.get(costPool) ?? { costPool, budget: 0, employees: 0 };
+            byPool.set(costPool, { ...current, budget: o.budget ?? current.budget, employees: o.employees ?? current.employees });
+        }
+        l1 = [...byPool.values()];
+    }
+
+    let l2 = inputs.l2;
+    if (overrides.l2) {
+        const replaced = Object.keys(overrides.l2);
+        l2 = [
+            ...l2.filter(w => !replaced.includes(w.costPool)),
+            ...Object.entries(overrides.l2).flatMap(([costPool, weights]) =>
+                Object.entries(weights).map(([tower, weightPct]) => ({
+                    costPool,
+                    tower,
+                    standardTower: taxonomy.towers.get(tower)?.standardTower ?? 'OTHER',
+                    weightPct,
+                }))
+            ),
+        ];
+    }
+
+    const l3 = overrides.l3
+        ? Object.entries(overrides.l3).map(([category, weightPct]) => ({
+            category,
+            standardCategory: taxonomy.benefitCategories.get(category)?.standardCategory ?? 'OTHER',
+            weightPct,
+        }))
+        : inputs.l3;
+
+    return { ...inputs, l1, l2, l3 };
+}
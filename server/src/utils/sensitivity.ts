@@ -0,0 +1,70 @@
+import { calculateRoi, type BenefitAssumptions, type RoiInputs } from './roi.js';
+
+export type SensitivityInput =
+    | { layer: 'L1'; costPool: string }
+    | { layer: 'L3'; category: string }
+    | { layer: 'ASSUMPTION'; field: keyof BenefitAssumptions };
+
+export type SensitivityLine = SensitivityInput & {
+    baseValue: number;
+    lowRoiPct: number; // input flexed down by flexPct
+    highRoiPct: number; // input flexed up by flexPct
+    swing: number; // |high - low| in ROI points, what the tornado is ranked by
+};
+
+export type SensitivityResult = {
+    flexPct: number;
+    baseRoiPct: number;
+    lines: SensitivityLine[];
+};
+
+const ASSUMPTION_FIELDS: (keyof BenefitAssumptions)[] = ['revenueUplift', 'productivityGainHours', 'avgLoadedRate', 'riskAvoidedValue', 'costAvoided'];
+
+// Copy of the inputs with one value scaled; everything else is held at its base value
+function flex(inputs: RoiInputs, input: SensitivityInput, factor: number): RoiInputs {
+    switch (input.layer) {
+        case 'L1':
+            return { ...inputs, l1: inputs.l1.map(d => d.costPool === input.costPool ? { ...d, budget: d.budget * factor } : d) };
+        case 'L3':
+            return { ...inputs, l3: inputs.l3.map(w => w.category === input.category ? { ...w, weightPct: w.weightPct * factor } : w) };
+        case 'ASSUMPTION':
+            return { ...inputs, assumptions: { ...inputs.assumptions, [input.field]: (inputs.assumptions[input.field] ?? 0) * factor } };
+    }
+}
+
+function baseValueOf(inputs: RoiInputs, input: SensitivityInput): number {
+    switch (input.layer) {
+        case 'L1':
+            return inputs.l1.filter(d => d.costPool === input.costPool).reduce((sum, d) => sum + d.budget, 0);
+        case 'L3':
+            return inputs.l3.find(w => w.category === input.category)?.weightPct ?? 0;
+        case 'ASSUMPTION':
+            return inputs.assumptions[input.field] ?? 0;
+    }
+}
+
+// One-at-a-time flex of every input. Weights aren't renormalised, so an L3 weight moves its
+// category's share alone. L2 weights are left out: they only move cost between towers, and
+// benefits aren't tied to towers, so any flex of one leaves ROI where it was.
+export function runSensitivity(inputs: RoiInputs, flexPct: number): SensitivityResult {
+    const base = calculateRoi(inputs);
+    const factor = flexPct / 100;
+
+    const candidates: SensitivityInput[] = [
+        ...[...new Set(inputs.l1.map(d => d.costPool))].map(costPool => ({ layer: 'L1' as const, costPool })),
+        ...inputs.l3.map(w => ({ layer: 'L3' as const, category: w.category })),
+        ...ASSUMPTION_FIELDS.map(field => ({ layer: 'ASSUMPTION' as const, field })),
+    ];
+
+    const lines = candidates.map(input => {
+        const lowRoiPct = calculateRoi(flex(inputs, input, 1 - factor)).roiPct;
+        const highRoiPct = calculateRoi(flex(inputs, input, 1 + factor)).roiPct;
+        return { ...input, baseValue: baseValueOf(inputs, input), lowRoiPct, highRoiPct, swing: Math.abs(highRoiPct - lowRoiPct) };
+    });
+
+    return {
+        flexPct,
+        baseRoiPct: base.roiPct,
+        lines: lines.sort((a, b) => b.swing - a.swing),
+    };
+}
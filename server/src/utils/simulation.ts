@@ -0,0 +1,131 @@
+import { computeBenefit, computeCost, computeRoiPct, type BenefitAssumptions, type RoiInputs } from './roi.js';
+
+export type DistributionType = 'triangular' | 'normal' | 'uniform';
+
+// min/max bound every type; likely is the mode (triangular) or mean (normal) and ignored for uniform
+export type Distribution = { type: DistributionType; min: number; likely?: number; max: number };
+
+export type SimulatedAssumption = keyof BenefitAssumptions;
+export type AssumptionDistributions = Partial<Record<SimulatedAssumption, Distribution>>;
+
+export type SimulationOptions = {
+    iterations: number;
+    bins: number;
+    seed?: number;
+};
+
+export type HistogramBin = { from: number; to: number; count: number };
+
+export type SimulationResult = {
+    iterations: number;
+    seed: number;
+    totalCost: number;
+    roiPct: { p10: number; p50: number; p90: number; mean: number; min: number; max: number };
+    netBenefit: { p10: number; p50: number; p90: number; mean: number };
+    probabilityNegative: number; // share of runs with ROI below 0
+    histogram: HistogramBin[]; // ROI % buckets
+};
+
+// mulberry32: small seeded generator so a run can be reproduced from its seed
+function seededRandom(seed: number) {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function sample(d: Distribution, random: () => number): number {
+    const likely = d.likely ?? (d.min + d.max) / 2;
+    if (d.max <= d.min) return d.min;
+
+    if (d.type === 'uniform') return d.min + random() * (d.max - d.min);
+
+    if (d.type === 'triangular') {
+        const u = random();
+        const split = (likely - d.min) / (d.max - d.min);
+        return u < split
+            ? d.min + Math.sqrt(u * (d.max - d.min) * (likely - d.min))
+            : d.max - Math.sqrt((1 - u) * (d.max - d.min) * (d.max - likely));
+    }
+
+    // normal: min and max are read as three standard deviations either side, then clamped to them
+    const sd = (d.max - d.min) / 6;
+    const u1 = random() || Number.MIN_VALUE;
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * random());
+    return Math.min(d.max, Math.max(d.min, likely + z * sd));
+}
+
+// Linear interpolation between closest ranks; values must be sorted
+function percentile(sorted: number[], p: number) {
+    const rank = (sorted.length - 1) * p;
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function histogram(sorted: number[], bins: number): HistogramBin[] {
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+    if (max === min) return [{ from: min, to: max, count: sorted.length }];
+
+    const width = (max - min) / bins;
+    const result = Array.from({ length: bins }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+    for (const value of sorted) {
+        result[Math.min(bins - 1, Math.floor((value - min) / width))].count++;
+    }
+    return result;
+}
+
+// Costs don't depend on the L4 assumptions, so they're allocated once and only benefits are resampled
+export function runMonteCarlo(inputs: RoiInputs, distributions: AssumptionDistributions, options: SimulationOptions): SimulationResult {
+    const { l1, l2, l3, assumptions } = inputs;
+    if (l1.length === 0 || l2.length === 0 || l3.length === 0) {
+        throw new Error('Missing required data for ROI computation. Please complete L1, L2, and L3 data entry before computing ROI.');
+    }
+
+    const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+    const random = seededRandom(seed);
+    const { totalCost } = computeCost(l1, l2);
+    const simulated = Object.entries(distributions) as [SimulatedAssumption, Distribution][];
+
+    const roi: number[] = [];
+    const net: number[] = [];
+    for (let i = 0; i < options.iterations; i++) {
+        const drawn: BenefitAssumptions = { ...assumptions };
+        for (const [key, distribution] of simulated) drawn[key] = sample(distribution, random);
+
+        const { totalBenefit } = computeBenefit(l3, drawn);
+        roi.push(computeRoiPct(totalCost, totalBenefit));
+        net.push(totalBenefit - totalCost);
+    }
+
+    roi.sort((a, b) => a - b);
+    net.sort((a, b) => a - b);
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+    return {
+        iterations: options.iterations,
+        seed,
+        totalCost,
+        roiPct: {
+            p10: percentile(roi, 0.1),
+            p50: percentile(roi, 0.5),
+            p90: percentile(roi, 0.9),
+            mean: mean(roi),
+            min: roi[0],
+            max: roi[roi.length - 1],
+        },
+        netBenefit: {
+            p10: percentile(net, 0.1),
+            p50: percentile(net, 0.5),
+            p90: percentile(net, 0.9),
+            mean: mean(net),
+        },
+        probabilityNegative: roi.filter(v => v < 0).length / roi.length,
+        histogram: histogram(roi, options.bins),
+    };
+}
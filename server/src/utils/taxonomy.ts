@@ -0,0 +1,144 @@
+import { prisma } from '../prisma.js';
+
+// Standard TBM reference that company towers and benefit categories map back to
+export const TBM_TOWERS = [
+    'APP_DEV',
+    'SERVICE_DESK',
+    'DATA_CENTER',
+    'NETWORK',
+    'END_USER',
+    'SECURITY',
+    'CLOUD',
+    'OTHER',
+] as const;
+export type TbmTower = typeof TBM_TOWERS[number];
+
+export const BENEFIT_CATEGORIES = [
+    'PRODUCTIVITY',
+    'REVENUE_UPLIFT',
+    'RISK_AVOIDANCE',
+    'COST_AVOIDANCE',
+    'OTHER',
+] as const;
+export type BenefitCategory = typeof BENEFIT_CATEGORIES[number];
+
+// Starting taxonomy for companies that haven't defined their own; codes match the standard values
+const DEFAULT_TOWERS: { code: TbmTower; name: string; description: string; includes: string[] }[] = [
+    {
+        code: 'APP_DEV',
+        name: 'Application Development',
+        description: 'Software applications and data platforms',
+        includes: ['Application development and maintenance', 'Data management and analytics platforms', 'Integration and middleware systems'],
+    },
+    {
+        code: 'SERVICE_DESK',
+        name: 'Service Desk',
+        description: 'User support and IT service management',
+        includes: ['Service desk and help desk staff', 'Ticketing and ITSM tooling', 'Deskside and remote support'],
+    },
+    {
+        code: 'DATA_CENTER',
+        name: 'Data Center',
+        description: 'On-premise compute, storage and facilities',
+        includes: ['Data center facilities and power', 'Servers and compute resources', 'Storage systems and backup'],
+    },
+    {
+        code: 'NETWORK',
+        name: 'Network',
+        description: 'Connectivity between sites, users and services',
+        includes: ['LAN, WAN and wireless', 'Telecom and voice services', 'Internet and edge connectivity'],
+    },
+    {
+        code: 'END_USER',
+        name: 'End User',
+        description: 'Devices and tools used by the workforce',
+        includes: ['Laptops, desktops and mobile devices', 'Productivity and collaboration software', 'Printing and peripherals'],
+    },
+    {
+        code: 'SECURITY',
+        name: 'Security',
+        description: 'Security, risk and compliance',
+        includes: ['Security operations and monitoring', 'Identity and access management', 'Risk management and compliance'],
+    },
+    {
+        code: 'CLOUD',
+        name: 'Cloud',
+        description: 'Public and private cloud services',
+        includes: ['IaaS and PaaS consumption', 'Cloud platform engineering', 'Cloud cost management'],
+    },
+    {
+        code: 'OTHER',
+        name: 'Other',
+        description: 'Technology spend not covered by another tower',
+        includes: ['IT management and governance', 'Unallocated or miscellaneous spend'],
+    },
+];
+
+const DEFAULT_BENEFIT_CATEGORIES: { code: BenefitCategory; name: string; description: string }[] = [
+    { code: 'PRODUCTIVITY', name: 'Productivity Gains', description: 'Hours saved valued at the average loaded rate' },
+    { code: 'REVENUE_UPLIFT', name: 'Revenue Uplift', description: 'New or retained revenue enabled by technology' },
+    { code: 'RISK_AVOIDANCE', name: 'Risk Avoidance', description: 'Expected loss avoided, e.g. security incidents or outages' },
+    { code: 'COST_AVOIDANCE', name: 'Cost Avoidance', description: 'Spend no longer required, e.g. retired systems or consolidation' },
+    { code: 'OTHER', name: 'Other', description: 'Qualitative benefits not valued in the ROI calculation' },
+];
+
+export async function ensureDefaultTaxonomy(companyId: string) {
+    const [towerCount, categoryCount] = await Promise.all([
+        prisma.companyTower.count({ where: { companyId } }),
+        prisma.companyBenefitCategory.count({ where: { companyId } }),
+    ]);
+
+    if (towerCount === 0) {
+        await prisma.companyTower.createMany({
+            data: DEFAULT_TOWERS.map((tower, index) => ({
+                companyId,
+                code: tower.code,
+                name: tower.name,
+                description: tower.description,
+                includes: JSON.stringify(tower.includes),
+                standardTower: tower.code,
+                sortOrder: index,
+            })),
+            skipDuplicates: true,
+        });
+    }
+
+    if (categoryCount === 0) {
+        await prisma.companyBenefitCategory.createMany({
+            data: DEFAULT_BENEFIT_CATEGORIES.map((category, index) => ({
+                ...category,
+                companyId,
+                standardCategory: category.code,
+                sortOrder: index,
+            })),
+            skipDuplicates: true,
+        });
+    }
+}
+
+// Company codes keyed to their taxonomy entries, for resolving labels and standard mappings
+export async function loadTaxonomy(companyId: string) {
+    await ensureDefaultTaxonomy(companyId);
+
+    const [towers, benefitCategories, businessUnits] = await Promise.all([
+        prisma.companyTower.findMany({ where: { companyId }, orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }] }),
+        prisma.companyBenefitCategory.findMany({ where: { companyId }, orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }] }),
+        prisma.companyBusinessUnit.findMany({ where: { companyId }, orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }] }),
+    ]);
+
+    return {
+        towers: new Map(towers.map(t => [t.code, t])),
+        benefitCategories: new Map(benefitCategories.map(c => [c.code, c])),
+        businessUnits: new Map(businessUnits.map(u => [u.code, u])),
+    };
+}
+
+export function parseIncludes(includes: string | null): string[] {
+    if (!includes) return [];
+    try {
+        const parsed = JSON.parse(includes);
+        return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+        return [];
+    }
+}
@@ -2,32 +2,290 @@ import { z } from 'zod';
 
 // Basic validation schemas for common fields
 export const emailSchema = z.string().email();
-export const passwordSchema = z.string().min(8);
-export const periodSchema = z.string().regex(/^\d{4}-\d{2}-01$/, 'Use YYYY-MM-01');
+// Signup, password changes and resets all use this rule; the client's validatePassword mirrors it
+export const passwordSchema = z.string()
+    .min(8, 'Password must be at least 8 characters long')
+    .regex(/[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?]/, 'Password must contain at least one special character');
+// Months are calendar months ('2025-03', or the legacy '2025-03-01'); quarters and years
+// follow the company's fiscal year ('FY2025-Q1', 'FY2025'), labelled by the year it ends in
+export const periodSchema = z.string().regex(
+    /^(\d{4}-(0[1-9]|1[0-2])(-01)?|FY\d{4}(-Q[1-4])?)$/,
+    "Use 'YYYY-MM' for a month, 'FYyyyy-Qn' for a fiscal quarter or 'FYyyyy' for a fiscal year"
+);
+
+export const costBasisSchema = z.enum(['PLAN', 'FORECAST', 'ACTUAL']);
+
+// ISO 4217 currency code, e.g. AUD
+export const currencySchema = z.string().regex(/^[A-Z]{3}$/, 'Use a three-letter ISO currency code such as AUD');
+
+// Company settings - fiscal calendar used to resolve quarter and year periods, and the currency reports are in
+export const companySettingsSchema = z.object({
+    fiscalYearStartMonth: z.number().int().min(1).max(12).optional(),
+    reportingCurrency: currencySchema.optional(),
+}).refine(s => Object.keys(s).length > 0, 'Nothing to update');
+
+// FX rate validation - 1 fromCurrency = rate toCurrency from the month given until a later rate
+export const fxRateSchema = z.object({
+    period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Use 'YYYY-MM' for the month the rate applies from"),
+    fromCurrency: currencySchema,
+    toCurrency: currencySchema,
+    rate: z.number().positive(),
+}).refine(r => r.fromCurrency !== r.toCurrency, { message: 'Rates convert between two different currencies', path: ['toCurrency'] });
+
+// Codes for company-defined cost pools, towers and benefit categories
+export const taxonomyCodeSchema = z.string().regex(/^[A-Z0-9_]{2,32}$/, 'Use 2-32 uppercase letters, digits or underscores');
+
+// Annual escalation as a fraction, e.g. 0.04 for +4%/yr or -0.02 for -2%/yr
+export const escalationRateSchema = z.number().gt(-1).max(1);
+
+// Cost pool validation - company-defined buckets that L1 budgets are entered against
+export const costPoolSchema = z.object({
+    companyId: z.string().min(1),
+    code: taxonomyCodeSchema,
+    name: z.string().min(1).max(80),
+    description: z.string().max(500).optional(),
+    sortOrder: z.number().int().nonnegative().optional(),
+    escalationRate: escalationRateSchema.optional(),
+});
+
+export const costPoolUpdateSchema = costPoolSchema.omit({ companyId: true, code: true }).partial().extend({
+    archived: z.boolean().optional(),
+});
+
+// Company tower validation - each tower maps to a standard TBM tower
+export const companyTowerSchema = z.object({
+    companyId: z.string().min(1),
+    code: taxonomyCodeSchema,
+    name: z.string().min(1).max(80),
+    description: z.string().max(500).optional(),
+    includes: z.array(z.string().min(1).max(120)).max(10).optional(),
+    standardTower: z.enum(['APP_DEV','SERVICE_DESK','DATA_CENTER','NETWORK','END_USER','SECURITY','CLOUD','OTHER']),
+    sortOrder: z.number().int().nonnegative().optional(),
+});
+
+export const companyTowerUpdateSchema = companyTowerSchema.omit({ companyId: true, code: true }).partial().extend({
+    archived: z.boolean().optional(),
+});
+
+// Company business unit validation - consumers that tower costs are allocated to
+export const companyBusinessUnitSchema = z.object({
+    companyId: z.string().min(1),
+    code: taxonomyCodeSchema,
+    name: z.string().min(1).max(80),
+    description: z.string().max(500).optional(),
+    sortOrder: z.number().int().nonnegative().optional(),
+});
+
+export const companyBusinessUnitUpdateSchema = companyBusinessUnitSchema.omit({ companyId: true, code: true }).partial().extend({
+    archived: z.boolean().optional(),
+});
+
+// Company benefit category validation - the standard category decides how the benefit is valued
+const benefitRampFields = {
+    rampType: z.enum(['IMMEDIATE', 'LINEAR', 'S_CURVE', 'STEP', 'CUSTOM']),
+    rampMonths: z.number().int().min(1).max(120).nullable(),
+    rampCustom: z.array(z.number().min(0).max(100)).min(1).max(120).nullable(),
+};
+
+// Each ramp type needs its own parameter; the others are ignored
+export const rampComplete = (c: { rampType?: string; rampMonths?: number | null; rampCustom?: number[] | null }) =>
+    c.rampType === undefined || c.rampType === 'IMMEDIATE' ||
+    (c.rampType === 'CUSTOM' ? !!c.rampCustom?.length : c.rampMonths != null);
+
+const companyBenefitCategoryFields = z.object({
+    companyId: z.string().min(1),
+    code: taxonomyCodeSchema,
+    name: z.string().min(1).max(80),
+    description: z.string().max(500).optional(),
+    standardCategory: z.enum(['REVENUE_UPLIFT','PRODUCTIVITY','RISK_AVOIDANCE','COST_AVOIDANCE','OTHER']),
+    rampType: benefitRampFields.rampType.default('IMMEDIATE'),
+    rampMonths: benefitRampFields.rampMonths.optional(),
+    rampCustom: benefitRampFields.rampCustom.optional(),
+    sortOrder: z.number().int().nonnegative().optional(),
+});
+
+const rampMessage = { message: 'Linear, S-curve and step ramps need rampMonths; custom ramps need rampCustom' };
+
+export const companyBenefitCategorySchema = companyBenefitCategoryFields.refine(rampComplete, rampMessage);
+
+export const companyBenefitCategoryUpdateSchema = companyBenefitCategoryFields.omit({ companyId: true, code: true }).partial().extend({
+    rampType: benefitRampFields.rampType.optional(),
+    archived: z.boolean().optional(),
+});
+
+// Uncertain L4 assumption for Monte Carlo runs; likely defaults to the midpoint
+export const distributionSchema = z.object({
+    type: z.enum(['triangular', 'normal', 'uniform']),
+    min: z.number().nonnegative(),
+    likely: z.number().nonnegative().optional(),
+    max: z.number().nonnegative(),
+}).refine(d => d.min <= d.max && (d.likely === undefined || (d.likely >= d.min && d.likely <= d.max)),
+    'Distributions need min <= likely <= max');
+
+export const assumptionDistributionsSchema = z.object({
+    revenueUplift: distributionSchema.optional(),
+    productivityGainHours: distributionSchema.optional(),
+    avgLoadedRate: distributionSchema.optional(),
+    riskAvoidedValue: distributionSchema.optional(),
+    costAvoided: distributionSchema.optional(),
+}).strict();
+
+// L4 benefit assumptions shared by snapshots, scenarios and the analysis endpoints
+export const roiAssumptionsSchema = z.object({
+    revenueUplift: z.number().nonnegative().default(0),
+    productivityGainHours: z.number().nonnegative().default(0),
+    avgLoadedRate: z.number().nonnegative().default(0),
+    riskAvoidedValue: z.number().nonnegative().default(0),
+    costAvoided: z.number().nonnegative().default(0),
+    // currency of the monetary assumptions; the company's reporting currency when omitted
+    currency: currencySchema.optional(),
+    // yearly growth of avgLoadedRate used when inputs are rolled forward
+    avgLoadedRateEscalation: escalationRateSchema.optional(),
+    // kept with the snapshot so its uncertainty can be simulated later
+    distributions: assumptionDistributionsSchema.optional(),
+}).passthrough();
+
+const weightsSumToOne = (weights: Record<string, number>) =>
+    Math.abs(Object.values(weights).reduce((a, b) => a + b, 0) - 1) < 0.0001;
+
+// Scenario overrides replace the period's rolled-up inputs: L1 per cost pool code,
+// L2 as a cost pool's whole tower split, L3 as the whole set of benefit weights
+export const scenarioOverridesSchema = z.object({
+    l1: z.record(taxonomyCodeSchema, z.object({
+        budget: z.number().nonnegative().optional(),
+        employees: z.number().int().nonnegative().optional(),
+    })).optional(),
+    l2: z.record(taxonomyCodeSchema, z.record(taxonomyCodeSchema, z.number().min(0).max(1))
+        .refine(weightsSumToOne, 'Each cost pool\'s tower weights must sum to 1.0')).optional(),
+    l3: z.record(taxonomyCodeSchema, z.number().min(0).max(1))
+        .refine(weightsSumToOne, 'Benefit weights must sum to 1.0').optional(),
+}).strict();
+
+export const scenarioKindSchema = z.enum(['BASE', 'OPTIMISTIC', 'PESSIMISTIC', 'CUSTOM']);
+
+export const scenarioSchema = z.object({
+    companyId: z.string().min(1),
+    period: periodSchema,
+    name: z.string().min(1).max(80),
+    kind: scenarioKindSchema.default('CUSTOM'),
+    description: z.string().max(500).optional(),
+    assumptions: roiAssumptionsSchema,
+    overrides: scenarioOverridesSchema.optional(),
+});
+
+export const scenarioUpdateSchema = scenarioSchema.omit({ companyId: true, period: true }).partial().extend({
+    overrides: scenarioOverridesSchema.nullable().optional(),
+});
+
+// Initiative validation - fundable projects that L1-L3 rows can be attributed to
+export const initiativeStatusSchema = z.enum(['PROPOSED', 'APPROVED', 'ACTIVE', 'ON_HOLD', 'COMPLETED', 'CANCELLED']);
+
+const initiativeFields = z.object({
+    companyId: z.string().min(1),
+    code: taxonomyCodeSchema,
+    name: z.string().min(1).max(120),
+    description: z.string().max(1000).optional(),
+    ownerId: z.string().min(1).nullable().optional(),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date().nullable().optional(),
+    status: initiativeStatusSchema.optional(),
+});
+
+const endsAfterStart = (v: { startDate?: Date; endDate?: Date | null }) =>
+    !v.startDate || !v.endDate || v.endDate >= v.startDate;
+
+export const initiativeSchema = initiativeFields.refine(endsAfterStart, { message: 'End date must be on or after the start date', path: ['endDate'] });
+
+export const initiativeUpdateSchema = initiativeFields.omit({ companyId: true, code: true }).partial()
+    .refine(endsAfterStart, { message: 'End date must be on or after the start date', path: ['endDate'] });
+
+// Attribution of an L1-L3 row or snapshot; omitted or null means company-wide
+export const initiativeIdSchema = z.string().min(1).nullable().optional();
+
+// L1 Operational Input validation - captures cost pool budgets and headcount
+// Longest asset life accepted, and so how far back capex is looked for when depreciating
+export const MAX_ASSET_LIFE_MONTHS = 360;
 
-// L1 Operational Input validation - captures department budgets and headcount
 export const l1Schema = z.object({
     companyId: z.string().cuid(),
     period: periodSchema,
-    department: z.enum(['ENGINEERING','SALES','MARKETING','FINANCE','HR','OPERATIONS']),
+    costPoolId: z.string().min(1),
+    initiativeId: initiativeIdSchema,
     employees: z.number().int().nonnegative(),
-    budget: z.number().nonnegative(),
-    baselineKpi: z.number().optional()
+    budget: z.number().nonnegative(), // plan
+    forecast: z.number().nonnegative().nullable().optional(),
+    actual: z.number().nonnegative().nullable().optional(),
+    baselineKpi: z.number().optional(),
+    // the company's reporting currency when omitted
+    currency: currencySchema.optional(),
+    costType: z.enum(['OPEX', 'CAPEX']).default('OPEX'),
+    assetLifeMonths: z.number().int().min(1).max(MAX_ASSET_LIFE_MONTHS).nullable().optional(),
+    depreciationMethod: z.enum(['STRAIGHT_LINE', 'DECLINING_BALANCE']).nullable().optional(),
+}).refine(d => d.costType === 'OPEX' || d.assetLifeMonths != null, {
+    message: 'Capex lines need an asset life in months',
+    path: ['assetLifeMonths'],
 });
 
 // L2 Allocation Weight validation - distributes L1 costs across technology towers
 export const l2Schema = z.object({
     companyId: z.string().cuid(),
     period: periodSchema,
-    department: z.enum(['ENGINEERING','SALES','MARKETING','FINANCE','HR','OPERATIONS']),
-    tower: z.enum(['APP_DEV','SERVICE_DESK','DATA_CENTER','NETWORK','END_USER','SECURITY','CLOUD','OTHER']),
+    costPoolId: z.string().min(1),
+    initiativeId: initiativeIdSchema,
+    tower: taxonomyCodeSchema,
     weightPct: z.number().min(0).max(1)
 });
 
+export const allocationDriverSchema = z.enum(['HEADCOUNT', 'TICKETS', 'COMPUTE_HOURS', 'STORAGE_GB']);
+
+// Allocation rule validation - splits a cost pool across towers in proportion to a driver
+export const allocationRuleSchema = z.object({
+    companyId: z.string().min(1),
+    costPoolId: z.string().min(1),
+    driver: allocationDriverSchema,
+    // towers the pool is split across; omit for every active tower
+    towers: z.array(taxonomyCodeSchema).min(1).nullable().optional(),
+});
+
+// Driver values for one driver and period; towers left out are cleared
+export const driverValuesSchema = z.object({
+    companyId: z.string().min(1),
+    period: periodSchema,
+    driver: allocationDriverSchema,
+    values: z.record(taxonomyCodeSchema, z.number().min(0)),
+});
+
+// Roles a company admin can give; platform admins are provisioned by the operator
+export const companyRoleSchema = z.enum(['VIEWER', 'CONTRIBUTOR', 'APPROVER', 'COMPANY_ADMIN']);
+
+// Invitation to join a company
+export const invitationSchema = z.object({
+    companyId: z.string().min(1),
+    email: emailSchema.transform(e => e.toLowerCase()),
+    role: companyRoleSchema.default('CONTRIBUTOR'),
+});
+
+export const memberRoleSchema = z.object({ role: companyRoleSchema });
+
+// Lock a period against L1-L3 edits
+export const periodLockSchema = z.object({
+    companyId: z.string().min(1),
+    period: periodSchema,
+});
+
+// Chargeback issue request - one statement per business unit that receives cost; omit businessUnits for all of them
+export const chargebackIssueSchema = z.object({
+    companyId: z.string().min(1),
+    period: periodSchema,
+    costBasis: costBasisSchema.default('PLAN'),
+    businessUnits: z.array(taxonomyCodeSchema).min(1).optional(),
+});
+
 // L3 Benefit Weight validation - defines value measurement priorities
 export const l3Schema = z.object({
     companyId: z.string().cuid(),
     period: periodSchema,
-    category: z.enum(['REVENUE_UPLIFT','PRODUCTIVITY','RISK_AVOIDANCE','COST_AVOIDANCE','OTHER']),
+    initiativeId: initiativeIdSchema,
+    category: taxonomyCodeSchema,
     weightPct: z.number().min(0).max(1)
 });
\ No newline at end of file
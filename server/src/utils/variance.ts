@@ -0,0 +1,84 @@
+import type { CostBasis } from '@prisma/client';
+import { computeCost } from './roi.js';
+import { loadRoiInputs } from './roiData.js';
+import type { Period } from './period.js';
+
+// Actual and forecast against plan for one cost pool or tower; null where nothing was recorded
+export type VarianceLine = {
+    code: string;
+    plan: number;
+    forecast: number | null;
+    actual: number | null;
+    variance: number | null;
+    variancePct: number | null;
+    forecastVariance: number | null;
+    forecastVariancePct: number | null;
+};
+
+export type VarianceReport = {
+    period: string;
+    currency: string; // reporting currency every line is converted to
+    costPools: VarianceLine[];
+    towers: VarianceLine[];
+    totals: Omit<VarianceLine, 'code'>;
+};
+
+function diff(value: number | null, plan: number) {
+    if (value === null) return { variance: null, variancePct: null };
+    const variance = value - plan;
+    return { variance, variancePct: plan > 0 ? (variance / plan) * 100 : null };
+}
+
+function varianceLine(code: string, plan: number, forecast: number | null, actual: number | null): VarianceLine {
+    const actualDiff = diff(actual, plan);
+    const forecastDiff = diff(forecast, plan);
+    return {
+        code,
+        plan,
+        forecast,
+        actual,
+        variance: actualDiff.variance,
+        variancePct: actualDiff.variancePct,
+        forecastVariance: forecastDiff.variance,
+        forecastVariancePct: forecastDiff.variancePct,
+    };
+}
+
+function varianceLines(plan: Record<string, number>, forecast: Record<string, number>, actual: Record<string, number>) {
+    const codes = [...new Set([...Object.keys(plan), ...Object.keys(forecast), ...Object.keys(actual)])];
+    return codes.map(code => varianceLine(code, plan[code] ?? 0, forecast[code] ?? null, actual[code] ?? null));
+}
+
+// Runs the cost side of the engine once per basis so towers are allocated exactly as a snapshot would
+export async function buildVarianceReport(companyId: string, period: Period, initiativeId: string | null = null): Promise<VarianceReport> {
+    const bases: CostBasis[] = ['PLAN', 'FORECAST', 'ACTUAL'];
+    const [plan, forecast, actual] = await Promise.all(bases.map(async basis => {
+        const { inputs, currency } = await loadRoiInputs(companyId, period, {}, { basis, initiativeId });
+        return { ...computeCost(inputs.l1, inputs.l2), currency };
+    }));
+
+    const costPools = varianceLines(plan.costPoolCosts, forecast.costPoolCosts, actual.costPoolCosts);
+
+    // totals compare actuals only with the plan of pools that reported an actual
+    const reported = costPools.filter(line => line.actual !== null);
+    const reportedPlan = reported.reduce((sum, line) => sum + line.plan, 0);
+    const totalActual = reported.length > 0 ? reported.reduce((sum, line) => sum + (line.actual ?? 0), 0) : null;
+    const forecastDiff = diff(forecast.totalCost, plan.totalCost);
+    const actualDiff = diff(totalActual, reportedPlan);
+
+    return {
+        period: period.label,
+        currency: plan.currency,
+        costPools,
+        towers: varianceLines(plan.towerAllocations, forecast.towerAllocations, actual.towerAllocations),
+        totals: {
+            plan: plan.totalCost,
+            forecast: forecast.totalCost,
+            actual: totalActual,
+            variance: actualDiff.variance,
+            variancePct: actualDiff.variancePct,
+            forecastVariance: forecastDiff.variance,
+            forecastVariancePct: forecastDiff.variancePct,
+        },
+    };
+}
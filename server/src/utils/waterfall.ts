@@ -0,0 +1,89 @@
+import type { RoiInputs } from './roi.js';
+
+// One path cost takes from a pool to a consumer; a null tower or business unit is cost that
+// stopped at the previous stage because its weights don't cover it
+export type WaterfallFlow = { costPool: string; tower: string | null; businessUnit: string | null; amount: number };
+
+// A business unit's fully loaded cost and where it came from
+export type BusinessUnitCost = {
+    businessUnit: string;
+    total: number;
+    byTower: Record<string, number>;
+    byCostPool: Record<string, number>;
+};
+
+export type CostWaterfall = {
+    totalCost: number;
+    costPools: Record<string, number>;
+    towers: Record<string, number>;
+    businessUnits: BusinessUnitCost[]; // largest first
+    unallocatedToTowers: number;
+    unallocatedToBusinessUnits: Record<string, number>; // per tower
+    flows: WaterfallFlow[];
+};
+
+const add = (record: Record<string, number>, key: string, amount: number) => {
+    record[key] = (record[key] || 0) + amount;
+};
+
+// Cost pools -> towers by the L2 weights, then towers -> business units by the second stage.
+// Every unit of cost ends in exactly one flow, so the flows always sum to totalCost
+export function computeWaterfall(inputs: Pick<RoiInputs, 'l1' | 'l2' | 'businessUnits'>): CostWaterfall {
+    const flows: WaterfallFlow[] = [];
+    const businessUnitWeights = inputs.businessUnits ?? [];
+
+    for (const { costPool, budget } of inputs.l1) {
+        let allocated = 0;
+        for (const w of inputs.l2.filter(w => w.costPool === costPool)) {
+            const towerAmount = budget * w.weightPct;
+            allocated += towerAmount;
+
+            let consumed = 0;
+            for (const u of businessUnitWeights.filter(u => u.tower === w.tower)) {
+                const amount = towerAmount * u.weightPct;
+                flows.push({ costPool, tower: w.tower, businessUnit: u.businessUnit, amount });
+                consumed += amount;
+            }
+            if (Math.abs(towerAmount - consumed) > 1e-9) {
+                flows.push({ costPool, tower: w.tower, businessUnit: null, amount: towerAmount - consumed });
+            }
+        }
+        if (Math.abs(budget - allocated) > 1e-9) {
+            flows.push({ costPool, tower: null, businessUnit: null, amount: budget - allocated });
+        }
+    }
+
+    const costPools: Record<string, number> = {};
+    const towers: Record<string, number> = {};
+    const unallocatedToBusinessUnits: Record<string, number> = {};
+    const units = new Map<string, BusinessUnitCost>();
+    let unallocatedToTowers = 0;
+
+    for (const flow of flows) {
+        add(costPools, flow.costPool, flow.amount);
+        if (flow.tower === null) {
+            unallocatedToTowers += flow.amount;
+            continue;
+        }
+        add(towers, flow.tower, flow.amount);
+        if (flow.businessUnit === null) {
+            add(unallocatedToBusinessUnits, flow.tower, flow.amount);
+            continue;
+        }
+        const unit = units.get(flow.businessUnit) ?? { businessUnit: flow.businessUnit, total: 0, byTower: {}, byCostPool: {} };
+        unit.total += flow.amount;
+        add(unit.byTower, flow.tower, flow.amount);
+        add(unit.byCostPool, flow.costPool, flow.amount);
+        units.set(flow.businessUnit, unit);
+    }
+
+    return {
+        totalCost: Object.values(costPools).reduce((a, b) => a + b, 0),
+        costPools,
+        towers,
+        businessUnits: [...units.values()].sort((a, b) => b.total - a.total),
+        unallocatedToTowers,
+        unallocatedToBusinessUnits,
+        flows,
+    };
+}
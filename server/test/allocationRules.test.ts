@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AllocationRule, Prisma } from '@prisma/client';
+import { applyAllocationRules, driverWeights, ruleTowers } from '../src/utils/allocationRules.js';
+
+type Taxonomy = Parameters<typeof ruleTowers>[1];
+
+// Only the tower codes and their archived flag are read
+const taxonomy = {
+    towers: new Map([['APP_DEV', { archived: false }], ['NETWORK', { archived: false }], ['LEGACY', { archived: true }]]),
+} as unknown as Taxonomy;
+
+const period = { start: new Date(Date.UTC(2025, 0, 1)), granularity: 'MONTH' as const };
+
+function rule(costPoolId: string, driver: AllocationRule['driver'], towers: string[] | null): AllocationRule {
+    const now = new Date();
+    return { id: `rule-${costPoolId}`, companyId: 'acme', costPoolId, driver, towers: towers && JSON.stringify(towers), createdAt: now, updatedAt: now };
+}
+
+// Records the L2 writes; driver values come back as strings, the way Prisma's Decimal converts
+function fakeDb(rows: { driver: string; tower: string; value: string }[]) {
+    const writes: { op: string; args: unknown }[] = [];
+    const db = {
+        driverValue: { findMany: async () => rows },
+        l2AllocationWeight: {
+            deleteMany: async (args: unknown) => writes.push({ op: 'deleteMany', args }),
+            createMany: async (args: unknown) => writes.push({ op: 'createMany', args }),
+        },
+    } as unknown as Prisma.TransactionClient;
+    return { db, writes };
+}
+
+describe('driverWeights', () => {
+    it('splits in proportion to the driver values', () => {
+        assert.deepEqual(driverWeights({ APP_DEV: 30, NETWORK: 10 }), { APP_DEV: 0.75, NETWORK: 0.25 });
+    });
+
+    it('puts the rounding remainder on the largest share', () => {
+        // thirds round to 0.3333 each, leaving 0.0001 for the first of the equal largest
+        assert.deepEqual(driverWeights({ APP_DEV: 1, NETWORK: 1, SERVICE_DESK: 1 }), { APP_DEV: 0.3334, NETWORK: 0.3333, SERVICE_DESK: 0.3333 });
+        // 2/7 and 5/7 round to 0.2857 and 0.7143, which already sum to 1
+        assert.deepEqual(driverWeights({ APP_DEV: 2, NETWORK: 5 }), { APP_DEV: 0.2857, NETWORK: 0.7143 });
+    });
+
+    it('leaves out towers with no volume', () => {
+        assert.deepEqual(driverWeights({ APP_DEV: 4, NETWORK: 0, SERVICE_DESK: -2 }), { APP_DEV: 1 });
+    });
+
+    it('is null with no drivers or when the values sum to 0', () => {
+        assert.equal(driverWeights({}), null);
+        assert.equal(driverWeights({ APP_DEV: 0, NETWORK: 0 }), null);
+    });
+});
+
+describe('ruleTowers', () => {
+    it('scopes a rule to every active tower unless it lists its own', () => {
+        assert.deepEqual(ruleTowers(rule('labour', 'HEADCOUNT', null), taxonomy), ['APP_DEV', 'NETWORK']);
+        // archived and unknown codes drop out of a rule's own list
+        assert.deepEqual(ruleTowers(rule('labour', 'HEADCOUNT', ['NETWORK', 'LEGACY', 'GONE']), taxonomy), ['NETWORK']);
+    });
+});
+
+describe('applyAllocationRules', () => {
+    it('replaces the pool\'s company-wide weights with the driver split of the towers in scope', async () => {
+        const { db, writes } = fakeDb([
+            { driver: 'HEADCOUNT', tower: 'APP_DEV', value: '30' },
+            { driver: 'HEADCOUNT', tower: 'NETWORK', value: '10' },
+            { driver: 'HEADCOUNT', tower: 'LEGACY', value: '60' },
+            { driver: 'TICKETS', tower: 'APP_DEV', value: '5' },
+        ]);
+
+        const applied = await applyAllocationRules(db, 'acme', period, [rule('labour', 'HEADCOUNT', null)], taxonomy, 'carol');
+
+        assert.deepEqual(applied, [{ costPoolId: 'labour', period: period.start, granularity: 'MONTH', weights: { APP_DEV: 0.75, NETWORK: 0.25 } }]);
+        const key = { companyId: 'acme', period: period.start, granularity: 'MONTH', costPoolId: 'labour', initiativeId: null };
+        assert.deepEqual(writes, [
+            { op: 'deleteMany', args: { where: key } },
+            {
+                op: 'createMany',
+                args: {
+                    data: [
+                        { ...key, tower: 'APP_DEV', weightPct: 0.75, createdById: 'carol' },
+                        { ...key, tower: 'NETWORK', weightPct: 0.25, createdById: 'carol' },
+                    ],
+                },
+            },
+        ]);
+    });
+
+    it('leaves a pool\'s weights alone when its towers have no driver volume', async () => {
+        const { db, writes } = fakeDb([
+            { driver: 'TICKETS', tower: 'APP_DEV', value: '5' },
+            { driver: 'TICKETS', tower: 'NETWORK', value: '0' },
+        ]);
+
+        const applied = await applyAllocationRules(db, 'acme', period, [rule('hosting', 'TICKETS', ['NETWORK'])], taxonomy);
+
+        assert.equal(applied[0].weights, null);
+        assert.deepEqual(writes, []);
+    });
+
+    it('applies nothing for no rules', async () => {
+        const { db, writes } = fakeDb([]);
+
+        assert.deepEqual(await applyAllocationRules(db, 'acme', period, [], taxonomy), []);
+        assert.deepEqual(writes, []);
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { statementCsv, type StatementLine } from '../src/utils/chargeback.js';
+
+function line(towerName: string, cost: number): StatementLine {
+    return { tower: 'APP_DEV', towerName, standardTower: 'APP_DEV', towerCost: 1000, sharePct: 0.25, cost, byCostPool: {}, driver: null, units: null, unitRate: null };
+}
+
+function statement(businessUnitName: string, lines: StatementLine[]) {
+    return {
+        id: 's1', companyId: 'acme', number: 7, period: new Date(Date.UTC(2025, 0, 1)), granularity: 'MONTH' as const, periodLabel: '2025-01',
+        costBasis: 'PLAN' as const, businessUnit: 'SALES', businessUnitName, currency: 'USD', totalCost: 250, lines,
+        issuedById: null, createdAt: new Date(Date.UTC(2025, 1, 3)),
+    };
+}
+
+const rowsOf = (csv: string) => csv.trimEnd().split('\n');
+
+describe('statementCsv', () => {
+    it('writes the header, one row per tower and the total', () => {
+        const rows = rowsOf(statementCsv(statement('Sales', [line('Application development', 250)])));
+
+        assert.deepEqual(rows, [
+            'Statement,CB-00007',
+            'Business unit,Sales (SALES)',
+            'Period,2025-01',
+            'Cost basis,PLAN',
+            'Currency,USD',
+            'Issued,2025-02-03T00:00:00.000Z',
+            '',
+            'Tower,Tower code,Tower cost,Share %,Allocated cost,Driver,Units,Unit rate',
+            'Application development,APP_DEV,1000.00,25.00,250.00,,,',
+            'Total,,,,250.00',
+        ]);
+    });
+
+    it('keeps text a spreadsheet would run as a formula inert', () => {
+        const csv = statementCsv(statement('=HYPERLINK("http://example.com","x")', [
+            line('+SUM(A1:A2)', 250),
+            line('@cmd', 0),
+            line('-2+3', 0),
+        ]));
+        const rows = rowsOf(csv);
+
+        // the prefix goes on before the cell is quoted, so the quotes are still doubled
+        assert.equal(rows[1], `Business unit,"'=HYPERLINK(""http://example.com"",""x"") (SALES)"`);
+        assert.equal(rows[8].split(',')[0], `'+SUM(A1:A2)`);
+        assert.equal(rows[9].split(',')[0], `'@cmd`);
+        assert.equal(rows[10].split(',')[0], `'-2+3`);
+    });
+
+    it('leaves negative amounts as numbers', () => {
+        const rows = rowsOf(statementCsv(statement('Sales', [line('Credits', -12.5)])));
+
+        assert.equal(rows[8], 'Credits,APP_DEV,1000.00,25.00,-12.50,,,');
+    });
+});
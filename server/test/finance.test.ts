@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { irr, npv, paybackMonths, projectCashflows } from '../src/utils/finance.js';
+
+// Expected values are worked out by hand, so compare to a tolerance rather than to the last bit
+function assertClose(actual: number | null, expected: number, tolerance = 1e-6) {
+    assert.ok(actual !== null && Math.abs(actual - expected) < tolerance, `expected ${actual} to be within ${tolerance} of ${expected}`);
+}
+
+describe('npv', () => {
+    it('leaves year 0 undiscounted and discounts each later year once more', () => {
+        // -1000 + 550 / 1.1 + 605 / 1.21
+        assertClose(npv(0.1, [-1000, 550, 605]), 0);
+        // -100 + 60 / 1.2 + 72 / 1.44
+        assertClose(npv(0.2, [-100, 60, 72]), 0);
+    });
+
+    it('sums the cash flows at a zero rate', () => {
+        assert.equal(npv(0, [-100, 30, 30, 30]), -10);
+    });
+});
+
+describe('irr', () => {
+    it('finds the rate where the NPV is zero', () => {
+        assertClose(irr([-1000, 550, 605]), 0.1);
+        // x + x² = 1 with x = 1 / (1 + r) gives r = (1 + √5) / 2 - 1
+        assertClose(irr([-600, 600, 600]), (1 + Math.sqrt(5)) / 2 - 1);
+    });
+
+    it('is null when the cash flows never change sign', () => {
+        assert.equal(irr([100, 50, 50]), null);
+        assert.equal(irr([-100, -50, 0]), null);
+        assert.equal(irr([0, 0]), null);
+    });
+
+    it('is null when the root lies beyond the 1000% upper bound', () => {
+        // -1 + 20 / (1 + r) is still positive at r = 10; the root is r = 19
+        assert.equal(irr([-1, 20]), null);
+    });
+
+    it('finds a root close to the -99.99% lower bound', () => {
+        // -100 + 1 / (1 + r) = 0 at r = -0.99
+        assertClose(irr([-100, 1]), -0.99);
+    });
+});
+
+describe('paybackMonths', () => {
+    it('interpolates within the month the cumulative cash turns positive', () => {
+        // 1200 up front, 300 a month: recovered at the end of month 4
+        assert.equal(paybackMonths([1200], Array(12).fill(300)), 4);
+        // 1000 up front, 300 a month: 100 of month 4's 300 still outstanding after month 3
+        assertClose(paybackMonths([1000], Array(12).fill(300)), 3 + 100 / 300);
+    });
+
+    it('charges each later year\'s cost at the start of that year', () => {
+        // 600 a year, 100 a month: year 0's cost is recovered in 6 months, before year 1's lands
+        assert.equal(paybackMonths([600, 600], Array(24).fill(100)), 6);
+        // 1200 a year, 100 a month: year 0 breaks even at the end of month 12, just as year 1's cost lands
+        assert.equal(paybackMonths([1200, 1200], Array(24).fill(100)), 12);
+    });
+
+    it('is zero when nothing is spent', () => {
+        assert.equal(paybackMonths([0], Array(12).fill(100)), 0);
+    });
+
+    it('is null when the benefits never cover the costs within the horizon', () => {
+        assert.equal(paybackMonths([1200], Array(12).fill(50)), null);
+        assert.equal(paybackMonths([1200, 0], Array(24).fill(0)), null);
+    });
+});
+
+describe('projectCashflows', () => {
+    it('spreads the period benefit over the months and charges the cost up front', () => {
+        const result = projectCashflows(1200, 600, { horizonYears: 3, discountRate: 0.1 });
+
+        assert.deepEqual(result.costPhasing, [1, 0, 0]);
+        assert.deepEqual(result.benefitPhasing, [1, 1, 1]);
+        assert.deepEqual(result.cashflows.map(cf => [cf.cost, cf.benefit, cf.net]), [
+            [1200, 600, -600],
+            [0, 600, 600],
+            [0, 600, 600],
+        ]);
+        assert.deepEqual(result.cashflows.map(cf => cf.realisationPct), [100, 100, 100]);
+        assert.equal(result.tco, 1200);
+        assertClose(result.npv, -600 + 600 / 1.1 + 600 / 1.21);
+        assertClose(result.cashflows[2].discountedNet, 600 / 1.21);
+        assertClose(result.irr, (1 + Math.sqrt(5)) / 2 - 1);
+        // 50 a month: 1200 is recovered at the end of month 24
+        assert.equal(result.paybackMonths, 24);
+    });
+
+    it('leaves the payback null when the horizon ends first', () => {
+        const result = projectCashflows(1200, 600, { horizonYears: 1, discountRate: 0.1 });
+
+        assert.equal(result.paybackMonths, null);
+        // a single negative year never changes sign
+        assert.equal(result.irr, null);
+    });
+
+    it('scales the monthly benefit by the realisation ramp', () => {
+        // nothing realised for the first 6 months, then full benefit
+        const benefitRealisation = [...Array(6).fill(0), ...Array(18).fill(1)];
+        const result = projectCashflows(1200, 2400, { horizonYears: 2, discountRate: 0 }, { benefitRealisation });
+
+        assert.deepEqual(result.cashflows.map(cf => cf.benefit), [1200, 2400]);
+        assert.deepEqual(result.cashflows.map(cf => cf.realisationPct), [50, 100]);
+        // 200 a month from month 6: 1200 is recovered at the end of month 12
+        assert.equal(result.paybackMonths, 12);
+        assert.equal(result.npv, 2400);
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RoiInputs } from '../src/utils/roi.js';
+import { goalSeek } from '../src/utils/goalSeek.js';
+
+// 1250 of cost against 1500 of revenue plus half of 100 hours at 5: 1750 of benefit, a 40% ROI
+const inputs: RoiInputs = {
+    l1: [{ costPool: 'LABOUR', budget: 1000 }, { costPool: 'HOSTING', budget: 250 }],
+    l2: [{ costPool: 'LABOUR', tower: 'APP_DEV', weightPct: 1 }, { costPool: 'HOSTING', tower: 'APP_DEV', weightPct: 1 }],
+    l3: [{ category: 'REVENUE_UPLIFT', weightPct: 1 }, { category: 'PRODUCTIVITY', weightPct: 0.5 }],
+    assumptions: { revenueUplift: 1500, productivityGainHours: 100, avgLoadedRate: 5 },
+};
+
+describe('goalSeek', () => {
+    it('solves the assumption value that reaches the target', () => {
+        // 60% on 1250 of cost needs 2000 of benefit; 250 comes from productivity
+        const result = goalSeek(inputs, { layer: 'ASSUMPTION', field: 'revenueUplift' }, 60);
+
+        assert.equal(result.achievable, true);
+        assert.equal(result.currentValue, 1500);
+        assert.equal(result.requiredValue, 1750);
+        assert.equal(result.change, 250);
+        assert.deepEqual(result.result, { totalCost: 1250, totalBenefit: 2000, roiPct: 60 });
+    });
+
+    it('solves the cost pool budget that reaches the target', () => {
+        // 75% on 1750 of benefit allows 1000 of cost; hosting already takes 250
+        const result = goalSeek(inputs, { layer: 'L1', costPool: 'LABOUR' }, 75);
+
+        assert.equal(result.requiredValue, 750);
+        assert.equal(result.change, -250);
+        assert.deepEqual(result.result, { totalCost: 1000, totalBenefit: 1750, roiPct: 75 });
+    });
+
+    it('puts the budget on the first of a pool\'s rows and zeroes the rest', () => {
+        const rolledUp = { ...inputs, l1: [...inputs.l1, { costPool: 'LABOUR', budget: 500 }] };
+        const result = goalSeek(rolledUp, { layer: 'L1', costPool: 'LABOUR' }, 75);
+
+        assert.equal(result.currentValue, 1500);
+        assert.equal(result.requiredValue, 750);
+        assert.equal(result.result?.totalCost, 1000);
+    });
+
+    it('is unreachable when the other pools alone cost too much', () => {
+        // 700% on 1750 of benefit allows 218.75 of cost, less than hosting's 250
+        const result = goalSeek(inputs, { layer: 'L1', costPool: 'LABOUR' }, 700);
+
+        assert.equal(result.achievable, false);
+        assert.equal(result.requiredValue, null);
+        assert.equal(result.change, null);
+        assert.equal(result.result, null);
+        assert.match(result.reason ?? '', /other pools cost too much/);
+    });
+
+    it('is unreachable when the target needs a negative assumption', () => {
+        // -90% on 1250 of cost is 125 of benefit, below productivity's 250 on its own
+        const result = goalSeek(inputs, { layer: 'ASSUMPTION', field: 'revenueUplift' }, -90);
+
+        assert.equal(result.achievable, false);
+        assert.match(result.reason ?? '', /negative value/);
+    });
+
+    it('is unreachable through an assumption no benefit category draws on', () => {
+        const result = goalSeek(inputs, { layer: 'ASSUMPTION', field: 'riskAvoidedValue' }, 60);
+
+        assert.equal(result.achievable, false);
+        assert.equal(result.currentValue, 0);
+        assert.match(result.reason ?? '', /no effect on benefits/);
+    });
+
+    it('is unreachable through any assumption when the benefit weights sum to 0', () => {
+        const unweighted = { ...inputs, l3: inputs.l3.map(w => ({ ...w, weightPct: 0 })) };
+
+        for (const field of ['revenueUplift', 'avgLoadedRate'] as const) {
+            const result = goalSeek(unweighted, { layer: 'ASSUMPTION', field }, 60);
+            assert.equal(result.achievable, false);
+            assert.match(result.reason ?? '', /no effect on benefits/);
+        }
+    });
+
+    it('rejects a cost pool with no budget in the period', () => {
+        assert.throws(() => goalSeek(inputs, { layer: 'L1', costPool: 'FACILITIES' }, 60), /Cost pool FACILITIES has no budget/);
+    });
+});
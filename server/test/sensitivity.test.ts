@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RoiInputs } from '../src/utils/roi.js';
+import { runSensitivity, type SensitivityLine } from '../src/utils/sensitivity.js';
+
+// 1250 of cost against 1500 of revenue plus half of 100 hours at 5: 1750 of benefit, a 40% ROI
+const inputs: RoiInputs = {
+    l1: [{ costPool: 'LABOUR', budget: 1000 }, { costPool: 'HOSTING', budget: 250 }],
+    l2: [{ costPool: 'LABOUR', tower: 'APP_DEV', weightPct: 1 }, { costPool: 'HOSTING', tower: 'APP_DEV', weightPct: 1 }],
+    l3: [{ category: 'REVENUE_UPLIFT', weightPct: 1 }, { category: 'PRODUCTIVITY', weightPct: 0.5 }],
+    assumptions: { revenueUplift: 1500, productivityGainHours: 100, avgLoadedRate: 5 },
+};
+
+function assertClose(actual: number, expected: number, tolerance = 1e-9) {
+    assert.ok(Math.abs(actual - expected) < tolerance, `expected ${actual} to be within ${tolerance} of ${expected}`);
+}
+
+function lineFor(lines: SensitivityLine[], key: string) {
+    const line = lines.find(l => (l.layer === 'L1' ? l.costPool : l.layer === 'L3' ? l.category : l.field) === key);
+    assert.ok(line, `no line for ${key}`);
+    return line;
+}
+
+describe('runSensitivity', () => {
+    it('flexes each input alone and ranks the lines by swing', () => {
+        const result = runSensitivity(inputs, 20);
+
+        assert.equal(result.baseRoiPct, 40);
+        // 2 cost pools, 2 benefit categories and all 5 assumptions
+        assert.equal(result.lines.length, 9);
+        result.lines.slice(1).forEach((line, i) => assert.ok(line.swing <= result.lines[i].swing));
+
+        // 1200 or 1800 of revenue: 1450 or 2050 of benefit on 1250 of cost
+        const revenueWeight = lineFor(result.lines, 'REVENUE_UPLIFT');
+        assertClose(revenueWeight.lowRoiPct, 16);
+        assertClose(revenueWeight.highRoiPct, 64);
+        assertClose(revenueWeight.swing, 48);
+        // scaling the assumption moves the benefit exactly as scaling its weight does
+        assertClose(lineFor(result.lines, 'revenueUplift').swing, 48);
+        assert.deepEqual(result.lines.slice(0, 2).map(l => l.layer).sort(), ['ASSUMPTION', 'L3']);
+
+        // 800 or 1200 of labour: 1050 or 1450 of cost against 1750 of benefit
+        const labour = lineFor(result.lines, 'LABOUR');
+        assert.equal(labour.baseValue, 1000);
+        assertClose(labour.lowRoiPct, (700 / 1050) * 100);
+        assertClose(labour.highRoiPct, (300 / 1450) * 100);
+        assert.equal(result.lines[2], labour);
+
+        // 200 or 300 of hosting: 1200 or 1300 of cost
+        assertClose(lineFor(result.lines, 'HOSTING').swing, (550 / 1200) * 100 - (450 / 1300) * 100);
+        // 200 or 300 of productivity benefit: 1700 or 1800 in all
+        assertClose(lineFor(result.lines, 'PRODUCTIVITY').swing, 8);
+        assertClose(lineFor(result.lines, 'avgLoadedRate').swing, 8);
+    });
+
+    it('gives an assumption left at zero no swing', () => {
+        const result = runSensitivity(inputs, 20);
+
+        for (const field of ['riskAvoidedValue', 'costAvoided']) {
+            const line = lineFor(result.lines, field);
+            assert.equal(line.baseValue, 0);
+            assert.equal(line.swing, 0);
+        }
+        assert.deepEqual(result.lines.slice(-2).map(l => l.swing), [0, 0]);
+    });
+
+    it('finds no swing anywhere when the benefit weights sum to 0', () => {
+        const unweighted = { ...inputs, l3: inputs.l3.map(w => ({ ...w, weightPct: 0 })) };
+        const result = runSensitivity(unweighted, 20);
+
+        // no benefit at any cost is a 100% loss, so flexing the cost pools doesn't move the ROI either
+        assert.equal(result.baseRoiPct, -100);
+        assert.ok(result.lines.every(l => l.lowRoiPct === -100 && l.highRoiPct === -100 && l.swing === 0));
+    });
+
+    it('leaves every line at the base ROI with no flex', () => {
+        const result = runSensitivity(inputs, 0);
+
+        assert.ok(result.lines.every(l => l.lowRoiPct === 40 && l.highRoiPct === 40 && l.swing === 0));
+    });
+
+    it('rejects inputs with no cost pools, towers or benefit categories', () => {
+        assert.throws(() => runSensitivity({ ...inputs, l2: [] }, 20), /Missing required data/);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RoiInputs } from '../src/utils/roi.js';
+import { runMonteCarlo } from '../src/utils/simulation.js';
+
+// 1000 of labour on one tower, with the revenue uplift fully counted: 1500 of revenue is a 50% ROI
+const inputs: RoiInputs = {
+    l1: [{ costPool: 'LABOUR', budget: 1000 }],
+    l2: [{ costPool: 'LABOUR', tower: 'APP_DEV', weightPct: 1 }],
+    l3: [{ category: 'REVENUE_UPLIFT', weightPct: 1 }],
+    assumptions: { revenueUplift: 1500 },
+};
+
+describe('runMonteCarlo', () => {
+    it('reproduces a run from its seed', () => {
+        const distributions = { revenueUplift: { type: 'triangular' as const, min: 500, likely: 1200, max: 2500 } };
+        const first = runMonteCarlo(inputs, distributions, { iterations: 200, bins: 10, seed: 42 });
+        const second = runMonteCarlo(inputs, distributions, { iterations: 200, bins: 10, seed: 42 });
+
+        assert.equal(first.seed, 42);
+        assert.deepEqual(second, first);
+    });
+
+    it('keeps every draw within the distribution\'s bounds', () => {
+        // 500 to 1500 of revenue on 1000 of cost: ROI between -50% and 50%
+        const result = runMonteCarlo(inputs, { revenueUplift: { type: 'uniform', min: 500, max: 1500 } }, { iterations: 500, bins: 5, seed: 7 });
+
+        assert.equal(result.totalCost, 1000);
+        assert.ok(result.roiPct.min >= -50 && result.roiPct.max <= 50);
+        assert.ok(result.roiPct.p10 <= result.roiPct.p50 && result.roiPct.p50 <= result.roiPct.p90);
+        assert.equal(result.histogram.length, 5);
+        assert.equal(result.histogram.reduce((sum, bin) => sum + bin.count, 0), 500);
+    });
+
+    it('repeats the deterministic result when nothing is simulated', () => {
+        const result = runMonteCarlo(inputs, {}, { iterations: 20, bins: 10, seed: 1 });
+
+        assert.deepEqual(result.roiPct, { p10: 50, p50: 50, p90: 50, mean: 50, min: 50, max: 50 });
+        assert.deepEqual(result.netBenefit, { p10: 500, p50: 500, p90: 500, mean: 500 });
+        assert.equal(result.probabilityNegative, 0);
+        // every run lands on the same ROI, so there's one bucket however many were asked for
+        assert.deepEqual(result.histogram, [{ from: 50, to: 50, count: 20 }]);
+    });
+
+    it('draws the minimum from a distribution with no width', () => {
+        const result = runMonteCarlo(inputs, { revenueUplift: { type: 'normal', min: 800, likely: 900, max: 800 } }, { iterations: 10, bins: 4, seed: 3 });
+
+        assert.equal(result.roiPct.min, -20);
+        assert.equal(result.roiPct.max, -20);
+        assert.equal(result.probabilityNegative, 1);
+    });
+
+    it('loses the whole cost in every run when the benefit weights sum to 0', () => {
+        const unweighted = { ...inputs, l3: [{ category: 'REVENUE_UPLIFT', weightPct: 0 }] };
+        const result = runMonteCarlo(unweighted, { revenueUplift: { type: 'uniform', min: 500, max: 1500 } }, { iterations: 50, bins: 10, seed: 9 });
+
+        assert.equal(result.roiPct.p50, -100);
+        assert.equal(result.netBenefit.mean, -1000);
+        assert.equal(result.probabilityNegative, 1);
+    });
+
+    it('rejects inputs with no cost pools, towers or benefit categories', () => {
+        assert.throws(() => runMonteCarlo({ ...inputs, l1: [] }, {}, { iterations: 10, bins: 10, seed: 1 }), /Missing required data/);
+        assert.throws(() => runMonteCarlo({ ...inputs, l3: [] }, {}, { iterations: 10, bins: 10, seed: 1 }), /Missing required data/);
+    });
+});
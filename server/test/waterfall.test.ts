@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RoiInputs } from '../src/utils/roi.js';
+import { computeWaterfall } from '../src/utils/waterfall.js';
+
+// Labour is fully split across towers, hosting only half; networking is only 40% charged on to business units
+const inputs: Pick<RoiInputs, 'l1' | 'l2' | 'businessUnits'> = {
+    l1: [{ costPool: 'LABOUR', budget: 1000 }, { costPool: 'HOSTING', budget: 400 }],
+    l2: [
+        { costPool: 'LABOUR', tower: 'APP_DEV', weightPct: 0.75 },
+        { costPool: 'LABOUR', tower: 'NETWORK', weightPct: 0.25 },
+        { costPool: 'HOSTING', tower: 'NETWORK', weightPct: 0.5 },
+    ],
+    businessUnits: [
+        { tower: 'APP_DEV', businessUnit: 'SALES', weightPct: 0.5 },
+        { tower: 'APP_DEV', businessUnit: 'FINANCE', weightPct: 0.5 },
+        { tower: 'NETWORK', businessUnit: 'FINANCE', weightPct: 0.4 },
+    ],
+};
+
+const sumOfFlows = (waterfall: ReturnType<typeof computeWaterfall>) => waterfall.flows.reduce((sum, flow) => sum + flow.amount, 0);
+
+describe('computeWaterfall', () => {
+    it('carries cost from pools through towers to business units', () => {
+        const result = computeWaterfall(inputs);
+
+        assert.deepEqual(result.flows, [
+            { costPool: 'LABOUR', tower: 'APP_DEV', businessUnit: 'SALES', amount: 375 },
+            { costPool: 'LABOUR', tower: 'APP_DEV', businessUnit: 'FINANCE', amount: 375 },
+            { costPool: 'LABOUR', tower: 'NETWORK', businessUnit: 'FINANCE', amount: 100 },
+            { costPool: 'LABOUR', tower: 'NETWORK', businessUnit: null, amount: 150 },
+            { costPool: 'HOSTING', tower: 'NETWORK', businessUnit: 'FINANCE', amount: 80 },
+            { costPool: 'HOSTING', tower: 'NETWORK', businessUnit: null, amount: 120 },
+            { costPool: 'HOSTING', tower: null, businessUnit: null, amount: 200 },
+        ]);
+        assert.equal(result.totalCost, 1400);
+        assert.equal(sumOfFlows(result), 1400);
+        assert.deepEqual(result.costPools, { LABOUR: 1000, HOSTING: 400 });
+        assert.deepEqual(result.towers, { APP_DEV: 750, NETWORK: 450 });
+        assert.equal(result.unallocatedToTowers, 200);
+        assert.deepEqual(result.unallocatedToBusinessUnits, { NETWORK: 270 });
+    });
+
+    it('totals each business unit by tower and by pool, largest first', () => {
+        const { businessUnits } = computeWaterfall(inputs);
+
+        assert.deepEqual(businessUnits, [
+            { businessUnit: 'FINANCE', total: 555, byTower: { APP_DEV: 375, NETWORK: 180 }, byCostPool: { LABOUR: 475, HOSTING: 80 } },
+            { businessUnit: 'SALES', total: 375, byTower: { APP_DEV: 375 }, byCostPool: { LABOUR: 375 } },
+        ]);
+    });
+
+    it('stops at the towers without a second stage', () => {
+        const result = computeWaterfall({ l1: inputs.l1, l2: inputs.l2 });
+
+        assert.deepEqual(result.businessUnits, []);
+        assert.deepEqual(result.unallocatedToBusinessUnits, { APP_DEV: 750, NETWORK: 450 });
+        assert.equal(sumOfFlows(result), 1400);
+    });
+
+    it('leaves a pool whose tower weights sum to 0 unallocated', () => {
+        const unweighted = { ...inputs, l2: inputs.l2.map(w => ({ ...w, weightPct: 0 })) };
+        const result = computeWaterfall(unweighted);
+
+        // the business unit stage still records its empty flows
+        assert.deepEqual(result.flows.filter(flow => flow.amount !== 0), [
+            { costPool: 'LABOUR', tower: null, businessUnit: null, amount: 1000 },
+            { costPool: 'HOSTING', tower: null, businessUnit: null, amount: 400 },
+        ]);
+        assert.deepEqual(result.towers, { APP_DEV: 0, NETWORK: 0 });
+        assert.equal(result.unallocatedToTowers, 1400);
+        assert.equal(sumOfFlows(result), 1400);
+    });
+
+    it('keeps a tower\'s cost when its business unit weights sum to 0', () => {
+        const unweighted = { ...inputs, businessUnits: inputs.businessUnits!.map(u => ({ ...u, weightPct: 0 })) };
+        const result = computeWaterfall(unweighted);
+
+        assert.deepEqual(result.businessUnits.map(u => u.total), [0, 0]);
+        assert.deepEqual(result.unallocatedToBusinessUnits, { APP_DEV: 750, NETWORK: 450 });
+        assert.equal(sumOfFlows(result), 1400);
+    });
+
+    it('is empty with no cost pools', () => {
+        const result = computeWaterfall({ l1: [], l2: inputs.l2, businessUnits: inputs.businessUnits });
+
+        assert.equal(result.totalCost, 0);
+        assert.deepEqual(result.flows, []);
+        assert.deepEqual(result.businessUnits, []);
+        assert.equal(result.unallocatedToTowers, 0);
+    });
+});